@@ -1,15 +1,31 @@
 'use client';
 
+import { useState } from 'react';
 import { useCameras } from '@/hooks/useCameras';
 import { useClips } from '@/hooks/useClips';
 import { useSightings } from '@/hooks/useSightings';
 import { useIndividuals } from '@/hooks/useIndividuals';
+import { useModelAccuracy } from '@/hooks/useModelAccuracy';
+
+function formatSpecies(speciesId: string): string {
+  return speciesId.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
 
 export default function AnalyticsPage() {
   const { cameras } = useCameras();
   const { totalCount: clipsCount, todayCount: clipsToday } = useClips();
   const { speciesCount, todayCount: sightingsToday } = useSightings();
   const { count: namedBirdsCount } = useIndividuals();
+  const [selectedCameraId, setSelectedCameraId] = useState<string>('');
+  const accuracyCameraId = selectedCameraId || cameras[0]?.id;
+  const {
+    accuracy,
+    topConfusions,
+    overallAccuracy,
+    reviewedCount,
+    loading: accuracyLoading,
+  } = useModelAccuracy(accuracyCameraId);
+  const accuracyCamera = cameras.find((c) => c.id === accuracyCameraId);
 
   return (
     <div className="p-8">
@@ -70,6 +86,83 @@ export default function AnalyticsPage() {
         <p className="text-xs text-gray-400 mt-4 text-center">Sample data shown. Real analytics coming soon.</p>
       </div>
 
+      {/* Model Accuracy */}
+      <div className="bg-white rounded-xl p-6 mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Model Accuracy at This Feeder</h2>
+          {cameras.length > 1 && (
+            <select
+              value={accuracyCameraId || ''}
+              onChange={(e) => setSelectedCameraId(e.target.value)}
+              className="text-sm border border-gray-200 rounded-lg px-3 py-1.5"
+            >
+              {cameras.map((camera) => (
+                <option key={camera.id} value={camera.id}>{camera.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {!accuracyCameraId ? (
+          <p className="text-sm text-gray-500">Add a camera to track model accuracy.</p>
+        ) : accuracyLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : reviewedCount === 0 ? (
+          <p className="text-sm text-gray-500">
+            No reviewed sightings yet. Confirm or correct species on your sightings to measure accuracy.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-baseline gap-3 mb-6">
+              <div className="text-4xl font-bold text-emerald-600">
+                {Math.round((overallAccuracy ?? 0) * 100)}%
+              </div>
+              <div className="text-sm text-gray-500">
+                of {reviewedCount} reviewed sightings correct
+              </div>
+            </div>
+
+            <div className="h-40 flex items-end gap-2 mb-2">
+              {accuracy.slice(-12).map((point) => (
+                <div key={point.periodStart.getTime()} className="flex-1 flex flex-col items-center gap-2">
+                  <div
+                    className="w-full max-w-8 bg-emerald-500 rounded-t transition-all"
+                    style={{ height: `${Math.max(4, point.accuracy * 120)}px` }}
+                    title={`${point.correct}/${point.reviewed} correct`}
+                  ></div>
+                  <span className="text-xs text-gray-500">
+                    {point.periodStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mb-6">Weekly share of reviewed sightings the model identified correctly</p>
+
+            {topConfusions.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Most common mix-ups</h3>
+                <div className="space-y-2">
+                  {topConfusions.map((c) => (
+                    <div key={`${c.predicted}-${c.actual}`} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">
+                        {formatSpecies(c.predicted)} → <span className="font-medium">{formatSpecies(c.actual)}</span>
+                      </span>
+                      <span className="text-gray-500">{c.count}×</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {accuracyCamera?.speciesPriors && Object.keys(accuracyCamera.speciesPriors).length > 0 && (
+              <p className="text-xs text-gray-400 mt-4">
+                Species weights for this camera are tuned from {reviewedCount} reviews.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Peak Hours */}
       <div className="bg-white rounded-xl p-6">
         <h2 className="text-lg font-semibold mb-4">Peak Activity Hours</h2>
@@ -7,7 +7,12 @@ import { getCamera, updateCamera, deleteCamera } from '@/lib/services/cameras';
 import { saveBrowserSighting, subscribeToCameraSightings } from '@/lib/services/sightings';
 import { Camera, Sighting } from '@/types';
 import { LiveCameraView, StreamSettings, StreamConfig, DEFAULT_CONFIG, SightingData } from '@/components/stream';
-import { getBirdEmoji } from '@/lib/ml/classifier';
+import { getBirdEmoji, toSpeciesId } from '@/lib/ml/classifier';
+import { getBirdEmbedder } from '@/lib/ml/reid';
+import { identifySighting, confirmIndividual } from '@/lib/services/reid';
+import { useIndividuals } from '@/hooks/useIndividuals';
+import { useZones } from '@/hooks/useZones';
+import { OCCURRENCE_REGIONS, OccurrenceRegion, resolveRegion } from '@/lib/ml/occurrence';
 
 function CameraDetailContent() {
   const { user, loading: authLoading } = useAuth();
@@ -19,11 +24,14 @@ function CameraDetailContent() {
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [formData, setFormData] = useState({ name: '', locationLabel: '' });
+  const [formData, setFormData] = useState({ name: '', locationLabel: '', regionCode: '' });
   const [saving, setSaving] = useState(false);
   const [streamConfig, setStreamConfig] = useState<StreamConfig>(DEFAULT_CONFIG);
   const [recentSightings, setRecentSightings] = useState<Sighting[]>([]);
   const [sightingCount, setSightingCount] = useState(0);
+  const { individuals } = useIndividuals();
+  const { zones, addZone, removeZone } = useZones(cameraId || undefined);
+  const [editingZones, setEditingZones] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -55,7 +63,7 @@ function CameraDetailContent() {
     if (!camera || !user) return;
     
     try {
-      await saveBrowserSighting({
+      const sightingId = await saveBrowserSighting({
         cameraId: camera.id,
         userId: user.uid,
         species: sighting.species,
@@ -64,19 +72,42 @@ function CameraDetailContent() {
         snapshot: sighting.snapshot,
         trackId: `browser_${Date.now()}`,
         trackDuration: 0,
+        isRare: sighting.possibleRarity,
+        zoneId: sighting.zoneId,
       });
+
+      // Re-identify the individual from the snapshot (runs on CPU, off the detection path)
+      if (sighting.snapshot) {
+        const snapshot = sighting.snapshot;
+        getBirdEmbedder()
+          .then(async (embedder) => embedder && identifySighting(
+            user.uid,
+            { id: sightingId, speciesFinalId: toSpeciesId(sighting.species) },
+            await embedder.embedImage(snapshot),
+            embedder.getModelName()
+          ))
+          .catch((e) => console.warn('[ReID] Failed to identify sighting:', e));
+      }
     } catch (e) {
       console.error('Failed to save sighting:', e);
     }
   }, [camera, user]);
 
+  const handleAssignIndividual = useCallback(async (sightingId: string, individualId: string, confidence?: number) => {
+    try {
+      await confirmIndividual(sightingId, individualId, confidence);
+    } catch (e) {
+      console.error('Failed to assign individual:', e);
+    }
+  }, []);
+
   async function loadCamera() {
     if (!cameraId) return;
     try {
       const cam = await getCamera(cameraId);
       if (cam && cam.userId === user?.uid) {
         setCamera(cam);
-        setFormData({ name: cam.name, locationLabel: cam.locationLabel || '' });
+        setFormData({ name: cam.name, locationLabel: cam.locationLabel || '', regionCode: cam.regionCode || '' });
         // Load stream settings from camera if saved
         if (cam.streamSettings) {
           setStreamConfig({ ...DEFAULT_CONFIG, ...cam.streamSettings });
@@ -99,8 +130,9 @@ function CameraDetailContent() {
       await updateCamera(camera.id, {
         name: formData.name,
         locationLabel: formData.locationLabel || undefined,
+        regionCode: formData.regionCode || undefined,
       });
-      setCamera({ ...camera, name: formData.name, locationLabel: formData.locationLabel });
+      setCamera({ ...camera, name: formData.name, locationLabel: formData.locationLabel, regionCode: formData.regionCode });
       setEditing(false);
     } catch {
       alert('Failed to save');
@@ -175,6 +207,13 @@ function CameraDetailContent() {
                 config={streamConfig}
                 cameraId={camera.id}
                 userId={user?.uid}
+                speciesPriors={camera.speciesPriors}
+                region={(camera.regionCode as OccurrenceRegion | undefined) || resolveRegion(camera.locationLabel)}
+                zones={zones}
+                editingZones={editingZones}
+                onCreateZone={addZone}
+                onDeleteZone={removeZone}
+                onCloseZoneEditor={() => setEditingZones(false)}
                 onSighting={handleSighting}
                 className="aspect-video"
               />
@@ -219,6 +258,18 @@ function CameraDetailContent() {
                 ) : (
                   camera.locationLabel && <p className="text-gray-500">{camera.locationLabel}</p>
                 )}
+                {editing && (
+                  <select
+                    value={formData.regionCode}
+                    onChange={(e) => setFormData({ ...formData, regionCode: e.target.value })}
+                    className="block text-sm text-gray-600 border-b border-gray-300 focus:outline-none focus:border-emerald-500 mt-2"
+                  >
+                    <option value="">Region: auto (from location)</option>
+                    {Object.entries(OCCURRENCE_REGIONS).map(([code, label]) => (
+                      <option key={code} value={code}>{label}</option>
+                    ))}
+                  </select>
+                )}
               </div>
               <span className={`px-3 py-1 rounded-full text-sm font-medium ${
                 camera.status === 'active' ? 'bg-green-100 text-green-700' :
@@ -260,7 +311,7 @@ function CameraDetailContent() {
               {editing ? (
                 <>
                   <button
-                    onClick={() => { setEditing(false); setFormData({ name: camera.name, locationLabel: camera.locationLabel || '' }); }}
+                    onClick={() => { setEditing(false); setFormData({ name: camera.name, locationLabel: camera.locationLabel || '', regionCode: camera.regionCode || '' }); }}
                     className="px-4 py-2 border rounded-lg text-gray-600 hover:bg-gray-50"
                     disabled={saving}
                   >
@@ -282,6 +333,11 @@ function CameraDetailContent() {
                   <button onClick={() => setShowSettings(!showSettings)} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
                     ⚙️ Stream Settings
                   </button>
+                  {hasStreamConfig && !isYouTubeCamera && (
+                    <button onClick={() => setEditingZones(!editingZones)} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
+                      {editingZones ? 'Done Editing Zones' : `Edit Zones${zones.length ? ` (${zones.length})` : ''}`}
+                    </button>
+                  )}
                   <button onClick={handleDelete} className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg">
                     Delete
                   </button>
@@ -317,15 +373,56 @@ function CameraDetailContent() {
                     <div className="flex-1 min-w-0">
                       <div className="font-medium text-gray-900 truncate">
                         {sighting.speciesFinalId?.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()) || 'Unknown Bird'}
+                        {sighting.isRare && (
+                          <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-xs font-medium">
+                            Possible rarity
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-gray-500">
                         {sighting.speciesFinalConfidence 
                           ? `${Math.round((sighting.speciesFinalConfidence || 0) * 100)}% confidence`
                           : ''}
+                        {sighting.zoneId && ` · ${zones.find(z => z.id === sighting.zoneId)?.name || 'Zone'}`}
                       </div>
                       <div className="text-xs text-gray-400">
                         {sighting.detectedAt?.toLocaleString() || 'Unknown time'}
                       </div>
+                      {sighting.individualId ? (
+                        <div className="text-xs text-emerald-700 mt-1">
+                          🏷️ {individuals.find(i => i.id === sighting.individualId)?.displayName || 'Named bird'}
+                          {sighting.individualMatchConfidence !== undefined && sighting.individualMatchConfidence < 1 && (
+                            <span className="text-gray-400"> ({Math.round(sighting.individualMatchConfidence * 100)}% match)</span>
+                          )}
+                        </div>
+                      ) : individuals.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          {sighting.individualSuggestions?.map((s) => {
+                            const individual = individuals.find(i => i.id === s.individualId);
+                            if (!individual) return null;
+                            return (
+                              <button
+                                key={s.individualId}
+                                onClick={() => handleAssignIndividual(sighting.id, s.individualId, s.confidence)}
+                                className="px-2 py-0.5 bg-emerald-50 text-emerald-700 rounded-full text-xs hover:bg-emerald-100"
+                                title="Confirm this is the same bird"
+                              >
+                                {individual.displayName}? {Math.round(s.confidence * 100)}%
+                              </button>
+                            );
+                          })}
+                          <select
+                            value=""
+                            onChange={(e) => e.target.value && handleAssignIndividual(sighting.id, e.target.value)}
+                            className="text-xs text-gray-500 bg-transparent focus:outline-none"
+                          >
+                            <option value="">Assign to…</option>
+                            {individuals.map((i) => (
+                              <option key={i.id} value={i.id}>{i.displayName}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -1,17 +1,33 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { StreamPlayer, StreamMode } from './StreamPlayer';
+import { StreamPlayer, StreamMode, type SignedStreamUrl } from './StreamPlayer';
 import { VideoOverlay, Detection } from './VideoOverlay';
 import { StreamConfig, DEFAULT_CONFIG } from './StreamSettings';
 import { DeveloperOverlay } from './DeveloperOverlay';
+import { ZoneEditor, ZoneDraft } from './ZoneEditor';
 import { useDetectionPipeline } from '@/hooks/useDetectionPipeline';
 import { useClipRecorder } from '@/hooks/useClipRecorder';
+import { createBridgeClient, getBridgeWebrtcUrl } from '@/lib/services/bridge';
+import { getAllSpecies } from '@/lib/services/species';
+import type { GetWebrtcStatusResponse } from '@/lib/bridge-api';
+import type { OccurrenceRegion } from '@/lib/ml';
+import type { Zone } from '@/types';
+
+// How often the browser's detections are posted to the bridge's PTZ auto-tracker
+const TRACK_TARGET_INTERVAL_MS = 250;
 
 interface LiveCameraViewProps {
   config: Partial<StreamConfig>;
   cameraId?: string;
   userId?: string;
+  speciesPriors?: Record<string, number>;
+  region?: OccurrenceRegion | null;
+  zones?: Zone[];
+  editingZones?: boolean;
+  onCreateZone?: (zone: ZoneDraft) => Promise<unknown>;
+  onDeleteZone?: (zoneId: string) => Promise<void>;
+  onCloseZoneEditor?: () => void;
   onSighting?: (sighting: SightingData) => void;
   className?: string;
 }
@@ -22,13 +38,31 @@ export interface SightingData {
   confidence: number;
   bbox: { x: number; y: number; w: number; h: number };
   snapshot?: string; // base64 jpeg
+  possibleRarity?: boolean;
+  zoneId?: string;
 }
 
-export function LiveCameraView({ config: partialConfig, cameraId, userId, onSighting, className = '' }: LiveCameraViewProps) {
+export function LiveCameraView({
+  config: partialConfig,
+  cameraId,
+  userId,
+  speciesPriors,
+  region,
+  zones,
+  editingZones = false,
+  onCreateZone,
+  onDeleteZone,
+  onCloseZoneEditor,
+  onSighting,
+  className = '',
+}: LiveCameraViewProps) {
   const config: StreamConfig = { ...DEFAULT_CONFIG, ...partialConfig };
   
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
   const [activeMode, setActiveMode] = useState<'hls' | 'webrtc' | null>(null);
+  const [webrtcStatus, setWebrtcStatus] = useState<GetWebrtcStatusResponse | null>(null);
+  const [bridgeAutoTrack, setBridgeAutoTrack] = useState(false);
+  const lastTrackTargetAt = useRef(0);
   
   // Clip recorder hook
   const {
@@ -49,11 +83,15 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
     isLoading,
     isRunning,
     error: pipelineError,
+    setConfig: setPipelineConfig,
   } = useDetectionPipeline({
     targetFps: 5,
     detectionThreshold: config.detectionThreshold,
     classificationThreshold: config.classificationThreshold,
     enableClassification: true,
+    speciesPriors,
+    region,
+    zones,
     onSighting: (sighting) => {
       onSighting?.({
         timestamp: sighting.timestamp,
@@ -61,6 +99,8 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
         confidence: sighting.confidence,
         bbox: sighting.bbox,
         snapshot: sighting.snapshot,
+        possibleRarity: sighting.possibleRarity,
+        zoneId: sighting.zoneId,
       });
       
       // Trigger clip recording if we have camera/user context
@@ -72,11 +112,45 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
           confidence: sighting.confidence,
           bbox: sighting.bbox,
           snapshot: sighting.snapshot,
+          zoneId: sighting.zoneId,
         }).catch(err => console.error('[LiveCameraView] Clip capture error:', err));
       }
     },
   });
 
+  // Apply priors learned from corrections at this camera as they update
+  useEffect(() => {
+    if (speciesPriors) {
+      setPipelineConfig({ speciesPriors });
+    }
+  }, [speciesPriors, setPipelineConfig]);
+
+  useEffect(() => {
+    setPipelineConfig({ region: region ?? null });
+  }, [region, setPipelineConfig]);
+
+  // Ranges of species in the species collection override the bundled table
+  useEffect(() => {
+    if (!region) return;
+    let cancelled = false;
+    getAllSpecies()
+      .then((species) => {
+        if (cancelled) return;
+        setPipelineConfig({
+          speciesRegions: Object.fromEntries(species.map((s) => [s.commonName, s.regionCodes ?? []])),
+        });
+      })
+      .catch((err) => console.warn('[LiveCameraView] Failed to load species ranges:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [region, setPipelineConfig]);
+
+  // Only look for birds where the camera's zones allow
+  useEffect(() => {
+    setPipelineConfig({ zones: zones ?? [] });
+  }, [zones, setPipelineConfig]);
+
   // Convert raw detections to overlay format
   const detections: Detection[] = rawDetections.map(d => ({
     id: d.id,
@@ -109,6 +183,58 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
   const isGo2rtc = config.gatewayUrl?.includes(':1984') || config.gatewayUrl?.includes('go2rtc');
   const streamName = config.streamPath || 'birdcam';
 
+  // Pi-bridge hands out signed stream URLs; the request carries the API key or,
+  // without one, the signed-in user's Firebase ID token
+  const isPiBridge = !!config.gatewayUrl && !isGo2rtc && !config.streamPath && !config.gatewayUrl.endsWith('.m3u8');
+  const bridge = isPiBridge ? createBridgeClient(config.gatewayUrl, config.apiKey) : null;
+  const signStreamUrl = bridge
+    ? async (): Promise<SignedStreamUrl> => {
+        const { url, expiresAt } = await bridge.getStreamUrl();
+        return { url: bridge.resolveUrl(url), expiresAt };
+      }
+    : undefined;
+
+  // Ask the pi-bridge whether go2rtc is running, and on which port
+  useEffect(() => {
+    if (!isPiBridge) return;
+    let cancelled = false;
+    createBridgeClient(config.gatewayUrl, config.apiKey).getWebrtcStatus()
+      .then((status) => {
+        if (!cancelled) setWebrtcStatus(status);
+      })
+      .catch((err) => console.warn('[LiveCameraView] WebRTC status unavailable:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isPiBridge, config.gatewayUrl, config.apiKey]);
+
+  // Let the browser's detections steer the bridge's PTZ when auto-tracking is on there
+  useEffect(() => {
+    if (!isPiBridge) return;
+    let cancelled = false;
+    createBridgeClient(config.gatewayUrl, config.apiKey).getAutoTracking()
+      .then((status) => {
+        if (!cancelled) setBridgeAutoTrack(status.enabled);
+      })
+      .catch((err) => console.warn('[LiveCameraView] Auto-tracking status unavailable:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isPiBridge, config.gatewayUrl, config.apiKey]);
+
+  useEffect(() => {
+    if (!bridgeAutoTrack || rawDetections.length === 0) return;
+    const now = Date.now();
+    if (now - lastTrackTargetAt.current < TRACK_TARGET_INTERVAL_MS) return;
+    lastTrackTargetAt.current = now;
+
+    const best = rawDetections.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    const bbox = { x: clamp(best.bbox.x), y: clamp(best.bbox.y), w: clamp(best.bbox.w), h: clamp(best.bbox.h) };
+    createBridgeClient(config.gatewayUrl, config.apiKey).trackTarget({ bbox })
+      .catch((err) => console.warn('[LiveCameraView] Failed to send tracking target:', err));
+  }, [bridgeAutoTrack, rawDetections, config.gatewayUrl, config.apiKey]);
+
   const buildHlsUrl = () => {
     if (!config.gatewayUrl) return undefined;
     
@@ -127,7 +253,7 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
         : `${config.gatewayUrl}/stream.m3u8`;
     }
     
-    return addApiKey(url);
+    return isPiBridge ? url : addApiKey(url);
   };
   
   const hlsUrl = buildHlsUrl();
@@ -139,9 +265,13 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
       // go2rtc WHEP endpoint
       const base = config.gatewayUrl.replace(/\/$/, '');
       return addApiKey(`${base}/api/webrtc?src=${streamName}`);
+    } else if (isPiBridge) {
+      // go2rtc next to the pi-bridge, on the port it reports (needs no key);
+      // skipped if the bridge says go2rtc isn't running
+      if (webrtcStatus && !webrtcStatus.available) return undefined;
+      return getBridgeWebrtcUrl(config.gatewayUrl, webrtcStatus?.go2rtcPort);
     } else {
-      // Pi-bridge style (convert 8080 to 1984)
-      return addApiKey(`${config.gatewayUrl.replace(':8080', ':1984')}/api/webrtc?src=birdcam`);
+      return `${config.gatewayUrl.replace(':8080', ':1984')}/api/webrtc?src=birdcam`;
     }
   };
   
@@ -198,6 +328,7 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
       <StreamPlayer
         hlsUrl={hlsUrl}
         webrtcUrl={webrtcUrl}
+        signStreamUrl={signStreamUrl}
         mode={config.mode}
         onVideoReady={handleVideoReady}
         onModeChange={handleModeChange}
@@ -214,6 +345,17 @@ export function LiveCameraView({ config: partialConfig, cameraId, userId, onSigh
         />
       )}
 
+      {/* Zone editor */}
+      {editingZones && onCreateZone && onDeleteZone && (
+        <ZoneEditor
+          videoElement={videoElement}
+          zones={zones ?? []}
+          onCreate={onCreateZone}
+          onDelete={onDeleteZone}
+          onClose={onCloseZoneEditor}
+        />
+      )}
+
       {/* Developer Overlay */}
       {config.developerMode && (
         <DeveloperOverlay
@@ -204,6 +204,11 @@ export function SightingsActivity({ userId, maxItems = 10, className = '' }: Sig
                     <span className="text-xs text-gray-400 flex-shrink-0">
                       {Math.round(confidence * 100)}%
                     </span>
+                    {sighting.isRare && (
+                      <span className="px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded text-xs flex-shrink-0">
+                        Rare?
+                      </span>
+                    )}
                   </div>
                   <div className="text-xs text-gray-400">
                     {sighting.detectedAt ? timeAgo(sighting.detectedAt) : 'Unknown'}
@@ -5,9 +5,16 @@ import Hls from 'hls.js';
 
 export type StreamMode = 'hls' | 'webrtc' | 'auto';
 
+export interface SignedStreamUrl {
+  url: string;        // Absolute
+  expiresAt: number;  // Unix ms
+}
+
 interface StreamPlayerProps {
   hlsUrl?: string;
   webrtcUrl?: string;
+  /** Fetches a short-lived signed HLS URL from the pi-bridge, so credentials stay out of media URLs */
+  signStreamUrl?: () => Promise<SignedStreamUrl>;
   mode?: StreamMode;
   autoPlay?: boolean;
   muted?: boolean;
@@ -20,6 +27,7 @@ interface StreamPlayerProps {
 export function StreamPlayer({
   hlsUrl,
   webrtcUrl,
+  signStreamUrl,
   mode = 'auto',
   autoPlay = true,
   muted = true,
@@ -31,13 +39,26 @@ export function StreamPlayer({
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
   const pcRef = useRef<RTCPeerConnection | null>(null);
+  const signedRef = useRef<SignedStreamUrl | null>(null);
+  const signTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const signStreamUrlRef = useRef(signStreamUrl);
+  const canSign = !!signStreamUrl;
   
   const [activeMode, setActiveMode] = useState<'hls' | 'webrtc' | null>(null);
   const [status, setStatus] = useState<'connecting' | 'playing' | 'error'>('connecting');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
+  useEffect(() => {
+    signStreamUrlRef.current = signStreamUrl;
+  }, [signStreamUrl]);
+
   // Cleanup function
   const cleanup = useCallback(() => {
+    if (signTimerRef.current) {
+      clearTimeout(signTimerRef.current);
+      signTimerRef.current = null;
+    }
+    signedRef.current = null;
     if (hlsRef.current) {
       hlsRef.current.destroy();
       hlsRef.current = null;
@@ -48,14 +69,39 @@ export function StreamPlayer({
     }
   }, []);
 
+  // Fetch a signed playlist URL and re-sign a minute before it expires
+  const signStream = useCallback(async (): Promise<string> => {
+    const sign = async (): Promise<string> => {
+      const fetchSigned = signStreamUrlRef.current;
+      if (!fetchSigned) throw new Error('No stream signer');
+      const signed = await fetchSigned();
+      signedRef.current = signed;
+
+      if (signTimerRef.current) clearTimeout(signTimerRef.current);
+      signTimerRef.current = setTimeout(() => {
+        sign().then((url) => {
+          // Native HLS can't swap the playlist URL, so reload with the new one
+          if (!hlsRef.current && videoRef.current?.src) videoRef.current.src = url;
+        }).catch((e) => console.error('Stream re-sign error:', e));
+      }, Math.max(signed.expiresAt - Date.now() - 60_000, 10_000));
+
+      return signed.url;
+    };
+
+    return sign();
+  }, []);
+
   // HLS playback
   const startHls = useCallback(async () => {
     if (!hlsUrl || !videoRef.current) return false;
 
     try {
+      const source = canSign ? await signStream() : hlsUrl;
+      if (!videoRef.current) return false;
+
       // Check if native HLS is supported (Safari)
       if (videoRef.current.canPlayType('application/vnd.apple.mpegurl')) {
-        videoRef.current.src = hlsUrl;
+        videoRef.current.src = source;
         await videoRef.current.play();
         setActiveMode('hls');
         setStatus('playing');
@@ -70,6 +116,13 @@ export function StreamPlayer({
           enableWorker: true,
           lowLatencyMode: true,
           backBufferLength: 30,
+          // Playlist reloads use the latest signature; segments are signed in the playlist
+          xhrSetup: (xhr, url) => {
+            const signed = signedRef.current;
+            if (signed && url.split('?')[0] === signed.url.split('?')[0]) {
+              xhr.open('GET', signed.url, true);
+            }
+          },
         });
         
         hlsRef.current = hls;
@@ -95,7 +148,7 @@ export function StreamPlayer({
           }
         });
 
-        hls.loadSource(hlsUrl);
+        hls.loadSource(source);
         hls.attachMedia(videoRef.current);
         return true;
       }
@@ -105,7 +158,7 @@ export function StreamPlayer({
       console.error('HLS start error:', e);
       return false;
     }
-  }, [hlsUrl, onError, onModeChange, onVideoReady]);
+  }, [hlsUrl, canSign, signStream, onError, onModeChange, onVideoReady]);
 
   // WebRTC playback
   const startWebRTC = useCallback(async () => {
@@ -2,12 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { StreamMode } from './StreamPlayer';
+import { createBridgeClient, getBridgeWebrtcUrl } from '@/lib/services/bridge';
+import type { Health, GetWebrtcStatusResponse } from '@/lib/bridge-api';
 
 export interface StreamConfig {
   mode: StreamMode;
   gatewayUrl: string;
   streamPath: string;
-  apiKey?: string;  // For authenticated streams (pi-bridge)
+  apiKey?: string;  // Pi-bridge key or token, used to fetch signed stream URLs
   mlEnabled: boolean;
   detectionThreshold: number;
   classificationThreshold: number;
@@ -15,6 +17,11 @@ export interface StreamConfig {
   developerMode: boolean;
 }
 
+interface BridgeCheck {
+  health: Health;
+  webrtc: GetWebrtcStatusResponse;
+}
+
 interface StreamSettingsProps {
   config: StreamConfig;
   onSave: (config: StreamConfig) => Promise<void>;
@@ -37,6 +44,9 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
   const [config, setConfig] = useState<StreamConfig>({ ...DEFAULT_CONFIG, ...initialConfig });
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [bridgeCheck, setBridgeCheck] = useState<BridgeCheck | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
 
   useEffect(() => {
     setConfig({ ...DEFAULT_CONFIG, ...initialConfig });
@@ -59,6 +69,30 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
 
   const isGo2rtc = config.gatewayUrl?.includes(':1984') || config.gatewayUrl?.includes('go2rtc');
   const streamName = config.streamPath || 'birdcam';
+  const isPiBridge = !!config.gatewayUrl && !isGo2rtc && !config.streamPath && !config.gatewayUrl.endsWith('.m3u8');
+
+  // Forget the last check when the connection details change
+  const updateConnection = (changes: Partial<StreamConfig>) => {
+    setConfig({ ...config, ...changes });
+    setBridgeCheck(null);
+    setCheckError(null);
+  };
+
+  // Ask the pi-bridge what it is actually serving instead of guessing
+  const handleCheckConnection = async () => {
+    setChecking(true);
+    setCheckError(null);
+    try {
+      const client = createBridgeClient(config.gatewayUrl, config.apiKey);
+      const [health, webrtc] = await Promise.all([client.getHealth(), client.getWebrtcStatus()]);
+      setBridgeCheck({ health, webrtc });
+    } catch (e) {
+      setBridgeCheck(null);
+      setCheckError(e instanceof Error ? e.message : 'Could not reach the pi-bridge');
+    } finally {
+      setChecking(false);
+    }
+  };
   
   const getHlsUrl = () => {
     if (!config.gatewayUrl) return 'Not configured';
@@ -77,6 +111,10 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
       const base = config.gatewayUrl.replace(/\/$/, '');
       return `${base}/api/webrtc?src=${streamName}`;
     }
+    if (isPiBridge) {
+      if (bridgeCheck && !bridgeCheck.webrtc.available) return 'Not available (go2rtc is not running)';
+      return getBridgeWebrtcUrl(config.gatewayUrl, bridgeCheck?.webrtc.go2rtcPort);
+    }
     return `${config.gatewayUrl.replace(':8080', ':1984')}/api/webrtc?src=birdcam`;
   };
 
@@ -119,7 +157,7 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
         <input
           type="text"
           value={config.gatewayUrl}
-          onChange={(e) => setConfig({ ...config, gatewayUrl: e.target.value })}
+          onChange={(e) => updateConnection({ gatewayUrl: e.target.value })}
           placeholder="http://192.168.1.100:8080"
           className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 font-mono text-sm"
         />
@@ -136,7 +174,7 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
         <input
           type="text"
           value={config.streamPath}
-          onChange={(e) => setConfig({ ...config, streamPath: e.target.value })}
+          onChange={(e) => updateConnection({ streamPath: e.target.value })}
           placeholder="cam1 (leave empty for pi-bridge)"
           className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 font-mono text-sm"
         />
@@ -154,15 +192,39 @@ export function StreamSettings({ config: initialConfig, onSave, className = '' }
         <input
           type="password"
           value={config.apiKey || ''}
-          onChange={(e) => setConfig({ ...config, apiKey: e.target.value })}
+          onChange={(e) => updateConnection({ apiKey: e.target.value })}
           placeholder="For authenticated streams"
           className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 font-mono text-sm"
         />
         <p className="text-xs text-gray-500 mt-1">
-          Pi-bridge requires API key for stream access
+          Leave empty to use your sign-in (camera owner or shared users). Otherwise sent as a header to get short-lived signed stream URLs from the pi-bridge; a viewer token scoped to <code>stream</code> is enough.
         </p>
       </div>
 
+      {/* Pi-bridge connection check */}
+      {isPiBridge && (
+        <div className="mb-4">
+          <button
+            onClick={handleCheckConnection}
+            disabled={checking}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            {checking ? 'Checking...' : 'Check connection'}
+          </button>
+          {bridgeCheck && (
+            <p className="text-xs text-emerald-700 mt-2">
+              ✓ Connected to {bridgeCheck.health.deviceId} •{' '}
+              {bridgeCheck.health.streaming ? `streaming (${bridgeCheck.health.streamStats.fps} fps)` : 'not streaming'} •{' '}
+              mode {bridgeCheck.health.streamMode.toUpperCase()} •{' '}
+              {bridgeCheck.webrtc.available ? `WebRTC on port ${bridgeCheck.webrtc.go2rtcPort}` : 'WebRTC unavailable'}
+            </p>
+          )}
+          {checkError && (
+            <p className="text-xs text-red-600 mt-2">✗ {checkError}</p>
+          )}
+        </div>
+      )}
+
       <hr className="my-6" />
 
       {/* ML Settings */}
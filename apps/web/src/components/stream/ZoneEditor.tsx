@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Zone } from '@/types';
+
+type ZonePoint = Zone['polygon'][number];
+
+export interface ZoneDraft {
+  name: string;
+  type: Zone['type'];
+  polygon: ZonePoint[];
+  sensitivity?: number;
+}
+
+interface ZoneEditorProps {
+  videoElement: HTMLVideoElement | null;
+  zones: Zone[];
+  onCreate: (zone: ZoneDraft) => Promise<unknown>;
+  onDelete: (zoneId: string) => Promise<void>;
+  onClose?: () => void;
+}
+
+const ZONE_COLORS: Record<Zone['type'], string> = {
+  detect: '#10b981',
+  ignore: '#f59e0b',
+  privacy: '#6b7280',
+};
+
+const ZONE_TYPE_LABELS: Record<Zone['type'], string> = {
+  detect: 'Detect',
+  ignore: 'Ignore',
+  privacy: 'Privacy',
+};
+
+// Video display area inside the player, as % of the player (handles letterboxing)
+interface DisplayFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const FULL_FRAME: DisplayFrame = { left: 0, top: 0, width: 100, height: 100 };
+
+function getDisplayFrame(video: HTMLVideoElement): DisplayFrame {
+  const rect = video.getBoundingClientRect();
+  if (!video.videoWidth || !video.videoHeight || !rect.width || !rect.height) return FULL_FRAME;
+
+  const videoAspect = video.videoWidth / video.videoHeight;
+  const boxAspect = rect.width / rect.height;
+
+  if (videoAspect > boxAspect) {
+    // Video is wider - letterbox top/bottom
+    const height = (boxAspect / videoAspect) * 100;
+    return { left: 0, top: (100 - height) / 2, width: 100, height };
+  }
+  // Video is taller - letterbox left/right
+  const width = (videoAspect / boxAspect) * 100;
+  return { left: (100 - width) / 2, top: 0, width, height: 100 };
+}
+
+/**
+ * Polygon zone editor drawn over the live stream.
+ * Click to add points, then name the zone and pick what it's for.
+ */
+export function ZoneEditor({ videoElement, zones, onCreate, onDelete, onClose }: ZoneEditorProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [frame, setFrame] = useState<DisplayFrame>(FULL_FRAME);
+  const [drawing, setDrawing] = useState(false);
+  const [points, setPoints] = useState<ZonePoint[]>([]);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<Zone['type']>('detect');
+  const [sensitivity, setSensitivity] = useState(50);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the overlay aligned with the video picture
+  useEffect(() => {
+    if (!videoElement) return;
+
+    const update = () => setFrame(getDisplayFrame(videoElement));
+    const observer = new ResizeObserver(update);
+    observer.observe(videoElement);
+    videoElement.addEventListener('loadedmetadata', update);
+    videoElement.addEventListener('resize', update);
+
+    return () => {
+      observer.disconnect();
+      videoElement.removeEventListener('loadedmetadata', update);
+      videoElement.removeEventListener('resize', update);
+    };
+  }, [videoElement]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!drawing || !frameRef.current) return;
+
+    const rect = frameRef.current.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+
+    setPoints((prev) => [...prev, { x: Math.round(x * 1000) / 1000, y: Math.round(y * 1000) / 1000 }]);
+  }, [drawing]);
+
+  const resetDraft = () => {
+    setDrawing(false);
+    setPoints([]);
+    setName('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (points.length < 3) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onCreate({
+        name: name.trim() || `${ZONE_TYPE_LABELS[type]} zone ${zones.length + 1}`,
+        type,
+        polygon: points,
+        ...(type === 'detect' ? { sensitivity } : {}),
+      });
+      resetDraft();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save zone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: Zone) => {
+    if (!confirm(`Delete zone "${zone.name}"?`)) return;
+    try {
+      await onDelete(zone.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete zone');
+    }
+  };
+
+  const toPoints = (polygon: ZonePoint[]) => polygon.map((p) => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <div className="absolute inset-0 z-10">
+      {/* Drawing surface, aligned to the video picture */}
+      <div
+        ref={frameRef}
+        onClick={handleClick}
+        className={`absolute ${drawing ? 'cursor-crosshair' : ''}`}
+        style={{ left: `${frame.left}%`, top: `${frame.top}%`, width: `${frame.width}%`, height: `${frame.height}%` }}
+      >
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="w-full h-full">
+          {zones.map((zone) => (
+            <polygon
+              key={zone.id}
+              points={toPoints(zone.polygon)}
+              fill={ZONE_COLORS[zone.type]}
+              fillOpacity={zone.type === 'privacy' ? 0.6 : 0.25}
+              stroke={ZONE_COLORS[zone.type]}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {points.length > 0 && (
+            <polyline
+              points={toPoints(points.length >= 3 ? [...points, points[0]] : points)}
+              fill={points.length >= 3 ? ZONE_COLORS[type] : 'none'}
+              fillOpacity={0.2}
+              stroke="#ffffff"
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {points.map((p, i) => (
+          <span
+            key={i}
+            className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-white border border-gray-900 pointer-events-none"
+            style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+          />
+        ))}
+        {zones.map((zone) => (
+          <span
+            key={zone.id}
+            className="absolute px-1.5 py-0.5 rounded text-[10px] text-white bg-black/60 pointer-events-none"
+            style={{ left: `${zone.polygon[0].x * 100}%`, top: `${zone.polygon[0].y * 100}%` }}
+          >
+            {zone.name}
+          </span>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="absolute top-2 right-2 w-60 bg-gray-900/90 text-white text-sm rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">Zones</span>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">
+              Done
+            </button>
+          )}
+        </div>
+
+        {zones.length === 0 && !drawing && (
+          <p className="text-xs text-gray-400">
+            No zones yet - the whole frame is watched.
+          </p>
+        )}
+
+        {zones.length > 0 && (
+          <ul className="space-y-1">
+            {zones.map((zone) => (
+              <li key={zone.id} className="flex items-center gap-2 text-xs">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: ZONE_COLORS[zone.type] }} />
+                <span className="flex-1 truncate">{zone.name}</span>
+                <span className="text-gray-400">{ZONE_TYPE_LABELS[zone.type]}</span>
+                <button onClick={() => handleDelete(zone)} className="text-red-400 hover:text-red-300">
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!drawing ? (
+          <button
+            onClick={() => setDrawing(true)}
+            className="w-full px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded text-xs font-medium"
+          >
+            + New Zone
+          </button>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">
+              Click on the video to add points ({points.length} so far, 3+ needed).
+            </p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Zone name"
+              className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs"
+            />
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as Zone['type'])}
+              className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs"
+            >
+              <option value="detect">Detect - only look for birds here</option>
+              <option value="ignore">Ignore - skip motion and detections</option>
+              <option value="privacy">Privacy - blacked out in streams and clips</option>
+            </select>
+            {type === 'detect' && (
+              <label className="block text-xs text-gray-400">
+                Sensitivity: {sensitivity}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={sensitivity}
+                  onChange={(e) => setSensitivity(Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPoints((prev) => prev.slice(0, -1))}
+                disabled={points.length === 0}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+              >
+                Undo
+              </button>
+              <button
+                onClick={resetDraft}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={points.length < 3 || saving}
+                className="flex-1 px-2 py-1 bg-emerald-600 hover:bg-emerald-700 rounded text-xs font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
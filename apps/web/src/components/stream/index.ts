@@ -8,3 +8,5 @@ export { LiveCameraView } from './LiveCameraView';
 export type { SightingData } from './LiveCameraView';
 export { DeveloperOverlay } from './DeveloperOverlay';
 export { SightingsActivity } from './SightingsActivity';
+export { ZoneEditor } from './ZoneEditor';
+export type { ZoneDraft } from './ZoneEditor';
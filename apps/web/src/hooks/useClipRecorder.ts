@@ -17,6 +17,7 @@ interface UseClipRecorderReturn {
     confidence: number;
     bbox: { x: number; y: number; w: number; h: number };
     snapshot?: string;
+    zoneId?: string;
   }) => Promise<ClipMetadata | null>;
   isCapturing: boolean;
   isSupported: boolean;
@@ -60,6 +61,7 @@ export function useClipRecorder(
     confidence: number;
     bbox: { x: number; y: number; w: number; h: number };
     snapshot?: string;
+    zoneId?: string;
   }): Promise<ClipMetadata | null> => {
     if (!recorderRef.current) return null;
     
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  getCameraCorrections,
+  buildConfusionMatrix,
+  getAccuracyOverTime,
+  getTopConfusions,
+} from '@/lib/services/corrections';
+import { SpeciesCorrection } from '@/types';
+
+/**
+ * Species model accuracy at one camera, from reviewed sightings
+ */
+export function useModelAccuracy(cameraId?: string, bucket: 'day' | 'week' = 'week') {
+  const [result, setResult] = useState<{ cameraId?: string; corrections: SpeciesCorrection[] }>({
+    corrections: [],
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cameraId) return;
+
+    let cancelled = false;
+    getCameraCorrections(cameraId)
+      .then((corrections) => {
+        if (cancelled) return;
+        setResult({ cameraId, corrections });
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setResult({ cameraId, corrections: [] });
+        setError(err instanceof Error ? err.message : 'Failed to load corrections');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId]);
+
+  const corrections = useMemo(
+    () => (result.cameraId === cameraId ? result.corrections : []),
+    [result, cameraId]
+  );
+  const matrix = useMemo(() => buildConfusionMatrix(corrections), [corrections]);
+  const accuracy = useMemo(() => getAccuracyOverTime(corrections, bucket), [corrections, bucket]);
+  const topConfusions = useMemo(() => getTopConfusions(matrix), [matrix]);
+
+  return {
+    matrix,
+    accuracy,
+    topConfusions,
+    overallAccuracy: matrix.total > 0 ? matrix.correct / matrix.total : null,
+    reviewedCount: matrix.total,
+    loading: !!cameraId && result.cameraId !== cameraId,
+    error,
+  };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { subscribeToCameraZones, createZone, deleteZone } from '@/lib/services/cameras';
+import { Zone } from '@/types';
+
+/**
+ * Detect/ignore/privacy zones of one camera, kept in sync with Firestore
+ * (the pi-bridge follows the same subcollection)
+ */
+export function useZones(cameraId?: string) {
+  const [result, setResult] = useState<{ cameraId?: string; zones: Zone[] }>({ zones: [] });
+
+  useEffect(() => {
+    if (!cameraId) return;
+
+    const unsubscribe = subscribeToCameraZones(cameraId, (zones) => {
+      setResult({ cameraId, zones });
+    });
+
+    return () => unsubscribe();
+  }, [cameraId]);
+
+  const zones = useMemo(
+    () => (result.cameraId === cameraId ? result.zones : []),
+    [result, cameraId]
+  );
+
+  const addZone = useCallback(
+    async (data: { name: string; type: Zone['type']; polygon: Zone['polygon']; sensitivity?: number }) => {
+      if (!cameraId) throw new Error('No camera selected');
+      return createZone(cameraId, data);
+    },
+    [cameraId]
+  );
+
+  const removeZone = useCallback(
+    async (zoneId: string) => {
+      if (!cameraId) throw new Error('No camera selected');
+      await deleteZone(cameraId, zoneId);
+    },
+    [cameraId]
+  );
+
+  return {
+    zones,
+    loading: !!cameraId && result.cameraId !== cameraId,
+    addZone,
+    removeZone,
+  };
+}
@@ -0,0 +1,2046 @@
+/**
+ * Pi Bridge API client
+ *
+ * GENERATED by packages/pi-bridge (npm run generate:client) from the
+ * bridge's route table (src/api-routes.ts). Do not edit by hand.
+ */
+
+// ==================== Schemas ====================
+
+/** Error response (4xx/5xx) */
+export interface ApiError {
+  success?: boolean;
+  error: string;
+  hint?: string;
+}
+
+export interface SuccessResponse {
+  success: boolean;
+}
+
+export interface StreamStats {
+  fps: number;
+  bitrate: string;
+  frames: number;
+  time: string;
+}
+
+export interface StorageStats {
+  usedMb: number;
+  maxMb: number;
+  clipCount: number;
+  snapshotCount: number;
+}
+
+export interface OutboxStats {
+  depth: number;
+  byType: Record<string, number>;
+  oldestItemAt: string | null;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  online: boolean;
+}
+
+export interface CameraStatus {
+  id: string;
+  name: string;
+  default: boolean;
+  enabled: boolean;
+  streaming: boolean;
+  streamStats: StreamStats;
+  hlsUrl: string;
+  motionDetection: boolean;
+  cameraEvents: boolean;
+  recording: boolean;
+  ptz: boolean;
+  imaging: boolean;
+}
+
+export interface CameraEntry {
+  id: string;
+  name: string;
+  /** rtsp:// or rtsps:// URL, resolved through ONVIF when empty */
+  rtspUrl?: string;
+  onvif?: {
+    host: string;
+    port?: number;
+    username?: string;
+    password?: string;
+    profileToken?: string;
+  };
+  ptzMode?: 'onvif' | 'amcrest' | 'simulated' | 'none';
+  /** Amcrest CGI channel */
+  channel?: number;
+  motion?: MotionConfigUpdate;
+  motionSource?: 'ffmpeg' | 'onvif' | 'both';
+  /** Paint the default camera's privacy zones into this camera's video (default: false) */
+  privacyMask?: boolean;
+  enabled?: boolean;
+}
+
+export interface Health {
+  status: string;
+  timestamp: string;
+  deviceId: string;
+  uptime: number;
+  streaming: boolean;
+  streamStats: StreamStats;
+  webrtc: boolean;
+  streamMode: 'webrtc' | 'hls' | 'auto';
+  motionDetection: boolean;
+  recording: boolean;
+  storage: StorageStats;
+  sync: OutboxStats | null;
+  storageBackend: string;
+}
+
+export interface StreamProbe {
+  codec: string;
+  resolution: string;
+  fps: number;
+}
+
+export interface Principal {
+  kind: 'admin' | 'api-key' | 'user' | 'token' | 'firebase' | 'signed-url' | 'anonymous';
+  name: string;
+  role: 'viewer' | 'operator' | 'admin';
+  scopes: Array<'stream' | 'ptz' | 'recording' | 'settings'>;
+  tokenId?: string;
+}
+
+export interface User {
+  username: string;
+  role: 'viewer' | 'operator' | 'admin';
+  createdAt: string;
+}
+
+export interface TokenInfo {
+  id: string;
+  name: string;
+  /** First characters of the token */
+  prefix: string;
+  role: 'viewer' | 'operator' | 'admin';
+  scopes: Array<'stream' | 'ptz' | 'recording' | 'settings'>;
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;
+  kind: string;
+  role: 'viewer' | 'operator' | 'admin';
+  tokenId?: string;
+  method: string;
+  route: string;
+  params?: Record<string, unknown>;
+  status: number;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  ip?: string;
+}
+
+export interface AuditStats {
+  path: string;
+  files: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  maxFiles: number;
+  mirrorToFirestore: boolean;
+}
+
+export interface SignedUrl {
+  /** Path with exp and sig query parameters */
+  url: string;
+  /** Unix ms */
+  expiresAt: number;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  path: string;
+  timestamp: string;
+  size: number;
+}
+
+export interface ClipInfo {
+  id: string;
+  path: string;
+  startTime: string;
+  duration: number;
+  trigger: 'motion' | 'manual' | 'scheduled';
+  size: number;
+  thumbnail?: string;
+  triggerTime?: string;
+  /** Seconds into the clip where the trigger fired */
+  triggerOffset?: number;
+  sightingIds?: string[];
+  zoneId?: string;
+  remote?: {
+    backend: string;
+    clipKey?: string;
+    clipUrl?: string;
+    thumbnailKey?: string;
+    thumbnailUrl?: string;
+    uploadedAt: string;
+  };
+}
+
+export interface ClipSession {
+  clipId: string;
+  startedAt: string;
+  lastEventAt: string;
+  eventCount: number;
+  sources: Array<'motion' | 'bird'>;
+  sightingIds: string[];
+  zoneId?: string;
+}
+
+/** Normalized 0-1, top-left origin */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface MotionRegion {
+  id: string;
+  name?: string;
+  type: 'include' | 'exclude';
+  polygon: Point[];
+  sensitivity?: number;
+}
+
+export interface MotionConfig {
+  enabled: boolean;
+  /** 0-100, higher = more sensitive */
+  sensitivity: number;
+  /** Minimum % of a region's pixels changed to trigger */
+  threshold: number;
+  cooldownMs: number;
+  minDurationMs: number;
+  fps: number;
+  frameWidth: number;
+  frameHeight: number;
+  backgroundAlpha: number;
+  debug?: boolean;
+  regions?: MotionRegion[];
+}
+
+export interface MotionConfigUpdate {
+  enabled?: boolean;
+  sensitivity?: number;
+  threshold?: number;
+  cooldownMs?: number;
+  minDurationMs?: number;
+  fps?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  backgroundAlpha?: number;
+  debug?: boolean;
+  regions?: MotionRegion[];
+}
+
+export interface OnvifEvent {
+  topic: string;
+  kind: 'motion' | 'line' | 'intrusion' | 'tamper' | 'other';
+  time: string;
+  operation: string;
+  source: Record<string, string>;
+  data: Record<string, string>;
+  active: boolean | null;
+}
+
+export interface OnvifEventStatus {
+  running: boolean;
+  connected: boolean;
+  subscription: string | null;
+  types: string[];
+  eventCount: number;
+  triggerCount: number;
+  lastEventAt: string | null;
+  lastError: string | null;
+}
+
+export interface Zone {
+  id: string;
+  name: string;
+  type: 'detect' | 'privacy' | 'ignore';
+  polygon: Point[];
+  sensitivity?: number;
+}
+
+export interface PtzCapabilities {
+  supported: boolean;
+  absoluteMove: boolean;
+  relativeMove: boolean;
+  continuousMove: boolean;
+  presets: boolean;
+  home: boolean;
+  panRange?: ValueRange;
+  tiltRange?: ValueRange;
+  zoomRange?: ValueRange;
+}
+
+export interface PtzPosition {
+  /** -1 to 1 */
+  pan: number;
+  /** -1 to 1 */
+  tilt: number;
+  /** 0 to 1 */
+  zoom: number;
+}
+
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+/** Normalized 0-1, top-left origin */
+export interface DetectionBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AutoTrackConfig {
+  enabled: boolean;
+  deadZone: number;
+  maxSpeed: number;
+  gain: number;
+  smoothing: number;
+  targetSize: number;
+  zoomSpeed: number;
+  fps: number;
+  lostAfterMs: number;
+  returnAfterSeconds: number;
+}
+
+export interface TrackingStatus {
+  enabled: boolean;
+  tracking: boolean;
+  target: DetectionBox | null;
+  velocity: {
+    pan: number;
+    tilt: number;
+    zoom: number;
+  };
+  lastSeenAt: string | null;
+  returnPresetId: string | null;
+}
+
+export interface SavedPreset {
+  id: string;
+  name: string;
+  description?: string;
+  /** Camera's internal preset token */
+  token: string;
+  createdAt: string;
+  lastUsed?: string;
+  thumbnail?: string;
+  tags?: string[];
+}
+
+export interface PatrolConfig {
+  enabled: boolean;
+  presets: string[];
+  dwellSeconds: number;
+  loop: boolean;
+  mode: 'fixed' | 'adaptive';
+  minDwellSeconds: number;
+  maxDwellSeconds: number;
+  pauseOnActivity: boolean;
+  resumeAfterSeconds: number;
+}
+
+export interface PatrolDecision {
+  timestamp: string;
+  action: 'start' | 'move' | 'pause' | 'resume' | 'stop';
+  presetId?: string;
+  dwellSeconds?: number;
+  reason: string;
+}
+
+export interface PresetActivity {
+  presetId: string;
+  sightings: number;
+  exposureHours: number;
+  rate: number;
+  share: number;
+}
+
+export interface CameraTime {
+  utcTime: string;
+  localTime: string;
+  timezone: string;
+  daylightSavings: boolean;
+  ntpEnabled: boolean;
+}
+
+export interface VideoSettings {
+  outputResolution: '1080p' | '720p' | '480p' | 'source' | 'custom';
+  customWidth?: number;
+  customHeight?: number;
+  /** 0 = source fps */
+  outputFps: number;
+  /** e.g. "2000k" */
+  outputBitrate: string;
+  qualityPreset: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium';
+  hlsSegmentDuration: number;
+  hlsPlaylistSize: number;
+  audioBitrate: string;
+  audioEnabled: boolean;
+}
+
+export interface VideoSettingsUpdate {
+  outputResolution?: '1080p' | '720p' | '480p' | 'source' | 'custom';
+  customWidth?: number;
+  customHeight?: number;
+  outputFps?: number;
+  outputBitrate?: string;
+  qualityPreset?: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium';
+  hlsSegmentDuration?: number;
+  hlsPlaylistSize?: number;
+  audioBitrate?: string;
+  audioEnabled?: boolean;
+}
+
+export interface CameraSettings {
+  sourceResolution?: string;
+  sourceFps?: number;
+  sourceGovLength?: number;
+  /** kbps */
+  sourceBitrate?: number;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export interface EncoderConfig {
+  token: string;
+  name: string;
+  encoding: string;
+  /** e.g. "1920x1080" */
+  resolution: string;
+  fps: number;
+  govLength: number | null;
+  /** kbps */
+  bitrate: number;
+  quality: number;
+}
+
+export interface EncoderOptions {
+  resolutions: string[];
+  fps: ValueRange | null;
+  govLength: ValueRange | null;
+  bitrate: ValueRange | null;
+  quality: ValueRange | null;
+}
+
+export interface ImagingSettings {
+  brightness?: number;
+  colorSaturation?: number;
+  contrast?: number;
+  sharpness?: number;
+  exposure?: {
+    mode: 'AUTO' | 'MANUAL';
+    minExposureTime?: number;
+    maxExposureTime?: number;
+    minGain?: number;
+    maxGain?: number;
+    exposureTime?: number;
+    gain?: number;
+  };
+  focus?: {
+    mode: 'AUTO' | 'MANUAL';
+    defaultSpeed?: number;
+    nearLimit?: number;
+    farLimit?: number;
+  };
+  irCutFilter?: 'ON' | 'OFF' | 'AUTO';
+  wideDynamicRange?: {
+    mode: 'ON' | 'OFF';
+    level?: number;
+  };
+}
+
+export interface ImagingOptions {
+  brightness: ValueRange | null;
+  colorSaturation: ValueRange | null;
+  contrast: ValueRange | null;
+  sharpness: ValueRange | null;
+  exposureModes: string[];
+  exposureTime: ValueRange | null;
+  gain: ValueRange | null;
+  focusModes: string[];
+  focusSpeed: ValueRange | null;
+  focusNearLimit: ValueRange | null;
+  focusFarLimit: ValueRange | null;
+  irCutFilterModes: string[];
+  wideDynamicRangeModes: string[];
+  wideDynamicRangeLevel: ValueRange | null;
+}
+
+export type ScheduleAction = {
+  type: 'preset';
+  presetId: string;
+} | {
+  type: 'patrol';
+  enabled: boolean;
+} | {
+  type: 'recording';
+  durationMinutes: number;
+} | {
+  type: 'detection';
+  enabled: boolean;
+} | {
+  type: 'profile';
+  profileId: string;
+};
+
+export interface ScheduleJob {
+  id: string;
+  name?: string;
+  /** Cron expression or "sunrise|sunset[+-offset] [cron fields]" */
+  schedule: string;
+  timezone?: string;
+  action: ScheduleAction;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+export interface ScheduledRun {
+  jobId: string;
+  name?: string;
+  action: ScheduleAction;
+  runAt: string;
+}
+
+export interface OperatingProfile {
+  id: string;
+  name: string;
+  video?: VideoSettingsUpdate;
+  motion?: MotionConfigUpdate;
+  detection?: {
+    minConfidence?: number;
+    visualMinConfidence?: number;
+    visualThreshold?: number;
+  };
+  irMode?: 'day' | 'night' | 'auto';
+}
+
+export interface ProfileSwitch {
+  at: string;
+  from: string | null;
+  to: string;
+  reason: 'dawn' | 'dusk' | 'manual' | 'schedule' | 'startup';
+  errors?: string[];
+}
+
+export interface AutoSwitchConfig {
+  enabled: boolean;
+  dayProfile: string;
+  nightProfile: string;
+}
+
+export interface ModalityEvidence {
+  species: string;
+  scientificName: string;
+  confidence: number;
+  timestamp: string;
+  snapshotId?: string;
+  bbox?: DetectionBox;
+}
+
+export interface BirdSighting {
+  id: string;
+  species: string;
+  scientificName: string;
+  confidence: number;
+  timestamp: string;
+  clipId?: string;
+  clipOffset?: number;
+  source?: 'audio' | 'visual';
+  audio?: ModalityEvidence;
+  visual?: ModalityEvidence;
+  snapshotId?: string;
+  presetId?: string;
+  zoneId?: string;
+  weather?: {
+    temperature?: number;
+    conditions?: string;
+    windSpeed?: number;
+  };
+  notes?: string;
+}
+
+export interface SpeciesCount {
+  species: string;
+  count: number;
+}
+
+export interface SpeciesStats {
+  species: string;
+  scientificName: string;
+  totalSightings: number;
+  firstSeen: string;
+  lastSeen: string;
+  averageConfidence: number;
+  /** Hour of day with most sightings (0-23) */
+  peakHour: number;
+  monthlyCount: number[];
+}
+
+export interface DailyStats {
+  date: string;
+  totalSightings: number;
+  uniqueSpecies: number;
+  species: SpeciesCount[];
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  onBirdDetected: boolean;
+  onNewSpecies: boolean;
+  onRareBird: boolean;
+  onMotion: boolean;
+  onCameraOffline: boolean;
+  onStorageLow: boolean;
+  quietHoursEnabled: boolean;
+  /** HH:MM */
+  quietHoursStart: string;
+  /** HH:MM */
+  quietHoursEnd: string;
+  minIntervalSeconds: number;
+  maxPerHour: number;
+  pushover?: {
+    enabled: boolean;
+    userKey: string;
+    apiToken: string;
+    priority: number;
+  };
+  ntfy?: {
+    enabled: boolean;
+    topic: string;
+    server?: string;
+  };
+  webhook?: {
+    enabled: boolean;
+    url: string;
+    headers?: Record<string, string>;
+  };
+  rareSpecies: string[];
+  ignoredSpecies: string[];
+}
+
+export interface WeatherData {
+  timestamp: string;
+  /** Celsius */
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  /** mm */
+  precipitation: number;
+  cloudCover: number;
+  /** km/h */
+  windSpeed: number;
+  windDirection: number;
+  conditions: string;
+  isDay: boolean;
+  sunrise: string;
+  sunset: string;
+}
+
+export interface DailyForecast {
+  date: string;
+  high: number;
+  low: number;
+  precipitation: number;
+  conditions: string;
+  sunrise: string;
+  sunset: string;
+}
+
+// ==================== Requests & Responses ====================
+
+export interface ListCamerasResponse {
+  cameras: CameraStatus[];
+}
+
+export interface AddCameraResponse {
+  success: boolean;
+  camera: CameraStatus;
+}
+
+export interface GetInfoResponse {
+  device: {
+    id: string;
+    name: string;
+    location: string;
+  };
+  camera: {
+    onvif: boolean;
+    host: string;
+    stream: StreamProbe | null;
+  };
+  status: {
+    streaming: boolean;
+    motionDetection: boolean;
+    recording: boolean;
+  };
+  storage: StorageStats;
+  ptz: PtzCapabilities | {
+    supported: boolean;
+  };
+  cameras: string[];
+}
+
+export type GetOpenApiResponse = Record<string, unknown>;
+
+export interface GetApiKeyResponse {
+  apiKey: string;
+  credentialsFile: string;
+  hint: string;
+  dashboardUrl: string;
+}
+
+export interface RegenerateApiKeyResponse {
+  success: boolean;
+  apiKey: string;
+  credentialsFile: string;
+  message: string;
+  dashboardUrl: string;
+}
+
+export interface GetCurrentPrincipalResponse {
+  authenticated: boolean;
+  principal: Principal | null;
+}
+
+export interface GetFirebaseAuthStatusResponse {
+  enabled: boolean;
+  cameraId: string | null;
+  ownerUid: string | null;
+  sharedWith: Record<string, 'viewer' | 'operator' | 'admin'>;
+}
+
+export interface ListUsersResponse {
+  admin: string;
+  users: User[];
+}
+
+export interface AddUserBody {
+  username: string;
+  password: string;
+  role: 'viewer' | 'operator' | 'admin';
+}
+
+export interface AddUserResponse {
+  success: boolean;
+  user: User;
+}
+
+export interface UpdateUserBody {
+  password?: string;
+  role?: 'viewer' | 'operator' | 'admin';
+}
+
+export interface UpdateUserResponse {
+  success: boolean;
+  user: User;
+}
+
+export interface ListTokensResponse {
+  tokens: TokenInfo[];
+}
+
+export interface CreateTokenBody {
+  name: string;
+  role: 'viewer' | 'operator' | 'admin';
+  scopes?: Array<'stream' | 'ptz' | 'recording' | 'settings'>;
+  expiresInDays?: number;
+  expiresAt?: string;
+}
+
+export interface CreateTokenResponse {
+  success: boolean;
+  token: string;
+  info: TokenInfo;
+  message: string;
+}
+
+export interface RevokeTokenResponse {
+  success: boolean;
+  token: TokenInfo;
+}
+
+export interface QueryAuditLogQuery {
+  since?: string;
+  until?: string;
+  actor?: string;
+  kind?: string;
+  method?: string;
+  /** Substring of the route */
+  route?: string;
+  tokenId?: string;
+  status?: number;
+  result?: 'ok' | 'failed';
+  limit?: number;
+  offset?: number;
+}
+
+export interface QueryAuditLogResponse {
+  total: number;
+  entries: AuditEntry[];
+  stats: AuditStats;
+}
+
+export interface GetStreamUrlQuery {
+  /** Seconds */
+  ttl?: number;
+}
+
+export interface GetStreamUrlResponse {
+  url: string;
+  expiresAt: number;
+  ttl: number;
+}
+
+export interface SignUrlBody {
+  path: string;
+  /** Seconds */
+  ttl?: number;
+}
+
+export interface SignUrlResponse {
+  success: boolean;
+  url: string;
+  expiresAt: number;
+}
+
+export interface GetWebrtcStatusResponse {
+  available: boolean;
+  streamMode: 'webrtc' | 'hls' | 'auto';
+  go2rtcPort: number;
+}
+
+/** SDP offer, passed to go2rtc */
+export type SendWebrtcOfferBody = unknown;
+
+/** SDP answer from go2rtc */
+export type SendWebrtcOfferResponse = unknown;
+
+/** ICE candidate, passed to go2rtc */
+export type SendWebrtcCandidateBody = unknown;
+
+/** go2rtc's /api/streams response */
+export type GetWebrtcStreamsResponse = unknown;
+
+export interface CaptureSnapshotBody {
+  reason?: string;
+}
+
+export interface CaptureSnapshotResponse {
+  success: boolean;
+  snapshot: SnapshotInfo;
+}
+
+export interface ListSnapshotsResponse {
+  count: number;
+  snapshots: SnapshotInfo[];
+}
+
+export interface StartRecordingBody {
+  trigger?: 'motion' | 'manual' | 'scheduled';
+}
+
+export interface StartRecordingResponse {
+  success: boolean;
+  recordingId: string;
+}
+
+export interface StopRecordingResponse {
+  success: boolean;
+  clip: ClipInfo | null;
+}
+
+export interface GetRecordingStatusResponse {
+  recording: boolean;
+  session: ClipSession | null;
+  storage: StorageStats;
+}
+
+export interface ListClipsResponse {
+  count: number;
+  clips: ClipInfo[];
+}
+
+export interface GetClipResponse {
+  clip: ClipInfo;
+  sightings: BirdSighting[];
+}
+
+export interface UpdateMotionConfigResponse {
+  success: boolean;
+  config: MotionConfig;
+}
+
+export interface GetMotionStatusResponse {
+  running: boolean;
+  config: MotionConfig;
+  cameraEvents: OnvifEventStatus | null;
+}
+
+export interface ListCameraEventsQuery {
+  limit?: number;
+}
+
+export interface ListCameraEventsResponse {
+  enabled: boolean;
+  status?: OnvifEventStatus;
+  events: OnvifEvent[];
+}
+
+export interface ListZonesResponse {
+  zones: Zone[];
+}
+
+export interface ReplaceZonesBody {
+  zones: Array<Record<string, unknown>>;
+}
+
+export interface ReplaceZonesResponse {
+  success: boolean;
+  zones: Zone[];
+}
+
+export type GetPtzCapabilitiesResponse = PtzCapabilities | {
+  supported: boolean;
+  error?: string;
+};
+
+export type GetPtzStatusResponse = {
+  supported: boolean;
+  position: PtzPosition | null;
+  capabilities: PtzCapabilities;
+} | {
+  supported: boolean;
+  error?: string;
+};
+
+export interface MovePtzBody {
+  pan?: number;
+  tilt?: number;
+  zoom?: number;
+  type?: 'continuous' | 'absolute' | 'relative';
+}
+
+export interface ListCameraPresetsResponse {
+  presets: PtzPreset[];
+}
+
+export interface SetCameraPresetBody {
+  name: string;
+}
+
+export interface SetCameraPresetResponse {
+  success: boolean;
+  token: string | null;
+}
+
+export interface TestPtzBody {
+  /** ms per movement */
+  duration?: number;
+}
+
+export interface TestPtzResponse {
+  success: boolean;
+  message?: string;
+  results: Array<{
+    action: string;
+    success: boolean;
+    skipped?: boolean;
+  }>;
+}
+
+export interface GetAutoTrackingResponse {
+  enabled: boolean;
+  tracking: boolean;
+  target: DetectionBox | null;
+  velocity: {
+    pan: number;
+    tilt: number;
+    zoom: number;
+  };
+  lastSeenAt: string | null;
+  returnPresetId: string | null;
+  config: AutoTrackConfig;
+}
+
+export interface UpdateAutoTrackingBody {
+  enabled?: boolean;
+  deadZone?: number;
+  maxSpeed?: number;
+  gain?: number;
+  smoothing?: number;
+  targetSize?: number;
+  zoomSpeed?: number;
+  fps?: number;
+  lostAfterMs?: number;
+  returnAfterSeconds?: number;
+}
+
+export interface UpdateAutoTrackingResponse {
+  success: boolean;
+  config: AutoTrackConfig;
+}
+
+export interface TrackTargetBody {
+  bbox: DetectionBox;
+}
+
+export interface TrackTargetResponse {
+  success: boolean;
+  status: TrackingStatus;
+}
+
+export interface GetCameraTimeResponse {
+  utcTime: string;
+  localTime: string;
+  timezone: string;
+  daylightSavings: boolean;
+  ntpEnabled: boolean;
+  syncStatus: {
+    synced: boolean;
+    diffSeconds: number;
+    systemTime: string;
+  } | null;
+}
+
+export interface SyncCameraTimeBody {
+  useNtp?: boolean;
+}
+
+export interface SyncCameraTimeResponse {
+  success: boolean;
+  message: string;
+  time: CameraTime | null;
+}
+
+export interface GetSettingsResponse {
+  video: VideoSettings;
+  camera: CameraSettings;
+  lastModified: string;
+  resolutionPresets: Record<string, {
+    width: number;
+    height: number;
+  }>;
+}
+
+export interface UpdateVideoSettingsResponse {
+  success: boolean;
+  settings: VideoSettings;
+  message: string;
+}
+
+export interface ResetSettingsResponse {
+  success: boolean;
+  settings: Record<string, unknown>;
+  message: string;
+}
+
+export interface ApplySettingsResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface GetCameraConfigResponse {
+  supported: boolean;
+  error?: string;
+  encoder?: EncoderConfig | null;
+  encoderOptions?: EncoderOptions | null;
+  imaging?: ImagingSettings | null;
+  imagingOptions?: ImagingOptions | null;
+  stored: CameraSettings;
+}
+
+export type GetCameraEncoderResponse = {
+  supported: boolean;
+  encoder: EncoderConfig;
+  options: EncoderOptions | null;
+} | {
+  supported: boolean;
+  error?: string;
+};
+
+export interface SetCameraEncoderBody {
+  /** e.g. "1920x1080" */
+  resolution?: string;
+  fps?: number;
+  govLength?: number;
+  /** kbps */
+  bitrate?: number;
+  quality?: number;
+}
+
+export interface SetCameraEncoderResponse {
+  success: boolean;
+  encoder: EncoderConfig;
+  stored: CameraSettings;
+  message: string;
+}
+
+export type GetCameraImagingResponse = {
+  supported: boolean;
+  settings: ImagingSettings;
+  options: ImagingOptions | null;
+} | {
+  supported: boolean;
+  error?: string;
+};
+
+export interface SetCameraImagingResponse {
+  success: boolean;
+  settings: ImagingSettings;
+}
+
+export interface SetDayNightBody {
+  mode: 'day' | 'night' | 'auto';
+}
+
+export interface SetDayNightResponse {
+  success: boolean;
+  mode: 'day' | 'night' | 'auto';
+  settings: ImagingSettings;
+}
+
+export interface MoveFocusBody {
+  /** -1 near to 1 far */
+  speed: number;
+}
+
+export interface ListPresetsResponse {
+  presets: SavedPreset[];
+  patrol: PatrolConfig;
+  patrolActive: boolean;
+  patrolHeld: boolean;
+  currentPresetId: string | null;
+}
+
+export interface SavePresetBody {
+  createFromCurrent?: boolean;
+  id?: string;
+  name?: string;
+  description?: string;
+  token?: string;
+  thumbnail?: string;
+  tags?: string[];
+}
+
+export interface SavePresetResponse {
+  success: boolean;
+  preset: SavedPreset | null;
+}
+
+export interface UpdatePatrolConfigBody {
+  enabled?: boolean;
+  presets?: string[];
+  dwellSeconds?: number;
+  loop?: boolean;
+  mode?: 'fixed' | 'adaptive';
+  minDwellSeconds?: number;
+  maxDwellSeconds?: number;
+  pauseOnActivity?: boolean;
+  resumeAfterSeconds?: number;
+}
+
+export interface UpdatePatrolConfigResponse {
+  success: boolean;
+  config: PatrolConfig;
+}
+
+export interface GetPatrolLogQuery {
+  limit?: number;
+}
+
+export interface GetPatrolLogResponse {
+  decisions: PatrolDecision[];
+}
+
+export interface GetPatrolActivityResponse {
+  mode: 'fixed' | 'adaptive';
+  presets: PresetActivity[];
+}
+
+export interface ListSchedulesResponse {
+  jobs: Array<{
+    id: string;
+    name?: string;
+    schedule: string;
+    timezone?: string;
+    action: ScheduleAction;
+    enabled: boolean;
+    createdAt: string;
+    lastRunAt?: string;
+    lastError?: string;
+    nextRunAt: string | null;
+  }>;
+  timezone: string;
+}
+
+export interface ListUpcomingRunsQuery {
+  hours?: number;
+  limit?: number;
+}
+
+export interface ListUpcomingRunsResponse {
+  runs: ScheduledRun[];
+}
+
+export interface AddScheduleBody {
+  name?: string;
+  schedule: string;
+  timezone?: string;
+  action: ScheduleAction;
+  enabled?: boolean;
+}
+
+export interface AddScheduleResponse {
+  success: boolean;
+  job: ScheduleJob;
+}
+
+export interface UpdateScheduleBody {
+  name?: string;
+  schedule?: string;
+  timezone?: string;
+  action?: ScheduleAction;
+  enabled?: boolean;
+}
+
+export interface UpdateScheduleResponse {
+  success: boolean;
+  job: ScheduleJob;
+}
+
+export interface RunScheduleResponse {
+  success: boolean;
+  job: ScheduleJob | null;
+}
+
+export interface ListProfilesResponse {
+  activeProfile: string | null;
+  activeSince: string | null;
+  auto: AutoSwitchConfig;
+  locationSet: boolean;
+  phase: 'day' | 'night' | null;
+  nextSwitch: {
+    at: string;
+    profile: string;
+    reason: 'dawn' | 'dusk';
+  } | null;
+  profiles: OperatingProfile[];
+}
+
+export interface GetProfileHistoryQuery {
+  limit?: number;
+}
+
+export interface GetProfileHistoryResponse {
+  history: ProfileSwitch[];
+}
+
+export interface SetProfileAutoBody {
+  enabled?: boolean;
+  dayProfile?: string;
+  nightProfile?: string;
+}
+
+export interface SetProfileAutoResponse {
+  success: boolean;
+  auto: AutoSwitchConfig;
+}
+
+export interface SaveProfileBody {
+  name: string;
+  video?: VideoSettingsUpdate;
+  motion?: MotionConfigUpdate;
+  detection?: {
+    minConfidence?: number;
+    visualMinConfidence?: number;
+    visualThreshold?: number;
+  };
+  irMode?: 'day' | 'night' | 'auto';
+}
+
+export interface SaveProfileResponse {
+  success: boolean;
+  profile: OperatingProfile;
+}
+
+export interface ActivateProfileResponse {
+  success: boolean;
+  switch: ProfileSwitch;
+}
+
+export interface GetBirdSummaryResponse {
+  todaySightings: number;
+  todaySpecies: number;
+  totalSpecies: number;
+  recentSightings: BirdSighting[];
+  topToday: string | null;
+}
+
+export interface GetLifeListResponse {
+  species: string[];
+  count: number;
+}
+
+export interface ListSightingsQuery {
+  limit?: number;
+}
+
+export interface ListSightingsResponse {
+  sightings: BirdSighting[];
+}
+
+export interface GetSpeciesPriorsResponse {
+  priors: Record<string, number>;
+  thresholds: {
+    audio: Record<string, number>;
+    visual: Record<string, number>;
+  };
+}
+
+export interface GetTopSpeciesQuery {
+  limit?: number;
+}
+
+export interface GetTopSpeciesResponse {
+  species: SpeciesCount[];
+}
+
+export interface GetActivityHeatmapResponse {
+  heatmap: Array<number[]>;
+  labels: {
+    days: string[];
+    hours: string[];
+  };
+}
+
+export interface SearchSightingsQuery {
+  q?: string;
+  minConfidence?: number;
+}
+
+export interface SearchSightingsResponse {
+  query: string;
+  count: number;
+  sightings: BirdSighting[];
+}
+
+export interface ExportBirdDataResponse {
+  sightings: BirdSighting[];
+  lifeList: string[];
+  stats: {
+    totalSightings: number;
+    speciesCount: number;
+    topSpecies: SpeciesCount[];
+  };
+}
+
+/** Any NotificationSettings fields */
+export type UpdateNotificationSettingsBody = Record<string, unknown>;
+
+export interface UpdateNotificationSettingsResponse {
+  success: boolean;
+  settings: NotificationSettings;
+}
+
+export interface GetCurrentWeatherResponse {
+  timestamp: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  precipitation: number;
+  cloudCover: number;
+  windSpeed: number;
+  windDirection: number;
+  conditions: string;
+  isDay: boolean;
+  sunrise: string;
+  sunset: string;
+  summary: string;
+  birdActivityRating: {
+    score: number;
+    factors: string[];
+  };
+}
+
+export interface GetWeatherForecastQuery {
+  days?: number;
+}
+
+export interface GetWeatherForecastResponse {
+  forecast: DailyForecast[];
+}
+
+// ==================== Client ====================
+
+export class BridgeApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: ApiError | null
+  ) {
+    super(message);
+    this.name = 'BridgeApiError';
+  }
+}
+
+export interface BridgeClientOptions {
+  /** Bridge URL, e.g. http://birdcam.local:8080 */
+  baseUrl: string;
+  /** Auth headers for each request (X-API-Key, or Authorization with a token) */
+  headers?: () => HeadersInit | Promise<HeadersInit>;
+  /** Camera for per-camera routes (the default camera when omitted) */
+  cameraId?: string;
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | boolean | undefined;
+
+interface RequestOptions {
+  body?: unknown;
+  query?: object;
+}
+
+export class BridgeClient {
+  constructor(private readonly options: BridgeClientOptions) {}
+
+  /** Absolute URL for a bridge path (e.g. a signed stream URL it returned) */
+  resolveUrl(path: string): string {
+    return new URL(path, this.options.baseUrl).toString();
+  }
+
+  /** A client for another camera on the same bridge */
+  forCamera(cameraId: string): BridgeClient {
+    return new BridgeClient({ ...this.options, cameraId });
+  }
+
+  private cameraPath(path: string): string {
+    const { cameraId } = this.options;
+    return cameraId ? `/api/cameras/${encodeURIComponent(cameraId)}${path.slice('/api'.length)}` : path;
+  }
+
+  private async send(method: string, path: string, options: RequestOptions = {}): Promise<Response> {
+    const url = new URL(path, this.options.baseUrl);
+    for (const [key, value] of Object.entries(options.query ?? {}) as Array<[string, QueryValue]>) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers = new Headers(this.options.headers ? await this.options.headers() : undefined);
+    if (options.body !== undefined) headers.set('Content-Type', 'application/json');
+
+    const response = await (this.options.fetch ?? fetch)(url.toString(), {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as ApiError | null;
+      throw new BridgeApiError(body?.error || `Bridge returned ${response.status}`, response.status, body);
+    }
+    return response;
+  }
+
+  private async request<T>(method: string, path: string, options?: RequestOptions): Promise<T> {
+    const response = await this.send(method, path, options);
+    return (await response.json()) as T;
+  }
+
+  /** List cameras (GET /api/cameras) */
+  listCameras(): Promise<ListCamerasResponse> {
+    return this.request<ListCamerasResponse>('GET', `/api/cameras`);
+  }
+
+  /** Add a camera (stored in cameras.json and started right away) (POST /api/cameras) */
+  addCamera(body: CameraEntry): Promise<AddCameraResponse> {
+    return this.request<AddCameraResponse>('POST', `/api/cameras`, { body });
+  }
+
+  /** Remove a camera (not the default camera) (DELETE /api/cameras/:camId) */
+  removeCamera(camId: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', `/api/cameras/${encodeURIComponent(String(camId))}`);
+  }
+
+  /** Camera status (GET /api/status) */
+  getCameraStatus(): Promise<CameraStatus> {
+    return this.request<CameraStatus>('GET', this.cameraPath(`/api/status`));
+  }
+
+  /** Health check (GET /health) */
+  getHealth(): Promise<Health> {
+    return this.request<Health>('GET', `/health`);
+  }
+
+  /** Device, camera, storage and PTZ overview (GET /info) */
+  getInfo(): Promise<GetInfoResponse> {
+    return this.request<GetInfoResponse>('GET', `/info`);
+  }
+
+  /** This API as an OpenAPI 3.1 document (GET /api/openapi.json) */
+  getOpenApi(): Promise<GetOpenApiResponse> {
+    return this.request<GetOpenApiResponse>('GET', `/api/openapi.json`);
+  }
+
+  /** The API key and credentials file (GET /api/auth/key) */
+  getApiKey(): Promise<GetApiKeyResponse> {
+    return this.request<GetApiKeyResponse>('GET', `/api/auth/key`);
+  }
+
+  /** Replace the API key (the old one stops working) (POST /api/auth/regenerate) */
+  regenerateApiKey(): Promise<RegenerateApiKeyResponse> {
+    return this.request<RegenerateApiKeyResponse>('POST', `/api/auth/regenerate`);
+  }
+
+  /** Who the request is authenticated as (GET /api/auth/me) */
+  getCurrentPrincipal(): Promise<GetCurrentPrincipalResponse> {
+    return this.request<GetCurrentPrincipalResponse>('GET', `/api/auth/me`);
+  }
+
+  /** Web sign-in status and the camera's owner and shares (GET /api/auth/firebase) */
+  getFirebaseAuthStatus(): Promise<GetFirebaseAuthStatusResponse> {
+    return this.request<GetFirebaseAuthStatusResponse>('GET', `/api/auth/firebase`);
+  }
+
+  /** List users (GET /api/users) */
+  listUsers(): Promise<ListUsersResponse> {
+    return this.request<ListUsersResponse>('GET', `/api/users`);
+  }
+
+  /** Add a user (POST /api/users) */
+  addUser(body: AddUserBody): Promise<AddUserResponse> {
+    return this.request<AddUserResponse>('POST', `/api/users`, { body });
+  }
+
+  /** Change a user's role and/or password (PUT /api/users/:username) */
+  updateUser(username: string, body?: UpdateUserBody): Promise<UpdateUserResponse> {
+    return this.request<UpdateUserResponse>('PUT', `/api/users/${encodeURIComponent(String(username))}`, { body });
+  }
+
+  /** Remove a user (DELETE /api/users/:username) */
+  removeUser(username: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', `/api/users/${encodeURIComponent(String(username))}`);
+  }
+
+  /** List tokens with their status and last use (GET /api/tokens) */
+  listTokens(): Promise<ListTokensResponse> {
+    return this.request<ListTokensResponse>('GET', `/api/tokens`);
+  }
+
+  /** Create a token (the secret is only returned here) (POST /api/tokens) */
+  createToken(body: CreateTokenBody): Promise<CreateTokenResponse> {
+    return this.request<CreateTokenResponse>('POST', `/api/tokens`, { body });
+  }
+
+  /** Revoke a token (DELETE /api/tokens/:id) */
+  revokeToken(id: string): Promise<RevokeTokenResponse> {
+    return this.request<RevokeTokenResponse>('DELETE', `/api/tokens/${encodeURIComponent(String(id))}`);
+  }
+
+  /** Audit log of control actions, newest first (GET /api/audit) */
+  queryAuditLog(query?: QueryAuditLogQuery): Promise<QueryAuditLogResponse> {
+    return this.request<QueryAuditLogResponse>('GET', `/api/audit`, { query });
+  }
+
+  /** HLS playlist (segment URIs are signed) (GET /stream.m3u8) */
+  getPlaylist(): Promise<Response> {
+    return this.send('GET', `/stream.m3u8`);
+  }
+
+  /** Signed playlist URL, so no key goes into the URL (GET /api/stream/url) */
+  getStreamUrl(query?: GetStreamUrlQuery): Promise<GetStreamUrlResponse> {
+    return this.request<GetStreamUrlResponse>('GET', this.cameraPath(`/api/stream/url`), { query });
+  }
+
+  /** Signed URL for a stream, snapshot or clip path the caller may read (POST /api/sign) */
+  signUrl(body: SignUrlBody): Promise<SignUrlResponse> {
+    return this.request<SignUrlResponse>('POST', `/api/sign`, { body });
+  }
+
+  /** HLS segment (GET /segment:num.ts) */
+  getSegment(num: number): Promise<Response> {
+    return this.send('GET', `/segment${encodeURIComponent(String(num))}.ts`);
+  }
+
+  /** Another camera's HLS playlist (GET /cameras/:camId/stream.m3u8) */
+  getCameraPlaylist(camId: string): Promise<Response> {
+    return this.send('GET', `/cameras/${encodeURIComponent(String(camId))}/stream.m3u8`);
+  }
+
+  /** Another camera's HLS segment (GET /cameras/:camId/segment:num.ts) */
+  getCameraSegment(camId: string, num: number): Promise<Response> {
+    return this.send('GET', `/cameras/${encodeURIComponent(String(camId))}/segment${encodeURIComponent(String(num))}.ts`);
+  }
+
+  /** Playback test page (GET /test) */
+  getTestPage(): Promise<Response> {
+    return this.send('GET', `/test`);
+  }
+
+  /** Whether go2rtc is running, and its API port (GET /api/webrtc/status) */
+  getWebrtcStatus(): Promise<GetWebrtcStatusResponse> {
+    return this.request<GetWebrtcStatusResponse>('GET', `/api/webrtc/status`);
+  }
+
+  /** Send an SDP offer to go2rtc and get its answer (POST /api/webrtc/offer) */
+  sendWebrtcOffer(body: SendWebrtcOfferBody): Promise<SendWebrtcOfferResponse> {
+    return this.request<SendWebrtcOfferResponse>('POST', `/api/webrtc/offer`, { body });
+  }
+
+  /** Send an ICE candidate to go2rtc (POST /api/webrtc/candidate) */
+  sendWebrtcCandidate(body: SendWebrtcCandidateBody): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/webrtc/candidate`, { body });
+  }
+
+  /** go2rtc's stream info (GET /api/webrtc/streams) */
+  getWebrtcStreams(): Promise<GetWebrtcStreamsResponse> {
+    return this.request<GetWebrtcStreamsResponse>('GET', `/api/webrtc/streams`);
+  }
+
+  /** Capture a snapshot (POST /api/snapshot) */
+  captureSnapshot(body?: CaptureSnapshotBody): Promise<CaptureSnapshotResponse> {
+    return this.request<CaptureSnapshotResponse>('POST', this.cameraPath(`/api/snapshot`), { body });
+  }
+
+  /** Latest snapshot (captured now if there is none) (GET /api/snapshot/latest) */
+  getLatestSnapshot(): Promise<Response> {
+    return this.send('GET', this.cameraPath(`/api/snapshot/latest`));
+  }
+
+  /** List snapshots (GET /api/snapshots) */
+  listSnapshots(): Promise<ListSnapshotsResponse> {
+    return this.request<ListSnapshotsResponse>('GET', this.cameraPath(`/api/snapshots`));
+  }
+
+  /** A snapshot image (GET /api/snapshots/:id) */
+  getSnapshot(id: string): Promise<Response> {
+    return this.send('GET', this.cameraPath(`/api/snapshots/${encodeURIComponent(String(id))}`));
+  }
+
+  /** Start recording a clip (POST /api/recording/start) */
+  startRecording(body?: StartRecordingBody): Promise<StartRecordingResponse> {
+    return this.request<StartRecordingResponse>('POST', this.cameraPath(`/api/recording/start`), { body });
+  }
+
+  /** Stop recording (POST /api/recording/stop) */
+  stopRecording(): Promise<StopRecordingResponse> {
+    return this.request<StopRecordingResponse>('POST', this.cameraPath(`/api/recording/stop`));
+  }
+
+  /** Recording state, active clip session and storage (GET /api/recording/status) */
+  getRecordingStatus(): Promise<GetRecordingStatusResponse> {
+    return this.request<GetRecordingStatusResponse>('GET', this.cameraPath(`/api/recording/status`));
+  }
+
+  /** List clips (GET /api/clips) */
+  listClips(): Promise<ListClipsResponse> {
+    return this.request<ListClipsResponse>('GET', this.cameraPath(`/api/clips`));
+  }
+
+  /** A clip and the sightings captured in it (GET /api/clips/:id) */
+  getClip(id: string): Promise<GetClipResponse> {
+    return this.request<GetClipResponse>('GET', this.cameraPath(`/api/clips/${encodeURIComponent(String(id))}`));
+  }
+
+  /** Clip video (supports Range requests) (GET /api/clips/:id/video) */
+  getClipVideo(id: string): Promise<Response> {
+    return this.send('GET', this.cameraPath(`/api/clips/${encodeURIComponent(String(id))}/video`));
+  }
+
+  /** Clip thumbnail (GET /api/clips/:id/thumbnail) */
+  getClipThumbnail(id: string): Promise<Response> {
+    return this.send('GET', this.cameraPath(`/api/clips/${encodeURIComponent(String(id))}/thumbnail`));
+  }
+
+  /** Delete a clip (DELETE /api/clips/:id) */
+  deleteClip(id: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', this.cameraPath(`/api/clips/${encodeURIComponent(String(id))}`));
+  }
+
+  /** Motion detection config (GET /api/motion/config) */
+  getMotionConfig(): Promise<MotionConfig> {
+    return this.request<MotionConfig>('GET', this.cameraPath(`/api/motion/config`));
+  }
+
+  /** Update motion detection config (POST /api/motion/config) */
+  updateMotionConfig(body: MotionConfigUpdate): Promise<UpdateMotionConfigResponse> {
+    return this.request<UpdateMotionConfigResponse>('POST', this.cameraPath(`/api/motion/config`), { body });
+  }
+
+  /** Motion detection state and camera event subscription (GET /api/motion/status) */
+  getMotionStatus(): Promise<GetMotionStatusResponse> {
+    return this.request<GetMotionStatusResponse>('GET', this.cameraPath(`/api/motion/status`));
+  }
+
+  /** Recent ONVIF camera events (GET /api/motion/events) */
+  listCameraEvents(query?: ListCameraEventsQuery): Promise<ListCameraEventsResponse> {
+    return this.request<ListCameraEventsResponse>('GET', this.cameraPath(`/api/motion/events`), { query });
+  }
+
+  /** Detect, ignore and privacy zones (GET /api/zones) */
+  listZones(): Promise<ListZonesResponse> {
+    return this.request<ListZonesResponse>('GET', `/api/zones`);
+  }
+
+  /** Replace zones locally (for setups without Firebase) (PUT /api/zones) */
+  replaceZones(body: ReplaceZonesBody): Promise<ReplaceZonesResponse> {
+    return this.request<ReplaceZonesResponse>('PUT', `/api/zones`, { body });
+  }
+
+  /** PTZ capabilities (GET /api/ptz/capabilities) */
+  getPtzCapabilities(): Promise<GetPtzCapabilitiesResponse> {
+    return this.request<GetPtzCapabilitiesResponse>('GET', this.cameraPath(`/api/ptz/capabilities`));
+  }
+
+  /** PTZ position and capabilities (GET /api/ptz/status) */
+  getPtzStatus(): Promise<GetPtzStatusResponse> {
+    return this.request<GetPtzStatusResponse>('GET', this.cameraPath(`/api/ptz/status`));
+  }
+
+  /** Move (continuous velocity, absolute or relative position) (POST /api/ptz/move) */
+  movePtz(body?: MovePtzBody): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/ptz/move`), { body });
+  }
+
+  /** Stop moving (POST /api/ptz/stop) */
+  stopPtz(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/ptz/stop`));
+  }
+
+  /** Go to the home position (POST /api/ptz/home) */
+  goPtzHome(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/ptz/home`));
+  }
+
+  /** The camera's own presets (GET /api/ptz/presets) */
+  listCameraPresets(): Promise<ListCameraPresetsResponse> {
+    return this.request<ListCameraPresetsResponse>('GET', this.cameraPath(`/api/ptz/presets`));
+  }
+
+  /** Go to one of the camera's presets (POST /api/ptz/presets/:token) */
+  gotoCameraPreset(token: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/ptz/presets/${encodeURIComponent(String(token))}`));
+  }
+
+  /** Save the current position as a camera preset (PUT /api/ptz/presets) */
+  setCameraPreset(body: SetCameraPresetBody): Promise<SetCameraPresetResponse> {
+    return this.request<SetCameraPresetResponse>('PUT', this.cameraPath(`/api/ptz/presets`), { body });
+  }
+
+  /** Cycle through every PTZ movement (POST /api/ptz/test) */
+  testPtz(body?: TestPtzBody): Promise<TestPtzResponse> {
+    return this.request<TestPtzResponse>('POST', this.cameraPath(`/api/ptz/test`), { body });
+  }
+
+  /** Auto-tracking status and config (GET /api/ptz/track) */
+  getAutoTracking(): Promise<GetAutoTrackingResponse> {
+    return this.request<GetAutoTrackingResponse>('GET', `/api/ptz/track`);
+  }
+
+  /** Update auto-tracking config (POST /api/ptz/track/config) */
+  updateAutoTracking(body?: UpdateAutoTrackingBody): Promise<UpdateAutoTrackingResponse> {
+    return this.request<UpdateAutoTrackingResponse>('POST', `/api/ptz/track/config`, { body });
+  }
+
+  /** Follow a bird's bounding box (POST /api/ptz/track/target) */
+  trackTarget(body: TrackTargetBody): Promise<TrackTargetResponse> {
+    return this.request<TrackTargetResponse>('POST', `/api/ptz/track/target`, { body });
+  }
+
+  /** Stop following and return to the starting preset (POST /api/ptz/track/release) */
+  releaseTracking(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/ptz/track/release`);
+  }
+
+  /** Camera clock and how far it is from the Pi's (GET /api/camera/time) */
+  getCameraTime(): Promise<GetCameraTimeResponse> {
+    return this.request<GetCameraTimeResponse>('GET', `/api/camera/time`);
+  }
+
+  /** Set the camera clock to the Pi's (or to NTP) (POST /api/camera/time/sync) */
+  syncCameraTime(body?: SyncCameraTimeBody): Promise<SyncCameraTimeResponse> {
+    return this.request<SyncCameraTimeResponse>('POST', `/api/camera/time/sync`, { body });
+  }
+
+  /** All settings and the resolution presets (GET /api/settings) */
+  getSettings(): Promise<GetSettingsResponse> {
+    return this.request<GetSettingsResponse>('GET', this.cameraPath(`/api/settings`));
+  }
+
+  /** Output video settings (GET /api/settings/video) */
+  getVideoSettings(): Promise<VideoSettings> {
+    return this.request<VideoSettings>('GET', this.cameraPath(`/api/settings/video`));
+  }
+
+  /** Update output video settings (applied on stream restart) (POST /api/settings/video) */
+  updateVideoSettings(body: VideoSettingsUpdate): Promise<UpdateVideoSettingsResponse> {
+    return this.request<UpdateVideoSettingsResponse>('POST', this.cameraPath(`/api/settings/video`), { body });
+  }
+
+  /** Reset settings to defaults (POST /api/settings/reset) */
+  resetSettings(): Promise<ResetSettingsResponse> {
+    return this.request<ResetSettingsResponse>('POST', this.cameraPath(`/api/settings/reset`));
+  }
+
+  /** Restart the stream with the saved settings (POST /api/settings/apply) */
+  applySettings(): Promise<ApplySettingsResponse> {
+    return this.request<ApplySettingsResponse>('POST', this.cameraPath(`/api/settings/apply`));
+  }
+
+  /** Encoder, imaging and what they can be set to (GET /api/camera/config) */
+  getCameraConfig(): Promise<GetCameraConfigResponse> {
+    return this.request<GetCameraConfigResponse>('GET', this.cameraPath(`/api/camera/config`));
+  }
+
+  /** Video encoder (resolution, fps, GOP length, bitrate) (GET /api/camera/encoder) */
+  getCameraEncoder(): Promise<GetCameraEncoderResponse> {
+    return this.request<GetCameraEncoderResponse>('GET', this.cameraPath(`/api/camera/encoder`));
+  }
+
+  /** Change the camera's encoder (POST /api/camera/encoder) */
+  setCameraEncoder(body?: SetCameraEncoderBody): Promise<SetCameraEncoderResponse> {
+    return this.request<SetCameraEncoderResponse>('POST', this.cameraPath(`/api/camera/encoder`), { body });
+  }
+
+  /** Exposure, focus, IR cut filter, WDR and image adjustments (GET /api/camera/imaging) */
+  getCameraImaging(): Promise<GetCameraImagingResponse> {
+    return this.request<GetCameraImagingResponse>('GET', this.cameraPath(`/api/camera/imaging`));
+  }
+
+  /** Change the camera's imaging settings (POST /api/camera/imaging) */
+  setCameraImaging(body: ImagingSettings): Promise<SetCameraImagingResponse> {
+    return this.request<SetCameraImagingResponse>('POST', this.cameraPath(`/api/camera/imaging`), { body });
+  }
+
+  /** Day (color), night (IR) or automatic (POST /api/camera/daynight) */
+  setDayNight(body: SetDayNightBody): Promise<SetDayNightResponse> {
+    return this.request<SetDayNightResponse>('POST', this.cameraPath(`/api/camera/daynight`), { body });
+  }
+
+  /** Move focus at a speed until stopped (POST /api/camera/focus) */
+  moveFocus(body: MoveFocusBody): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/camera/focus`), { body });
+  }
+
+  /** Stop moving focus (POST /api/camera/focus/stop) */
+  stopFocus(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', this.cameraPath(`/api/camera/focus/stop`));
+  }
+
+  /** Saved presets and patrol state (GET /api/presets) */
+  listPresets(): Promise<ListPresetsResponse> {
+    return this.request<ListPresetsResponse>('GET', `/api/presets`);
+  }
+
+  /** Save a preset (or create one from the current position) (POST /api/presets) */
+  savePreset(body?: SavePresetBody): Promise<SavePresetResponse> {
+    return this.request<SavePresetResponse>('POST', `/api/presets`, { body });
+  }
+
+  /** Go to a saved preset (POST /api/presets/:id/goto) */
+  gotoPreset(id: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/presets/${encodeURIComponent(String(id))}/goto`);
+  }
+
+  /** Delete a preset (DELETE /api/presets/:id) */
+  deletePreset(id: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', `/api/presets/${encodeURIComponent(String(id))}`);
+  }
+
+  /** Start patrolling (POST /api/patrol/start) */
+  startPatrol(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/patrol/start`);
+  }
+
+  /** Stop patrolling (POST /api/patrol/stop) */
+  stopPatrol(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/patrol/stop`);
+  }
+
+  /** Update the patrol config (POST /api/patrol/config) */
+  updatePatrolConfig(body?: UpdatePatrolConfigBody): Promise<UpdatePatrolConfigResponse> {
+    return this.request<UpdatePatrolConfigResponse>('POST', `/api/patrol/config`, { body });
+  }
+
+  /** Patrol decisions, newest first (GET /api/patrol/log) */
+  getPatrolLog(query?: GetPatrolLogQuery): Promise<GetPatrolLogResponse> {
+    return this.request<GetPatrolLogResponse>('GET', `/api/patrol/log`, { query });
+  }
+
+  /** Activity score and dwell share per patrol preset (GET /api/patrol/activity) */
+  getPatrolActivity(): Promise<GetPatrolActivityResponse> {
+    return this.request<GetPatrolActivityResponse>('GET', `/api/patrol/activity`);
+  }
+
+  /** Scheduled jobs (GET /api/schedules) */
+  listSchedules(): Promise<ListSchedulesResponse> {
+    return this.request<ListSchedulesResponse>('GET', `/api/schedules`);
+  }
+
+  /** Upcoming runs across all jobs (GET /api/schedules/upcoming) */
+  listUpcomingRuns(query?: ListUpcomingRunsQuery): Promise<ListUpcomingRunsResponse> {
+    return this.request<ListUpcomingRunsResponse>('GET', `/api/schedules/upcoming`, { query });
+  }
+
+  /** Add a job (POST /api/schedules) */
+  addSchedule(body: AddScheduleBody): Promise<AddScheduleResponse> {
+    return this.request<AddScheduleResponse>('POST', `/api/schedules`, { body });
+  }
+
+  /** Update a job (PUT /api/schedules/:id) */
+  updateSchedule(id: string, body?: UpdateScheduleBody): Promise<UpdateScheduleResponse> {
+    return this.request<UpdateScheduleResponse>('PUT', `/api/schedules/${encodeURIComponent(String(id))}`, { body });
+  }
+
+  /** Delete a job (DELETE /api/schedules/:id) */
+  removeSchedule(id: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', `/api/schedules/${encodeURIComponent(String(id))}`);
+  }
+
+  /** Run a job now (POST /api/schedules/:id/run) */
+  runSchedule(id: string): Promise<RunScheduleResponse> {
+    return this.request<RunScheduleResponse>('POST', `/api/schedules/${encodeURIComponent(String(id))}/run`);
+  }
+
+  /** Profiles, the active one and the next automatic switch (GET /api/profiles) */
+  listProfiles(): Promise<ListProfilesResponse> {
+    return this.request<ListProfilesResponse>('GET', `/api/profiles`);
+  }
+
+  /** Switch history, newest first (GET /api/profiles/history) */
+  getProfileHistory(query?: GetProfileHistoryQuery): Promise<GetProfileHistoryResponse> {
+    return this.request<GetProfileHistoryResponse>('GET', `/api/profiles/history`, { query });
+  }
+
+  /** Auto-switching at civil dawn and dusk (POST /api/profiles/auto) */
+  setProfileAuto(body?: SetProfileAutoBody): Promise<SetProfileAutoResponse> {
+    return this.request<SetProfileAutoResponse>('POST', `/api/profiles/auto`, { body });
+  }
+
+  /** Add or replace a profile (PUT /api/profiles/:id) */
+  saveProfile(id: string, body: SaveProfileBody): Promise<SaveProfileResponse> {
+    return this.request<SaveProfileResponse>('PUT', `/api/profiles/${encodeURIComponent(String(id))}`, { body });
+  }
+
+  /** Delete a profile (DELETE /api/profiles/:id) */
+  removeProfile(id: string): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('DELETE', `/api/profiles/${encodeURIComponent(String(id))}`);
+  }
+
+  /** Switch now (POST /api/profiles/:id/activate) */
+  activateProfile(id: string): Promise<ActivateProfileResponse> {
+    return this.request<ActivateProfileResponse>('POST', `/api/profiles/${encodeURIComponent(String(id))}/activate`);
+  }
+
+  /** Dashboard summary (GET /api/birds/summary) */
+  getBirdSummary(): Promise<GetBirdSummaryResponse> {
+    return this.request<GetBirdSummaryResponse>('GET', `/api/birds/summary`);
+  }
+
+  /** Every species ever seen (GET /api/birds/lifelist) */
+  getLifeList(): Promise<GetLifeListResponse> {
+    return this.request<GetLifeListResponse>('GET', `/api/birds/lifelist`);
+  }
+
+  /** Recent sightings (GET /api/birds/sightings) */
+  listSightings(query?: ListSightingsQuery): Promise<ListSightingsResponse> {
+    return this.request<ListSightingsResponse>('GET', `/api/birds/sightings`, { query });
+  }
+
+  /** A sighting (GET /api/birds/sightings/:id) */
+  getSighting(id: string): Promise<BirdSighting> {
+    return this.request<BirdSighting>('GET', `/api/birds/sightings/${encodeURIComponent(String(id))}`);
+  }
+
+  /** Per-species weights learned from corrections (GET /api/birds/priors) */
+  getSpeciesPriors(): Promise<GetSpeciesPriorsResponse> {
+    return this.request<GetSpeciesPriorsResponse>('GET', `/api/birds/priors`);
+  }
+
+  /** Today's sightings by species (GET /api/birds/today) */
+  getTodayStats(): Promise<DailyStats> {
+    return this.request<DailyStats>('GET', `/api/birds/today`);
+  }
+
+  /** Stats for one species (GET /api/birds/species/:name) */
+  getSpeciesStats(name: string): Promise<SpeciesStats> {
+    return this.request<SpeciesStats>('GET', `/api/birds/species/${encodeURIComponent(String(name))}`);
+  }
+
+  /** Most seen species (GET /api/birds/top) */
+  getTopSpecies(query?: GetTopSpeciesQuery): Promise<GetTopSpeciesResponse> {
+    return this.request<GetTopSpeciesResponse>('GET', `/api/birds/top`, { query });
+  }
+
+  /** Sightings by weekday and hour (GET /api/birds/heatmap) */
+  getActivityHeatmap(): Promise<GetActivityHeatmapResponse> {
+    return this.request<GetActivityHeatmapResponse>('GET', `/api/birds/heatmap`);
+  }
+
+  /** Search sightings (first 100 results) (GET /api/birds/search) */
+  searchSightings(query?: SearchSightingsQuery): Promise<SearchSightingsResponse> {
+    return this.request<SearchSightingsResponse>('GET', `/api/birds/search`, { query });
+  }
+
+  /** All sightings and the life list (GET /api/birds/export) */
+  exportBirdData(): Promise<ExportBirdDataResponse> {
+    return this.request<ExportBirdDataResponse>('GET', `/api/birds/export`);
+  }
+
+  /** Notification settings (GET /api/notifications/settings) */
+  getNotificationSettings(): Promise<NotificationSettings> {
+    return this.request<NotificationSettings>('GET', `/api/notifications/settings`);
+  }
+
+  /** Update notification settings (POST /api/notifications/settings) */
+  updateNotificationSettings(body?: UpdateNotificationSettingsBody): Promise<UpdateNotificationSettingsResponse> {
+    return this.request<UpdateNotificationSettingsResponse>('POST', `/api/notifications/settings`, { body });
+  }
+
+  /** Send a test notification (POST /api/notifications/test) */
+  sendTestNotification(): Promise<SuccessResponse> {
+    return this.request<SuccessResponse>('POST', `/api/notifications/test`);
+  }
+
+  /** Current weather and how it suits birds (GET /api/weather/current) */
+  getCurrentWeather(): Promise<GetCurrentWeatherResponse> {
+    return this.request<GetCurrentWeatherResponse>('GET', `/api/weather/current`);
+  }
+
+  /** Daily forecast (GET /api/weather/forecast) */
+  getWeatherForecast(query?: GetWeatherForecastQuery): Promise<GetWeatherForecastResponse> {
+    return this.request<GetWeatherForecastResponse>('GET', `/api/weather/forecast`, { query });
+  }
+
+  /** Web dashboard (GET /) */
+  getDashboard(): Promise<Response> {
+    return this.send('GET', `/`);
+  }
+
+  /** Legacy dashboard (GET /v1) */
+  getLegacyDashboard(): Promise<Response> {
+    return this.send('GET', `/v1`);
+  }
+}
@@ -7,6 +7,7 @@
 
 import * as ort from 'onnxruntime-web';
 import { BBox } from './tracker';
+import { RangeFilter, getOccurrenceWeight, isOutOfRange } from './occurrence';
 
 // ImageNet bird class indices and their common names
 // These are the bird-related classes from ImageNet-1K
@@ -114,8 +115,9 @@ const STD = [0.229, 0.224, 0.225];
 export interface ClassifierResult {
   species: string;
   confidence: number;
-  topK: Array<{ species: string; confidence: number; classId: number }>;
+  topK: Array<{ species: string; confidence: number; classId: number; outOfRange?: boolean }>;
   isBird: boolean;
+  possibleRarity?: boolean;    // Best species isn't expected at this location/month
 }
 
 /**
@@ -150,12 +152,21 @@ function float32ToFloat16(float32: Float32Array): Uint16Array {
   return float16;
 }
 
+/**
+ * Species ID used for sightings and corrections ("Blue Jay" -> "blue_jay")
+ */
+export function toSpeciesId(species: string): string {
+  return species.toLowerCase().replace(/\s+/g, '_');
+}
+
 export class BirdClassifier {
   private session: ort.InferenceSession | null = null;
   private inputName: string = '';
   private outputName: string = '';
   private inputType: 'float32' | 'float16' = 'float32';
   private allLabels: string[] = [];
+  private speciesPriors: Record<string, number> = {};
+  private rangeFilter: RangeFilter | null = null;
 
   async load(
     modelUrl: string, 
@@ -236,6 +247,22 @@ export class BirdClassifier {
     return this.session !== null;
   }
 
+  /**
+   * Set per-species prior weights learned from corrections at this camera
+   * (keyed by species ID, see toSpeciesId)
+   */
+  setSpeciesPriors(priors: Record<string, number>): void {
+    this.speciesPriors = { ...priors };
+  }
+
+  /**
+   * Reweight predictions by the bundled range/seasonality table for the
+   * camera's region (null disables the filter)
+   */
+  setRangeFilter(filter: RangeFilter | null): void {
+    this.rangeFilter = filter;
+  }
+
   /**
    * Detect whether model expects float32 or float16 input
    */
@@ -362,8 +389,12 @@ export class BirdClassifier {
     // Apply softmax
     const max = Math.max(...output);
     const exp = output.map(v => Math.exp(v - max));
-    const sum = exp.reduce((a, b) => a + b, 0);
-    const probs = exp.map(v => v / sum);
+    const hasPriors = Object.keys(this.speciesPriors).length > 0;
+    const weighted = hasPriors || this.rangeFilter
+      ? exp.map((v, i) => v * this.getSpeciesWeight(i))
+      : exp;
+    const sum = weighted.reduce((a, b) => a + b, 0);
+    const probs = weighted.map(v => v / sum);
 
     // Separate bird and non-bird predictions
     const birdPreds: Array<{ classId: number; prob: number }> = [];
@@ -395,10 +426,12 @@ export class BirdClassifier {
     // Add top bird predictions first
     for (const pred of birdPreds.slice(0, Math.min(k, 3))) {
       if (pred.prob > 0.01) {
+        const species = this.getLabel(pred.classId);
         topKResults.push({
-          species: this.getLabel(pred.classId),
+          species,
           confidence: pred.prob,
           classId: pred.classId,
+          ...(this.rangeFilter && isOutOfRange(species, this.rangeFilter) ? { outOfRange: true } : {}),
         });
       }
     }
@@ -407,10 +440,12 @@ export class BirdClassifier {
     for (const pred of allPreds) {
       if (topKResults.length >= k) break;
       if (!topKResults.some(r => r.classId === pred.classId) && pred.prob > 0.01) {
+        const species = this.getLabel(pred.classId);
         topKResults.push({
-          species: this.getLabel(pred.classId),
+          species,
           confidence: pred.prob,
           classId: pred.classId,
+          ...(this.rangeFilter && isOutOfRange(species, this.rangeFilter) ? { outOfRange: true } : {}),
         });
       }
     }
@@ -418,14 +453,29 @@ export class BirdClassifier {
     // Use bird-specific label if available, otherwise best overall
     const bestResult = isBird && bestBird.prob > 0.05 ? bestBird : bestOverall;
 
+    const species = this.getLabel(bestResult.classId);
+
     return {
-      species: this.getLabel(bestResult.classId),
+      species,
       confidence: bestResult.prob,
       topK: topKResults,
       isBird,
+      possibleRarity: !!this.rangeFilter && isOutOfRange(species, this.rangeFilter),
     };
   }
 
+  /**
+   * Combined prior for a class: learned camera priors x range/season weight
+   */
+  private getSpeciesWeight(classId: number): number {
+    const label = this.getLabel(classId);
+    let weight = this.speciesPriors[toSpeciesId(label)] ?? 1;
+    if (this.rangeFilter && BIRD_CLASS_IDS.has(classId)) {
+      weight *= getOccurrenceWeight(label, this.rangeFilter);
+    }
+    return weight;
+  }
+
   /**
    * Get human-readable label for class ID
    */
@@ -37,6 +37,7 @@ export interface ClipMetadata {
   thumbnailUrl?: string;
   source: 'browser_ml';
   bbox: { x: number; y: number; w: number; h: number };
+  zoneId?: string;
 }
 
 const DEFAULT_CONFIG: ClipRecorderConfig = {
@@ -195,6 +196,7 @@ export class ClipRecorder {
     confidence: number;
     bbox: { x: number; y: number; w: number; h: number };
     snapshot?: string;
+    zoneId?: string;
   }): Promise<ClipMetadata | null> {
     // Rate limiting
     const now = Date.now();
@@ -266,6 +268,7 @@ export class ClipRecorder {
         species: params.species,
         confidence: params.confidence,
         bbox: params.bbox,
+        ...(params.zoneId ? { zoneId: params.zoneId } : {}),
         source: 'browser_ml',
         mimeType: this.mimeType,
         sizeBytes: blob.size,
@@ -291,6 +294,7 @@ export class ClipRecorder {
         downloadUrl,
         source: 'browser_ml',
         bbox: params.bbox,
+        zoneId: params.zoneId,
       };
     } catch (error) {
       console.error('[ClipRecorder] Failed to capture clip:', error);
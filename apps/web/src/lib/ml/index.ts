@@ -9,9 +9,23 @@ export type { BBox, Track, TrackerConfig } from './tracker';
 export { BirdDetector } from './detector';
 export type { DetectorResult } from './detector';
 
-export { BirdClassifier, SimpleClassifier } from './classifier';
+export { BirdClassifier, SimpleClassifier, toSpeciesId } from './classifier';
 export type { ClassifierResult } from './classifier';
 
+export {
+  OCCURRENCE_REGIONS,
+  getOccurrence,
+  getOccurrenceWeight,
+  isOutOfRange,
+  resolveRegion,
+} from './occurrence';
+export type { OccurrenceRegion, RangeFilter } from './occurrence';
+
+export { locateZone, pointInPolygon } from './zones';
+export type { ZoneShape, ZoneLocation } from './zones';
+
+export { BirdEmbedder, getBirdEmbedder, cosineSimilarity } from './reid';
+
 export { DetectionPipeline } from './pipeline';
 export type { 
   Detection, 
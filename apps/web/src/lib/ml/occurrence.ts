@@ -0,0 +1,295 @@
+/**
+ * Species Occurrence Table
+ *
+ * Bundled range and seasonality data for the classifier's bird labels, so
+ * predictions can be reweighted by where the camera is and what month it is
+ * without a network lookup.
+ *
+ * Each species maps region -> 12 digits (Jan..Dec), where 0 means absent and
+ * 9 means abundant. Regions not listed for a species count as out of range.
+ *
+ * Where a species has a record in the species collection, its
+ * `BirdSpecies.regionCodes` decide whether it is in range and the table only
+ * supplies the seasonality.
+ */
+
+export type OccurrenceRegion =
+  | 'NA-E'  // Eastern North America (east of the Rockies)
+  | 'NA-W'  // Western North America
+  | 'NA-N'  // Alaska and northern Canada
+  | 'MX'    // Mexico, Central America and the Caribbean
+  | 'SA'    // South America
+  | 'EU'    // Europe
+  | 'AF'    // Africa
+  | 'AS'    // Asia and the Middle East
+  | 'OC';   // Australia, New Zealand and the Pacific
+
+export const OCCURRENCE_REGIONS: Record<OccurrenceRegion, string> = {
+  'NA-E': 'Eastern North America',
+  'NA-W': 'Western North America',
+  'NA-N': 'Alaska & Northern Canada',
+  'MX': 'Mexico, Central America & Caribbean',
+  'SA': 'South America',
+  'EU': 'Europe',
+  'AF': 'Africa',
+  'AS': 'Asia',
+  'OC': 'Australia & Pacific',
+};
+
+// BirdSpecies.regionCodes that fall within each region
+const REGION_CODES: Record<OccurrenceRegion, string[]> = {
+  'NA-E': ['NA', 'US-E', 'US-N', 'US-S', 'US-SE'],
+  'NA-W': ['NA', 'US-W', 'US-N', 'US-S'],
+  'NA-N': ['NA'],
+  'MX': ['MX'],
+  'SA': ['SA'],
+  'EU': ['EU'],
+  'AF': ['AF'],
+  'AS': ['AS'],
+  'OC': ['OC'],
+};
+
+// Domestic birds can turn up anywhere
+const EVERYWHERE = '*';
+
+const OCCURRENCE: Record<string, Partial<Record<OccurrenceRegion | typeof EVERYWHERE, string>>> = {
+  'Rooster': { [EVERYWHERE]: '555555555555' },
+  'Hen': { [EVERYWHERE]: '555555555555' },
+  'Ostrich': { AF: '666666666666' },
+  'Brambling': { EU: '776520025677', AS: '665420024566' },
+  'European Goldfinch': { EU: '888888888888', AS: '555555555555', AF: '444444444444', OC: '666666666666' },
+  'House Finch': { 'NA-E': '888888888888', 'NA-W': '999999999999', MX: '777777777777' },
+  'Dark-eyed Junco': { 'NA-E': '999731000379', 'NA-W': '888888888888', 'NA-N': '113799997311', MX: '333333333333' },
+  'Indigo Bunting': { 'NA-E': '000038999630', 'NA-W': '000013443100', MX: '888530002688', SA: '111000000011' },
+  'American Robin': { 'NA-E': '556899999865', 'NA-W': '777888888887', 'NA-N': '001579997510', MX: '444333333344' },
+  'Bulbul': { AS: '888888888888', AF: '888888888888', OC: '333333333333' },
+  'Blue Jay': { 'NA-E': '999999999999', 'NA-W': '222222222222', 'NA-N': '333333333333' },
+  'Black-billed Magpie': { 'NA-W': '888888888888', 'NA-N': '555555555555', EU: '999999999999', AS: '888888888888' },
+  'Black-capped Chickadee': { 'NA-E': '999999999999', 'NA-W': '888888888888', 'NA-N': '777777777777' },
+  'American Dipper': { 'NA-W': '666666666666', MX: '333333333333', EU: '555555555555', AS: '444444444444' },
+  'Kite': {
+    'NA-E': '000146665100', 'NA-W': '333333333333', MX: '666666666666', SA: '777777777777',
+    EU: '225777776522', AF: '777777777777', AS: '777777777777', OC: '666666666666',
+  },
+  'Bald Eagle': { 'NA-E': '777666666777', 'NA-W': '777666666777', 'NA-N': '555788887655', MX: '111000000011' },
+  'Turkey Vulture': {
+    'NA-E': '557999999975', 'NA-W': '225899999852', 'NA-N': '000033333000', MX: '999999999999', SA: '999999999999',
+  },
+  'Great Grey Owl': {
+    'NA-N': '444444444444', 'NA-W': '222222222222', 'NA-E': '111000000011', EU: '222222222222', AS: '222222222222',
+  },
+  'Black Grouse': { EU: '555555555555', AS: '444444444444' },
+  'Ptarmigan': { 'NA-N': '666666666666', 'NA-W': '333333333333', EU: '444444444444', AS: '444444444444' },
+  'Ruffed Grouse': { 'NA-E': '555555555555', 'NA-W': '444444444444', 'NA-N': '555555555555' },
+  'Prairie Chicken': { 'NA-E': '222222222222', 'NA-W': '111111111111' },
+  'Indian Peafowl': { AS: '777777777777', 'NA-W': '111111111111', EU: '111111111111', OC: '111111111111' },
+  'Northern Bobwhite': { 'NA-E': '555555555555', MX: '444444444444' },
+  'Grey Partridge': { EU: '555555555555', AS: '333333333333', 'NA-W': '333333333333', 'NA-N': '222222222222' },
+  'African Grey Parrot': { AF: '555555555555' },
+  'Scarlet Macaw': { MX: '333333333333', SA: '555555555555' },
+  'Sulphur-crested Cockatoo': { OC: '888888888888' },
+  'Rainbow Lorikeet': { OC: '999999999999' },
+  'Coucal': { AF: '666666666666', AS: '666666666666', OC: '444444444444' },
+  'Bee-eater': { EU: '000057776200', AF: '888888888888', AS: '666777777666', OC: '223555555432' },
+  'Great Hornbill': { AS: '444444444444' },
+  'Ruby-throated Hummingbird': { 'NA-E': '001599998200', 'NA-N': '000013331000', MX: '776300000577' },
+  'Rufous-tailed Jacamar': { MX: '444444444444', SA: '555555555555' },
+  'Toco Toucan': { SA: '666666666666' },
+  'Mallard': {
+    'NA-E': '888888888888', 'NA-W': '999999999999', 'NA-N': '225899998522', MX: '555300000355',
+    EU: '999999999999', AS: '888888888888', AF: '222222222222', OC: '555555555555',
+  },
+  'Red-breasted Merganser': {
+    'NA-E': '776410001577', 'NA-W': '554200001355', 'NA-N': '002689997510', EU: '666555555666', AS: '444222222444',
+  },
+  'Canada Goose': {
+    'NA-E': '999999999999', 'NA-W': '999999999999', 'NA-N': '113799997311', MX: '222000000022', EU: '444444444444',
+  },
+  'Black Swan': { OC: '888888888888', EU: '111111111111' },
+  'White Stork': { EU: '013788886310', AF: '776420013677', AS: '335666666533' },
+  'Black Stork': { EU: '002555554200', AF: '554300002455', AS: '334444444433' },
+  'Roseate Spoonbill': { 'NA-E': '333333333333', MX: '666666666666', SA: '666666666666' },
+  'American Flamingo': { MX: '555555555555', SA: '444444444444', 'NA-E': '111111111111' },
+  'Little Blue Heron': { 'NA-E': '334666666543', MX: '777777777777', SA: '666666666666' },
+  'Great Egret': {
+    'NA-E': '557888888765', 'NA-W': '555666666555', MX: '888888888888', SA: '888888888888',
+    EU: '444444444444', AF: '666666666666', AS: '777777777777', OC: '777777777777',
+  },
+  'American Bittern': { 'NA-E': '113566665311', 'NA-W': '223455554322', 'NA-N': '000355553000', MX: '443100000134' },
+  'Sandhill Crane': { 'NA-E': '335766666653', 'NA-W': '557766666755', 'NA-N': '002577775200', MX: '443000000234' },
+  'Limpkin': { 'NA-E': '222222222222', MX: '444444444444', SA: '555555555555' },
+  'Common Gallinule': { 'NA-E': '224566666532', 'NA-W': '333333333333', MX: '777777777777', SA: '777777777777' },
+  'American Coot': { 'NA-E': '666555555666', 'NA-W': '888888888888', 'NA-N': '001466664100', MX: '777666666777' },
+  'Great Bustard': { EU: '222222222222', AS: '222222222222' },
+  'Ruddy Turnstone': {
+    'NA-E': '444555545554', 'NA-W': '444444344444', 'NA-N': '000179951000', MX: '555433335555',
+    SA: '555422224555', EU: '666543345666', AF: '555422224555', AS: '444444444444', OC: '666533335666',
+  },
+  'Dunlin': {
+    'NA-E': '555322235665', 'NA-W': '777432245777', 'NA-N': '000279974100',
+    EU: '888543345788', AS: '666444444566', AF: '444200002444',
+  },
+  'Common Redshank': { EU: '666777777666', AS: '777666666777', AF: '444300003444' },
+  'Dowitcher': {
+    'NA-E': '333566676543', 'NA-W': '444566676544', 'NA-N': '000279962000', MX: '666310013566', SA: '444100001444',
+  },
+  'American Oystercatcher': { 'NA-E': '444555555444', MX: '444444444444', SA: '444444444444' },
+  'Brown Pelican': { 'NA-E': '666666666666', 'NA-W': '666777888776', MX: '888888888888', SA: '777777777777' },
+  'King Penguin': { SA: '222222222222', OC: '111111111111' },
+  'Laysan Albatross': { OC: '666555100356', 'NA-W': '111111111111' },
+};
+
+// Weight for species with no records in the region/month
+const OUT_OF_RANGE_WEIGHT = 0.05;
+// Weight range for in-range species, from rarest (1) to most common (9)
+const MIN_IN_RANGE_WEIGHT = 0.4;
+
+export interface RangeFilter {
+  region: OccurrenceRegion;
+  month?: number; // 0-11, defaults to the current month
+  speciesRegions?: Record<string, string[]>; // Common name -> BirdSpecies.regionCodes
+}
+
+/**
+ * Occurrence level 0-9 for a species, or null if nothing is known about it
+ * (or only that it is in range, without seasonality)
+ */
+export function getOccurrence(
+  species: string,
+  region: OccurrenceRegion,
+  month: number,
+  regionCodes?: string[]
+): number | null {
+  const entry = OCCURRENCE[species];
+  if (regionCodes?.length) {
+    if (!regionCodes.some((code) => REGION_CODES[region].includes(code))) return 0;
+    const months = entry?.[region] ?? entry?.[EVERYWHERE];
+    return months ? Number(months[month]) || 0 : null;
+  }
+  if (!entry) return null;
+
+  const months = entry[region] ?? entry[EVERYWHERE];
+  if (!months) return 0;
+  return Number(months[month]) || 0;
+}
+
+function filterOccurrence(species: string, filter: RangeFilter): number | null {
+  return getOccurrence(
+    species,
+    filter.region,
+    filter.month ?? new Date().getMonth(),
+    filter.speciesRegions?.[species]
+  );
+}
+
+/**
+ * Multiplier applied to a species' probability for this place and time
+ */
+export function getOccurrenceWeight(species: string, filter: RangeFilter): number {
+  const level = filterOccurrence(species, filter);
+  if (level === null) return 1;
+  if (level === 0) return OUT_OF_RANGE_WEIGHT;
+  return MIN_IN_RANGE_WEIGHT + (1 - MIN_IN_RANGE_WEIGHT) * (level / 9);
+}
+
+/**
+ * True if the table has the species and it isn't expected here this month
+ */
+export function isOutOfRange(species: string, filter: RangeFilter): boolean {
+  return filterOccurrence(species, filter) === 0;
+}
+
+// ==================== Region lookup ====================
+
+const WEST_STATES = ['WA', 'OR', 'CA', 'NV', 'ID', 'MT', 'WY', 'UT', 'CO', 'AZ', 'NM', 'BC', 'AB'];
+const NORTH_STATES = ['AK', 'YT', 'NT', 'NU'];
+const EAST_STATES = [
+  'ND', 'SD', 'NE', 'KS', 'OK', 'TX', 'MN', 'IA', 'MO', 'AR', 'LA', 'WI', 'IL', 'MS', 'MI', 'IN', 'KY', 'TN',
+  'AL', 'OH', 'WV', 'VA', 'NC', 'SC', 'GA', 'FL', 'PA', 'NY', 'VT', 'NH', 'ME', 'MA', 'RI', 'CT', 'NJ', 'DE',
+  'MD', 'DC', 'SK', 'MB', 'ON', 'QC', 'NB', 'NS', 'PE', 'NL',
+];
+
+const STATE_NAMES: Record<string, string> = {
+  'washington': 'WA', 'oregon': 'OR', 'california': 'CA', 'nevada': 'NV', 'idaho': 'ID', 'montana': 'MT',
+  'wyoming': 'WY', 'utah': 'UT', 'colorado': 'CO', 'arizona': 'AZ', 'new mexico': 'NM', 'alaska': 'AK',
+  'hawaii': 'HI', 'north dakota': 'ND', 'south dakota': 'SD', 'nebraska': 'NE', 'kansas': 'KS',
+  'oklahoma': 'OK', 'texas': 'TX', 'minnesota': 'MN', 'iowa': 'IA', 'missouri': 'MO', 'arkansas': 'AR',
+  'louisiana': 'LA', 'wisconsin': 'WI', 'illinois': 'IL', 'mississippi': 'MS', 'michigan': 'MI',
+  'indiana': 'IN', 'kentucky': 'KY', 'tennessee': 'TN', 'alabama': 'AL', 'ohio': 'OH',
+  'west virginia': 'WV', 'virginia': 'VA', 'north carolina': 'NC', 'south carolina': 'SC', 'georgia': 'GA',
+  'florida': 'FL', 'pennsylvania': 'PA', 'new york': 'NY', 'vermont': 'VT', 'new hampshire': 'NH',
+  'maine': 'ME', 'massachusetts': 'MA', 'rhode island': 'RI', 'connecticut': 'CT', 'new jersey': 'NJ',
+  'delaware': 'DE', 'maryland': 'MD', 'british columbia': 'BC', 'alberta': 'AB', 'saskatchewan': 'SK',
+  'manitoba': 'MB', 'ontario': 'ON', 'quebec': 'QC', 'new brunswick': 'NB', 'nova scotia': 'NS',
+  'newfoundland': 'NL', 'yukon': 'YT',
+};
+
+const COUNTRY_REGIONS: Record<string, OccurrenceRegion> = {
+  'mexico': 'MX', 'guatemala': 'MX', 'belize': 'MX', 'honduras': 'MX', 'el salvador': 'MX', 'nicaragua': 'MX',
+  'costa rica': 'MX', 'panama': 'MX', 'cuba': 'MX', 'jamaica': 'MX', 'puerto rico': 'MX',
+  'dominican republic': 'MX', 'bahamas': 'MX',
+  'brazil': 'SA', 'argentina': 'SA', 'chile': 'SA', 'peru': 'SA', 'colombia': 'SA', 'ecuador': 'SA',
+  'venezuela': 'SA', 'bolivia': 'SA', 'uruguay': 'SA', 'paraguay': 'SA',
+  'united kingdom': 'EU', 'uk': 'EU', 'england': 'EU', 'scotland': 'EU', 'wales': 'EU', 'ireland': 'EU',
+  'france': 'EU', 'germany': 'EU', 'spain': 'EU', 'portugal': 'EU', 'italy': 'EU', 'netherlands': 'EU',
+  'belgium': 'EU', 'switzerland': 'EU', 'austria': 'EU', 'poland': 'EU', 'sweden': 'EU', 'norway': 'EU',
+  'finland': 'EU', 'denmark': 'EU', 'czechia': 'EU', 'hungary': 'EU', 'greece': 'EU', 'romania': 'EU',
+  'south africa': 'AF', 'kenya': 'AF', 'tanzania': 'AF', 'nigeria': 'AF', 'egypt': 'AF', 'morocco': 'AF',
+  'ethiopia': 'AF', 'ghana': 'AF', 'uganda': 'AF', 'namibia': 'AF', 'botswana': 'AF',
+  'india': 'AS', 'china': 'AS', 'japan': 'AS', 'korea': 'AS', 'thailand': 'AS', 'vietnam': 'AS',
+  'malaysia': 'AS', 'singapore': 'AS', 'indonesia': 'AS', 'philippines': 'AS', 'israel': 'AS',
+  'turkey': 'AS', 'russia': 'AS', 'nepal': 'AS', 'sri lanka': 'AS',
+  'australia': 'OC', 'new zealand': 'OC', 'fiji': 'OC',
+};
+
+function stateRegion(code: string): OccurrenceRegion | null {
+  if (code === 'HI') return 'OC';
+  if (WEST_STATES.includes(code)) return 'NA-W';
+  if (NORTH_STATES.includes(code)) return 'NA-N';
+  if (EAST_STATES.includes(code)) return 'NA-E';
+  return null;
+}
+
+/**
+ * Region for one component of a location label ("OH", "Ontario", "UK"),
+ * matched as a whole name rather than a substring
+ */
+function componentRegion(component: string): OccurrenceRegion | null {
+  // eBird-style subnational codes (US-OH, CA-ON)
+  const subnational = component.toUpperCase().match(/^(US|CA)-([A-Z]{2})$/);
+  if (subnational) return stateRegion(subnational[2]);
+
+  const name = component.toLowerCase().replace(/\s+/g, ' ');
+  if (Object.hasOwn(STATE_NAMES, name)) return stateRegion(STATE_NAMES[name]);
+  if (Object.hasOwn(COUNTRY_REGIONS, name)) return COUNTRY_REGIONS[name];
+
+  // Two-letter state/province code as its own word ("OH", "OR 97201")
+  for (const token of component.split(/\s+/).reverse()) {
+    if (/^[A-Z]{2}$/.test(token)) {
+      const region = stateRegion(token);
+      if (region) return region;
+    }
+  }
+  return null;
+}
+
+/**
+ * Best-effort region from a camera's location label or region code,
+ * e.g. "Columbus, OH", "US-OH", "Ontario, Canada", "Brighton, UK"
+ *
+ * Components are tried from the last (usually the country) to the first, so
+ * "New South Wales, Australia" resolves from "Australia".
+ */
+export function resolveRegion(location?: string | null): OccurrenceRegion | null {
+  if (!location) return null;
+  const trimmed = location.trim();
+  if (Object.hasOwn(OCCURRENCE_REGIONS, trimmed)) return trimmed as OccurrenceRegion;
+
+  const components = trimmed.split(',').map((part) => part.trim()).filter(Boolean);
+  for (const component of components.reverse()) {
+    const region = componentRegion(component);
+    if (region) return region;
+  }
+
+  return null;
+}
@@ -9,6 +9,8 @@ import { BirdDetector, DetectorResult } from './detector';
 import { BirdClassifier, ClassifierResult, SimpleClassifier } from './classifier';
 import { BirdTracker, Track, BBox } from './tracker';
 import { detectEngine, MLEngine } from './engineDetect';
+import { OccurrenceRegion, RangeFilter, isOutOfRange } from './occurrence';
+import { ZoneShape, locateZone } from './zones';
 
 // Model URLs
 // YOLOv5n from SourceForge mirror (4MB) - trained on COCO, detects "bird" class (id 14)
@@ -39,6 +41,10 @@ export interface PipelineConfig {
   detectionThreshold: number;  // Min confidence for detection (default 0.35)
   classificationThreshold: number; // Min confidence for species (default 0.55)
   enableClassification: boolean;   // Run species classifier (default true)
+  speciesPriors?: Record<string, number>; // Per-species weights learned from corrections
+  region?: OccurrenceRegion | null;        // Camera region for range/season filtering
+  speciesRegions?: Record<string, string[]>; // Common name -> BirdSpecies.regionCodes
+  zones?: ZoneShape[];                     // Detect/ignore/privacy zones
 }
 
 export interface PipelineStatus {
@@ -60,6 +66,8 @@ export interface SightingEvent {
   trackId: string;
   trackDuration: number;
   snapshot?: string;
+  possibleRarity?: boolean;    // Species not expected at this location/month
+  zoneId?: string;             // Detect zone the bird was in
 }
 
 const DEFAULT_CONFIG: PipelineConfig = {
@@ -180,6 +188,12 @@ export class DetectionPipeline {
             throw new Error('Failed to load classifier from any source');
           }
           
+          if (this.config.speciesPriors) {
+            (this.classifier as BirdClassifier).setSpeciesPriors(this.config.speciesPriors);
+          }
+          if (this.config.region) {
+            (this.classifier as BirdClassifier).setRangeFilter(this.rangeFilter());
+          }
           this.updateStatus({ classifierLoaded: true });
         } catch (e) {
           console.warn('[Pipeline] Classifier failed to load, using simple fallback:', e);
@@ -271,7 +285,9 @@ export class DetectionPipeline {
       const imageData = this.captureFrame();
 
       // Run detection
-      const detections = await this.detector.detect(imageData, this.config.detectionThreshold);
+      // Drop detections in ignore zones or outside every detect zone
+      const detections = (await this.detector.detect(imageData, this.config.detectionThreshold))
+        .filter(d => !locateZone(d.bbox, this.config.zones).ignored);
 
       // Classify each detection
       const classifiedDetections = await this.classifyDetections(imageData, detections);
@@ -310,6 +326,7 @@ export class DetectionPipeline {
       this.onDetection?.(outputDetections);
 
       // Emit sightings
+      const rangeFilter = this.rangeFilter();
       for (const track of toEmit) {
         const snapshot = this.captureSnapshot(imageData, track.bbox);
         this.onSighting?.({
@@ -320,6 +337,8 @@ export class DetectionPipeline {
           trackId: track.id,
           trackDuration: Date.now() - track.firstSeen,
           snapshot,
+          possibleRarity: !!rangeFilter && isOutOfRange(track.bestSpecies, rangeFilter),
+          zoneId: locateZone(track.bbox, this.config.zones).zoneId,
         });
       }
 
@@ -425,6 +444,17 @@ export class DetectionPipeline {
     this.tracker.setConfig({
       minConfidence: this.config.classificationThreshold,
     });
+    if (config.speciesPriors && this.classifier instanceof BirdClassifier) {
+      this.classifier.setSpeciesPriors(config.speciesPriors);
+    }
+    if ((config.region !== undefined || config.speciesRegions) && this.classifier instanceof BirdClassifier) {
+      this.classifier.setRangeFilter(this.rangeFilter());
+    }
+  }
+
+  private rangeFilter(): RangeFilter | null {
+    const { region, speciesRegions } = this.config;
+    return region ? { region, speciesRegions } : null;
   }
 
   /**
@@ -0,0 +1,177 @@
+/**
+ * Bird Re-identification Embeddings
+ *
+ * Computes an appearance embedding for a sighting keyframe so the same
+ * individual can be recognized across visits. Runs on the CPU (WASM) so it
+ * doesn't compete with the live detection pipeline for the GPU.
+ *
+ * Uses DINOv2-small, a self-supervised backbone whose pooled features
+ * capture plumage detail rather than just the species. (Classifier logits
+ * encode the species, not the individual, and would merge every bird of a
+ * species.) Loaded from /models when downloaded with
+ * scripts/download-models.sh, else from Hugging Face.
+ */
+
+import * as ort from 'onnxruntime-web';
+
+const REID_MODEL_NAME = 'dinov2-small';
+// Local first, then remote (like the pipeline's detector and classifier)
+const REID_MODEL_URLS = [
+  '/models/dinov2-small.onnx',
+  'https://huggingface.co/Xenova/dinov2-small/resolve/main/onnx/model_quantized.onnx',
+];
+// Output to use when the model has several (e.g. pooled features and tokens)
+const FEATURE_OUTPUT = /embed|feature|pool/i;
+
+const INPUT_SIZE = 224;
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+export class BirdEmbedder {
+  private session: ort.InferenceSession | null = null;
+  private inputName = '';
+  private outputName = '';
+  private modelName = REID_MODEL_NAME;
+
+  async load(url: string, modelName: string = REID_MODEL_NAME): Promise<void> {
+    this.session = await ort.InferenceSession.create(url, {
+      executionProviders: ['wasm'],
+    });
+    const { inputNames, outputNames } = this.session;
+    this.inputName = inputNames[0];
+    this.outputName = outputNames.find((name) => FEATURE_OUTPUT.test(name)) ?? outputNames[0];
+    this.modelName = modelName;
+    console.log('[ReID] Embedding model loaded from:', url);
+  }
+
+  isLoaded(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Name of the model that produced the embeddings (stored with each one,
+   * since embeddings from different models aren't comparable)
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
+  /**
+   * L2-normalized embedding of a bird image (a cropped keyframe)
+   */
+  async embed(imageData: ImageData): Promise<Float32Array> {
+    if (!this.session) {
+      throw new Error('Model not loaded');
+    }
+
+    const input = new ort.Tensor('float32', this.preprocess(imageData), [1, 3, INPUT_SIZE, INPUT_SIZE]);
+    const results = await this.session.run({ [this.inputName]: input });
+    const output = (await results[this.outputName].getData()) as Float32Array;
+
+    return normalize(Float32Array.from(output));
+  }
+
+  /**
+   * Embed an image from a URL or data URL (e.g. a sighting snapshot)
+   */
+  async embedImage(src: string): Promise<Float32Array> {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = INPUT_SIZE;
+    canvas.height = INPUT_SIZE;
+    const ctx = canvas.getContext('2d')!;
+
+    // Letterbox to keep the bird's proportions
+    const scale = Math.min(INPUT_SIZE / image.width, INPUT_SIZE / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(0, 0, INPUT_SIZE, INPUT_SIZE);
+    ctx.drawImage(image, (INPUT_SIZE - w) / 2, (INPUT_SIZE - h) / 2, w, h);
+
+    return this.embed(ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE));
+  }
+
+  private preprocess(imageData: ImageData): Float32Array {
+    const pixels = imageData.data;
+    const channelSize = INPUT_SIZE * INPUT_SIZE;
+    const data = new Float32Array(3 * channelSize);
+
+    for (let i = 0; i < channelSize; i++) {
+      data[i] = (pixels[i * 4] / 255 - MEAN[0]) / STD[0];
+      data[channelSize + i] = (pixels[i * 4 + 1] / 255 - MEAN[1]) / STD[1];
+      data[2 * channelSize + i] = (pixels[i * 4 + 2] / 255 - MEAN[2]) / STD[2];
+    }
+
+    return data;
+  }
+
+  dispose(): void {
+    this.session = null;
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Scale a vector to unit length
+ */
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+
+  const result = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+  return result;
+}
+
+/**
+ * Cosine similarity of two embeddings (-1..1)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+async function loadEmbedder(): Promise<BirdEmbedder | null> {
+  for (const url of REID_MODEL_URLS) {
+    try {
+      const instance = new BirdEmbedder();
+      await instance.load(url);
+      return instance;
+    } catch (e) {
+      console.warn('[ReID] Failed to load re-ID model from', url, ':', e);
+    }
+  }
+  console.warn('[ReID] No re-ID model could be loaded - individual re-identification is off');
+  return null;
+}
+
+// Shared instance, loaded (or found missing) once
+let embedder: Promise<BirdEmbedder | null> | null = null;
+
+/**
+ * The shared embedder, or null when no re-ID model is available
+ */
+export function getBirdEmbedder(): Promise<BirdEmbedder | null> {
+  embedder ??= loadEmbedder();
+  return embedder;
+}
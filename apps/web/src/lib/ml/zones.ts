@@ -0,0 +1,57 @@
+/**
+ * Detection Zones
+ *
+ * Decides whether a detection counts, based on the camera's zones (drawn in
+ * the zone editor and shared with the pi-bridge): anything centered in an
+ * ignore or privacy zone is dropped, and when detect zones exist, only
+ * detections inside one of them are kept and tagged with its ID.
+ */
+
+import type { BBox } from './tracker';
+
+export interface ZoneShape {
+  id: string;
+  type: 'detect' | 'privacy' | 'ignore';
+  polygon: { x: number; y: number }[]; // normalized 0-1
+}
+
+export interface ZoneLocation {
+  zoneId?: string;
+  ignored: boolean;
+}
+
+/**
+ * Point-in-polygon test (ray casting), normalized coordinates
+ */
+export function pointInPolygon(x: number, y: number, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Which zone a detection falls in, by its bbox center
+ */
+export function locateZone(bbox: BBox, zones: ZoneShape[] | undefined): ZoneLocation {
+  if (!zones?.length) return { ignored: false };
+
+  const cx = bbox.x + bbox.w / 2;
+  const cy = bbox.y + bbox.h / 2;
+  const contains = (z: ZoneShape) => z.polygon.length >= 3 && pointInPolygon(cx, cy, z.polygon);
+
+  if (zones.some((z) => z.type !== 'detect' && contains(z))) {
+    return { ignored: true };
+  }
+
+  const detectZones = zones.filter((z) => z.type === 'detect');
+  if (detectZones.length === 0) return { ignored: false };
+
+  const zone = detectZones.find(contains);
+  return zone ? { zoneId: zone.id, ignored: false } : { ignored: true };
+}
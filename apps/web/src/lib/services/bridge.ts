@@ -0,0 +1,47 @@
+import { auth } from '@/lib/firebase';
+import { BridgeClient } from '@/lib/bridge-api';
+
+const DEFAULT_GO2RTC_PORT = 1984;
+
+// Headers for a camera's pi-bridge: its API key if one is configured,
+// otherwise the signed-in user's Firebase ID token (refreshed when needed)
+export async function getBridgeHeaders(apiKey?: string): Promise<Record<string, string>> {
+  if (apiKey) return { 'X-API-Key': apiKey };
+
+  const idToken = await auth.currentUser?.getIdToken();
+  return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+}
+
+// Call a pi-bridge API route (e.g. '/api/ptz/move') as the signed-in user
+export async function bridgeFetch(
+  gatewayUrl: string,
+  path: string,
+  init: RequestInit = {},
+  apiKey?: string
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(await getBridgeHeaders(apiKey))) {
+    headers.set(name, value);
+  }
+  return fetch(`${gatewayUrl.replace(/\/$/, '')}${path}`, { ...init, headers });
+}
+
+// Typed client for a camera's pi-bridge (generated from its route table)
+export function createBridgeClient(gatewayUrl: string, apiKey?: string): BridgeClient {
+  return new BridgeClient({
+    baseUrl: gatewayUrl.replace(/\/$/, ''),
+    headers: () => getBridgeHeaders(apiKey),
+  });
+}
+
+// go2rtc's WebRTC endpoint next to a pi-bridge, on the port the bridge reports
+// (only swapped when the gateway URL has an explicit port, i.e. on the LAN)
+export function getBridgeWebrtcUrl(gatewayUrl: string, go2rtcPort: number = DEFAULT_GO2RTC_PORT): string {
+  try {
+    const url = new URL(gatewayUrl);
+    if (url.port) url.port = String(go2rtcPort);
+    return `${url.origin}/api/webrtc?src=birdcam`;
+  } catch {
+    return `${gatewayUrl.replace(/\/$/, '')}/api/webrtc?src=birdcam`;
+  }
+}
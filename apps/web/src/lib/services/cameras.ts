@@ -11,10 +11,11 @@ import {
   orderBy,
   onSnapshot,
   serverTimestamp,
+  deleteField,
   Timestamp,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Camera, Zone } from '@/types';
+import { Camera, CameraShareRole, Zone } from '@/types';
 
 const camerasRef = collection(db, 'cameras');
 
@@ -111,18 +112,49 @@ export async function getCamera(cameraId: string): Promise<Camera | null> {
   return null;
 }
 
-// Update camera
+// Update camera (fields passed as undefined are cleared)
 export async function updateCamera(
   cameraId: string,
-  updates: Partial<Pick<Camera, 'name' | 'rtspUrl' | 'status' | 'isPublic' | 'locationLabel'>>
+  updates: Partial<Pick<Camera, 'name' | 'rtspUrl' | 'status' | 'isPublic' | 'locationLabel' | 'regionCode'>>
 ): Promise<void> {
+  const docRef = doc(db, 'cameras', cameraId);
+  const fields = Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+  );
+  await updateDoc(docRef, {
+    ...fields,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+// Share a camera with another user (lets them use its pi-bridge when signed in)
+export async function shareCamera(cameraId: string, uid: string, role: CameraShareRole): Promise<void> {
+  const docRef = doc(db, 'cameras', cameraId);
+  await updateDoc(docRef, {
+    [`sharedWith.${uid}`]: role,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function unshareCamera(cameraId: string, uid: string): Promise<void> {
   const docRef = doc(db, 'cameras', cameraId);
   await updateDoc(docRef, {
-    ...updates,
+    [`sharedWith.${uid}`]: deleteField(),
     updatedAt: serverTimestamp(),
   });
 }
 
+// Cameras other users have shared with this user
+export async function getSharedCameras(userId: string): Promise<Camera[]> {
+  const q = query(camerasRef, where(`sharedWith.${userId}`, 'in', ['viewer', 'operator']));
+
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data() as Record<string, unknown>),
+  })) as Camera[];
+}
+
 // Delete camera
 export async function deleteCamera(cameraId: string): Promise<void> {
   const docRef = doc(db, 'cameras', cameraId);
@@ -157,6 +189,29 @@ export async function getCameraZones(cameraId: string): Promise<Zone[]> {
   })) as Zone[];
 }
 
+// Subscribe to a camera's zones (real-time)
+export function subscribeToCameraZones(
+  cameraId: string,
+  callback: (zones: Zone[]) => void
+): () => void {
+  const zonesRef = collection(db, 'cameras', cameraId, 'zones');
+
+  return onSnapshot(
+    zonesRef,
+    (snapshot) => {
+      const zones = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...convertTimestamps(doc.data() as Record<string, unknown>),
+      })) as Zone[];
+      callback(zones);
+    },
+    (error) => {
+      console.error('Zone subscription error:', error);
+      callback([]);
+    }
+  );
+}
+
 export async function deleteZone(cameraId: string, zoneId: string): Promise<void> {
   const docRef = doc(db, 'cameras', cameraId, 'zones', zoneId);
   await deleteDoc(docRef);
@@ -0,0 +1,171 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { AccuracyPoint, ConfusionMatrix, Sighting, SpeciesCorrection } from '@/types';
+
+const correctionsRef = collection(db, 'corrections');
+
+// Species need this many reviews before their prior moves away from 1
+const MIN_REVIEWS_FOR_PRIOR = 3;
+// Additive smoothing so a handful of reviews can't swing a prior to extremes
+const PRIOR_SMOOTHING = 2;
+const PRIOR_MIN = 0.25;
+const PRIOR_MAX = 4;
+
+function convertTimestamps(data: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof Timestamp) {
+      result[key] = value.toDate();
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// Record a species review of a sighting: the camera owner's own ('user') or
+// a community ID they accepted ('community'). One per sighting, later reviews
+// overwrite
+export async function recordCorrection(
+  sighting: Pick<Sighting, 'id' | 'cameraId' | 'speciesModelTopN'>,
+  finalSpeciesId: string,
+  source: SpeciesCorrection['source']
+): Promise<void> {
+  const top = sighting.speciesModelTopN?.[0];
+  if (!top || !sighting.cameraId) return;
+
+  await setDoc(doc(correctionsRef, sighting.id), {
+    sightingId: sighting.id,
+    cameraId: sighting.cameraId,
+    predictedSpeciesId: top.speciesId,
+    predictedConfidence: top.confidence,
+    finalSpeciesId,
+    source,
+    createdAt: serverTimestamp(),
+  });
+}
+
+// Get reviews for a camera, oldest first
+export async function getCameraCorrections(cameraId: string, since?: Date): Promise<SpeciesCorrection[]> {
+  const constraints = [where('cameraId', '==', cameraId)];
+  if (since) {
+    constraints.push(where('createdAt', '>=', Timestamp.fromDate(since)));
+  }
+  const q = query(correctionsRef, ...constraints, orderBy('createdAt', 'asc'));
+
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data() as Record<string, unknown>),
+  })) as SpeciesCorrection[];
+}
+
+// Build a predicted-vs-final confusion matrix
+export function buildConfusionMatrix(corrections: SpeciesCorrection[]): ConfusionMatrix {
+  const counts: Record<string, Record<string, number>> = {};
+  const species = new Set<string>();
+  let correct = 0;
+
+  for (const c of corrections) {
+    species.add(c.predictedSpeciesId);
+    species.add(c.finalSpeciesId);
+    counts[c.predictedSpeciesId] ??= {};
+    counts[c.predictedSpeciesId][c.finalSpeciesId] = (counts[c.predictedSpeciesId][c.finalSpeciesId] || 0) + 1;
+    if (c.predictedSpeciesId === c.finalSpeciesId) correct++;
+  }
+
+  return {
+    species: [...species].sort(),
+    counts,
+    total: corrections.length,
+    correct,
+  };
+}
+
+// Most common mistakes, largest first
+export function getTopConfusions(
+  matrix: ConfusionMatrix,
+  limitCount = 5
+): { predicted: string; actual: string; count: number }[] {
+  const confusions: { predicted: string; actual: string; count: number }[] = [];
+  for (const [predicted, row] of Object.entries(matrix.counts)) {
+    for (const [actual, count] of Object.entries(row)) {
+      if (predicted !== actual) confusions.push({ predicted, actual, count });
+    }
+  }
+  return confusions.sort((a, b) => b.count - a.count).slice(0, limitCount);
+}
+
+/**
+ * Per-species prior weights for the classifier
+ *
+ * A species the model predicts more often than reviewers confirm it gets a
+ * weight below 1; one it misses (reviewers pick it over the prediction) gets
+ * a weight above 1. Weight = smoothed ratio of confirmed to predicted count.
+ */
+export function computeSpeciesPriors(matrix: ConfusionMatrix): Record<string, number> {
+  const priors: Record<string, number> = {};
+
+  for (const speciesId of matrix.species) {
+    const predicted = Object.values(matrix.counts[speciesId] || {}).reduce((a, b) => a + b, 0);
+    const actual = Object.values(matrix.counts).reduce((sum, row) => sum + (row[speciesId] || 0), 0);
+    if (predicted + actual < MIN_REVIEWS_FOR_PRIOR) continue;
+
+    const weight = (actual + PRIOR_SMOOTHING) / (predicted + PRIOR_SMOOTHING);
+    priors[speciesId] = Math.round(Math.min(PRIOR_MAX, Math.max(PRIOR_MIN, weight)) * 100) / 100;
+  }
+
+  return priors;
+}
+
+// Share of reviewed sightings the model got right, per day or week
+export function getAccuracyOverTime(
+  corrections: SpeciesCorrection[],
+  bucket: 'day' | 'week' = 'week'
+): AccuracyPoint[] {
+  const points = new Map<number, AccuracyPoint>();
+
+  for (const c of corrections) {
+    const start = new Date(c.createdAt);
+    start.setHours(0, 0, 0, 0);
+    if (bucket === 'week') {
+      start.setDate(start.getDate() - start.getDay());
+    }
+
+    const key = start.getTime();
+    const point = points.get(key) || { periodStart: start, reviewed: 0, correct: 0, accuracy: 0 };
+    point.reviewed++;
+    if (c.predictedSpeciesId === c.finalSpeciesId) point.correct++;
+    point.accuracy = point.correct / point.reviewed;
+    points.set(key, point);
+  }
+
+  return [...points.values()].sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+}
+
+/**
+ * Recompute a camera's priors from all its reviews and store them on the
+ * camera document, where the browser pipeline and the Pi bridge pick them up
+ */
+export async function refreshCameraPriors(cameraId: string): Promise<Record<string, number>> {
+  const corrections = await getCameraCorrections(cameraId);
+  const priors = computeSpeciesPriors(buildConfusionMatrix(corrections));
+
+  await updateDoc(doc(db, 'cameras', cameraId), {
+    speciesPriors: priors,
+    speciesPriorsUpdatedAt: serverTimestamp(),
+  });
+
+  return priors;
+}
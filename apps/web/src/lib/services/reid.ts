@@ -0,0 +1,133 @@
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { cosineSimilarity, normalize } from '@/lib/ml/reid';
+import { IndividualBird, IndividualMatchSuggestion, Sighting } from '@/types';
+import { getUserIndividuals, recordVisit } from './individuals';
+import { assignToIndividual } from './sightings';
+
+// Cosine similarity at which a match is worth nothing / certain
+const SIMILARITY_FLOOR = 0.5;
+const SIMILARITY_CEILING = 0.95;
+// Match confidence needed to suggest an individual / assign automatically
+export const SUGGEST_CONFIDENCE = 0.5;
+export const AUTO_ASSIGN_CONFIDENCE = 0.85;
+// Older sightings fade out of an individual's mean embedding after this many
+const MAX_EMBEDDING_WEIGHT = 50;
+const MAX_SUGGESTIONS = 3;
+
+export interface IndividualMatch extends IndividualMatchSuggestion {
+  individual: IndividualBird;
+  sameSpecies: boolean;
+}
+
+function toConfidence(similarity: number): number {
+  const scaled = (similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR);
+  return Math.round(Math.min(1, Math.max(0, scaled)) * 100) / 100;
+}
+
+function round(embedding: ArrayLike<number>): number[] {
+  return Array.from(embedding, (v) => Math.round(v * 10000) / 10000);
+}
+
+/**
+ * Rank a user's individuals by similarity to an embedding
+ */
+export function rankIndividuals(
+  individuals: IndividualBird[],
+  embedding: ArrayLike<number>,
+  embeddingModel: string,
+  speciesId?: string
+): IndividualMatch[] {
+  return individuals
+    .filter((i) => i.embedding?.length && i.embeddingModel === embeddingModel)
+    .map((individual) => ({
+      individualId: individual.id,
+      individual,
+      confidence: toConfidence(cosineSimilarity(individual.embedding!, embedding)),
+      sameSpecies: !!speciesId && individual.speciesId === speciesId,
+    }))
+    .filter((m) => m.confidence >= SUGGEST_CONFIDENCE)
+    .sort((a, b) => Number(b.sameSpecies) - Number(a.sameSpecies) || b.confidence - a.confidence);
+}
+
+/**
+ * Store a sighting's embedding and match it against the user's individuals.
+ * A confident same-species match is assigned and counted as a visit; weaker
+ * ones are saved on the sighting as suggestions.
+ */
+export async function identifySighting(
+  userId: string,
+  sighting: Pick<Sighting, 'id' | 'speciesFinalId'>,
+  embedding: ArrayLike<number>,
+  embeddingModel: string
+): Promise<IndividualMatch[]> {
+  const individuals = await getUserIndividuals(userId);
+  const matches = rankIndividuals(individuals, embedding, embeddingModel, sighting.speciesFinalId);
+  const best = matches[0];
+
+  await updateDoc(doc(db, 'sightings', sighting.id), {
+    embedding: round(embedding),
+    embeddingModel,
+    individualSuggestions: matches.slice(0, MAX_SUGGESTIONS).map((m) => ({
+      individualId: m.individualId,
+      confidence: m.confidence,
+    })),
+  });
+
+  if (best && best.sameSpecies && best.confidence >= AUTO_ASSIGN_CONFIDENCE) {
+    await confirmIndividual(sighting.id, best.individualId, best.confidence);
+    console.log('[ReID] Matched sighting', sighting.id, 'to', best.individual.displayName, best.confidence);
+  }
+
+  return matches;
+}
+
+/**
+ * Assign a sighting to an individual, count the visit and fold the
+ * sighting's embedding into the individual's appearance
+ */
+export async function confirmIndividual(
+  sightingId: string,
+  individualId: string,
+  matchConfidence = 1
+): Promise<void> {
+  await assignToIndividual(sightingId, individualId, matchConfidence);
+  await recordVisit(individualId);
+
+  const sightingSnap = await getDoc(doc(db, 'sightings', sightingId));
+  const sighting = sightingSnap.data() as Partial<Sighting> | undefined;
+  if (sighting?.embedding?.length && sighting.embeddingModel) {
+    await enrollEmbedding(individualId, sighting.embedding, sighting.embeddingModel);
+  }
+}
+
+/**
+ * Update an individual's running mean embedding
+ */
+export async function enrollEmbedding(
+  individualId: string,
+  embedding: ArrayLike<number>,
+  embeddingModel: string
+): Promise<void> {
+  const docRef = doc(db, 'individuals', individualId);
+  const snap = await getDoc(docRef);
+  if (!snap.exists()) return;
+
+  const current = snap.data() as Partial<IndividualBird>;
+  let mean: ArrayLike<number> = embedding;
+  let count = 1;
+
+  // Start over if the model changed, since the embeddings aren't comparable
+  if (current.embedding?.length === embedding.length && current.embeddingModel === embeddingModel) {
+    const weight = Math.min(current.embeddingCount || 1, MAX_EMBEDDING_WEIGHT);
+    mean = current.embedding.map((v, i) => (v * weight + embedding[i]) / (weight + 1));
+    count = (current.embeddingCount || 1) + 1;
+  }
+
+  await updateDoc(docRef, {
+    embedding: round(normalize(mean)),
+    embeddingModel,
+    embeddingCount: count,
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -16,6 +16,7 @@ import {
 import { ref, uploadString, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
 import { Sighting } from '@/types';
+import { recordCorrection, refreshCameraPriors } from './corrections';
 
 const sightingsRef = collection(db, 'sightings');
 
@@ -158,8 +159,19 @@ export async function confirmSpecies(
   await updateDoc(docRef, {
     speciesFinalId: speciesId,
     speciesFinalSource: source,
-    speciesFinalConfidence: confidence,
+    ...(confidence !== undefined ? { speciesFinalConfidence: confidence } : {}),
   });
+
+  // Feed the review (user or community) into the camera's correction loop
+  const sighting = await getSighting(sightingId);
+  if (sighting?.cameraId) {
+    try {
+      await recordCorrection(sighting, speciesId, source);
+      await refreshCameraPriors(sighting.cameraId);
+    } catch (e) {
+      console.error('[Sightings] Failed to record correction:', e);
+    }
+  }
 }
 
 // Assign to individual bird
@@ -222,6 +234,8 @@ export interface BrowserSightingData {
   snapshot?: string; // base64 data URL
   trackId: string;
   trackDuration: number;
+  isRare?: boolean; // Species out of range for the camera's region/month
+  zoneId?: string; // Detect zone the bird was in
 }
 
 /**
@@ -261,7 +275,8 @@ export async function saveBrowserSighting(data: BrowserSightingData): Promise<st
     speciesFinalId: data.species.toLowerCase().replace(/\s+/g, '_'),
     speciesFinalSource: 'model' as const,
     speciesFinalConfidence: data.confidence,
-    isRare: false,
+    isRare: data.isRare || false,
+    ...(data.zoneId ? { zoneId: data.zoneId } : {}),
     source: 'browser_ml', // Distinguish from backend detections
     trackId: data.trackId,
     createdAt: serverTimestamp(),
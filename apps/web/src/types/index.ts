@@ -16,6 +16,8 @@ export interface UserProfile {
 }
 
 // Camera
+export type CameraShareRole = 'viewer' | 'operator';
+
 export interface Camera {
   id: string;
   userId: string;
@@ -26,7 +28,9 @@ export interface Camera {
   resolution?: string;
   fps?: number;
   isPublic: boolean;
+  sharedWith?: Record<string, CameraShareRole>; // uid -> role on the camera's pi-bridge
   locationLabel?: string;
+  regionCode?: string; // Occurrence region for range filtering (see lib/ml/occurrence)
   description?: string;
   youtubeId?: string;
   streamType?: 'rtsp' | 'youtube' | 'hls';
@@ -40,6 +44,8 @@ export interface Camera {
     showDebugOverlay: boolean;
     developerMode: boolean;
   };
+  speciesPriors?: Record<string, number>; // Learned from corrections, keyed by species ID
+  speciesPriorsUpdatedAt?: Date;
   lastSeenAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -87,10 +93,46 @@ export interface Sighting {
   speciesFinalConfidence?: number;
   individualId?: string;
   individualMatchConfidence?: number;
+  individualSuggestions?: IndividualMatchSuggestion[];
+  embedding?: number[]; // Re-ID appearance embedding of the keyframe
+  embeddingModel?: string;
+  zoneId?: string; // Detect zone the bird was in
   isRare: boolean;
   createdAt: Date;
 }
 
+export interface IndividualMatchSuggestion {
+  individualId: string;
+  confidence: number;
+}
+
+// Corrections (species reviews used to tune the model per camera)
+export interface SpeciesCorrection {
+  id: string; // Same as the sighting ID
+  sightingId: string;
+  cameraId: string;
+  predictedSpeciesId: string;
+  predictedConfidence: number;
+  finalSpeciesId: string;
+  source: 'user' | 'community';
+  createdAt: Date;
+}
+
+// counts[predictedSpeciesId][finalSpeciesId] = number of reviewed sightings
+export interface ConfusionMatrix {
+  species: string[];
+  counts: Record<string, Record<string, number>>;
+  total: number;
+  correct: number;
+}
+
+export interface AccuracyPoint {
+  periodStart: Date;
+  reviewed: number;
+  correct: number;
+  accuracy: number;
+}
+
 // Birds
 export interface BirdSpecies {
   id: string; // e.g., "norcar" (Northern Cardinal)
@@ -110,6 +152,9 @@ export interface IndividualBird {
   firstSeenAt: Date;
   lastSeenAt: Date;
   visitCount: number;
+  embedding?: number[]; // Mean re-ID embedding of assigned sightings
+  embeddingModel?: string;
+  embeddingCount?: number;
   notes?: string;
   isPrivate: boolean;
   createdAt: Date;
@@ -0,0 +1,1061 @@
+/**
+ * API Routes Module
+ *
+ * Request and response schemas for every route in server.ts. The table is
+ * the single description of the HTTP API: requests are validated against
+ * it (openapi.ts), it is published at /api/openapi.json, and the web app's
+ * typed client is generated from it (npm run generate:client).
+ *
+ * Routes marked `camera` are served for the default camera at their /api
+ * path and for every camera at /api/cameras/:camId/... as well.
+ */
+
+import { s, type Schema } from './api-schema.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;              // Express path, e.g. /api/users/:username
+  operationId: string;       // Client method name
+  summary: string;
+  tag: string;
+  camera?: boolean;          // Also at /api/cameras/:camId/... (path starts with /api)
+  params?: Schema;           // Path parameters (default: strings)
+  query?: Schema;
+  body?: Schema;
+  response?: Schema;         // JSON response on success
+  produces?: string;         // Content type when the response is not JSON
+  public?: boolean;          // No authentication needed
+}
+
+// ==================== Shared Schemas ====================
+
+const ROLE = s.enum(['viewer', 'operator', 'admin']);
+const SCOPE = s.enum(['stream', 'ptz', 'recording', 'settings']);
+const RANGE = s.ref('ValueRange');
+const POINT = s.ref('Point');
+const LIMIT = s.integer({ minimum: 1 });
+const success = (properties: Record<string, Schema> = {}) => s.object({ success: s.boolean(), ...properties });
+
+export const API_SCHEMAS: Record<string, Schema> = {
+  ApiError: s.object({
+    'success?': s.boolean(),
+    error: s.string(),
+    'hint?': s.string(),
+  }, { description: 'Error response (4xx/5xx)' }),
+  SuccessResponse: success(),
+
+  // Cameras & status
+  StreamStats: s.object({ fps: s.number(), bitrate: s.string(), frames: s.number(), time: s.string() }),
+  StorageStats: s.object({ usedMb: s.number(), maxMb: s.number(), clipCount: s.integer(), snapshotCount: s.integer() }),
+  OutboxStats: s.object({
+    depth: s.integer(),
+    byType: s.record(s.integer()),
+    oldestItemAt: s.nullable(s.dateTime()),
+    lastSyncAt: s.nullable(s.dateTime()),
+    lastError: s.nullable(s.string()),
+    online: s.boolean(),
+  }),
+  CameraStatus: s.object({
+    id: s.string(),
+    name: s.string(),
+    default: s.boolean(),
+    enabled: s.boolean(),
+    streaming: s.boolean(),
+    streamStats: s.ref('StreamStats'),
+    hlsUrl: s.string(),
+    motionDetection: s.boolean(),
+    cameraEvents: s.boolean(),
+    recording: s.boolean(),
+    ptz: s.boolean(),
+    imaging: s.boolean(),
+  }),
+  CameraEntry: s.object({
+    id: s.string({ pattern: '^[a-z0-9][a-z0-9_-]*$' }),
+    name: s.string(),
+    'rtspUrl?': s.string({ pattern: '^rtsps?://', description: 'rtsp:// or rtsps:// URL, resolved through ONVIF when empty' }),
+    'onvif?': s.object({
+      host: s.string(),
+      'port?': s.integer(),
+      'username?': s.string(),
+      'password?': s.string(),
+      'profileToken?': s.string(),
+    }),
+    'ptzMode?': s.enum(['onvif', 'amcrest', 'simulated', 'none']),
+    'channel?': s.integer({ description: 'Amcrest CGI channel' }),
+    'motion?': s.ref('MotionConfigUpdate'),
+    'motionSource?': s.enum(['ffmpeg', 'onvif', 'both']),
+    'privacyMask?': s.boolean({ description: "Paint the default camera's privacy zones into this camera's video (default: false)" }),
+    'enabled?': s.boolean(),
+  }),
+  Health: s.object({
+    status: s.string(),
+    timestamp: s.dateTime(),
+    deviceId: s.string(),
+    uptime: s.number(),
+    streaming: s.boolean(),
+    streamStats: s.ref('StreamStats'),
+    webrtc: s.boolean(),
+    streamMode: s.enum(['webrtc', 'hls', 'auto']),
+    motionDetection: s.boolean(),
+    recording: s.boolean(),
+    storage: s.ref('StorageStats'),
+    sync: s.nullable(s.ref('OutboxStats')),
+    storageBackend: s.string(),
+  }),
+  StreamProbe: s.object({ codec: s.string(), resolution: s.string(), fps: s.number() }),
+
+  // Auth, users & tokens
+  Principal: s.object({
+    kind: s.enum(['admin', 'api-key', 'user', 'token', 'firebase', 'signed-url', 'anonymous']),
+    name: s.string(),
+    role: ROLE,
+    scopes: s.array(SCOPE),
+    'tokenId?': s.string(),
+  }),
+  User: s.object({ username: s.string(), role: ROLE, createdAt: s.dateTime() }),
+  TokenInfo: s.object({
+    id: s.string(),
+    name: s.string(),
+    prefix: s.string({ description: 'First characters of the token' }),
+    role: ROLE,
+    scopes: s.array(SCOPE),
+    createdAt: s.dateTime(),
+    createdBy: s.string(),
+    expiresAt: s.dateTime(),
+    'lastUsedAt?': s.dateTime(),
+    'revokedAt?': s.dateTime(),
+    status: s.enum(['active', 'expired', 'revoked']),
+  }),
+  AuditEntry: s.object({
+    id: s.string(),
+    at: s.dateTime(),
+    actor: s.string(),
+    kind: s.string(),
+    role: ROLE,
+    'tokenId?': s.string(),
+    method: s.string(),
+    route: s.string(),
+    'params?': s.record(s.any()),
+    status: s.integer(),
+    ok: s.boolean(),
+    'error?': s.string(),
+    durationMs: s.number(),
+    'ip?': s.string(),
+  }),
+  AuditStats: s.object({
+    path: s.string(),
+    files: s.integer(),
+    sizeBytes: s.integer(),
+    maxSizeBytes: s.number(),
+    maxFiles: s.integer(),
+    mirrorToFirestore: s.boolean(),
+  }),
+  SignedUrl: s.object({
+    url: s.string({ description: 'Path with exp and sig query parameters' }),
+    expiresAt: s.number({ description: 'Unix ms' }),
+  }),
+
+  // Snapshots, recording & clips
+  SnapshotInfo: s.object({ id: s.string(), path: s.string(), timestamp: s.dateTime(), size: s.integer() }),
+  ClipInfo: s.object({
+    id: s.string(),
+    path: s.string(),
+    startTime: s.dateTime(),
+    duration: s.number(),
+    trigger: s.enum(['motion', 'manual', 'scheduled']),
+    size: s.integer(),
+    'thumbnail?': s.string(),
+    'triggerTime?': s.dateTime(),
+    'triggerOffset?': s.number({ description: 'Seconds into the clip where the trigger fired' }),
+    'sightingIds?': s.array(s.string()),
+    'zoneId?': s.string(),
+    'remote?': s.object({
+      backend: s.string(),
+      'clipKey?': s.string(),
+      'clipUrl?': s.string(),
+      'thumbnailKey?': s.string(),
+      'thumbnailUrl?': s.string(),
+      uploadedAt: s.dateTime(),
+    }),
+  }),
+  ClipSession: s.object({
+    clipId: s.string(),
+    startedAt: s.dateTime(),
+    lastEventAt: s.dateTime(),
+    eventCount: s.integer(),
+    sources: s.array(s.enum(['motion', 'bird'])),
+    sightingIds: s.array(s.string()),
+    'zoneId?': s.string(),
+  }),
+
+  // Motion & zones
+  Point: s.object({ x: s.number({ minimum: 0, maximum: 1 }), y: s.number({ minimum: 0, maximum: 1 }) }, { description: 'Normalized 0-1, top-left origin' }),
+  MotionRegion: s.object({
+    id: s.string(),
+    'name?': s.string(),
+    type: s.enum(['include', 'exclude']),
+    polygon: s.array(POINT),
+    'sensitivity?': s.number({ minimum: 0, maximum: 100 }),
+  }),
+  MotionConfig: s.object({
+    enabled: s.boolean(),
+    sensitivity: s.number({ description: '0-100, higher = more sensitive' }),
+    threshold: s.number({ description: "Minimum % of a region's pixels changed to trigger" }),
+    cooldownMs: s.number(),
+    minDurationMs: s.number(),
+    fps: s.number(),
+    frameWidth: s.integer(),
+    frameHeight: s.integer(),
+    backgroundAlpha: s.number(),
+    'debug?': s.boolean(),
+    'regions?': s.array(s.ref('MotionRegion')),
+  }),
+  MotionConfigUpdate: s.object({
+    'enabled?': s.boolean(),
+    'sensitivity?': s.number({ minimum: 0, maximum: 100 }),
+    'threshold?': s.number({ minimum: 0 }),
+    'cooldownMs?': s.number({ minimum: 0 }),
+    'minDurationMs?': s.number({ minimum: 0 }),
+    'fps?': s.number({ minimum: 0 }),
+    'frameWidth?': s.integer({ minimum: 1 }),
+    'frameHeight?': s.integer({ minimum: 1 }),
+    'backgroundAlpha?': s.number({ minimum: 0, maximum: 1 }),
+    'debug?': s.boolean(),
+    'regions?': s.array(s.ref('MotionRegion')),
+  }),
+  OnvifEvent: s.object({
+    topic: s.string(),
+    kind: s.enum(['motion', 'line', 'intrusion', 'tamper', 'other']),
+    time: s.string(),
+    operation: s.string(),
+    source: s.record(s.string()),
+    data: s.record(s.string()),
+    active: s.nullable(s.boolean()),
+  }),
+  OnvifEventStatus: s.object({
+    running: s.boolean(),
+    connected: s.boolean(),
+    subscription: s.nullable(s.string()),
+    types: s.array(s.string()),
+    eventCount: s.integer(),
+    triggerCount: s.integer(),
+    lastEventAt: s.nullable(s.dateTime()),
+    lastError: s.nullable(s.string()),
+  }),
+  Zone: s.object({
+    id: s.string(),
+    name: s.string(),
+    type: s.enum(['detect', 'privacy', 'ignore']),
+    polygon: s.array(POINT),
+    'sensitivity?': s.number({ minimum: 0, maximum: 100 }),
+  }),
+
+  // PTZ
+  PtzCapabilities: s.object({
+    supported: s.boolean(),
+    absoluteMove: s.boolean(),
+    relativeMove: s.boolean(),
+    continuousMove: s.boolean(),
+    presets: s.boolean(),
+    home: s.boolean(),
+    'panRange?': RANGE,
+    'tiltRange?': RANGE,
+    'zoomRange?': RANGE,
+  }),
+  PtzPosition: s.object({
+    pan: s.number({ description: '-1 to 1' }),
+    tilt: s.number({ description: '-1 to 1' }),
+    zoom: s.number({ description: '0 to 1' }),
+  }),
+  PtzPreset: s.object({ token: s.string(), name: s.string() }),
+  DetectionBox: s.object({
+    x: s.number({ minimum: 0, maximum: 1 }),
+    y: s.number({ minimum: 0, maximum: 1 }),
+    w: s.number({ minimum: 0, maximum: 1 }),
+    h: s.number({ minimum: 0, maximum: 1 }),
+  }, { description: 'Normalized 0-1, top-left origin' }),
+  AutoTrackConfig: s.object({
+    enabled: s.boolean(),
+    deadZone: s.number(),
+    maxSpeed: s.number(),
+    gain: s.number(),
+    smoothing: s.number(),
+    targetSize: s.number(),
+    zoomSpeed: s.number(),
+    fps: s.number(),
+    lostAfterMs: s.number(),
+    returnAfterSeconds: s.number(),
+  }),
+  TrackingStatus: s.object({
+    enabled: s.boolean(),
+    tracking: s.boolean(),
+    target: s.nullable(s.ref('DetectionBox')),
+    velocity: s.object({ pan: s.number(), tilt: s.number(), zoom: s.number() }),
+    lastSeenAt: s.nullable(s.dateTime()),
+    returnPresetId: s.nullable(s.string()),
+  }),
+  SavedPreset: s.object({
+    id: s.string(),
+    name: s.string(),
+    'description?': s.string(),
+    token: s.string({ description: "Camera's internal preset token" }),
+    createdAt: s.dateTime(),
+    'lastUsed?': s.dateTime(),
+    'thumbnail?': s.string(),
+    'tags?': s.array(s.string()),
+  }),
+  PatrolConfig: s.object({
+    enabled: s.boolean(),
+    presets: s.array(s.string()),
+    dwellSeconds: s.number(),
+    loop: s.boolean(),
+    mode: s.enum(['fixed', 'adaptive']),
+    minDwellSeconds: s.number(),
+    maxDwellSeconds: s.number(),
+    pauseOnActivity: s.boolean(),
+    resumeAfterSeconds: s.number(),
+  }),
+  PatrolDecision: s.object({
+    timestamp: s.dateTime(),
+    action: s.enum(['start', 'move', 'pause', 'resume', 'stop']),
+    'presetId?': s.string(),
+    'dwellSeconds?': s.number(),
+    reason: s.string(),
+  }),
+  PresetActivity: s.object({
+    presetId: s.string(),
+    sightings: s.number(),
+    exposureHours: s.number(),
+    rate: s.number(),
+    share: s.number(),
+  }),
+
+  // Camera time, settings, encoder & imaging
+  CameraTime: s.object({
+    utcTime: s.string(),
+    localTime: s.string(),
+    timezone: s.string(),
+    daylightSavings: s.boolean(),
+    ntpEnabled: s.boolean(),
+  }),
+  VideoSettings: s.object({
+    outputResolution: s.enum(['1080p', '720p', '480p', 'source', 'custom']),
+    'customWidth?': s.integer(),
+    'customHeight?': s.integer(),
+    outputFps: s.number({ description: '0 = source fps' }),
+    outputBitrate: s.string({ description: 'e.g. "2000k"' }),
+    qualityPreset: s.enum(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium']),
+    hlsSegmentDuration: s.number(),
+    hlsPlaylistSize: s.integer(),
+    audioBitrate: s.string(),
+    audioEnabled: s.boolean(),
+  }),
+  VideoSettingsUpdate: s.object({
+    'outputResolution?': s.enum(['1080p', '720p', '480p', 'source', 'custom']),
+    'customWidth?': s.integer({ minimum: 1 }),
+    'customHeight?': s.integer({ minimum: 1 }),
+    'outputFps?': s.number({ minimum: 0 }),
+    'outputBitrate?': s.string(),
+    'qualityPreset?': s.enum(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium']),
+    'hlsSegmentDuration?': s.number({ minimum: 1 }),
+    'hlsPlaylistSize?': s.integer({ minimum: 1 }),
+    'audioBitrate?': s.string(),
+    'audioEnabled?': s.boolean(),
+  }),
+  CameraSettings: s.object({
+    'sourceResolution?': s.string(),
+    'sourceFps?': s.number(),
+    'sourceGovLength?': s.number(),
+    'sourceBitrate?': s.number({ description: 'kbps' }),
+  }),
+  ValueRange: s.object({ min: s.number(), max: s.number() }),
+  EncoderConfig: s.object({
+    token: s.string(),
+    name: s.string(),
+    encoding: s.string(),
+    resolution: s.string({ description: 'e.g. "1920x1080"' }),
+    fps: s.number(),
+    govLength: s.nullable(s.number()),
+    bitrate: s.number({ description: 'kbps' }),
+    quality: s.number(),
+  }),
+  EncoderOptions: s.object({
+    resolutions: s.array(s.string()),
+    fps: s.nullable(RANGE),
+    govLength: s.nullable(RANGE),
+    bitrate: s.nullable(RANGE),
+    quality: s.nullable(RANGE),
+  }),
+  ImagingSettings: s.object({
+    'brightness?': s.number(),
+    'colorSaturation?': s.number(),
+    'contrast?': s.number(),
+    'sharpness?': s.number(),
+    'exposure?': s.object({
+      mode: s.enum(['AUTO', 'MANUAL']),
+      'minExposureTime?': s.number(),
+      'maxExposureTime?': s.number(),
+      'minGain?': s.number(),
+      'maxGain?': s.number(),
+      'exposureTime?': s.number(),
+      'gain?': s.number(),
+    }),
+    'focus?': s.object({
+      mode: s.enum(['AUTO', 'MANUAL']),
+      'defaultSpeed?': s.number(),
+      'nearLimit?': s.number(),
+      'farLimit?': s.number(),
+    }),
+    'irCutFilter?': s.enum(['ON', 'OFF', 'AUTO']),
+    'wideDynamicRange?': s.object({ mode: s.enum(['ON', 'OFF']), 'level?': s.number() }),
+  }),
+  ImagingOptions: s.object({
+    brightness: s.nullable(RANGE),
+    colorSaturation: s.nullable(RANGE),
+    contrast: s.nullable(RANGE),
+    sharpness: s.nullable(RANGE),
+    exposureModes: s.array(s.string()),
+    exposureTime: s.nullable(RANGE),
+    gain: s.nullable(RANGE),
+    focusModes: s.array(s.string()),
+    focusSpeed: s.nullable(RANGE),
+    focusNearLimit: s.nullable(RANGE),
+    focusFarLimit: s.nullable(RANGE),
+    irCutFilterModes: s.array(s.string()),
+    wideDynamicRangeModes: s.array(s.string()),
+    wideDynamicRangeLevel: s.nullable(RANGE),
+  }),
+
+  // Schedules & profiles
+  ScheduleAction: s.oneOf(
+    s.object({ type: s.enum(['preset']), presetId: s.string() }),
+    s.object({ type: s.enum(['patrol']), enabled: s.boolean() }),
+    s.object({ type: s.enum(['recording']), durationMinutes: s.number({ minimum: 0 }) }),
+    s.object({ type: s.enum(['detection']), enabled: s.boolean() }),
+    s.object({ type: s.enum(['profile']), profileId: s.string() }),
+  ),
+  ScheduleJob: s.object({
+    id: s.string(),
+    'name?': s.string(),
+    schedule: s.string({ description: 'Cron expression or "sunrise|sunset[+-offset] [cron fields]"' }),
+    'timezone?': s.string(),
+    action: s.ref('ScheduleAction'),
+    enabled: s.boolean(),
+    createdAt: s.dateTime(),
+    'lastRunAt?': s.dateTime(),
+    'lastError?': s.string(),
+  }),
+  ScheduledRun: s.object({
+    jobId: s.string(),
+    'name?': s.string(),
+    action: s.ref('ScheduleAction'),
+    runAt: s.dateTime(),
+  }),
+  OperatingProfile: s.object({
+    id: s.string(),
+    name: s.string(),
+    'video?': s.ref('VideoSettingsUpdate'),
+    'motion?': s.ref('MotionConfigUpdate'),
+    'detection?': s.object({
+      'minConfidence?': s.number({ minimum: 0, maximum: 1 }),
+      'visualMinConfidence?': s.number({ minimum: 0, maximum: 1 }),
+      'visualThreshold?': s.number({ minimum: 0, maximum: 1 }),
+    }),
+    'irMode?': s.enum(['day', 'night', 'auto']),
+  }),
+  ProfileSwitch: s.object({
+    at: s.dateTime(),
+    from: s.nullable(s.string()),
+    to: s.string(),
+    reason: s.enum(['dawn', 'dusk', 'manual', 'schedule', 'startup']),
+    'errors?': s.array(s.string()),
+  }),
+  AutoSwitchConfig: s.object({ enabled: s.boolean(), dayProfile: s.string(), nightProfile: s.string() }),
+
+  // Birds
+  ModalityEvidence: s.object({
+    species: s.string(),
+    scientificName: s.string(),
+    confidence: s.number(),
+    timestamp: s.dateTime(),
+    'snapshotId?': s.string(),
+    'bbox?': s.ref('DetectionBox'),
+  }),
+  BirdSighting: s.object({
+    id: s.string(),
+    species: s.string(),
+    scientificName: s.string(),
+    confidence: s.number(),
+    timestamp: s.dateTime(),
+    'clipId?': s.string(),
+    'clipOffset?': s.number(),
+    'source?': s.enum(['audio', 'visual']),
+    'audio?': s.ref('ModalityEvidence'),
+    'visual?': s.ref('ModalityEvidence'),
+    'snapshotId?': s.string(),
+    'presetId?': s.string(),
+    'zoneId?': s.string(),
+    'weather?': s.object({ 'temperature?': s.number(), 'conditions?': s.string(), 'windSpeed?': s.number() }),
+    'notes?': s.string(),
+  }),
+  SpeciesCount: s.object({ species: s.string(), count: s.integer() }),
+  SpeciesStats: s.object({
+    species: s.string(),
+    scientificName: s.string(),
+    totalSightings: s.integer(),
+    firstSeen: s.dateTime(),
+    lastSeen: s.dateTime(),
+    averageConfidence: s.number(),
+    peakHour: s.integer({ description: 'Hour of day with most sightings (0-23)' }),
+    monthlyCount: s.array(s.integer()),
+  }),
+  DailyStats: s.object({
+    date: s.string(),
+    totalSightings: s.integer(),
+    uniqueSpecies: s.integer(),
+    species: s.array(s.ref('SpeciesCount')),
+  }),
+
+  // Notifications & weather
+  NotificationSettings: s.object({
+    enabled: s.boolean(),
+    onBirdDetected: s.boolean(),
+    onNewSpecies: s.boolean(),
+    onRareBird: s.boolean(),
+    onMotion: s.boolean(),
+    onCameraOffline: s.boolean(),
+    onStorageLow: s.boolean(),
+    quietHoursEnabled: s.boolean(),
+    quietHoursStart: s.string({ description: 'HH:MM' }),
+    quietHoursEnd: s.string({ description: 'HH:MM' }),
+    minIntervalSeconds: s.number(),
+    maxPerHour: s.number(),
+    'pushover?': s.object({ enabled: s.boolean(), userKey: s.string(), apiToken: s.string(), priority: s.integer() }),
+    'ntfy?': s.object({ enabled: s.boolean(), topic: s.string(), 'server?': s.string() }),
+    'webhook?': s.object({ enabled: s.boolean(), url: s.string(), 'headers?': s.record(s.string()) }),
+    rareSpecies: s.array(s.string()),
+    ignoredSpecies: s.array(s.string()),
+  }),
+  WeatherData: s.object({
+    timestamp: s.dateTime(),
+    temperature: s.number({ description: 'Celsius' }),
+    feelsLike: s.number(),
+    humidity: s.number(),
+    precipitation: s.number({ description: 'mm' }),
+    cloudCover: s.number(),
+    windSpeed: s.number({ description: 'km/h' }),
+    windDirection: s.number(),
+    conditions: s.string(),
+    isDay: s.boolean(),
+    sunrise: s.string(),
+    sunset: s.string(),
+  }),
+  DailyForecast: s.object({
+    date: s.string(),
+    high: s.number(),
+    low: s.number(),
+    precipitation: s.number(),
+    conditions: s.string(),
+    sunrise: s.string(),
+    sunset: s.string(),
+  }),
+};
+
+const ref = s.ref;
+const CAMERA_STATUS = ref('CameraStatus');
+const VIDEO_SETTINGS = ref('VideoSettings');
+const NOT_SUPPORTED = s.object({ supported: s.boolean(), 'error?': s.string() });
+const CLIP_PARAMS = s.object({ id: s.string({ pattern: '^clip_\\d+$' }) });
+
+// ==================== Routes ====================
+
+export const API_ROUTES: ApiRoute[] = [
+  // Cameras
+  { method: 'GET', path: '/api/cameras', operationId: 'listCameras', tag: 'Cameras', summary: 'List cameras',
+    response: s.object({ cameras: s.array(CAMERA_STATUS) }) },
+  { method: 'POST', path: '/api/cameras', operationId: 'addCamera', tag: 'Cameras', summary: 'Add a camera (stored in cameras.json and started right away)',
+    body: ref('CameraEntry'), response: success({ camera: CAMERA_STATUS }) },
+  { method: 'DELETE', path: '/api/cameras/:camId', operationId: 'removeCamera', tag: 'Cameras', summary: 'Remove a camera (not the default camera)',
+    response: ref('SuccessResponse') },
+  { method: 'GET', path: '/api/status', camera: true, operationId: 'getCameraStatus', tag: 'Cameras', summary: 'Camera status',
+    response: CAMERA_STATUS },
+
+  // Health & info
+  { method: 'GET', path: '/health', public: true, operationId: 'getHealth', tag: 'System', summary: 'Health check',
+    response: ref('Health') },
+  { method: 'GET', path: '/info', operationId: 'getInfo', tag: 'System', summary: 'Device, camera, storage and PTZ overview',
+    response: s.object({
+      device: s.object({ id: s.string(), name: s.string(), location: s.string() }),
+      camera: s.object({ onvif: s.boolean(), host: s.string(), stream: s.nullable(ref('StreamProbe')) }),
+      status: s.object({ streaming: s.boolean(), motionDetection: s.boolean(), recording: s.boolean() }),
+      storage: ref('StorageStats'),
+      ptz: s.oneOf(ref('PtzCapabilities'), s.object({ supported: s.boolean() })),
+      cameras: s.array(s.string()),
+    }) },
+  { method: 'GET', path: '/api/openapi.json', operationId: 'getOpenApi', tag: 'System', summary: 'This API as an OpenAPI 3.1 document',
+    response: s.record(s.any()) },
+
+  // Auth, users, tokens & audit
+  { method: 'GET', path: '/api/auth/key', operationId: 'getApiKey', tag: 'Auth', summary: 'The API key and credentials file',
+    response: s.object({ apiKey: s.string(), credentialsFile: s.string(), hint: s.string(), dashboardUrl: s.string() }) },
+  { method: 'POST', path: '/api/auth/regenerate', operationId: 'regenerateApiKey', tag: 'Auth', summary: 'Replace the API key (the old one stops working)',
+    response: success({ apiKey: s.string(), credentialsFile: s.string(), message: s.string(), dashboardUrl: s.string() }) },
+  { method: 'GET', path: '/api/auth/me', operationId: 'getCurrentPrincipal', tag: 'Auth', summary: 'Who the request is authenticated as',
+    response: s.object({ authenticated: s.boolean(), principal: s.nullable(ref('Principal')) }) },
+  { method: 'GET', path: '/api/auth/firebase', operationId: 'getFirebaseAuthStatus', tag: 'Auth', summary: "Web sign-in status and the camera's owner and shares",
+    response: s.object({
+      enabled: s.boolean(),
+      cameraId: s.nullable(s.string()),
+      ownerUid: s.nullable(s.string()),
+      sharedWith: s.record(ROLE),
+    }) },
+  { method: 'GET', path: '/api/users', operationId: 'listUsers', tag: 'Auth', summary: 'List users',
+    response: s.object({ admin: s.string(), users: s.array(ref('User')) }) },
+  { method: 'POST', path: '/api/users', operationId: 'addUser', tag: 'Auth', summary: 'Add a user',
+    body: s.object({ username: s.string(), password: s.string({ minLength: 8 }), role: ROLE }),
+    response: success({ user: ref('User') }) },
+  { method: 'PUT', path: '/api/users/:username', operationId: 'updateUser', tag: 'Auth', summary: "Change a user's role and/or password",
+    body: s.object({ 'password?': s.string({ minLength: 8 }), 'role?': ROLE }),
+    response: success({ user: ref('User') }) },
+  { method: 'DELETE', path: '/api/users/:username', operationId: 'removeUser', tag: 'Auth', summary: 'Remove a user',
+    response: ref('SuccessResponse') },
+  { method: 'GET', path: '/api/tokens', operationId: 'listTokens', tag: 'Auth', summary: 'List tokens with their status and last use',
+    response: s.object({ tokens: s.array(ref('TokenInfo')) }) },
+  { method: 'POST', path: '/api/tokens', operationId: 'createToken', tag: 'Auth', summary: 'Create a token (the secret is only returned here)',
+    body: s.object({
+      name: s.string({ minLength: 1 }),
+      role: ROLE,
+      'scopes?': s.array(SCOPE),
+      'expiresInDays?': s.number({ minimum: 1 }),
+      'expiresAt?': s.dateTime(),
+    }),
+    response: success({ token: s.string(), info: ref('TokenInfo'), message: s.string() }) },
+  { method: 'DELETE', path: '/api/tokens/:id', operationId: 'revokeToken', tag: 'Auth', summary: 'Revoke a token',
+    response: success({ token: ref('TokenInfo') }) },
+  { method: 'GET', path: '/api/audit', operationId: 'queryAuditLog', tag: 'Auth', summary: 'Audit log of control actions, newest first',
+    query: s.object({
+      'since?': s.dateTime(),
+      'until?': s.dateTime(),
+      'actor?': s.string(),
+      'kind?': s.string(),
+      'method?': s.string(),
+      'route?': s.string({ description: 'Substring of the route' }),
+      'tokenId?': s.string(),
+      'status?': s.integer(),
+      'result?': s.enum(['ok', 'failed']),
+      'limit?': LIMIT,
+      'offset?': s.integer({ minimum: 0 }),
+    }),
+    response: s.object({ total: s.integer(), entries: s.array(ref('AuditEntry')), stats: ref('AuditStats') }) },
+
+  // Stream
+  { method: 'GET', path: '/stream.m3u8', operationId: 'getPlaylist', tag: 'Stream', summary: 'HLS playlist (segment URIs are signed)',
+    produces: 'application/vnd.apple.mpegurl' },
+  { method: 'GET', path: '/api/stream/url', camera: true, operationId: 'getStreamUrl', tag: 'Stream', summary: 'Signed playlist URL, so no key goes into the URL',
+    query: s.object({ 'ttl?': s.integer({ minimum: 1, description: 'Seconds' }) }),
+    response: s.object({ url: s.string(), expiresAt: s.number(), ttl: s.integer() }) },
+  { method: 'POST', path: '/api/sign', operationId: 'signUrl', tag: 'Stream', summary: 'Signed URL for a stream, snapshot or clip path the caller may read',
+    body: s.object({ path: s.string(), 'ttl?': s.number({ minimum: 1, description: 'Seconds' }) }),
+    response: success({ url: s.string(), expiresAt: s.number() }) },
+  { method: 'GET', path: '/segment:num.ts', operationId: 'getSegment', tag: 'Stream', summary: 'HLS segment',
+    params: s.object({ num: s.integer({ minimum: 0 }) }), produces: 'video/mp2t' },
+  { method: 'GET', path: '/cameras/:camId/stream.m3u8', operationId: 'getCameraPlaylist', tag: 'Stream', summary: "Another camera's HLS playlist",
+    produces: 'application/vnd.apple.mpegurl' },
+  { method: 'GET', path: '/cameras/:camId/segment:num.ts', operationId: 'getCameraSegment', tag: 'Stream', summary: "Another camera's HLS segment",
+    params: s.object({ camId: s.string(), num: s.integer({ minimum: 0 }) }), produces: 'video/mp2t' },
+  { method: 'GET', path: '/test', operationId: 'getTestPage', tag: 'Stream', summary: 'Playback test page',
+    produces: 'text/html' },
+
+  // WebRTC
+  { method: 'GET', path: '/api/webrtc/status', operationId: 'getWebrtcStatus', tag: 'WebRTC', summary: 'Whether go2rtc is running, and its API port',
+    response: s.object({ available: s.boolean(), streamMode: s.enum(['webrtc', 'hls', 'auto']), go2rtcPort: s.integer() }) },
+  { method: 'POST', path: '/api/webrtc/offer', operationId: 'sendWebrtcOffer', tag: 'WebRTC', summary: 'Send an SDP offer to go2rtc and get its answer',
+    body: s.any('SDP offer, passed to go2rtc'), response: s.any('SDP answer from go2rtc') },
+  { method: 'POST', path: '/api/webrtc/candidate', operationId: 'sendWebrtcCandidate', tag: 'WebRTC', summary: 'Send an ICE candidate to go2rtc',
+    body: s.any('ICE candidate, passed to go2rtc'), response: ref('SuccessResponse') },
+  { method: 'GET', path: '/api/webrtc/streams', operationId: 'getWebrtcStreams', tag: 'WebRTC', summary: "go2rtc's stream info",
+    response: s.any("go2rtc's /api/streams response") },
+
+  // Snapshots
+  { method: 'POST', path: '/api/snapshot', camera: true, operationId: 'captureSnapshot', tag: 'Snapshots', summary: 'Capture a snapshot',
+    body: s.object({ 'reason?': s.string() }),
+    response: success({ snapshot: ref('SnapshotInfo') }) },
+  { method: 'GET', path: '/api/snapshot/latest', camera: true, operationId: 'getLatestSnapshot', tag: 'Snapshots', summary: 'Latest snapshot (captured now if there is none)',
+    produces: 'image/jpeg' },
+  { method: 'GET', path: '/api/snapshots', camera: true, operationId: 'listSnapshots', tag: 'Snapshots', summary: 'List snapshots',
+    response: s.object({ count: s.integer(), snapshots: s.array(ref('SnapshotInfo')) }) },
+  { method: 'GET', path: '/api/snapshots/:id', camera: true, operationId: 'getSnapshot', tag: 'Snapshots', summary: 'A snapshot image',
+    produces: 'image/jpeg' },
+
+  // Recording & clips
+  { method: 'POST', path: '/api/recording/start', camera: true, operationId: 'startRecording', tag: 'Recording', summary: 'Start recording a clip',
+    body: s.object({ 'trigger?': s.enum(['motion', 'manual', 'scheduled']) }),
+    response: success({ recordingId: s.string() }) },
+  { method: 'POST', path: '/api/recording/stop', camera: true, operationId: 'stopRecording', tag: 'Recording', summary: 'Stop recording',
+    response: success({ clip: s.nullable(ref('ClipInfo')) }) },
+  { method: 'GET', path: '/api/recording/status', camera: true, operationId: 'getRecordingStatus', tag: 'Recording', summary: 'Recording state, active clip session and storage',
+    response: s.object({ recording: s.boolean(), session: s.nullable(ref('ClipSession')), storage: ref('StorageStats') }) },
+  { method: 'GET', path: '/api/clips', camera: true, operationId: 'listClips', tag: 'Recording', summary: 'List clips',
+    response: s.object({ count: s.integer(), clips: s.array(ref('ClipInfo')) }) },
+  { method: 'GET', path: '/api/clips/:id', camera: true, operationId: 'getClip', tag: 'Recording', summary: 'A clip and the sightings captured in it',
+    params: CLIP_PARAMS, response: s.object({ clip: ref('ClipInfo'), sightings: s.array(ref('BirdSighting')) }) },
+  { method: 'GET', path: '/api/clips/:id/video', camera: true, operationId: 'getClipVideo', tag: 'Recording', summary: 'Clip video (supports Range requests)',
+    params: CLIP_PARAMS, produces: 'video/mp4' },
+  { method: 'GET', path: '/api/clips/:id/thumbnail', camera: true, operationId: 'getClipThumbnail', tag: 'Recording', summary: 'Clip thumbnail',
+    params: CLIP_PARAMS, produces: 'image/jpeg' },
+  { method: 'DELETE', path: '/api/clips/:id', camera: true, operationId: 'deleteClip', tag: 'Recording', summary: 'Delete a clip',
+    params: CLIP_PARAMS, response: ref('SuccessResponse') },
+
+  // Motion & zones
+  { method: 'GET', path: '/api/motion/config', camera: true, operationId: 'getMotionConfig', tag: 'Motion', summary: 'Motion detection config',
+    response: ref('MotionConfig') },
+  { method: 'POST', path: '/api/motion/config', camera: true, operationId: 'updateMotionConfig', tag: 'Motion', summary: 'Update motion detection config',
+    body: ref('MotionConfigUpdate'), response: success({ config: ref('MotionConfig') }) },
+  { method: 'GET', path: '/api/motion/status', camera: true, operationId: 'getMotionStatus', tag: 'Motion', summary: 'Motion detection state and camera event subscription',
+    response: s.object({ running: s.boolean(), config: ref('MotionConfig'), cameraEvents: s.nullable(ref('OnvifEventStatus')) }) },
+  { method: 'GET', path: '/api/motion/events', camera: true, operationId: 'listCameraEvents', tag: 'Motion', summary: 'Recent ONVIF camera events',
+    query: s.object({ 'limit?': LIMIT }),
+    response: s.object({ enabled: s.boolean(), 'status?': ref('OnvifEventStatus'), events: s.array(ref('OnvifEvent')) }) },
+  { method: 'GET', path: '/api/zones', operationId: 'listZones', tag: 'Motion', summary: 'Detect, ignore and privacy zones',
+    response: s.object({ zones: s.array(ref('Zone')) }) },
+  { method: 'PUT', path: '/api/zones', operationId: 'replaceZones', tag: 'Motion', summary: 'Replace zones locally (for setups without Firebase)',
+    body: s.object({ zones: s.array(s.record(s.any())) }),
+    response: success({ zones: s.array(ref('Zone')) }) },
+
+  // PTZ
+  { method: 'GET', path: '/api/ptz/capabilities', camera: true, operationId: 'getPtzCapabilities', tag: 'PTZ', summary: 'PTZ capabilities',
+    response: s.oneOf(ref('PtzCapabilities'), NOT_SUPPORTED) },
+  { method: 'GET', path: '/api/ptz/status', camera: true, operationId: 'getPtzStatus', tag: 'PTZ', summary: 'PTZ position and capabilities',
+    response: s.oneOf(
+      s.object({ supported: s.boolean(), position: s.nullable(ref('PtzPosition')), capabilities: ref('PtzCapabilities') }),
+      NOT_SUPPORTED,
+    ) },
+  { method: 'POST', path: '/api/ptz/move', camera: true, operationId: 'movePtz', tag: 'PTZ', summary: 'Move (continuous velocity, absolute or relative position)',
+    body: s.object({
+      'pan?': s.number({ minimum: -1, maximum: 1 }),
+      'tilt?': s.number({ minimum: -1, maximum: 1 }),
+      'zoom?': s.number({ minimum: -1, maximum: 1 }),
+      'type?': s.enum(['continuous', 'absolute', 'relative']),
+    }),
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/ptz/stop', camera: true, operationId: 'stopPtz', tag: 'PTZ', summary: 'Stop moving',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/ptz/home', camera: true, operationId: 'goPtzHome', tag: 'PTZ', summary: 'Go to the home position',
+    response: ref('SuccessResponse') },
+  { method: 'GET', path: '/api/ptz/presets', camera: true, operationId: 'listCameraPresets', tag: 'PTZ', summary: "The camera's own presets",
+    response: s.object({ presets: s.array(ref('PtzPreset')) }) },
+  { method: 'POST', path: '/api/ptz/presets/:token', camera: true, operationId: 'gotoCameraPreset', tag: 'PTZ', summary: "Go to one of the camera's presets",
+    response: ref('SuccessResponse') },
+  { method: 'PUT', path: '/api/ptz/presets', camera: true, operationId: 'setCameraPreset', tag: 'PTZ', summary: 'Save the current position as a camera preset',
+    body: s.object({ name: s.string({ minLength: 1 }) }),
+    response: success({ token: s.nullable(s.string()) }) },
+  { method: 'POST', path: '/api/ptz/test', camera: true, operationId: 'testPtz', tag: 'PTZ', summary: 'Cycle through every PTZ movement',
+    body: s.object({ 'duration?': s.integer({ minimum: 1, description: 'ms per movement' }) }),
+    response: success({
+      'message?': s.string(),
+      results: s.array(s.object({ action: s.string(), success: s.boolean(), 'skipped?': s.boolean() })),
+    }) },
+  { method: 'GET', path: '/api/ptz/track', operationId: 'getAutoTracking', tag: 'PTZ', summary: 'Auto-tracking status and config',
+    response: s.object({
+      enabled: s.boolean(),
+      tracking: s.boolean(),
+      target: s.nullable(ref('DetectionBox')),
+      velocity: s.object({ pan: s.number(), tilt: s.number(), zoom: s.number() }),
+      lastSeenAt: s.nullable(s.dateTime()),
+      returnPresetId: s.nullable(s.string()),
+      config: ref('AutoTrackConfig'),
+    }) },
+  { method: 'POST', path: '/api/ptz/track/config', operationId: 'updateAutoTracking', tag: 'PTZ', summary: 'Update auto-tracking config',
+    body: s.object({
+      'enabled?': s.boolean(),
+      'deadZone?': s.number({ minimum: 0, maximum: 1 }),
+      'maxSpeed?': s.number({ minimum: 0, maximum: 1 }),
+      'gain?': s.number({ minimum: 0 }),
+      'smoothing?': s.number({ minimum: 0, maximum: 1 }),
+      'targetSize?': s.number({ minimum: 0, maximum: 1 }),
+      'zoomSpeed?': s.number({ minimum: 0, maximum: 1 }),
+      'fps?': s.number({ minimum: 1 }),
+      'lostAfterMs?': s.number({ minimum: 0 }),
+      'returnAfterSeconds?': s.number({ minimum: 0 }),
+    }),
+    response: success({ config: ref('AutoTrackConfig') }) },
+  { method: 'POST', path: '/api/ptz/track/target', operationId: 'trackTarget', tag: 'PTZ', summary: "Follow a bird's bounding box",
+    body: s.object({ bbox: ref('DetectionBox') }),
+    response: success({ status: ref('TrackingStatus') }) },
+  { method: 'POST', path: '/api/ptz/track/release', operationId: 'releaseTracking', tag: 'PTZ', summary: 'Stop following and return to the starting preset',
+    response: ref('SuccessResponse') },
+
+  // Camera time
+  { method: 'GET', path: '/api/camera/time', operationId: 'getCameraTime', tag: 'Camera', summary: "Camera clock and how far it is from the Pi's",
+    response: s.object({
+      utcTime: s.string(),
+      localTime: s.string(),
+      timezone: s.string(),
+      daylightSavings: s.boolean(),
+      ntpEnabled: s.boolean(),
+      syncStatus: s.nullable(s.object({ synced: s.boolean(), diffSeconds: s.number(), systemTime: s.string() })),
+    }) },
+  { method: 'POST', path: '/api/camera/time/sync', operationId: 'syncCameraTime', tag: 'Camera', summary: "Set the camera clock to the Pi's (or to NTP)",
+    body: s.object({ 'useNtp?': s.boolean() }),
+    response: success({ message: s.string(), time: s.nullable(ref('CameraTime')) }) },
+
+  // Settings
+  { method: 'GET', path: '/api/settings', camera: true, operationId: 'getSettings', tag: 'Settings', summary: 'All settings and the resolution presets',
+    response: s.object({
+      video: VIDEO_SETTINGS,
+      camera: ref('CameraSettings'),
+      lastModified: s.dateTime(),
+      resolutionPresets: s.record(s.object({ width: s.integer(), height: s.integer() })),
+    }) },
+  { method: 'GET', path: '/api/settings/video', camera: true, operationId: 'getVideoSettings', tag: 'Settings', summary: 'Output video settings',
+    response: VIDEO_SETTINGS },
+  { method: 'POST', path: '/api/settings/video', camera: true, operationId: 'updateVideoSettings', tag: 'Settings', summary: 'Update output video settings (applied on stream restart)',
+    body: ref('VideoSettingsUpdate'), response: success({ settings: VIDEO_SETTINGS, message: s.string() }) },
+  { method: 'POST', path: '/api/settings/reset', camera: true, operationId: 'resetSettings', tag: 'Settings', summary: 'Reset settings to defaults',
+    response: success({ settings: s.record(s.any()), message: s.string() }) },
+  { method: 'POST', path: '/api/settings/apply', camera: true, operationId: 'applySettings', tag: 'Settings', summary: 'Restart the stream with the saved settings',
+    response: success({ message: s.string() }) },
+
+  // Camera encoder & imaging (ONVIF)
+  { method: 'GET', path: '/api/camera/config', camera: true, operationId: 'getCameraConfig', tag: 'Camera', summary: 'Encoder, imaging and what they can be set to',
+    response: s.object({
+      supported: s.boolean(),
+      'error?': s.string(),
+      'encoder?': s.nullable(ref('EncoderConfig')),
+      'encoderOptions?': s.nullable(ref('EncoderOptions')),
+      'imaging?': s.nullable(ref('ImagingSettings')),
+      'imagingOptions?': s.nullable(ref('ImagingOptions')),
+      stored: ref('CameraSettings'),
+    }) },
+  { method: 'GET', path: '/api/camera/encoder', camera: true, operationId: 'getCameraEncoder', tag: 'Camera', summary: 'Video encoder (resolution, fps, GOP length, bitrate)',
+    response: s.oneOf(
+      s.object({ supported: s.boolean(), encoder: ref('EncoderConfig'), options: s.nullable(ref('EncoderOptions')) }),
+      NOT_SUPPORTED,
+    ) },
+  { method: 'POST', path: '/api/camera/encoder', camera: true, operationId: 'setCameraEncoder', tag: 'Camera', summary: "Change the camera's encoder",
+    body: s.object({
+      'resolution?': s.string({ description: 'e.g. "1920x1080"' }),
+      'fps?': s.number(),
+      'govLength?': s.number(),
+      'bitrate?': s.number({ description: 'kbps' }),
+      'quality?': s.number(),
+    }),
+    response: success({ encoder: ref('EncoderConfig'), stored: ref('CameraSettings'), message: s.string() }) },
+  { method: 'GET', path: '/api/camera/imaging', camera: true, operationId: 'getCameraImaging', tag: 'Camera', summary: 'Exposure, focus, IR cut filter, WDR and image adjustments',
+    response: s.oneOf(
+      s.object({ supported: s.boolean(), settings: ref('ImagingSettings'), options: s.nullable(ref('ImagingOptions')) }),
+      NOT_SUPPORTED,
+    ) },
+  { method: 'POST', path: '/api/camera/imaging', camera: true, operationId: 'setCameraImaging', tag: 'Camera', summary: "Change the camera's imaging settings",
+    body: ref('ImagingSettings'), response: success({ settings: ref('ImagingSettings') }) },
+  { method: 'POST', path: '/api/camera/daynight', camera: true, operationId: 'setDayNight', tag: 'Camera', summary: 'Day (color), night (IR) or automatic',
+    body: s.object({ mode: s.enum(['day', 'night', 'auto']) }),
+    response: success({ mode: s.enum(['day', 'night', 'auto']), settings: ref('ImagingSettings') }) },
+  { method: 'POST', path: '/api/camera/focus', camera: true, operationId: 'moveFocus', tag: 'Camera', summary: 'Move focus at a speed until stopped',
+    body: s.object({ speed: s.number({ minimum: -1, maximum: 1, description: '-1 near to 1 far' }) }),
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/camera/focus/stop', camera: true, operationId: 'stopFocus', tag: 'Camera', summary: 'Stop moving focus',
+    response: ref('SuccessResponse') },
+
+  // Presets & patrol
+  { method: 'GET', path: '/api/presets', operationId: 'listPresets', tag: 'Presets', summary: 'Saved presets and patrol state',
+    response: s.object({
+      presets: s.array(ref('SavedPreset')),
+      patrol: ref('PatrolConfig'),
+      patrolActive: s.boolean(),
+      patrolHeld: s.boolean(),
+      currentPresetId: s.nullable(s.string()),
+    }) },
+  { method: 'POST', path: '/api/presets', operationId: 'savePreset', tag: 'Presets', summary: 'Save a preset (or create one from the current position)',
+    body: s.object({
+      'createFromCurrent?': s.boolean(),
+      'id?': s.string(),
+      'name?': s.string(),
+      'description?': s.string(),
+      'token?': s.string(),
+      'thumbnail?': s.string(),
+      'tags?': s.array(s.string()),
+    }),
+    response: success({ preset: s.nullable(ref('SavedPreset')) }) },
+  { method: 'POST', path: '/api/presets/:id/goto', operationId: 'gotoPreset', tag: 'Presets', summary: 'Go to a saved preset',
+    response: ref('SuccessResponse') },
+  { method: 'DELETE', path: '/api/presets/:id', operationId: 'deletePreset', tag: 'Presets', summary: 'Delete a preset',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/patrol/start', operationId: 'startPatrol', tag: 'Presets', summary: 'Start patrolling',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/patrol/stop', operationId: 'stopPatrol', tag: 'Presets', summary: 'Stop patrolling',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/patrol/config', operationId: 'updatePatrolConfig', tag: 'Presets', summary: 'Update the patrol config',
+    body: s.object({
+      'enabled?': s.boolean(),
+      'presets?': s.array(s.string()),
+      'dwellSeconds?': s.number({ minimum: 0 }),
+      'loop?': s.boolean(),
+      'mode?': s.enum(['fixed', 'adaptive']),
+      'minDwellSeconds?': s.number({ minimum: 0 }),
+      'maxDwellSeconds?': s.number({ minimum: 0 }),
+      'pauseOnActivity?': s.boolean(),
+      'resumeAfterSeconds?': s.number({ minimum: 0 }),
+    }),
+    response: success({ config: ref('PatrolConfig') }) },
+  { method: 'GET', path: '/api/patrol/log', operationId: 'getPatrolLog', tag: 'Presets', summary: 'Patrol decisions, newest first',
+    query: s.object({ 'limit?': LIMIT }),
+    response: s.object({ decisions: s.array(ref('PatrolDecision')) }) },
+  { method: 'GET', path: '/api/patrol/activity', operationId: 'getPatrolActivity', tag: 'Presets', summary: 'Activity score and dwell share per patrol preset',
+    response: s.object({ mode: s.enum(['fixed', 'adaptive']), presets: s.array(ref('PresetActivity')) }) },
+
+  // Schedules
+  { method: 'GET', path: '/api/schedules', operationId: 'listSchedules', tag: 'Schedules', summary: 'Scheduled jobs',
+    response: s.object({ jobs: s.array(s.object({
+      id: s.string(),
+      'name?': s.string(),
+      schedule: s.string(),
+      'timezone?': s.string(),
+      action: ref('ScheduleAction'),
+      enabled: s.boolean(),
+      createdAt: s.dateTime(),
+      'lastRunAt?': s.dateTime(),
+      'lastError?': s.string(),
+      nextRunAt: s.nullable(s.dateTime()),
+    })), timezone: s.string() }) },
+  { method: 'GET', path: '/api/schedules/upcoming', operationId: 'listUpcomingRuns', tag: 'Schedules', summary: 'Upcoming runs across all jobs',
+    query: s.object({ 'hours?': s.integer({ minimum: 1 }), 'limit?': LIMIT }),
+    response: s.object({ runs: s.array(ref('ScheduledRun')) }) },
+  { method: 'POST', path: '/api/schedules', operationId: 'addSchedule', tag: 'Schedules', summary: 'Add a job',
+    body: s.object({
+      'name?': s.string(),
+      schedule: s.string(),
+      'timezone?': s.string(),
+      action: ref('ScheduleAction'),
+      'enabled?': s.boolean(),
+    }),
+    response: success({ job: ref('ScheduleJob') }) },
+  { method: 'PUT', path: '/api/schedules/:id', operationId: 'updateSchedule', tag: 'Schedules', summary: 'Update a job',
+    body: s.object({
+      'name?': s.string(),
+      'schedule?': s.string(),
+      'timezone?': s.string(),
+      'action?': ref('ScheduleAction'),
+      'enabled?': s.boolean(),
+    }),
+    response: success({ job: ref('ScheduleJob') }) },
+  { method: 'DELETE', path: '/api/schedules/:id', operationId: 'removeSchedule', tag: 'Schedules', summary: 'Delete a job',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/schedules/:id/run', operationId: 'runSchedule', tag: 'Schedules', summary: 'Run a job now',
+    response: success({ job: s.nullable(ref('ScheduleJob')) }) },
+
+  // Profiles
+  { method: 'GET', path: '/api/profiles', operationId: 'listProfiles', tag: 'Profiles', summary: 'Profiles, the active one and the next automatic switch',
+    response: s.object({
+      activeProfile: s.nullable(s.string()),
+      activeSince: s.nullable(s.dateTime()),
+      auto: ref('AutoSwitchConfig'),
+      locationSet: s.boolean(),
+      phase: s.nullable(s.enum(['day', 'night'])),
+      nextSwitch: s.nullable(s.object({ at: s.dateTime(), profile: s.string(), reason: s.enum(['dawn', 'dusk']) })),
+      profiles: s.array(ref('OperatingProfile')),
+    }) },
+  { method: 'GET', path: '/api/profiles/history', operationId: 'getProfileHistory', tag: 'Profiles', summary: 'Switch history, newest first',
+    query: s.object({ 'limit?': LIMIT }),
+    response: s.object({ history: s.array(ref('ProfileSwitch')) }) },
+  { method: 'POST', path: '/api/profiles/auto', operationId: 'setProfileAuto', tag: 'Profiles', summary: 'Auto-switching at civil dawn and dusk',
+    body: s.object({ 'enabled?': s.boolean(), 'dayProfile?': s.string(), 'nightProfile?': s.string() }),
+    response: success({ auto: ref('AutoSwitchConfig') }) },
+  { method: 'PUT', path: '/api/profiles/:id', operationId: 'saveProfile', tag: 'Profiles', summary: 'Add or replace a profile',
+    body: s.object({
+      name: s.string({ minLength: 1 }),
+      'video?': ref('VideoSettingsUpdate'),
+      'motion?': ref('MotionConfigUpdate'),
+      'detection?': s.object({
+        'minConfidence?': s.number({ minimum: 0, maximum: 1 }),
+        'visualMinConfidence?': s.number({ minimum: 0, maximum: 1 }),
+        'visualThreshold?': s.number({ minimum: 0, maximum: 1 }),
+      }),
+      'irMode?': s.enum(['day', 'night', 'auto']),
+    }),
+    response: success({ profile: ref('OperatingProfile') }) },
+  { method: 'DELETE', path: '/api/profiles/:id', operationId: 'removeProfile', tag: 'Profiles', summary: 'Delete a profile',
+    response: ref('SuccessResponse') },
+  { method: 'POST', path: '/api/profiles/:id/activate', operationId: 'activateProfile', tag: 'Profiles', summary: 'Switch now',
+    response: success({ switch: ref('ProfileSwitch') }) },
+
+  // Birds
+  { method: 'GET', path: '/api/birds/summary', operationId: 'getBirdSummary', tag: 'Birds', summary: 'Dashboard summary',
+    response: s.object({
+      todaySightings: s.integer(),
+      todaySpecies: s.integer(),
+      totalSpecies: s.integer(),
+      recentSightings: s.array(ref('BirdSighting')),
+      topToday: s.nullable(s.string()),
+    }) },
+  { method: 'GET', path: '/api/birds/lifelist', operationId: 'getLifeList', tag: 'Birds', summary: 'Every species ever seen',
+    response: s.object({ species: s.array(s.string()), count: s.integer() }) },
+  { method: 'GET', path: '/api/birds/sightings', operationId: 'listSightings', tag: 'Birds', summary: 'Recent sightings',
+    query: s.object({ 'limit?': LIMIT }),
+    response: s.object({ sightings: s.array(ref('BirdSighting')) }) },
+  { method: 'GET', path: '/api/birds/sightings/:id', operationId: 'getSighting', tag: 'Birds', summary: 'A sighting',
+    response: ref('BirdSighting') },
+  { method: 'GET', path: '/api/birds/priors', operationId: 'getSpeciesPriors', tag: 'Birds', summary: 'Per-species weights learned from corrections',
+    response: s.object({
+      priors: s.record(s.number()),
+      thresholds: s.object({ audio: s.record(s.number()), visual: s.record(s.number()) }),
+    }) },
+  { method: 'GET', path: '/api/birds/today', operationId: 'getTodayStats', tag: 'Birds', summary: "Today's sightings by species",
+    response: ref('DailyStats') },
+  { method: 'GET', path: '/api/birds/species/:name', operationId: 'getSpeciesStats', tag: 'Birds', summary: 'Stats for one species',
+    response: ref('SpeciesStats') },
+  { method: 'GET', path: '/api/birds/top', operationId: 'getTopSpecies', tag: 'Birds', summary: 'Most seen species',
+    query: s.object({ 'limit?': LIMIT }),
+    response: s.object({ species: s.array(ref('SpeciesCount')) }) },
+  { method: 'GET', path: '/api/birds/heatmap', operationId: 'getActivityHeatmap', tag: 'Birds', summary: 'Sightings by weekday and hour',
+    response: s.object({
+      heatmap: s.array(s.array(s.integer())),
+      labels: s.object({ days: s.array(s.string()), hours: s.array(s.string()) }),
+    }) },
+  { method: 'GET', path: '/api/birds/search', operationId: 'searchSightings', tag: 'Birds', summary: 'Search sightings (first 100 results)',
+    query: s.object({ 'q?': s.string(), 'minConfidence?': s.number({ minimum: 0, maximum: 1 }) }),
+    response: s.object({ query: s.string(), count: s.integer(), sightings: s.array(ref('BirdSighting')) }) },
+  { method: 'GET', path: '/api/birds/export', operationId: 'exportBirdData', tag: 'Birds', summary: 'All sightings and the life list',
+    response: s.object({
+      sightings: s.array(ref('BirdSighting')),
+      lifeList: s.array(s.string()),
+      stats: s.object({ totalSightings: s.integer(), speciesCount: s.integer(), topSpecies: s.array(ref('SpeciesCount')) }),
+    }) },
+
+  // Notifications
+  { method: 'GET', path: '/api/notifications/settings', operationId: 'getNotificationSettings', tag: 'Notifications', summary: 'Notification settings',
+    response: ref('NotificationSettings') },
+  { method: 'POST', path: '/api/notifications/settings', operationId: 'updateNotificationSettings', tag: 'Notifications', summary: 'Update notification settings',
+    body: s.record(s.any(), { description: 'Any NotificationSettings fields' }),
+    response: success({ settings: ref('NotificationSettings') }) },
+  { method: 'POST', path: '/api/notifications/test', operationId: 'sendTestNotification', tag: 'Notifications', summary: 'Send a test notification',
+    response: ref('SuccessResponse') },
+
+  // Weather
+  { method: 'GET', path: '/api/weather/current', operationId: 'getCurrentWeather', tag: 'Weather', summary: 'Current weather and how it suits birds',
+    response: s.object({
+      timestamp: s.dateTime(),
+      temperature: s.number(),
+      feelsLike: s.number(),
+      humidity: s.number(),
+      precipitation: s.number(),
+      cloudCover: s.number(),
+      windSpeed: s.number(),
+      windDirection: s.number(),
+      conditions: s.string(),
+      isDay: s.boolean(),
+      sunrise: s.string(),
+      sunset: s.string(),
+      summary: s.string(),
+      birdActivityRating: s.object({ score: s.number(), factors: s.array(s.string()) }),
+    }) },
+  { method: 'GET', path: '/api/weather/forecast', operationId: 'getWeatherForecast', tag: 'Weather', summary: 'Daily forecast',
+    query: s.object({ 'days?': s.integer({ minimum: 1 }) }),
+    response: s.object({ forecast: s.array(ref('DailyForecast')) }) },
+
+  // Dashboards
+  { method: 'GET', path: '/', operationId: 'getDashboard', tag: 'Dashboard', summary: 'Web dashboard', produces: 'text/html' },
+  { method: 'GET', path: '/v1', operationId: 'getLegacyDashboard', tag: 'Dashboard', summary: 'Legacy dashboard', produces: 'text/html' },
+];
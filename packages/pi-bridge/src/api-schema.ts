@@ -0,0 +1,201 @@
+/**
+ * API Schema Module
+ *
+ * A small JSON Schema subset for describing the HTTP API's requests and
+ * responses (see api-routes.ts), with a validator for checking values
+ * against it. The same schemas are published as OpenAPI (openapi.ts) and
+ * turned into TypeScript types for the web app's client (generate-client.ts).
+ *
+ * Object properties ending in `?` are optional:
+ *   s.object({ id: s.string(), 'name?': s.string() })
+ */
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface Schema {
+  type?: SchemaType;
+  description?: string;
+  enum?: Array<string | number>;
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  anyOf?: Schema[];
+  $ref?: string;
+}
+
+type SchemaOptions = Omit<Schema, 'type' | 'items' | 'properties' | 'required' | 'anyOf' | '$ref'>;
+
+const REF_PREFIX = '#/components/schemas/';
+
+export const s = {
+  string: (options: SchemaOptions = {}): Schema => ({ type: 'string', ...options }),
+  number: (options: SchemaOptions = {}): Schema => ({ type: 'number', ...options }),
+  integer: (options: SchemaOptions = {}): Schema => ({ type: 'integer', ...options }),
+  boolean: (options: SchemaOptions = {}): Schema => ({ type: 'boolean', ...options }),
+  dateTime: (options: SchemaOptions = {}): Schema => ({ type: 'string', format: 'date-time', ...options }),
+  enum: (values: readonly string[], options: SchemaOptions = {}): Schema => ({ type: 'string', enum: [...values], ...options }),
+  array: (items: Schema, options: SchemaOptions = {}): Schema => ({ type: 'array', items, ...options }),
+
+  /** Object with known properties (`'key?'` = optional) */
+  object: (properties: Record<string, Schema>, options: SchemaOptions = {}): Schema => {
+    const props: Record<string, Schema> = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(properties)) {
+      const optional = key.endsWith('?');
+      const name = optional ? key.slice(0, -1) : key;
+      props[name] = schema;
+      if (!optional) required.push(name);
+    }
+    return { type: 'object', properties: props, ...(required.length ? { required } : {}), ...options };
+  },
+
+  /** Object used as a map (any keys, values of one schema) */
+  record: (values: Schema, options: SchemaOptions = {}): Schema => ({ type: 'object', additionalProperties: values, ...options }),
+
+  /** Anything (passed through to another service, or free-form) */
+  any: (description?: string): Schema => (description ? { description } : {}),
+
+  nullable: (schema: Schema): Schema => ({ anyOf: [schema, { type: 'null' }] }),
+  oneOf: (...schemas: Schema[]): Schema => ({ anyOf: schemas }),
+  ref: (name: string): Schema => ({ $ref: REF_PREFIX + name }),
+};
+
+/**
+ * Name of a component a schema refers to
+ */
+export function refName(schema: Schema): string | null {
+  return schema.$ref?.startsWith(REF_PREFIX) ? schema.$ref.slice(REF_PREFIX.length) : null;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a schema. Returns the first problem found
+ * (e.g. "body.pan must be a number"), or null if it matches.
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  components: Record<string, Schema> = {}
+): string | null {
+  const ref = refName(schema);
+  if (ref) {
+    const target = components[ref];
+    return target ? validate(target, value, path, components) : null;
+  }
+
+  if (schema.anyOf) {
+    const errors = schema.anyOf.map(option => validate(option, value, path, components));
+    return errors.includes(null) ? null : pickError(errors as string[], path);
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of: ${schema.enum.join(', ')}`;
+  }
+
+  switch (schema.type) {
+    case undefined:
+      return null;
+    case 'null':
+      return value === null ? null : `${path} must be null`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return `${path} must be at least ${schema.minLength} characters`;
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `${path} must be at most ${schema.maxLength} characters`;
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return `${path} has an invalid format`;
+      }
+      return null;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number`;
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `${path} must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${path} must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${path} must be at most ${schema.maximum}`;
+      return null;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const error = validate(schema.items, value[i], `${path}[${i}]`, components);
+          if (error) return error;
+        }
+      }
+      return null;
+    case 'object': {
+      if (typeOf(value) !== 'object') return `${path} must be an object`;
+      const obj = value as Record<string, unknown>;
+      // Properties first, so a wrong discriminator ("type") is reported before missing fields
+      for (const [name, item] of Object.entries(obj)) {
+        if (item === undefined) continue;
+        const propSchema = schema.properties?.[name]
+          ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+        if (propSchema) {
+          const error = validate(propSchema, item, `${path}.${name}`, components);
+          if (error) return error;
+        }
+      }
+      for (const name of schema.required ?? []) {
+        if (obj[name] === undefined) return `${path}.${name} is required`;
+      }
+      return null;
+    }
+  }
+}
+
+const ENUM_ERROR = /^(.*) must be one of: (.*)$/;
+
+/**
+ * Most useful of the errors from an anyOf's options: one from the option
+ * the value was meant for (not a type or enum mismatch), or else the enum
+ * mismatches merged ("body.action.type must be one of: preset, patrol, ...")
+ */
+function pickError(errors: string[], path: string): string {
+  const specific = errors.find(error => !ENUM_ERROR.test(error) && !error.startsWith(`${path} must be `));
+  if (specific) return specific;
+
+  const enums = errors.map(error => ENUM_ERROR.exec(error)).filter((match): match is RegExpExecArray => !!match);
+  if (enums.length === errors.length && enums.every(match => match[1] === enums[0][1])) {
+    const values = new Set(enums.flatMap(match => match[2].split(', ')));
+    return `${enums[0][1]} must be one of: ${[...values].join(', ')}`;
+  }
+  return errors[0];
+}
+
+/**
+ * Convert query string or path parameters to the types their schema
+ * declares ("5" -> 5, "true" -> true), leaving anything unparseable as is
+ * so validation reports it.
+ */
+export function coerceParams(schema: Schema, params: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...params };
+  for (const [name, propSchema] of Object.entries(schema.properties ?? {})) {
+    const raw = result[name];
+    if (typeof raw !== 'string') continue;
+    if (propSchema.type === 'number' || propSchema.type === 'integer') {
+      const parsed = Number(raw);
+      if (raw.trim() !== '' && Number.isFinite(parsed)) result[name] = parsed;
+    } else if (propSchema.type === 'boolean' && (raw === 'true' || raw === 'false')) {
+      result[name] = raw === 'true';
+    }
+  }
+  return result;
+}
@@ -0,0 +1,270 @@
+/**
+ * Audit Log Module
+ *
+ * Append-only record of every control action on the bridge: who made it
+ * (user, token, API key, web app user), which route with which parameters,
+ * and how it turned out. Entries are JSON lines in ~/.birdcam/audit/audit.log,
+ * rotated by size into audit.log.1 ... audit.log.N (oldest dropped).
+ *
+ * Secrets in parameters (passwords, keys, tokens, signatures) are redacted
+ * before anything is written. Each new entry is emitted as 'entry' so it can
+ * be mirrored elsewhere (see the sync outbox).
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { config } from './config.js';
+import type { Role } from './users.js';
+
+const SECRET_KEY_PATTERN = /pass|secret|token|key|sig|credential|authorization/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_PARAMS_LENGTH = 2000;
+const MAX_QUERY_LIMIT = 1000;
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;                 // Username, token name, 'api-key', email...
+  kind: string;                  // How the actor signed in (admin, user, token, firebase, ...)
+  role: Role;
+  tokenId?: string;
+  method: string;
+  route: string;
+  params?: Record<string, unknown>;
+  status: number;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  ip?: string;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  actor?: string;
+  kind?: string;
+  method?: string;
+  route?: string;                // Substring of the route
+  ok?: boolean;
+  status?: number;
+  tokenId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  total: number;                 // Matching entries (before offset/limit)
+  entries: AuditEntry[];         // Newest first
+}
+
+export interface AuditStats {
+  path: string;
+  files: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  maxFiles: number;
+  mirrorToFirestore: boolean;
+}
+
+/**
+ * Copy request parameters with secrets redacted and long values cut short
+ */
+export function sanitizeParams(value: unknown, depth: number = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (typeof value !== 'object') return value;
+  if (depth >= 3) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, 20).map(item => sanitizeParams(item, depth + 1));
+    return value.length > 20 ? [...items, `… ${value.length - 20} more`] : items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) ? '[redacted]' : sanitizeParams(item, depth + 1);
+  }
+  return result;
+}
+
+export class AuditLog extends EventEmitter {
+  private logPath: string;
+  private size = 0;
+
+  constructor(dir: string = config.audit.dir) {
+    super();
+    this.logPath = join(dir, 'audit.log');
+    try {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+      if (existsSync(this.logPath)) {
+        this.size = statSync(this.logPath).size;
+      }
+    } catch (err) {
+      console.warn('[Audit] Failed to open audit log:', (err as Error).message);
+    }
+  }
+
+  /**
+   * Append an entry (parameters are sanitized here)
+   */
+  record(input: Omit<AuditEntry, 'id' | 'at' | 'ok'> & { at?: string }): AuditEntry {
+    const { at, params, ...rest } = input;
+    const entry: AuditEntry = {
+      id: `aud_${Date.now().toString(36)}${crypto.randomBytes(4).toString('hex')}`,
+      at: at || new Date().toISOString(),
+      ...rest,
+      ok: rest.status < 400,
+    };
+    const sanitized = this.sanitize(params);
+    if (sanitized) entry.params = sanitized;
+
+    const line = JSON.stringify(entry) + '\n';
+    try {
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > config.audit.maxSizeBytes) {
+        this.rotate();
+      }
+      appendFileSync(this.logPath, line, { mode: 0o600 });
+      this.size += Buffer.byteLength(line);
+    } catch (err) {
+      console.error('[Audit] Failed to write entry:', (err as Error).message);
+    }
+
+    this.emit('entry', entry);
+    return entry;
+  }
+
+  /**
+   * Entries matching a filter, newest first
+   */
+  query(filter: AuditQuery = {}): AuditQueryResult {
+    const limit = Math.min(Math.max(Number.isFinite(filter.limit) ? filter.limit as number : 100, 1), MAX_QUERY_LIMIT);
+    const offset = Number.isFinite(filter.offset) ? Math.max(filter.offset as number, 0) : 0;
+    const status = Number.isFinite(filter.status) ? filter.status : undefined;
+    const since = filter.since ? Date.parse(filter.since) : NaN;
+    const until = filter.until ? Date.parse(filter.until) : NaN;
+    const route = filter.route?.toLowerCase();
+    const method = filter.method?.toUpperCase();
+
+    const matches = (entry: AuditEntry): boolean => {
+      const at = Date.parse(entry.at);
+      if (!isNaN(since) && at < since) return false;
+      if (!isNaN(until) && at > until) return false;
+      if (filter.actor && entry.actor !== filter.actor) return false;
+      if (filter.kind && entry.kind !== filter.kind) return false;
+      if (method && entry.method !== method) return false;
+      if (route && !entry.route.toLowerCase().includes(route)) return false;
+      if (filter.ok !== undefined && entry.ok !== filter.ok) return false;
+      if (status !== undefined && entry.status !== status) return false;
+      if (filter.tokenId && entry.tokenId !== filter.tokenId) return false;
+      return true;
+    };
+
+    const entries: AuditEntry[] = [];
+    let total = 0;
+    for (const file of this.getFiles()) {
+      const fileEntries = this.readFile(file);
+      for (let i = fileEntries.length - 1; i >= 0; i--) {
+        if (!matches(fileEntries[i])) continue;
+        if (total >= offset && entries.length < limit) {
+          entries.push(fileEntries[i]);
+        }
+        total++;
+      }
+      // Rotated files only hold older entries
+      if (!isNaN(since) && fileEntries.length > 0 && Date.parse(fileEntries[0].at) < since) break;
+    }
+
+    return { total, entries };
+  }
+
+  getStats(): AuditStats {
+    const files = this.getFiles();
+    let sizeBytes = 0;
+    for (const file of files) {
+      try {
+        sizeBytes += statSync(file).size;
+      } catch {}
+    }
+    return {
+      path: this.logPath,
+      files: files.length,
+      sizeBytes,
+      maxSizeBytes: config.audit.maxSizeBytes,
+      maxFiles: config.audit.maxFiles,
+      mirrorToFirestore: config.audit.mirrorToFirestore,
+    };
+  }
+
+  private sanitize(params: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+    if (!params || Object.keys(params).length === 0) return undefined;
+    const sanitized = sanitizeParams(params) as Record<string, unknown>;
+    const json = JSON.stringify(sanitized);
+    if (json.length > MAX_PARAMS_LENGTH) {
+      return { truncated: `${json.slice(0, MAX_PARAMS_LENGTH)}…` };
+    }
+    return sanitized;
+  }
+
+  /**
+   * audit.log -> audit.log.1 -> ... -> audit.log.N (dropped)
+   */
+  private rotate(): void {
+    const maxFiles = config.audit.maxFiles;
+    const oldest = `${this.logPath}.${maxFiles}`;
+    if (maxFiles > 0 && existsSync(oldest)) unlinkSync(oldest);
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      const file = `${this.logPath}.${i}`;
+      if (existsSync(file)) renameSync(file, `${this.logPath}.${i + 1}`);
+    }
+    if (maxFiles > 0) {
+      renameSync(this.logPath, `${this.logPath}.1`);
+    } else {
+      unlinkSync(this.logPath);
+    }
+    this.size = 0;
+    console.log('[Audit] Rotated audit log');
+  }
+
+  /**
+   * Log files, newest first
+   */
+  private getFiles(): string[] {
+    const files = [this.logPath];
+    for (let i = 1; i <= config.audit.maxFiles; i++) {
+      files.push(`${this.logPath}.${i}`);
+    }
+    return files.filter(file => existsSync(file));
+  }
+
+  private readFile(file: string): AuditEntry[] {
+    try {
+      const entries: AuditEntry[] = [];
+      for (const line of readFileSync(file, 'utf-8').split('\n')) {
+        if (!line) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a power loss
+        }
+      }
+      return entries;
+    } catch (err) {
+      console.warn(`[Audit] Failed to read ${file}:`, (err as Error).message);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+let auditLog: AuditLog | null = null;
+
+export function getAuditLog(): AuditLog {
+  if (!auditLog) {
+    auditLog = new AuditLog();
+  }
+  return auditLog;
+}
@@ -3,6 +3,16 @@
  * 
  * Provides HTTP Basic Auth and API key authentication for the dashboard and API.
  * Auto-generates and persists secure API keys for easy access.
+ *
+ * The admin login and API key have full access. Users and scoped tokens
+ * from users.ts are limited by role, and tokens also by route group:
+ * each request is classified as stream, ptz, recording or settings (or
+ * admin-only for user/token management) and rejected with 403 if the
+ * caller may not use it. Mutating calls, allowed or denied, are written
+ * to the audit log (audit.ts) with their caller.
+ * Streams, snapshots and clip files can also be fetched with a signed URL
+ * from signed-urls.ts instead of a key, and web app users can send their
+ * Firebase ID token (see firebase-auth.ts).
  */
 
 import { Request, Response, NextFunction } from 'express';
@@ -10,6 +20,10 @@ import crypto from 'crypto';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { getUserStore, SCOPES, type Role, type Scope } from './users.js';
+import { verifySignedPath } from './signed-urls.js';
+import { getFirebaseAuth } from './firebase-auth.js';
+import { getAuditLog } from './audit.js';
 
 export interface AuthConfig {
   enabled: boolean;
@@ -29,7 +43,77 @@ const DEFAULT_CONFIG: AuthConfig = {
   excludePaths: ['/health'],  // Health check for monitoring
 };
 
+/**
+ * Who made a request, attached to res.locals.principal
+ */
+export interface Principal {
+  kind: 'admin' | 'api-key' | 'user' | 'token' | 'firebase' | 'signed-url' | 'anonymous';
+  name: string;
+  role: Role;
+  scopes: Scope[];
+  tokenId?: string;
+}
+
+interface RouteAccess {
+  scope: Scope | null;   // null = general status/read-only data
+  adminOnly: boolean;
+  write: boolean;
+}
+
+/**
+ * Route groups by lowercase path prefix (first match wins), as Express
+ * matches routes case-insensitively. Per-camera paths
+ * (/api/cameras/:camId/...) are matched as their /api/... equivalents.
+ * Paths in no group are admin-only.
+ */
+const ROUTE_GROUPS: Array<{ prefix: string; scope: Scope | null; adminOnly?: boolean; exact?: boolean; readOnly?: boolean }> = [
+  // General status data; changes to it need settings access
+  { prefix: '/', scope: null, exact: true, readOnly: true },  // Dashboard
+  { prefix: '/v1', scope: null, readOnly: true },
+  { prefix: '/info', scope: null, readOnly: true },
+  { prefix: '/test', scope: null, readOnly: true },
+  { prefix: '/api/status', scope: null, readOnly: true },
+  { prefix: '/api/openapi.json', scope: null, readOnly: true },
+  { prefix: '/api/birds', scope: null, readOnly: true },
+  { prefix: '/api/weather', scope: null, readOnly: true },
+  { prefix: '/api/auth/me', scope: null },
+  { prefix: '/api/auth', scope: 'settings', adminOnly: true },
+  { prefix: '/api/users', scope: 'settings', adminOnly: true },
+  { prefix: '/api/tokens', scope: 'settings', adminOnly: true },
+  { prefix: '/api/audit', scope: 'settings', adminOnly: true },
+  { prefix: '/api/sign', scope: null },  // Checked per signed path
+  { prefix: '/api/webrtc', scope: 'stream' },
+  { prefix: '/api/stream', scope: 'stream' },
+  { prefix: '/stream', scope: 'stream' },
+  { prefix: '/segment', scope: 'stream' },
+  { prefix: '/cameras/', scope: 'stream' },
+  { prefix: '/api/ptz', scope: 'ptz' },
+  { prefix: '/api/presets', scope: 'ptz' },
+  { prefix: '/api/patrol', scope: 'ptz' },
+  { prefix: '/api/camera/focus', scope: 'ptz' },
+  { prefix: '/api/recording', scope: 'recording' },
+  { prefix: '/api/clips', scope: 'recording' },
+  { prefix: '/api/snapshot', scope: 'recording' },
+  { prefix: '/api/motion', scope: 'recording' },
+  { prefix: '/api/zones', scope: 'recording' },
+  { prefix: '/api/settings', scope: 'settings' },
+  { prefix: '/api/camera', scope: 'settings' },  // Also /api/cameras
+  { prefix: '/api/profiles', scope: 'settings' },
+  { prefix: '/api/schedules', scope: 'settings' },
+  { prefix: '/api/notifications', scope: 'settings' },
+];
+
+/** Route groups each role may change (every role may read every group) */
+const ROLE_WRITE_SCOPES: Record<Role, Scope[]> = {
+  viewer: ['stream'],
+  operator: ['stream', 'ptz', 'recording'],
+  admin: [...SCOPES],
+};
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 let authConfig: AuthConfig = { ...DEFAULT_CONFIG };
+let warnedQueryKey = false;
 
 // Path for persisted API key
 const BIRDCAM_DIR = join(homedir(), '.birdcam');
@@ -123,7 +207,9 @@ DASHBOARD_URL=${dashboardUrl}
 # STREAM URLS (for camera setup on external apps/websites)
 # ─────────────────────────────────────────────────────────────────
 
-# HLS Stream (most compatible - works in browsers, VLC, etc):
+# HLS Stream (most compatible - works in browsers, VLC, etc).
+# Prefer a short-lived signed URL so the key stays out of logs:
+# curl -H "X-API-Key: ${config.apiKey}" ${baseUrl}/api/stream/url
 HLS_STREAM_URL=${hlsStreamUrl}
 
 # WebRTC Stream API (lowest latency):
@@ -168,9 +254,8 @@ export function initAuth(): AuthConfig {
     password: password || '',
     apiKey: apiKey,
     realm: process.env.AUTH_REALM || 'BirdCam',
-    // Exclude health checks, HLS segments, test page, and stream from Basic Auth prompt
-    // API key is still checked for sensitive endpoints
-    excludePaths: ['/health', '/api/health', '/segment', '/test', '/stream'],
+    // Exclude health checks from auth; streams and segments need a key or a signed URL
+    excludePaths: ['/health', '/api/health'],
   };
   
   if (authConfig.enabled && !authConfig.password) {
@@ -240,35 +325,162 @@ function parseBasicAuth(header: string): { username: string; password: string }
 }
 
 /**
- * Check if request is authenticated
+ * Work out who is making the request, if anyone valid
  */
-function isAuthenticated(req: Request): boolean {
-  // Check API key in header or query
-  const apiKey = req.headers['x-api-key'] as string || req.query.api_key as string;
-  if (apiKey && secureCompare(apiKey, authConfig.apiKey)) {
-    return true;
+async function authenticate(req: Request): Promise<Principal | null> {
+  // Check API key or scoped token in header, query or Bearer header
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : undefined;
+  const apiKey = req.headers['x-api-key'] as string || req.query.api_key as string || bearer;
+  if (apiKey) {
+    if (req.query.api_key && !warnedQueryKey) {
+      warnedQueryKey = true;
+      console.warn('[Auth] ⚠️  API key sent in a URL - use the X-API-Key header or a signed URL (POST /api/sign)');
+    }
+    if (secureCompare(apiKey, authConfig.apiKey)) {
+      return { kind: 'api-key', name: 'api-key', role: 'admin', scopes: [...SCOPES] };
+    }
+    const token = getUserStore().findToken(apiKey);
+    if (token) {
+      return { kind: 'token', name: token.name, role: token.role, scopes: token.scopes, tokenId: token.id };
+    }
   }
   
-  // Check Basic Auth
-  const authHeader = req.headers.authorization;
+  // Check a Firebase ID token (a JWT) from the web app
+  if (bearer && bearer.split('.').length === 3) {
+    const identity = await getFirebaseAuth().authenticate(bearer);
+    if (identity) {
+      return { kind: 'firebase', name: identity.email || identity.uid, role: identity.role, scopes: [...SCOPES] };
+    }
+  }
+  
+  // Check Basic Auth (admin login first, then stored users)
   if (authHeader) {
     const credentials = parseBasicAuth(authHeader);
     if (credentials) {
       const usernameMatch = secureCompare(credentials.username, authConfig.username);
       const passwordMatch = secureCompare(credentials.password, authConfig.password);
-      return usernameMatch && passwordMatch;
+      if (usernameMatch && passwordMatch) {
+        return { kind: 'admin', name: authConfig.username, role: 'admin', scopes: [...SCOPES] };
+      }
+      const user = getUserStore().verifyPassword(credentials.username, credentials.password);
+      if (user) {
+        return { kind: 'user', name: user.username, role: user.role, scopes: [...SCOPES] };
+      }
     }
   }
   
-  return false;
+  return null;
+}
+
+/**
+ * Classify a request into its route group
+ */
+function getRouteAccess(method: string, path: string): RouteAccess {
+  const write = !READ_METHODS.includes(method.toUpperCase());
+  const normalized = path.toLowerCase().replace(/^\/api\/cameras\/[^/]+(?=\/)/, '/api');
+  const group = ROUTE_GROUPS.find(g => g.exact ? normalized === g.prefix : normalized.startsWith(g.prefix));
+  
+  if (group) {
+    const scope = group.readOnly && write ? 'settings' : group.scope;
+    return { scope, adminOnly: !!group.adminOnly, write };
+  }
+  // Unknown paths are denied to everyone but the admin
+  return { scope: 'settings', adminOnly: true, write };
+}
+
+/**
+ * Why a principal may not make a request (null = allowed)
+ */
+function checkAccess(principal: Principal, access: RouteAccess): string | null {
+  if (access.adminOnly && principal.role !== 'admin') {
+    return 'Requires the admin role';
+  }
+  if (!access.scope) return null;
+  if (!principal.scopes.includes(access.scope)) {
+    return `Token is not scoped for ${access.scope}`;
+  }
+  if (access.write && !ROLE_WRITE_SCOPES[principal.role].includes(access.scope)) {
+    return `The ${principal.role} role cannot change ${access.scope}`;
+  }
+  return null;
+}
+
+/**
+ * Why a principal may not make a request to a path (null = allowed)
+ */
+export function canAccess(principal: Principal, method: string, path: string): string | null {
+  return checkAccess(principal, getRouteAccess(method, path));
+}
+
+/**
+ * Route middleware for admin-only handlers, on top of the route groups
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const principal = res.locals.principal as Principal | undefined;
+  const denied = principal
+    ? checkAccess(principal, { scope: 'settings', adminOnly: true, write: !READ_METHODS.includes(req.method) })
+    : 'Requires the admin role';
+  if (denied) {
+    res.status(403).json({ error: 'Forbidden', hint: denied });
+    return;
+  }
+  next();
+}
+
+/**
+ * Write a mutating call to the audit log once its response has been sent
+ */
+function recordWhenFinished(req: Request, res: Response, principal: Principal): void {
+  const startedAt = Date.now();
+  const route = req.originalUrl.split('?')[0];
+  let error: string | undefined;
+
+  // Keep the error message of failed calls ({ error, hint? } or { success: false, error })
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    const { error: message, hint } = (body && typeof body === 'object' ? body : {}) as { error?: unknown; hint?: unknown };
+    if (typeof message === 'string') {
+      error = typeof hint === 'string' ? `${message}: ${hint}` : message;
+    }
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+    getAuditLog().record({
+      actor: principal.name,
+      kind: principal.kind,
+      role: principal.role,
+      tokenId: principal.tokenId,
+      method: req.method,
+      route,
+      params: { ...req.query, ...body },
+      status: res.statusCode,
+      error: res.statusCode >= 400 ? error : undefined,
+      durationMs: Date.now() - startedAt,
+      ip: req.ip,
+    });
+    if (principal.tokenId) {
+      getUserStore().touchToken(principal.tokenId);
+    }
+    if (principal.kind === 'token' || principal.kind === 'user') {
+      console.log(`[Auth] ${req.method} ${route} by ${principal.kind} ${principal.name} -> ${res.statusCode}`);
+    }
+  });
 }
 
 /**
  * Express middleware for authentication
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  // Skip if auth is disabled
+  // Skip if auth is disabled (everyone is an admin)
   if (!authConfig.enabled) {
+    const principal: Principal = { kind: 'anonymous', name: 'anonymous', role: 'admin', scopes: [...SCOPES] };
+    res.locals.principal = principal;
+    if (!READ_METHODS.includes(req.method)) {
+      recordWhenFinished(req, res, principal);
+    }
     return next();
   }
   
@@ -277,20 +489,54 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
     return next();
   }
   
-  // Check authentication
-  if (isAuthenticated(req)) {
-    return next();
+  // Signed URLs grant GET on their own path only
+  if (req.query.sig !== undefined) {
+    if ((req.method === 'GET' || req.method === 'HEAD') && verifySignedPath(req.path, req.query.exp, req.query.sig)) {
+      const access = getRouteAccess(req.method, req.path);
+      const principal: Principal = { kind: 'signed-url', name: 'signed-url', role: 'viewer', scopes: access.scope ? [access.scope] : [] };
+      res.locals.principal = principal;
+      return next();
+    }
+    res.status(403).json({ error: 'Forbidden', hint: 'Signed URL is invalid or has expired' });
+    return;
   }
   
+  // Check authentication, then the caller's role and scopes
+  authenticate(req).then(principal => {
+    if (!principal) {
+      return rejectUnauthenticated(req, res);
+    }
+    const access = getRouteAccess(req.method, req.path);
+    const denied = checkAccess(principal, access);
+    if (denied) {
+      console.warn(`[Auth] ⛔ ${req.method} ${req.path} denied for ${principal.kind} ${principal.name}: ${denied}`);
+      if (access.write) {
+        recordWhenFinished(req, res, principal);
+      }
+      res.status(403).json({ error: 'Forbidden', hint: denied });
+      return;
+    }
+    res.locals.principal = principal;
+    if (access.write) {
+      recordWhenFinished(req, res, principal);
+    }
+    next();
+  }).catch(next);
+}
+
+/**
+ * Ask for credentials
+ */
+function rejectUnauthenticated(req: Request, res: Response): void {
   // Request authentication - only show Basic Auth prompt if no API key was attempted
   // (to avoid browser popup when using API key in URL)
-  const attemptedApiKey = req.headers['x-api-key'] || req.query.api_key;
+  const attemptedApiKey = req.headers['x-api-key'] || req.query.api_key || req.headers.authorization?.startsWith('Bearer ');
   if (!attemptedApiKey) {
     res.setHeader('WWW-Authenticate', `Basic realm="${authConfig.realm}"`);
   }
   res.status(401).json({ 
     error: 'Authentication required',
-    hint: attemptedApiKey ? 'Invalid API key' : 'Use ?api_key=YOUR_KEY or X-API-Key header'
+    hint: attemptedApiKey ? 'Invalid or expired API key or token' : 'Use the X-API-Key header, a Bearer token or ?api_key=YOUR_KEY'
   });
 }
 
@@ -311,6 +557,13 @@ export function isAuthConfigured(): boolean {
   return authConfig.enabled && !!authConfig.password;
 }
 
+/**
+ * The admin login's username (stored users may not reuse it)
+ */
+export function getAdminUsername(): string {
+  return authConfig.username;
+}
+
 /**
  * Get the API key (for displaying to user)
  */
@@ -0,0 +1,307 @@
+/**
+ * PTZ Auto-Tracking Module
+ *
+ * Keeps a detected bird centered and framed. Each bounding box (normalized,
+ * from the Pi's visual detector or the web app's tracker via the API)
+ * becomes a continuous pan/tilt velocity proportional to how far the bird is
+ * off-center, smoothed and capped at a maximum speed. Inside the dead zone
+ * the camera holds still; once centered it zooms until the bird fills the
+ * target share of the frame.
+ *
+ * Motion snapshots only start tracking: while a bird is followed, the
+ * visual detector reads the live stream at AUTO_TRACK_FPS so boxes arrive
+ * well within AUTO_TRACK_LOST_MS.
+ *
+ * When boxes stop arriving the camera stops, and after a while without a
+ * bird it returns to the preset it was at when tracking began (unless a
+ * patrol is running, which resumes on its own).
+ */
+
+import { EventEmitter } from 'events';
+import { config } from './config.js';
+import { getPresetManager } from './ptz-presets.js';
+import type { PtzController } from './ptz.js';
+import type { DetectionBox } from './detector.js';
+
+// What the tracker needs from a controller (ONVIF, Amcrest and simulated all qualify)
+export type TrackingPtz = Pick<PtzController, 'continuousMove' | 'stop' | 'goHome'>;
+
+export interface AutoTrackConfig {
+  enabled: boolean;
+  deadZone: number;            // Max offset from center (fraction of frame) that needs no correction
+  maxSpeed: number;            // Velocity cap, 0-1
+  gain: number;                // Velocity per unit of offset
+  smoothing: number;           // 0 = jump straight to the new velocity, towards 1 = very gradual
+  targetSize: number;          // Desired bird size (largest side, fraction of frame)
+  zoomSpeed: number;           // Zoom velocity, 0-1
+  fps: number;                 // Live frames analyzed per second while following
+  lostAfterMs: number;         // Stop moving when no box arrives for this long
+  returnAfterSeconds: number;  // Return to the starting preset after this long without a bird
+}
+
+export interface TrackingStatus {
+  enabled: boolean;
+  tracking: boolean;
+  target: DetectionBox | null;
+  velocity: { pan: number; tilt: number; zoom: number };
+  lastSeenAt: string | null;
+  returnPresetId: string | null;
+}
+
+// Re-send an unchanged velocity this often (some cameras time moves out)
+const COMMAND_REFRESH_MS = 1000;
+const MIN_VELOCITY_CHANGE = 0.05;
+// Box closer than this to an edge means the bird is cut off
+const EDGE_MARGIN = 0.02;
+// Zoom only when the bird is this close to centered (multiple of the dead zone)
+const ZOOM_CENTER_FACTOR = 2;
+const ZOOM_TOLERANCE = 0.25;
+
+const STOPPED = { pan: 0, tilt: 0, zoom: 0 };
+
+export class AutoTracker extends EventEmitter {
+  private config: AutoTrackConfig;
+  private controller: TrackingPtz | null = null;
+  private target: DetectionBox | null = null;
+  private lastTarget: DetectionBox | null = null;
+  private velocity = { ...STOPPED };
+  private lastCommandAt = 0;
+  private lastSeenAt: number | null = null;
+  private tracking = false;
+  private returnPresetId: string | null = null;
+  private lostTimer: NodeJS.Timeout | null = null;
+  private returnTimer: NodeJS.Timeout | null = null;
+  private commandQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: Partial<AutoTrackConfig> = {}) {
+    super();
+    this.config = { ...config.autoTrack, ...options };
+  }
+
+  setPtzController(controller: TrackingPtz): void {
+    this.controller = controller;
+  }
+
+  getConfig(): AutoTrackConfig {
+    return { ...this.config };
+  }
+
+  setConfig(updates: Partial<AutoTrackConfig>): AutoTrackConfig {
+    const numeric = Object.fromEntries(
+      Object.entries(updates).filter(([key, value]) => key !== 'enabled' && typeof value === 'number' && value >= 0)
+    );
+    this.config = { ...this.config, ...numeric };
+    if (typeof updates.enabled === 'boolean') {
+      this.config.enabled = updates.enabled;
+      if (!updates.enabled) {
+        this.release();
+      }
+    }
+    console.log(`[AutoTrack] Config updated: ${JSON.stringify(this.config)}`);
+    return this.getConfig();
+  }
+
+  getStatus(): TrackingStatus {
+    return {
+      enabled: this.config.enabled,
+      tracking: this.tracking,
+      target: this.target,
+      velocity: { ...this.velocity },
+      lastSeenAt: this.lastSeenAt ? new Date(this.lastSeenAt).toISOString() : null,
+      returnPresetId: this.returnPresetId,
+    };
+  }
+
+  /**
+   * Steer towards the bird in a new bounding box
+   */
+  update(bbox: DetectionBox): boolean {
+    if (!this.config.enabled || !this.controller) return false;
+
+    if (!this.tracking) {
+      this.tracking = true;
+      const presets = getPresetManager();
+      this.returnPresetId = presets.getCurrentPresetId() ?? this.returnPresetId;
+      presets.clearCurrentPreset();
+      console.log('[AutoTrack] Following bird');
+      this.emit('started', bbox);
+    }
+    getPresetManager().holdPatrol('auto-tracking');
+
+    this.target = bbox;
+    this.lastTarget = bbox;
+    this.lastSeenAt = Date.now();
+    this.clearReturnTimer();
+    this.resetLostTimer();
+
+    this.steer(this.computeVelocity(bbox));
+    return true;
+  }
+
+  /**
+   * Steer towards the bird among several boxes (e.g. all birds in a live
+   * frame) nearest to the one being followed
+   */
+  updateFromDetections(boxes: DetectionBox[]): boolean {
+    if (boxes.length === 0) return false;
+    const previous = this.target ?? this.lastTarget;
+    if (!previous) return this.update(boxes[0]);
+
+    const distance = (box: DetectionBox) =>
+      Math.hypot(box.x + box.w / 2 - (previous.x + previous.w / 2), box.y + box.h / 2 - (previous.y + previous.h / 2));
+    const nearest = boxes.reduce((best, box) => (distance(box) < distance(best) ? box : best));
+    return this.update(nearest);
+  }
+
+  /**
+   * Stop following and return to where tracking started
+   */
+  release(): void {
+    this.clearReturnTimer();
+    if (this.lostTimer) {
+      clearTimeout(this.lostTimer);
+      this.lostTimer = null;
+    }
+    if (this.tracking) {
+      this.tracking = false;
+      this.target = null;
+      this.lastTarget = null;
+      this.steer({ ...STOPPED });
+      this.returnToStart();
+    }
+  }
+
+  /**
+   * Velocity that moves a bird at `bbox` towards the center of the frame
+   */
+  computeVelocity(bbox: DetectionBox): { pan: number; tilt: number; zoom: number } {
+    const { deadZone, gain, maxSpeed, smoothing, targetSize, zoomSpeed } = this.config;
+    const offsetX = bbox.x + bbox.w / 2 - 0.5;
+    const offsetY = bbox.y + bbox.h / 2 - 0.5;
+
+    const axis = (offset: number) => {
+      if (Math.abs(offset) <= deadZone) return 0;
+      // Ramp up from the edge of the dead zone so speed doesn't jump
+      const excess = offset - Math.sign(offset) * deadZone;
+      return clamp(excess * gain, -maxSpeed, maxSpeed);
+    };
+
+    const pan = axis(offsetX);
+    // Image y grows downwards, tilt grows upwards
+    const tilt = -axis(offsetY);
+
+    let zoom = 0;
+    const size = Math.max(bbox.w, bbox.h);
+    const cutOff = bbox.x < EDGE_MARGIN || bbox.y < EDGE_MARGIN ||
+      bbox.x + bbox.w > 1 - EDGE_MARGIN || bbox.y + bbox.h > 1 - EDGE_MARGIN;
+    const centered = Math.abs(offsetX) <= deadZone * ZOOM_CENTER_FACTOR &&
+      Math.abs(offsetY) <= deadZone * ZOOM_CENTER_FACTOR;
+    if (cutOff || size > targetSize * (1 + ZOOM_TOLERANCE)) {
+      zoom = -zoomSpeed;
+    } else if (centered && size < targetSize * (1 - ZOOM_TOLERANCE)) {
+      zoom = zoomSpeed;
+    }
+
+    const smooth = (previous: number, next: number) =>
+      next === 0 ? 0 : round(previous * smoothing + next * (1 - smoothing));
+
+    return {
+      pan: smooth(this.velocity.pan, pan),
+      tilt: smooth(this.velocity.tilt, tilt),
+      zoom,
+    };
+  }
+
+  private steer(velocity: { pan: number; tilt: number; zoom: number }): void {
+    const controller = this.controller;
+    if (!controller) return;
+
+    const stopped = velocity.pan === 0 && velocity.tilt === 0 && velocity.zoom === 0;
+    const wasStopped = this.velocity.pan === 0 && this.velocity.tilt === 0 && this.velocity.zoom === 0;
+    const changed = Math.abs(velocity.pan - this.velocity.pan) >= MIN_VELOCITY_CHANGE ||
+      Math.abs(velocity.tilt - this.velocity.tilt) >= MIN_VELOCITY_CHANGE ||
+      velocity.zoom !== this.velocity.zoom;
+
+    if (stopped && wasStopped) return;
+    if (!stopped && !changed && Date.now() - this.lastCommandAt < COMMAND_REFRESH_MS) return;
+
+    this.velocity = velocity;
+    this.lastCommandAt = Date.now();
+
+    // Keep commands in order - a slow camera must not apply an old velocity last
+    this.commandQueue = this.commandQueue
+      .then(() => stopped
+        ? controller.stop()
+        : controller.continuousMove(velocity.pan, velocity.tilt, velocity.zoom))
+      .catch(err => {
+        console.warn('[AutoTrack] PTZ command failed:', (err as Error).message);
+      });
+    this.emit('moved', velocity);
+  }
+
+  private resetLostTimer(): void {
+    if (this.lostTimer) {
+      clearTimeout(this.lostTimer);
+    }
+    this.lostTimer = setTimeout(() => {
+      this.lostTimer = null;
+      this.target = null;
+      this.steer({ ...STOPPED });
+      console.log('[AutoTrack] Lost bird, holding position');
+      this.emit('lost');
+
+      this.returnTimer = setTimeout(() => {
+        this.returnTimer = null;
+        this.release();
+      }, this.config.returnAfterSeconds * 1000);
+    }, this.config.lostAfterMs);
+  }
+
+  private clearReturnTimer(): void {
+    if (this.returnTimer) {
+      clearTimeout(this.returnTimer);
+      this.returnTimer = null;
+    }
+  }
+
+  private returnToStart(): void {
+    const presets = getPresetManager();
+    const presetId = this.returnPresetId;
+    this.returnPresetId = null;
+
+    // A running patrol moves on by itself
+    if (presets.isPatrolling()) {
+      this.emit('returned', null);
+      return;
+    }
+
+    const controller = this.controller;
+    this.commandQueue = this.commandQueue
+      .then(() => presetId ? presets.gotoPreset(presetId) : controller?.goHome())
+      .then(() => {
+        console.log(`[AutoTrack] Returned to ${presetId ? `preset ${presetId}` : 'home'}`);
+        this.emit('returned', presetId);
+      })
+      .catch(err => {
+        console.warn('[AutoTrack] Failed to return:', (err as Error).message);
+      });
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Singleton instance
+let autoTracker: AutoTracker | null = null;
+
+export function getAutoTracker(): AutoTracker {
+  if (!autoTracker) {
+    autoTracker = new AutoTracker();
+  }
+  return autoTracker;
+}
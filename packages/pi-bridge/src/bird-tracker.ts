@@ -11,20 +11,35 @@ import { homedir } from 'os';
 import { EventEmitter } from 'events';
 import { getNotificationManager } from './notifications.js';
 import { getCurrentWeather, type WeatherData } from './weather.js';
+import type { DetectionBox, DetectionSource } from './detector.js';
 
 export interface BirdSighting {
   id: string;
   species: string;
   scientificName: string;
-  confidence: number;
+  confidence: number;       // Combined confidence when heard and seen
   timestamp: string;
   clipId?: string;
+  clipOffset?: number;      // Seconds into the clip where the sighting occurred
+  source?: DetectionSource; // Modality that first detected the bird (audio = BirdNET)
+  audio?: ModalityEvidence; // BirdNET result, if the bird was heard
+  visual?: ModalityEvidence; // Visual model result, if the bird was seen
   snapshotId?: string;
   presetId?: string;        // Which camera preset was active
+  zoneId?: string;          // Detection zone the bird was seen in
   weather?: WeatherInfo;
   notes?: string;
 }
 
+export interface ModalityEvidence {
+  species: string;
+  scientificName: string;
+  confidence: number;
+  timestamp: string;
+  snapshotId?: string;
+  bbox?: DetectionBox;
+}
+
 export interface WeatherInfo {
   temperature?: number;
   conditions?: string;
@@ -127,12 +142,7 @@ export class BirdTracker extends EventEmitter {
     this.state.sightings.push(record);
 
     // Check if new species
-    const isNew = !this.state.lifeList.includes(sighting.species);
-    if (isNew) {
-      this.state.lifeList.push(sighting.species);
-      this.emit('newSpecies', record);
-      console.log(`[BirdTracker] 🎉 New species added to life list: ${sighting.species}`);
-    }
+    const isNew = this.addToLifeList(record);
 
     // Check if rare species
     const notificationManager = getNotificationManager();
@@ -161,6 +171,72 @@ export class BirdTracker extends EventEmitter {
     return record;
   }
 
+  /**
+   * Add a sighting's species to the life list, returning true if it is new
+   */
+  private addToLifeList(sighting: BirdSighting): boolean {
+    // Unclassified visual detections ("Bird") never count as a species
+    if (sighting.scientificName === 'Aves' || this.state.lifeList.includes(sighting.species)) {
+      return false;
+    }
+
+    this.state.lifeList.push(sighting.species);
+    this.emit('newSpecies', sighting);
+    console.log(`[BirdTracker] 🎉 New species added to life list: ${sighting.species}`);
+    return true;
+  }
+
+  /**
+   * Merge another modality's evidence into an existing sighting
+   */
+  mergeModality(
+    sightingId: string,
+    update: Pick<BirdSighting, 'species' | 'scientificName' | 'confidence' | 'audio' | 'visual' | 'zoneId'>
+  ): BirdSighting | null {
+    const sighting = this.getSighting(sightingId);
+    if (!sighting) return null;
+
+    Object.assign(sighting, Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    ));
+    this.addToLifeList(sighting);
+    this.saveState();
+    this.emit('sightingUpdated', sighting);
+
+    return sighting;
+  }
+
+  /**
+   * Get a sighting by ID
+   */
+  getSighting(id: string): BirdSighting | undefined {
+    return this.state.sightings.find(s => s.id === id);
+  }
+
+  /**
+   * Link a sighting to the clip that captured it
+   */
+  linkClip(sightingId: string, clipId: string, clipOffset: number): BirdSighting | null {
+    const sighting = this.getSighting(sightingId);
+    if (!sighting) return null;
+
+    sighting.clipId = clipId;
+    sighting.clipOffset = Math.max(0, Math.round(clipOffset * 10) / 10);
+    this.saveState();
+    this.emit('sightingUpdated', sighting);
+
+    return sighting;
+  }
+
+  /**
+   * Get sightings captured in a clip, in clip order
+   */
+  getSightingsForClip(clipId: string): BirdSighting[] {
+    return this.state.sightings
+      .filter(s => s.clipId === clipId)
+      .sort((a, b) => (a.clipOffset ?? 0) - (b.clipOffset ?? 0));
+  }
+
   /**
    * Archive old sightings to separate files
    */
@@ -213,6 +289,14 @@ export class BirdTracker extends EventEmitter {
       .reverse();
   }
 
+  /**
+   * Get sightings at or after a time, oldest first
+   */
+  getSightingsSince(since: Date): BirdSighting[] {
+    const sinceMs = since.getTime();
+    return this.state.sightings.filter(s => new Date(s.timestamp).getTime() >= sinceMs);
+  }
+
   /**
    * Get sightings for a specific date
    */
@@ -0,0 +1,524 @@
+/**
+ * Camera Registry Module
+ *
+ * One bridge can serve several cameras. Each camera has its own HLS
+ * streamer, motion detector, recorder (clips, snapshots, pre-roll), clip
+ * sessions, video settings and optional PTZ and ONVIF imaging controllers.
+ *
+ * The camera configured through the environment is always 'default' and
+ * wraps the existing module singletons, so everything built on them (bird
+ * detection, zones, privacy masks, presets, patrols, schedules,
+ * auto-tracking and cloud registration) keeps working unchanged. Extra
+ * cameras are kept in ~/.birdcam/cameras.json (or CAMERAS_FILE) and get
+ * streaming, motion-triggered clips, snapshots, settings, PTZ and imaging.
+ */
+
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { config } from './config.js';
+import { HlsStreamer, getStreamer, type StreamStats } from './streamer.js';
+import { MotionDetector, getMotionDetector, cameraRegionsFile, type MotionConfig, type MotionEvent } from './motion.js';
+import { Recorder, getRecorder } from './recorder.js';
+import { ClipSessionManager, getClipSessionManager } from './clip-session.js';
+import { SettingsManager, getSettings, cameraSettingsFile } from './settings.js';
+import { connectCamera, getBestStreamUrl } from './onvif.js';
+import { OnvifEventSource } from './onvif-events.js';
+import { createImagingController, type OnvifImagingController } from './onvif-imaging.js';
+import { createPtzController, type PtzController } from './ptz.js';
+import { createAmcrestPtzController, type AmcrestPtzController } from './amcrest-ptz.js';
+import { createSimulatedPtzController, type SimulatedPtzController } from './ptz-simulator.js';
+
+export const DEFAULT_CAMERA_ID = 'default';
+
+const CAMERA_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+// FFmpeg reads anything it has a protocol for (file:, concat:, ...), so only accept RTSP
+const RTSP_URL_PATTERN = /^rtsps?:\/\//;
+
+export type CameraPtz = PtzController | AmcrestPtzController | SimulatedPtzController;
+
+export interface CameraOnvifConfig {
+  host: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  profileToken?: string;
+}
+
+// An extra camera as stored in cameras.json
+export interface CameraEntry {
+  id: string;
+  name: string;
+  rtspUrl?: string;                // Resolved through ONVIF when empty
+  onvif?: CameraOnvifConfig;
+  ptzMode?: 'onvif' | 'amcrest' | 'simulated' | 'none';
+  channel?: number;                // Amcrest CGI channel
+  motion?: Partial<Omit<MotionConfig, 'regions'>>;
+  motionSource?: 'ffmpeg' | 'onvif' | 'both';  // Defaults to MOTION_SOURCE
+  privacyMask?: boolean;           // Paint the default camera's privacy zones (same scene only)
+  enabled?: boolean;
+}
+
+export interface CameraStatus {
+  id: string;
+  name: string;
+  default: boolean;
+  enabled: boolean;
+  streaming: boolean;
+  streamStats: StreamStats;
+  hlsUrl: string;
+  motionDetection: boolean;
+  cameraEvents: boolean;
+  recording: boolean;
+  ptz: boolean;
+  imaging: boolean;
+}
+
+interface CameraParts {
+  streamer: () => HlsStreamer;
+  motion: () => MotionDetector;
+  recorder: () => Recorder;
+  clipSessions: () => ClipSessionManager;
+  settings: () => SettingsManager;
+}
+
+export class Camera {
+  readonly id: string;
+  readonly name: string;
+  readonly isDefault: boolean;
+  private parts: CameraParts;
+  private entry: CameraEntry | null;
+  private ptz: CameraPtz | null = null;
+  private events: OnvifEventSource | null = null;
+  private imaging: OnvifImagingController | null = null;
+  private started = false;
+
+  constructor(id: string, name: string, parts: CameraParts, entry: CameraEntry | null = null) {
+    this.id = id;
+    this.name = name;
+    this.isDefault = entry === null;
+    this.parts = parts;
+    this.entry = entry;
+  }
+
+  get streamer(): HlsStreamer {
+    return this.parts.streamer();
+  }
+
+  get motion(): MotionDetector {
+    return this.parts.motion();
+  }
+
+  get recorder(): Recorder {
+    return this.parts.recorder();
+  }
+
+  get clipSessions(): ClipSessionManager {
+    return this.parts.clipSessions();
+  }
+
+  get settings(): SettingsManager {
+    return this.parts.settings();
+  }
+
+  getPtzController(): CameraPtz | null {
+    return this.ptz;
+  }
+
+  setPtzController(controller: CameraPtz | null): void {
+    this.ptz = controller;
+  }
+
+  getEventSource(): OnvifEventSource | null {
+    return this.events;
+  }
+
+  setEventSource(events: OnvifEventSource | null): void {
+    this.events = events;
+  }
+
+  getImagingController(): OnvifImagingController | null {
+    return this.imaging;
+  }
+
+  setImagingController(imaging: OnvifImagingController | null): void {
+    this.imaging = imaging;
+  }
+
+  getEntry(): CameraEntry | null {
+    return this.entry ? { ...this.entry } : null;
+  }
+
+  /**
+   * Playlist path relative to the bridge's base URL
+   */
+  getHlsPath(): string {
+    return this.isDefault ? '/stream.m3u8' : `/cameras/${this.id}/stream.m3u8`;
+  }
+
+  getStatus(): CameraStatus {
+    return {
+      id: this.id,
+      name: this.name,
+      default: this.isDefault,
+      enabled: this.entry?.enabled !== false,
+      streaming: this.streamer.isStreaming(),
+      streamStats: this.streamer.getStats(),
+      hlsUrl: this.getHlsPath(),
+      motionDetection: this.motion.isRunning(),
+      cameraEvents: this.events?.isRunning() ?? false,
+      recording: this.recorder.isRecording(),
+      ptz: this.ptz !== null,
+      imaging: this.imaging !== null,
+    };
+  }
+
+  /**
+   * Start an extra camera (the default camera is started by index.ts)
+   */
+  async start(): Promise<void> {
+    const entry = this.entry;
+    if (!entry || this.started) return;
+    this.started = true;
+    const tag = `[Camera:${this.id}]`;
+
+    const rtspUrl = await this.resolveRtspUrl(entry);
+    console.log(`${tag} RTSP URL: ${rtspUrl.replace(/\/\/[^@]+@/, '//***@')}`);
+
+    this.streamer.setRtspUrl(rtspUrl);
+    this.recorder.setRtspUrl(rtspUrl);
+    this.recorder.startBuffer();
+
+    await this.initializePtz(entry);
+
+    if (entry.onvif?.host) {
+      const { host, port = 80, username, password, profileToken } = entry.onvif;
+      this.imaging = createImagingController(host, port, username, password, profileToken);
+    }
+
+    try {
+      await this.streamer.start();
+    } catch (err) {
+      console.warn(`${tag} Stream failed to start:`, (err as Error).message);
+    }
+
+    const handleMotion = async (event: MotionEvent) => {
+      console.log(`${tag} Motion detected in ${event.regionName || event.regionId || 'frame'}! Confidence: ${event.confidence.toFixed(1)}%`);
+
+      const snapshot = await this.recorder.captureSnapshot('motion');
+      if (snapshot) {
+        event.snapshotPath = snapshot.path;
+      }
+
+      if (config.recording.enabled) {
+        await this.clipSessions.handleEvent('motion');
+      }
+    };
+
+    const source = entry.motionSource || config.onvifEvents.motionSource;
+    if (source !== 'onvif') {
+      this.motion.on('motion', handleMotion);
+      try {
+        await this.motion.start(rtspUrl);
+      } catch (err) {
+        console.warn(`${tag} Motion detection failed to start:`, (err as Error).message);
+      }
+    }
+
+    if (source !== 'ffmpeg') {
+      if (entry.onvif?.host) {
+        this.events = new OnvifEventSource({
+          host: entry.onvif.host,
+          port: entry.onvif.port || 80,
+          username: entry.onvif.username,
+          password: entry.onvif.password,
+          cooldownMs: this.motion.getConfig().cooldownMs,
+          label: `OnvifEvents:${this.id}`,
+        });
+        this.events.on('motion', handleMotion);
+        this.events.start();
+      } else {
+        console.warn(`${tag} ONVIF events need an onvif host`);
+      }
+    }
+  }
+
+  stop(): void {
+    if (!this.entry || !this.started) return;
+    this.started = false;
+
+    this.motion.removeAllListeners('motion');
+    this.motion.stop();
+    this.events?.removeAllListeners('motion');
+    this.events?.stop();
+    this.events = null;
+    this.imaging = null;
+    this.recorder.stopBuffer();
+    this.streamer.stop();
+    console.log(`[Camera:${this.id}] Stopped`);
+  }
+
+  private async resolveRtspUrl(entry: CameraEntry): Promise<string> {
+    if (entry.rtspUrl) {
+      if (!RTSP_URL_PATTERN.test(entry.rtspUrl)) {
+        throw new Error(`Camera ${entry.id} rtspUrl must be an rtsp:// or rtsps:// URL`);
+      }
+      return entry.rtspUrl;
+    }
+    if (!entry.onvif?.host) {
+      throw new Error(`Camera ${entry.id} needs an rtspUrl or an ONVIF host`);
+    }
+
+    const { host, port = 80, username, password, profileToken } = entry.onvif;
+    const device = await connectCamera(host, port, username, password);
+    const profile = profileToken ? device.profiles.find(p => p.token === profileToken) : undefined;
+    if (profile?.streamUri) {
+      const url = new URL(profile.streamUri);
+      if (username && password) {
+        url.username = encodeURIComponent(username);
+        url.password = encodeURIComponent(password);
+      }
+      return url.toString();
+    }
+    return getBestStreamUrl(device, username, password);
+  }
+
+  private async initializePtz(entry: CameraEntry): Promise<void> {
+    const tag = `[Camera:${this.id}]`;
+    const mode = entry.ptzMode || 'none';
+    if (mode === 'none') return;
+
+    if (mode === 'simulated') {
+      this.ptz = createSimulatedPtzController();
+      console.log(`${tag} PTZ: Enabled via simulator`);
+      return;
+    }
+
+    const onvif = entry.onvif;
+    if (!onvif?.host || !onvif.username || !onvif.password) {
+      console.warn(`${tag} PTZ: ${mode} needs ONVIF host and credentials`);
+      return;
+    }
+
+    try {
+      const port = onvif.port || 80;
+      let controller: CameraPtz;
+      if (mode === 'amcrest') {
+        controller = createAmcrestPtzController(onvif.host, port, onvif.username, onvif.password, entry.channel ?? 0);
+      } else {
+        const profileToken = onvif.profileToken
+          || (await connectCamera(onvif.host, port, onvif.username, onvif.password)).profiles[0]?.token;
+        if (!profileToken) {
+          console.warn(`${tag} PTZ: No profile token available`);
+          return;
+        }
+        controller = createPtzController(onvif.host, port, onvif.username, onvif.password, profileToken);
+      }
+
+      const capabilities = await controller.getCapabilities();
+      if (capabilities.supported) {
+        this.ptz = controller;
+        console.log(`${tag} PTZ: Enabled via ${mode === 'amcrest' ? 'Amcrest CGI' : 'ONVIF'}`);
+      } else {
+        console.log(`${tag} PTZ: Camera does not support PTZ`);
+      }
+    } catch (err) {
+      console.warn(`${tag} PTZ: Failed to initialize:`, (err as Error).message);
+    }
+  }
+}
+
+/**
+ * Build an extra camera with its own directories and state files. Parts are
+ * created on first use, after index.ts has configured the default camera's
+ * recorder and motion detector they copy their limits from.
+ */
+function createCamera(entry: CameraEntry): Camera {
+  let parts: ReturnType<typeof buildParts> | null = null;
+  const get = () => parts ??= buildParts(entry);
+
+  return new Camera(entry.id, entry.name, {
+    streamer: () => get().streamer,
+    motion: () => get().motion,
+    recorder: () => get().recorder,
+    clipSessions: () => get().clipSessions,
+    settings: () => get().settings,
+  }, entry);
+}
+
+function buildParts(entry: CameraEntry) {
+  // Same limits as the default camera's recorder, separate directories. The
+  // privacy zones are drawn on the default camera's scene, so they're only
+  // painted into a camera that opts in
+  const base = getRecorder().getConfig();
+  const privacyMask = entry.privacyMask === true;
+
+  const settings = new SettingsManager(cameraSettingsFile(entry.id));
+  const streamer = new HlsStreamer({
+    rtspUrl: entry.rtspUrl || '',
+    outputDir: `${config.hls.outputDir}-${entry.id}`,
+    settings,
+    privacyMask,
+    label: `Streamer:${entry.id}`,
+  });
+
+  const recorder = new Recorder({
+    ...base,
+    clipsDir: `${base.clipsDir}-${entry.id}`,
+    snapshotsDir: `${base.snapshotsDir}-${entry.id}`,
+    bufferDir: `${base.bufferDir}-${entry.id}`,
+    privacyMask,
+  });
+  const clipSessions = new ClipSessionManager(recorder);
+
+  const { regions: _regions, ...motionDefaults } = getMotionDetector().getConfig();
+  const motion = new MotionDetector({
+    ...motionDefaults,
+    enabled: process.env.MOTION_DETECTION_ENABLED !== 'false',
+    ...entry.motion,
+  }, cameraRegionsFile(entry.id));
+
+  return { settings, streamer, recorder, clipSessions, motion };
+}
+
+export class CameraRegistry extends EventEmitter {
+  private file: string;
+  private defaultCamera: Camera;
+  private cameras: Map<string, Camera> = new Map();
+
+  constructor(file: string = config.cameras.file) {
+    super();
+    this.file = file;
+
+    // Resolved lazily: index.ts configures these singletons during startup
+    this.defaultCamera = new Camera(DEFAULT_CAMERA_ID, config.camera.name, {
+      streamer: getStreamer,
+      motion: () => getMotionDetector(),
+      recorder: () => getRecorder(),
+      clipSessions: getClipSessionManager,
+      settings: getSettings,
+    });
+
+    for (const entry of this.loadEntries()) {
+      this.cameras.set(entry.id, createCamera(entry));
+    }
+  }
+
+  /**
+   * All cameras, default first
+   */
+  getCameras(): Camera[] {
+    return [this.defaultCamera, ...this.cameras.values()];
+  }
+
+  getCamera(id: string): Camera | null {
+    if (id === DEFAULT_CAMERA_ID) return this.defaultCamera;
+    return this.cameras.get(id) || null;
+  }
+
+  getDefaultCamera(): Camera {
+    return this.defaultCamera;
+  }
+
+  /**
+   * Start all enabled extra cameras
+   */
+  async startAll(): Promise<void> {
+    for (const camera of this.cameras.values()) {
+      if (camera.getEntry()?.enabled === false) continue;
+      try {
+        await camera.start();
+      } catch (err) {
+        console.error(`[Cameras] Failed to start ${camera.id}:`, (err as Error).message);
+      }
+    }
+  }
+
+  stopAll(): void {
+    for (const camera of this.cameras.values()) {
+      camera.stop();
+    }
+  }
+
+  /**
+   * Add an extra camera, save it and start it
+   */
+  async addCamera(entry: CameraEntry): Promise<Camera> {
+    if (!entry?.id || !CAMERA_ID_PATTERN.test(entry.id)) {
+      throw new Error('id must be 1-32 lowercase letters, digits or dashes');
+    }
+    if (entry.id === DEFAULT_CAMERA_ID || this.cameras.has(entry.id)) {
+      throw new Error(`Camera ${entry.id} already exists`);
+    }
+    if (!entry.rtspUrl && !entry.onvif?.host) {
+      throw new Error('rtspUrl or onvif.host required');
+    }
+    if (entry.rtspUrl && !RTSP_URL_PATTERN.test(entry.rtspUrl)) {
+      throw new Error('rtspUrl must be an rtsp:// or rtsps:// URL');
+    }
+
+    const camera = createCamera({ ...entry, name: entry.name || entry.id });
+    this.cameras.set(entry.id, camera);
+    this.saveEntries();
+    console.log(`[Cameras] Added ${entry.id}`);
+    this.emit('added', camera);
+
+    if (entry.enabled !== false) {
+      await camera.start();
+    }
+    return camera;
+  }
+
+  /**
+   * Stop and forget an extra camera (its clips and snapshots are kept)
+   */
+  removeCamera(id: string): boolean {
+    const camera = this.cameras.get(id);
+    if (!camera) return false;
+
+    camera.stop();
+    this.cameras.delete(id);
+    this.saveEntries();
+    console.log(`[Cameras] Removed ${id}`);
+    this.emit('removed', id);
+    return true;
+  }
+
+  private loadEntries(): CameraEntry[] {
+    try {
+      if (existsSync(this.file)) {
+        const entries = JSON.parse(readFileSync(this.file, 'utf-8')) as CameraEntry[];
+        return entries.filter(e => {
+          if (e.id && CAMERA_ID_PATTERN.test(e.id) && e.id !== DEFAULT_CAMERA_ID) return true;
+          console.warn(`[Cameras] Skipping camera with invalid id: ${e.id}`);
+          return false;
+        });
+      }
+    } catch (err) {
+      console.warn('[Cameras] Failed to load cameras:', (err as Error).message);
+    }
+    return [];
+  }
+
+  private saveEntries(): void {
+    const entries = [...this.cameras.values()]
+      .map(camera => camera.getEntry())
+      .filter((entry): entry is CameraEntry => entry !== null);
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(entries, null, 2));
+    } catch (err) {
+      console.error('[Cameras] Failed to save cameras:', (err as Error).message);
+    }
+  }
+}
+
+// Singleton instance
+let cameraRegistry: CameraRegistry | null = null;
+
+export function getCameraRegistry(): CameraRegistry {
+  if (!cameraRegistry) {
+    cameraRegistry = new CameraRegistry();
+  }
+  return cameraRegistry;
+}
@@ -0,0 +1,166 @@
+/**
+ * Clip Session Module
+ *
+ * Merges bursts of motion and bird detections into a single clip.
+ * The first event starts a recording; every following event extends it
+ * (up to the recorder's maxClipDurationSeconds). When the clip is saved,
+ * all sightings that occurred during it are attached to the clip, and each
+ * sighting is linked back to the clip with its offset inside it.
+ */
+
+import { EventEmitter } from 'events';
+import { getRecorder, type ClipInfo, type Recorder } from './recorder.js';
+import { getBirdTracker } from './bird-tracker.js';
+
+export type ClipEventSource = 'motion' | 'bird';
+
+export interface ClipSession {
+  clipId: string;
+  startedAt: string;
+  lastEventAt: string;
+  eventCount: number;
+  sources: ClipEventSource[];
+  sightingIds: string[];
+  zoneId?: string;          // Zone of the first event that had one
+}
+
+export class ClipSessionManager extends EventEmitter {
+  private active: ClipSession | null = null;
+  // Sessions whose recording has stopped but whose clip is still being written
+  private pending: Map<string, ClipSession> = new Map();
+  private listening = false;
+  private recorder: Recorder;
+
+  constructor(recorder: Recorder = getRecorder()) {
+    super();
+    this.recorder = recorder;
+  }
+
+  /**
+   * Handle a motion or detection event
+   *
+   * Returns the ID of the clip that covers the event, or null if no
+   * recording could be started.
+   */
+  async handleEvent(source: ClipEventSource, sightingId?: string, zoneId?: string): Promise<string | null> {
+    const recorder = this.recorder;
+    this.listen();
+
+    // The recorder may have stopped on its own (post-roll elapsed or duration cap)
+    if (this.active && recorder.getRecordingId() !== this.active.clipId) {
+      this.pending.set(this.active.clipId, this.active);
+      this.active = null;
+    }
+
+    if (this.active) {
+      if (recorder.extendRecording()) {
+        this.addEvent(this.active, source, sightingId, zoneId);
+        return this.active.clipId;
+      }
+
+      // Clip hit its maximum duration - close it and start a fresh one
+      const closing = this.active;
+      this.pending.set(closing.clipId, closing);
+      this.active = null;
+      recorder.stopRecording().catch(err => {
+        console.error('[ClipSession] Failed to close clip:', (err as Error).message);
+      });
+    }
+
+    const clipId = await recorder.startRecording('motion');
+    if (!clipId) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    this.active = {
+      clipId,
+      startedAt: now,
+      lastEventAt: now,
+      eventCount: 0,
+      sources: [],
+      sightingIds: [],
+    };
+    this.addEvent(this.active, source, sightingId, zoneId);
+
+    console.log(`[ClipSession] Started clip ${clipId} (${source})`);
+    this.emit('sessionStarted', this.active);
+    return clipId;
+  }
+
+  /**
+   * Get the session currently being recorded
+   */
+  getActiveSession(): ClipSession | null {
+    return this.active ? { ...this.active, sightingIds: [...this.active.sightingIds] } : null;
+  }
+
+  private addEvent(session: ClipSession, source: ClipEventSource, sightingId?: string, zoneId?: string): void {
+    session.eventCount++;
+    session.lastEventAt = new Date().toISOString();
+    if (!session.sources.includes(source)) {
+      session.sources.push(source);
+    }
+    if (sightingId && !session.sightingIds.includes(sightingId)) {
+      session.sightingIds.push(sightingId);
+    }
+    if (zoneId && !session.zoneId) {
+      session.zoneId = zoneId;
+    }
+  }
+
+  private listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    this.recorder.on('clipSaved', (clip: ClipInfo) => this.handleClipSaved(clip));
+  }
+
+  private handleClipSaved(clip: ClipInfo): void {
+    let session = this.pending.get(clip.id);
+    if (session) {
+      this.pending.delete(clip.id);
+    } else if (this.active?.clipId === clip.id) {
+      session = this.active;
+      this.active = null;
+    } else {
+      return;
+    }
+
+    if (session.sightingIds.length > 0) {
+      this.recorder.setClipSightings(clip.id, session.sightingIds);
+      this.linkSightings(clip, session.sightingIds);
+    }
+
+    if (session.zoneId) {
+      this.recorder.setClipZone(clip.id, session.zoneId);
+    }
+
+    const closed: ClipInfo = { ...clip, sightingIds: session.sightingIds, zoneId: session.zoneId };
+    console.log(`[ClipSession] Closed clip ${clip.id}: ${session.eventCount} event(s), ${session.sightingIds.length} sighting(s)`);
+    this.emit('sessionClosed', closed, session);
+  }
+
+  private linkSightings(clip: ClipInfo, sightingIds: string[]): void {
+    const tracker = getBirdTracker();
+    const clipStart = clip.startTime.getTime();
+
+    for (const id of sightingIds) {
+      const sighting = tracker.getSighting(id);
+      if (!sighting) continue;
+
+      const offset = (new Date(sighting.timestamp).getTime() - clipStart) / 1000;
+      tracker.linkClip(id, clip.id, Math.min(offset, clip.duration || offset));
+    }
+  }
+}
+
+// Singleton instance
+let clipSessionManager: ClipSessionManager | null = null;
+
+export function getClipSessionManager(): ClipSessionManager {
+  if (!clipSessionManager) {
+    clipSessionManager = new ClipSessionManager();
+  }
+  return clipSessionManager;
+}
@@ -3,6 +3,7 @@ import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { join } from 'path';
 import { homedir } from 'os';
+import { isValidTimezone } from './timezone.js';
 
 loadEnv();
 
@@ -64,12 +65,27 @@ export const config = {
   // PTZ Control
   ptz: {
     // Use Amcrest CGI API instead of ONVIF for PTZ (more reliable on Amcrest cameras)
-    // 'auto' = detect Amcrest and use CGI, 'amcrest' = force CGI, 'onvif' = force ONVIF
-    mode: (process.env.PTZ_MODE || 'auto') as 'auto' | 'amcrest' | 'onvif',
+    // 'auto' = detect Amcrest and use CGI, 'amcrest' = force CGI, 'onvif' = force ONVIF,
+    // 'simulated' = no camera movement, for trying out tracking and patrols
+    mode: (process.env.PTZ_MODE || 'auto') as 'auto' | 'amcrest' | 'onvif' | 'simulated',
     // Channel for Amcrest CGI (usually 0 or 1)
     channel: parseInt(process.env.PTZ_CHANNEL || '0', 10),
   },
   
+  // Auto-tracking: follow detected birds with PTZ
+  autoTrack: {
+    enabled: process.env.AUTO_TRACK_ENABLED === 'true',
+    deadZone: parseFloat(process.env.AUTO_TRACK_DEAD_ZONE || '0.1'),     // Offset from center to ignore (0-0.5)
+    maxSpeed: parseFloat(process.env.AUTO_TRACK_MAX_SPEED || '0.5'),     // PTZ velocity cap (0-1)
+    gain: parseFloat(process.env.AUTO_TRACK_GAIN || '2'),
+    smoothing: parseFloat(process.env.AUTO_TRACK_SMOOTHING || '0.5'),
+    targetSize: parseFloat(process.env.AUTO_TRACK_TARGET_SIZE || '0.3'), // Bird size to zoom to (fraction of frame)
+    zoomSpeed: parseFloat(process.env.AUTO_TRACK_ZOOM_SPEED || '0.3'),
+    fps: parseFloat(process.env.AUTO_TRACK_FPS || '4'),                  // Live frames analyzed while following a bird
+    lostAfterMs: parseInt(process.env.AUTO_TRACK_LOST_MS || '1500', 10),
+    returnAfterSeconds: parseInt(process.env.AUTO_TRACK_RETURN_SECONDS || '30', 10),
+  },
+  
   // Firebase (optional - leave FIREBASE_SERVICE_ACCOUNT_PATH empty to disable)
   firebase: {
     enabled: !!process.env.FIREBASE_SERVICE_ACCOUNT_PATH,
@@ -77,6 +93,33 @@ export const config = {
     projectId: process.env.FIREBASE_PROJECT_ID || 'birdwatchnetwork',
   },
   
+  // Clip storage backend: firebase | s3 (any S3-compatible, e.g. MinIO) | local (filesystem/NFS) | none
+  storage: {
+    backend: (process.env.STORAGE_BACKEND || (process.env.FIREBASE_SERVICE_ACCOUNT_PATH ? 'firebase' : 'none')) as 'firebase' | 's3' | 'local' | 'none',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',  // Required by MinIO
+      publicUrl: process.env.S3_PUBLIC_URL || '',
+    },
+    local: {
+      path: process.env.STORAGE_LOCAL_PATH || '/mnt/birdcam',
+      publicUrl: process.env.STORAGE_LOCAL_PUBLIC_URL || '',
+    },
+  },
+  
+  // Offline sync queue (detections, clips, thumbnails waiting for upload)
+  sync: {
+    retryBaseMs: parseInt(process.env.SYNC_RETRY_BASE_MS || '5000', 10),
+    retryMaxMs: parseInt(process.env.SYNC_RETRY_MAX_MS || '600000', 10),
+    uploadClips: process.env.SYNC_UPLOAD_CLIPS !== 'false',
+    maxAttempts: parseInt(process.env.SYNC_MAX_ATTEMPTS || '100', 10),
+    maxQueueSize: parseInt(process.env.SYNC_MAX_QUEUE || '5000', 10),
+  },
+  
   // Streaming
   streaming: {
     mode: (process.env.STREAM_MODE || 'hls') as 'webrtc' | 'hls' | 'auto',
@@ -114,17 +157,80 @@ export const config = {
     locale: process.env.BIRDNET_LOCALE || 'en',
   },
   
+  // Visual bird detection (ONNX models on motion-triggered frames)
+  visualDetection: {
+    enabled: process.env.VISUAL_DETECTION_ENABLED !== 'false',
+    detectorModel: process.env.VISUAL_DETECTOR_MODEL || './models/bird-detector.onnx',
+    classifierModel: process.env.VISUAL_CLASSIFIER_MODEL || './models/bird-classifier.onnx',
+    labels: process.env.VISUAL_CLASSIFIER_LABELS || '',
+    minConfidence: parseFloat(process.env.VISUAL_MIN_CONFIDENCE || '0.5'),
+    detectionThreshold: parseFloat(process.env.VISUAL_DETECTION_THRESHOLD || '0.35'),
+    minIntervalMs: parseInt(process.env.VISUAL_MIN_INTERVAL_MS || '2000', 10),
+    threads: parseInt(process.env.VISUAL_THREADS || '2', 10),
+  },
+  
+  // Audio + visual detection fusion
+  fusion: {
+    // Detections of the other modality within this many seconds can merge into one sighting
+    windowSeconds: parseInt(process.env.FUSION_WINDOW_SECONDS || '15', 10),
+  },
+  
   // Clip Recording
   recording: {
     enabled: process.env.CLIP_RECORDING_ENABLED !== 'false',  // Enabled by default
     clipDuration: parseInt(process.env.CLIP_DURATION || '15', 10),
     preBuffer: parseInt(process.env.CLIP_PRE_BUFFER || '5', 10),
+    postBuffer: parseInt(process.env.CLIP_POST_BUFFER || '10', 10),
+    maxClipDuration: parseInt(process.env.CLIP_MAX_DURATION || '60', 10),
+    // Rolling pre-roll segments live here (tmpfs recommended on SD-card Pis)
+    bufferDir: process.env.CLIP_BUFFER_DIR || '/tmp/birdcam-buffer',
+    segmentDuration: parseInt(process.env.CLIP_SEGMENT_DURATION || '2', 10),
     outputDir: process.env.CLIPS_OUTPUT_DIR || './clips',
     maxClips: parseInt(process.env.MAX_CLIPS || '100', 10),
     maxStorageMB: parseInt(process.env.MAX_STORAGE_MB || '1024', 10),
     generateThumbnail: process.env.GENERATE_THUMBNAILS !== 'false',
   },
   
+  // ONVIF camera events (on-camera motion, line crossing, intrusion, tamper)
+  onvifEvents: {
+    // Motion source: 'ffmpeg' = frame differencing on the Pi, 'onvif' = camera events, 'both'
+    motionSource: (process.env.MOTION_SOURCE || 'ffmpeg') as 'ffmpeg' | 'onvif' | 'both',
+    // Event kinds that trigger like motion: motion, line, intrusion, tamper, other
+    types: (process.env.ONVIF_EVENT_TYPES || 'motion,line,intrusion').split(',').map(t => t.trim()).filter(Boolean),
+    pullTimeoutSeconds: parseInt(process.env.ONVIF_EVENT_PULL_TIMEOUT || '10', 10),
+  },
+  
+  // Extra cameras served by this bridge (the env-configured camera is always 'default')
+  cameras: {
+    file: process.env.CAMERAS_FILE || join(homedir(), '.birdcam', 'cameras.json'),
+  },
+  
+  // Scheduler (cron fields are evaluated in this IANA timezone)
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    timezone: process.env.SCHEDULER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  },
+  
+  // Day/night operating profiles
+  profiles: {
+    // Switch the day/night profiles at civil dawn/dusk (needs the location above)
+    autoSwitch: process.env.PROFILE_AUTO_SWITCH !== 'false',
+  },
+
+  // Audit log of control actions (rotated by size, optionally mirrored to Firestore)
+  audit: {
+    dir: process.env.AUDIT_DIR || join(homedir(), '.birdcam', 'audit'),
+    maxSizeBytes: (parseFloat(process.env.AUDIT_MAX_SIZE_MB || '5') || 5) * 1024 * 1024,
+    maxFiles: parseInt(process.env.AUDIT_MAX_FILES || '5', 10),
+    mirrorToFirestore: process.env.AUDIT_FIRESTORE_MIRROR === 'true',
+  },
+
+  // HTTP API schemas (api-routes.ts): requests are always validated,
+  // responses only checked (and mismatches logged) when enabled
+  api: {
+    validateResponses: (process.env.API_VALIDATE_RESPONSES ?? process.env.DEBUG) === 'true',
+  },
+
   // System
   deviceId: getDeviceId(),
   debug: process.env.DEBUG === 'true',
@@ -149,6 +255,37 @@ export function validateConfig(): string[] {
     errors.push(`Firebase service account not found: ${config.firebase.serviceAccountPath}`);
   }
   
+  if (!['ffmpeg', 'onvif', 'both'].includes(config.onvifEvents.motionSource)) {
+    errors.push(`Unknown MOTION_SOURCE: ${config.onvifEvents.motionSource}`);
+  }
+  
+  if (config.onvifEvents.motionSource !== 'ffmpeg' && !config.onvif.host && !config.onvif.autoDiscover) {
+    errors.push('MOTION_SOURCE=onvif|both requires ONVIF_HOST (or ONVIF_AUTO_DISCOVER=true)');
+  }
+  
+  if (config.autoTrack.enabled && (config.autoTrack.fps <= 0 || 1000 / config.autoTrack.fps >= config.autoTrack.lostAfterMs)) {
+    errors.push('AUTO_TRACK_FPS must deliver a frame more often than AUTO_TRACK_LOST_MS');
+  }
+  
+  if (!isValidTimezone(config.scheduler.timezone)) {
+    errors.push(`SCHEDULER_TIMEZONE is not a valid IANA timezone: ${config.scheduler.timezone}`);
+  }
+  
+  if (config.storage.backend === 'firebase' && !config.firebase.enabled) {
+    errors.push('STORAGE_BACKEND=firebase requires FIREBASE_SERVICE_ACCOUNT_PATH');
+  }
+  
+  if (config.storage.backend === 's3') {
+    if (!config.storage.s3.bucket) errors.push('S3_BUCKET is required when STORAGE_BACKEND=s3');
+    if (!config.storage.s3.accessKeyId || !config.storage.s3.secretAccessKey) {
+      errors.push('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_BACKEND=s3');
+    }
+  }
+  
+  if (!['firebase', 's3', 'local', 'none'].includes(config.storage.backend)) {
+    errors.push(`Unknown STORAGE_BACKEND: ${config.storage.backend}`);
+  }
+  
   if (config.tunnel.enabled && !config.tunnel.token) {
     errors.push('CLOUDFLARE_TUNNEL_TOKEN is required when USE_CLOUDFLARE_TUNNEL=true');
   }
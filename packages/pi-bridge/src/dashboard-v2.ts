@@ -1239,6 +1239,25 @@ export function getDashboardV2Html(): string {
     </div>
   </div>
 
+  <!-- Clip Player Modal -->
+  <div class="modal-overlay" id="clip-modal">
+    <div class="modal" style="max-width: 720px;">
+      <div class="modal-header">
+        <h3 class="modal-title" id="clip-modal-title">🎬 Clip</h3>
+        <button class="modal-close" onclick="closeClipModal()">×</button>
+      </div>
+      <div class="modal-body">
+        <video id="clip-player" controls playsinline style="width: 100%; border-radius: var(--radius-sm); background: #000;"></video>
+        <h4 style="margin: var(--space-4) 0 var(--space-3); color: var(--accent);">🐦 Sightings in this clip</h4>
+        <div id="clip-sightings" style="max-height: 200px; overflow-y: auto;"></div>
+      </div>
+      <div class="modal-footer">
+        <a id="clip-download" download class="btn btn-secondary">⬇️ Download</a>
+        <button class="btn btn-primary" onclick="closeClipModal()">Close</button>
+      </div>
+    </div>
+  </div>
+
   <!-- Save Preset Modal -->
   <div class="modal-overlay" id="preset-modal">
     <div class="modal" style="max-width: 400px;">
@@ -1274,9 +1293,11 @@ export function getDashboardV2Html(): string {
         <!-- Settings Tabs -->
         <div class="tabs" style="margin-bottom: var(--space-4);">
           <button class="tab active" onclick="switchSettingsTab('video')" data-settings-tab="video">📹 Video</button>
+          <button class="tab" onclick="switchSettingsTab('camera')" data-settings-tab="camera">📷 Camera</button>
           <button class="tab" onclick="switchSettingsTab('notifications')" data-settings-tab="notifications">🔔 Alerts</button>
           <button class="tab" onclick="switchSettingsTab('detection')" data-settings-tab="detection">🐦 Detection</button>
           <button class="tab" onclick="switchSettingsTab('apikeys')" data-settings-tab="apikeys">🔑 API Keys</button>
+          <button class="tab" onclick="switchSettingsTab('audit')" data-settings-tab="audit">📜 Audit</button>
         </div>
         
         <!-- Video Settings -->
@@ -1316,6 +1337,111 @@ export function getDashboardV2Html(): string {
           </div>
         </div>
         
+        <!-- Camera Settings (ONVIF encoder + imaging, pushed to the camera itself) -->
+        <div id="settings-camera" class="settings-panel" style="display: none;">
+          <div style="border-bottom: 1px solid var(--border-subtle); padding-bottom: var(--space-4); margin-bottom: var(--space-4);">
+            <label class="form-label">🌗 Operating Profile</label>
+            <div style="display: flex; gap: var(--space-2);">
+              <select class="form-select" id="profile-select" style="flex: 1;"></select>
+              <button class="btn btn-secondary" onclick="activateProfile()">Switch</button>
+            </div>
+            <label style="display: flex; align-items: center; gap: var(--space-2); cursor: pointer; margin-top: var(--space-2);">
+              <input type="checkbox" id="profile-auto" onchange="setProfileAuto()" style="width: 18px; height: 18px;">
+              <span>Switch day/night at civil twilight</span>
+            </label>
+            <div class="text-xs text-muted" id="profile-next" style="margin-top: 4px;"></div>
+            <div class="text-xs text-muted" id="profile-history" style="margin-top: var(--space-2); max-height: 96px; overflow-y: auto;"></div>
+          </div>
+          <div id="camera-unsupported" class="text-xs text-muted" style="display: none;">
+            Camera tuning needs an ONVIF connection (USE_ONVIF=true).
+          </div>
+          <div id="camera-controls">
+            <label class="form-label">Encoder</label>
+            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: var(--space-2);">
+              <div class="form-group">
+                <label class="text-xs text-muted">Resolution</label>
+                <select class="form-select" id="camera-resolution"></select>
+              </div>
+              <div class="form-group">
+                <label class="text-xs text-muted">Frame Rate</label>
+                <input type="number" class="form-input" id="camera-fps" min="1" max="60">
+              </div>
+              <div class="form-group">
+                <label class="text-xs text-muted">GOP Length</label>
+                <input type="number" class="form-input" id="camera-gov" min="1" max="300">
+              </div>
+              <div class="form-group">
+                <label class="text-xs text-muted">Bitrate (kbps)</label>
+                <input type="number" class="form-input" id="camera-bitrate" min="64" max="16384">
+              </div>
+            </div>
+            <button class="btn btn-secondary" onclick="applyCameraEncoder()">📤 Apply Encoder</button>
+
+            <div style="border-top: 1px solid var(--border-subtle); padding-top: var(--space-4); margin-top: var(--space-4);">
+              <label class="form-label">Image</label>
+              <div style="display: grid; grid-template-columns: 1fr 1fr; gap: var(--space-2);">
+                <div class="form-group">
+                  <label class="text-xs text-muted">Day / Night</label>
+                  <select class="form-select" id="camera-daynight">
+                    <option value="AUTO">Auto</option>
+                    <option value="ON">Day (color)</option>
+                    <option value="OFF">Night (IR)</option>
+                  </select>
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Exposure</label>
+                  <select class="form-select" id="camera-exposure">
+                    <option value="AUTO">Auto</option>
+                    <option value="MANUAL">Manual</option>
+                  </select>
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Max Exposure (µs)</label>
+                  <input type="number" class="form-input" id="camera-max-exposure" min="1" placeholder="camera default">
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Wide Dynamic Range</label>
+                  <select class="form-select" id="camera-wdr">
+                    <option value="OFF">Off</option>
+                    <option value="ON">On</option>
+                  </select>
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Brightness</label>
+                  <input type="number" class="form-input" id="camera-brightness">
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Contrast</label>
+                  <input type="number" class="form-input" id="camera-contrast">
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Saturation</label>
+                  <input type="number" class="form-input" id="camera-saturation">
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Sharpness</label>
+                  <input type="number" class="form-input" id="camera-sharpness">
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Focus</label>
+                  <select class="form-select" id="camera-focus">
+                    <option value="AUTO">Auto</option>
+                    <option value="MANUAL">Manual</option>
+                  </select>
+                </div>
+                <div class="form-group">
+                  <label class="text-xs text-muted">Manual Focus</label>
+                  <div style="display: flex; gap: var(--space-2);">
+                    <button class="btn btn-secondary" onmousedown="moveCameraFocus(-0.5)" onmouseup="stopCameraFocus()" onmouseleave="stopCameraFocus()" title="Focus near">➖</button>
+                    <button class="btn btn-secondary" onmousedown="moveCameraFocus(0.5)" onmouseup="stopCameraFocus()" onmouseleave="stopCameraFocus()" title="Focus far">➕</button>
+                  </div>
+                </div>
+              </div>
+              <button class="btn btn-secondary" onclick="applyCameraImaging()">📤 Apply Image Settings</button>
+            </div>
+          </div>
+        </div>
+        
         <!-- Notification Settings -->
         <div id="settings-notifications" class="settings-panel" style="display: none;">
           <div class="form-group">
@@ -1421,6 +1547,29 @@ Scarlet Tanager"></textarea>
             </button>
           </div>
         </div>
+        
+        <!-- Audit Log -->
+        <div id="settings-audit" class="settings-panel" style="display: none;">
+          <div style="display: grid; grid-template-columns: 1fr 1fr; gap: var(--space-2); margin-bottom: var(--space-2);">
+            <input type="text" class="form-input" id="audit-actor" placeholder="Who (user, token, api-key)">
+            <input type="text" class="form-input" id="audit-route" placeholder="Route contains (e.g. ptz)">
+            <select class="form-select" id="audit-since">
+              <option value="3600">Last hour</option>
+              <option value="86400" selected>Last 24 hours</option>
+              <option value="604800">Last 7 days</option>
+              <option value="">All time</option>
+            </select>
+            <select class="form-select" id="audit-result">
+              <option value="">All results</option>
+              <option value="ok">Succeeded</option>
+              <option value="failed">Failed or denied</option>
+            </select>
+          </div>
+          <button class="btn btn-secondary" onclick="loadAudit()">🔍 Search</button>
+          <div class="text-xs text-muted" id="audit-summary" style="margin: var(--space-2) 0;"></div>
+          <div id="audit-entries" style="max-height: 360px; overflow-y: auto; font-size: 12px;"></div>
+          <button class="btn btn-secondary" id="audit-more" onclick="loadAudit(true)" style="display: none; margin-top: var(--space-2);">Load more</button>
+        </div>
       </div>
       <div class="modal-footer" id="settings-footer">
         <button class="btn btn-secondary" onclick="closeSettings()">Cancel</button>
@@ -1436,6 +1585,8 @@ Scarlet Tanager"></textarea>
     let currentMode = 'loading';
     let peerConnection = null;
     let hlsPlayer = null;
+    let hlsSigned = null;
+    let hlsSignTimer = null;
     let webrtcAvailable = false;
     let ptzAvailable = false;
     let patrolActive = false;
@@ -1444,14 +1595,21 @@ Scarlet Tanager"></textarea>
     const urlParams = new URLSearchParams(window.location.search);
     const API_KEY = urlParams.get('api_key') || '';
     
-    // Helper to add API key to URL
-    function apiUrl(path) {
-      return path + (path.includes('?') ? '&' : '?') + 'api_key=' + API_KEY;
+    // Helper for authenticated fetch (the key goes in a header, not the URL)
+    async function apiFetch(path, options = {}) {
+      if (!API_KEY) return fetch(path, options);
+      return fetch(path, { ...options, headers: { ...(options.headers || {}), 'X-API-Key': API_KEY } });
     }
     
-    // Helper for authenticated fetch
-    async function apiFetch(path, options = {}) {
-      return fetch(apiUrl(path), options);
+    // Short-lived signed URL for media loaded by hls.js, <video> or download links
+    async function signedUrl(path) {
+      const res = await apiFetch('/api/sign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path })
+      });
+      if (!res.ok) throw new Error('Could not sign ' + path);
+      return res.json();
     }
 
     // ==================== WebRTC ====================
@@ -1500,14 +1658,38 @@ Scarlet Tanager"></textarea>
       startHLS();
     }
     
-    function startHLS() {
-      // Get API key from URL to include in HLS requests
-      const hlsUrl = '/stream.m3u8' + (API_KEY ? '?api_key=' + API_KEY : '');
-      console.log('[HLS] Starting with URL:', hlsUrl);
+    // Fetch a signed playlist URL and re-sign shortly before it expires
+    async function signHLS() {
+      const res = await apiFetch('/api/stream/url');
+      if (!res.ok) throw new Error('Could not sign stream URL');
+      hlsSigned = await res.json();
+      clearTimeout(hlsSignTimer);
+      hlsSignTimer = setTimeout(() => signHLS().catch(err => console.error('[HLS] Re-sign failed:', err)),
+        Math.max(hlsSigned.expiresAt - Date.now() - 60000, 10000));
+      return hlsSigned.url;
+    }
+    
+    async function startHLS() {
+      let hlsUrl;
+      try {
+        hlsUrl = await signHLS();
+      } catch (err) {
+        console.error('[HLS] ' + err.message + ', retrying...');
+        setTimeout(startHLS, 3000);
+        return;
+      }
+      console.log('[HLS] Starting with signed URL');
       
       if (Hls.isSupported()) {
         console.log('[HLS] Using hls.js');
-        hlsPlayer = new Hls({ liveSyncDuration: 3, debug: false });
+        hlsPlayer = new Hls({
+          liveSyncDuration: 3,
+          debug: false,
+          // Playlist reloads always use the latest signature (segments are signed in the playlist)
+          xhrSetup: (xhr, url) => {
+            if (hlsSigned && url.split('?')[0].endsWith('.m3u8')) xhr.open('GET', hlsSigned.url, true);
+          }
+        });
         hlsPlayer.loadSource(hlsUrl);
         hlsPlayer.attachMedia(video);
         
@@ -1725,9 +1907,12 @@ Scarlet Tanager"></textarea>
               <div class="list-item">
                 <div>
                   <div class="font-medium">🐦 \${s.species}</div>
-                  <div class="text-xs text-muted">\${new Date(s.timestamp).toLocaleString()}</div>
+                  <div class="text-xs text-muted">\${new Date(s.timestamp).toLocaleString()}\${s.audio ? \` · 🎧 \${(s.audio.confidence * 100).toFixed(0)}%\` : ''}\${s.visual ? \` · 👁️ \${(s.visual.confidence * 100).toFixed(0)}%\` : ''}</div>
+                </div>
+                <div style="display: flex; align-items: center; gap: var(--space-2);">
+                  <span class="text-success">\${(s.confidence * 100).toFixed(0)}%</span>
+                  \${s.clipId ? \`<button class="btn btn-sm btn-secondary" onclick="openClip('\${s.clipId}', \${s.clipOffset || 0})">▶️</button>\` : ''}
                 </div>
-                <span class="text-success">\${(s.confidence * 100).toFixed(0)}%</span>
               </div>
             \`).join('')}
           </div>
@@ -1826,13 +2011,78 @@ Scarlet Tanager"></textarea>
                 <div class="font-medium">\${c.id}</div>
                 <div class="text-xs text-muted">\${new Date(c.startTime).toLocaleString()}</div>
               </div>
-              <a href="/api/clips/\${c.id}/video" download class="btn btn-sm btn-secondary">⬇️</a>
+              <div style="display: flex; gap: var(--space-2);">
+                <button class="btn btn-sm btn-secondary" onclick="openClip('\${c.id}', \${c.triggerOffset || 0})">▶️</button>
+                <button class="btn btn-sm btn-secondary" onclick="downloadClip('\${c.id}')">⬇️</button>
+              </div>
             </div>
           \`).join('');
         }
       } catch (err) {}
     }
 
+    async function downloadClip(clipId) {
+      try {
+        const { url } = await signedUrl(\`/api/clips/\${clipId}/video\`);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = clipId + '.mp4';
+        a.click();
+      } catch (err) {
+        alert('❌ ' + err.message);
+      }
+    }
+
+    async function openClip(clipId, offset = 0) {
+      try {
+        const res = await apiFetch(\`/api/clips/\${clipId}\`);
+        if (!res.ok) return alert('Clip not found');
+        const data = await res.json();
+
+        const player = document.getElementById('clip-player');
+        const { url: videoUrl } = await signedUrl(\`/api/clips/\${clipId}/video\`);
+        document.getElementById('clip-modal-title').textContent = \`🎬 \${new Date(data.clip.startTime).toLocaleString()}\`;
+        document.getElementById('clip-download').href = videoUrl;
+
+        const list = document.getElementById('clip-sightings');
+        list.innerHTML = data.sightings.length ? data.sightings.map(s => \`
+          <div class="list-item" style="cursor: pointer;" onclick="seekClip(\${s.clipOffset || 0})">
+            <div>
+              <div class="font-medium">🐦 \${s.species}</div>
+              <div class="text-xs text-muted">\${formatClipOffset(s.clipOffset || 0)} · \${(s.confidence * 100).toFixed(0)}%</div>
+            </div>
+            <span class="text-xs text-muted">Jump ▶️</span>
+          </div>
+        \`).join('') : '<div class="text-xs text-muted">No sightings recorded in this clip</div>';
+
+        player.onloadedmetadata = () => {
+          seekClip(offset);
+          player.play().catch(() => {});
+        };
+        player.src = videoUrl;
+        document.getElementById('clip-modal').classList.add('active');
+      } catch (err) {}
+    }
+
+    function seekClip(offset) {
+      const player = document.getElementById('clip-player');
+      // Start a little before the sighting so the bird's arrival is visible
+      player.currentTime = Math.max(0, offset - 1);
+    }
+
+    function formatClipOffset(seconds) {
+      const s = Math.floor(seconds);
+      return \`\${Math.floor(s / 60)}:\${String(s % 60).padStart(2, '0')}\`;
+    }
+
+    function closeClipModal() {
+      const player = document.getElementById('clip-player');
+      player.pause();
+      player.removeAttribute('src');
+      player.load();
+      document.getElementById('clip-modal').classList.remove('active');
+    }
+
     // ==================== Weather ====================
     async function refreshWeather() {
       try {
@@ -1862,9 +2112,243 @@ Scarlet Tanager"></textarea>
       document.querySelector(\`[data-settings-tab="\${tab}"]\`).classList.add('active');
       document.getElementById(\`settings-\${tab}\`).style.display = 'block';
       
-      // Hide save/cancel for API keys tab (it has its own regenerate button)
+      // Hide save/cancel for API keys, camera and audit tabs (they have their own buttons)
       const footer = document.getElementById('settings-footer');
-      footer.style.display = tab === 'apikeys' ? 'none' : 'flex';
+      footer.style.display = tab === 'apikeys' || tab === 'camera' || tab === 'audit' ? 'none' : 'flex';
+      
+      if (tab === 'camera') {
+        loadProfiles();
+        loadCameraConfig();
+      }
+      if (tab === 'audit') {
+        loadAudit();
+      }
+    }
+    
+    // ==================== Operating Profiles ====================
+    async function loadProfiles() {
+      try {
+        const [statusRes, historyRes] = await Promise.all([
+          apiFetch('/api/profiles'),
+          apiFetch('/api/profiles/history?limit=10'),
+        ]);
+        const status = await statusRes.json();
+        const { history } = await historyRes.json();
+        
+        const select = document.getElementById('profile-select');
+        select.innerHTML = status.profiles.map(p => '<option value="' + p.id + '">' + p.name + '</option>').join('');
+        if (status.activeProfile) select.value = status.activeProfile;
+        
+        document.getElementById('profile-auto').checked = status.auto.enabled;
+        document.getElementById('profile-next').textContent = !status.locationSet
+          ? 'Set LOCATION_LATITUDE/LONGITUDE to switch automatically'
+          : status.nextSwitch
+            ? 'Next: ' + status.nextSwitch.profile + ' at ' + new Date(status.nextSwitch.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) + ' (' + status.nextSwitch.reason + ')'
+            : '';
+        document.getElementById('profile-history').innerHTML = history.map(h =>
+          '<div>' + new Date(h.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) +
+          ' → ' + h.to + ' (' + h.reason + ')' + (h.errors ? ' ⚠️' : '') + '</div>'
+        ).join('');
+      } catch (err) {
+        console.error('Failed to load profiles:', err);
+      }
+    }
+    
+    async function activateProfile() {
+      const id = document.getElementById('profile-select').value;
+      try {
+        const res = await apiFetch('/api/profiles/' + encodeURIComponent(id) + '/activate', { method: 'POST' });
+        const data = await res.json();
+        if (data.switch?.errors) alert('⚠️ Switched with problems:\\n' + data.switch.errors.join('\\n'));
+        loadProfiles();
+      } catch (err) {
+        alert('❌ Failed to switch profile');
+      }
+    }
+    
+    async function setProfileAuto() {
+      try {
+        const res = await apiFetch('/api/profiles/auto', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled: document.getElementById('profile-auto').checked })
+        });
+        const data = await res.json();
+        if (!data.success) alert('❌ ' + data.error);
+        loadProfiles();
+      } catch (err) {
+        alert('❌ Failed to update auto-switching');
+      }
+    }
+    
+    // ==================== Audit Log ====================
+    let auditEntries = [];
+    
+    function escapeHtml(value) {
+      return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    }
+    
+    async function loadAudit(more = false) {
+      const params = new URLSearchParams({ limit: '50', offset: String(more ? auditEntries.length : 0) });
+      const actor = document.getElementById('audit-actor').value.trim();
+      const route = document.getElementById('audit-route').value.trim();
+      const since = document.getElementById('audit-since').value;
+      const result = document.getElementById('audit-result').value;
+      if (actor) params.set('actor', actor);
+      if (route) params.set('route', route);
+      if (since) params.set('since', new Date(Date.now() - parseInt(since) * 1000).toISOString());
+      if (result) params.set('result', result);
+      
+      try {
+        const res = await apiFetch('/api/audit?' + params);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.hint || data.error);
+        auditEntries = more ? auditEntries.concat(data.entries) : data.entries;
+        
+        document.getElementById('audit-summary').textContent = data.total === 0
+          ? 'No matching actions'
+          : 'Showing ' + auditEntries.length + ' of ' + data.total + ' action(s)' + (data.stats.mirrorToFirestore ? ' · mirrored to Firestore' : '');
+        document.getElementById('audit-entries').innerHTML = auditEntries.map(e =>
+          '<div style="padding: var(--space-2) 0; border-bottom: 1px solid var(--border-subtle);">' +
+            '<div style="display: flex; justify-content: space-between; gap: var(--space-2);">' +
+              '<span style="font-family: var(--font-mono);">' + escapeHtml(e.method) + ' ' + escapeHtml(e.route) + '</span>' +
+              '<span style="color: ' + (e.ok ? 'var(--success)' : 'var(--danger)') + ';">' + e.status + '</span>' +
+            '</div>' +
+            '<div class="text-xs text-muted">' +
+              new Date(e.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' }) +
+              ' · ' + escapeHtml(e.actor) + ' (' + escapeHtml(e.kind) + ', ' + escapeHtml(e.role) + ')' +
+              (e.error ? ' · ' + escapeHtml(e.error) : '') +
+            '</div>' +
+            (e.params ? '<div class="text-xs text-muted" style="font-family: var(--font-mono); word-break: break-all;">' + escapeHtml(JSON.stringify(e.params)) + '</div>' : '') +
+          '</div>'
+        ).join('');
+        document.getElementById('audit-more').style.display = auditEntries.length < data.total ? 'inline-flex' : 'none';
+      } catch (err) {
+        document.getElementById('audit-summary').textContent = '❌ Failed to load audit log: ' + err.message;
+      }
+    }
+    
+    // ==================== Camera Tuning (ONVIF) ====================
+    let cameraFocusMoving = false;
+    
+    function setRange(id, range) {
+      const input = document.getElementById(id);
+      if (range) {
+        input.min = range.min;
+        input.max = range.max;
+        input.placeholder = range.min + '–' + range.max;
+      }
+    }
+    
+    function optionalNumber(id) {
+      const value = document.getElementById(id).value;
+      return value === '' ? undefined : Number(value);
+    }
+    
+    async function loadCameraConfig() {
+      try {
+        const res = await apiFetch('/api/camera/config');
+        const data = await res.json();
+        document.getElementById('camera-unsupported').style.display = data.supported ? 'none' : 'block';
+        document.getElementById('camera-controls').style.display = data.supported ? 'block' : 'none';
+        if (!data.supported) return;
+        
+        const encoder = data.encoder;
+        const options = data.encoderOptions || {};
+        const select = document.getElementById('camera-resolution');
+        const resolutions = (options.resolutions || []).slice();
+        if (encoder && !resolutions.includes(encoder.resolution)) resolutions.unshift(encoder.resolution);
+        select.innerHTML = resolutions.map(r => '<option value="' + r + '">' + r + '</option>').join('');
+        if (encoder) {
+          select.value = encoder.resolution;
+          document.getElementById('camera-fps').value = encoder.fps;
+          document.getElementById('camera-gov').value = encoder.govLength ?? '';
+          document.getElementById('camera-gov').disabled = encoder.govLength === null;
+          document.getElementById('camera-bitrate').value = encoder.bitrate;
+        }
+        setRange('camera-fps', options.fps);
+        setRange('camera-gov', options.govLength);
+        setRange('camera-bitrate', options.bitrate);
+        
+        const imaging = data.imaging || {};
+        const imagingOptions = data.imagingOptions || {};
+        document.getElementById('camera-daynight').value = imaging.irCutFilter || 'AUTO';
+        document.getElementById('camera-exposure').value = imaging.exposure?.mode || 'AUTO';
+        document.getElementById('camera-max-exposure').value = imaging.exposure?.maxExposureTime ?? '';
+        document.getElementById('camera-wdr').value = imaging.wideDynamicRange?.mode || 'OFF';
+        document.getElementById('camera-focus').value = imaging.focus?.mode || 'AUTO';
+        for (const [id, key] of [['camera-brightness', 'brightness'], ['camera-contrast', 'contrast'], ['camera-saturation', 'colorSaturation'], ['camera-sharpness', 'sharpness']]) {
+          document.getElementById(id).value = imaging[key] ?? '';
+          setRange(id, imagingOptions[key]);
+        }
+      } catch (err) {
+        console.error('Failed to load camera config:', err);
+      }
+    }
+    
+    async function applyCameraEncoder() {
+      const govInput = document.getElementById('camera-gov');
+      try {
+        const res = await apiFetch('/api/camera/encoder', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            resolution: document.getElementById('camera-resolution').value || undefined,
+            fps: optionalNumber('camera-fps'),
+            govLength: govInput.disabled ? undefined : optionalNumber('camera-gov'),
+            bitrate: optionalNumber('camera-bitrate'),
+          })
+        });
+        const data = await res.json();
+        alert(data.success ? '✅ ' + data.message : '❌ ' + data.error);
+        if (data.success) loadCameraConfig();
+      } catch (err) {
+        alert('❌ Failed to update camera encoder');
+      }
+    }
+    
+    async function applyCameraImaging() {
+      const exposure = { mode: document.getElementById('camera-exposure').value, maxExposureTime: optionalNumber('camera-max-exposure') };
+      try {
+        const res = await apiFetch('/api/camera/imaging', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            brightness: optionalNumber('camera-brightness'),
+            colorSaturation: optionalNumber('camera-saturation'),
+            contrast: optionalNumber('camera-contrast'),
+            sharpness: optionalNumber('camera-sharpness'),
+            exposure,
+            focus: { mode: document.getElementById('camera-focus').value },
+            irCutFilter: document.getElementById('camera-daynight').value,
+            wideDynamicRange: { mode: document.getElementById('camera-wdr').value },
+          })
+        });
+        const data = await res.json();
+        alert(data.success ? '✅ Camera image settings applied' : '❌ ' + data.error);
+        if (data.success) loadCameraConfig();
+      } catch (err) {
+        alert('❌ Failed to update camera image settings');
+      }
+    }
+    
+    async function moveCameraFocus(speed) {
+      cameraFocusMoving = true;
+      try {
+        await apiFetch('/api/camera/focus', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ speed })
+        });
+      } catch (err) {}
+    }
+    
+    async function stopCameraFocus() {
+      if (!cameraFocusMoving) return;
+      cameraFocusMoving = false;
+      try {
+        await apiFetch('/api/camera/focus/stop', { method: 'POST' });
+      } catch (err) {}
     }
     
     async function loadSettings() {
@@ -1902,7 +2386,10 @@ Scarlet Tanager"></textarea>
         const baseUrl = window.location.origin;
         const apiKey = data.apiKey;
         document.getElementById('dashboard-url').value = baseUrl + '/?api_key=' + apiKey;
-        document.getElementById('hls-stream-url').textContent = baseUrl + '/stream.m3u8?api_key=' + apiKey;
+        const stream = await (await apiFetch('/api/stream/url?ttl=86400')).json();
+        document.getElementById('hls-stream-url').textContent = stream.url
+          ? baseUrl + stream.url + ' (signed, valid until ' + new Date(stream.expiresAt).toLocaleString() + ')'
+          : '';
         document.getElementById('webrtc-stream-url').textContent = baseUrl + '/api/webrtc?api_key=' + apiKey;
         
         // go2rtc URL (different port, no auth needed locally)
@@ -10,6 +10,16 @@ import { mkdirSync, existsSync, readFileSync, unlinkSync, readdirSync } from 'fs
 import { join } from 'path';
 import ffmpeg from 'fluent-ffmpeg';
 import { config } from './config.js';
+import { getSpeciesPriors } from './species-priors.js';
+
+export type DetectionSource = 'audio' | 'visual';
+
+export interface DetectionBox {
+  x: number;                  // Normalized 0-1, top-left origin
+  y: number;
+  w: number;
+  h: number;
+}
 
 export interface BirdDetection {
   species: string;
@@ -18,6 +28,11 @@ export interface BirdDetection {
   startTime: number;
   endTime: number;
   timestamp: Date;
+  source: DetectionSource;    // BirdNET audio or on-device visual model
+  bbox?: DetectionBox;        // Visual detections only
+  snapshotId?: string;        // Frame the visual detection was made on
+  zoneId?: string;            // Detection zone the bbox center fell in
+  presetId?: string;          // PTZ preset the camera was at
 }
 
 export interface DetectorOptions {
@@ -66,6 +81,24 @@ export function initDetector(opts: Partial<DetectorOptions> = {}): void {
   });
 }
 
+/**
+ * Current detector options
+ */
+export function getDetectorOptions(): DetectorOptions {
+  return { ...options };
+}
+
+/**
+ * Change the confidence threshold while running (e.g. from a day/night profile)
+ */
+export function updateDetectorOptions(updates: Partial<Pick<DetectorOptions, 'minConfidence'>>): DetectorOptions {
+  if (updates.minConfidence !== undefined) {
+    options = { ...options, minConfidence: Math.max(0, Math.min(1, updates.minConfidence)) };
+    console.log(`[Detector] Minimum confidence: ${options.minConfidence}`);
+  }
+  return { ...options };
+}
+
 /**
  * Set the RTSP URL for audio extraction
  */
@@ -149,7 +182,9 @@ async function runAnalysisCycle(): Promise<void> {
     
     // 3. Process detections
     for (const detection of detections) {
-      if (detection.confidence >= options.minConfidence) {
+      // Per-species threshold, adjusted by corrections made at this camera
+      const minConfidence = getSpeciesPriors().getMinConfidence(detection.species, options.minConfidence);
+      if (detection.confidence >= minConfidence) {
         console.log(`[Detector] 🐦 ${detection.species} (${(detection.confidence * 100).toFixed(1)}%)`);
         
         if (onDetection) {
@@ -225,7 +260,7 @@ async function analyzeBirdNET(audioFile: string): Promise<BirdDetection[]> {
     '-m', 'birdnetlib.analyze',
     '--i', audioFile,
     '--o', resultsFile,
-    '--min_conf', options.minConfidence.toString(),
+    '--min_conf', getSpeciesPriors().getFloor(options.minConfidence).toString(),
   ];
   
   if (options.latitude !== undefined && options.longitude !== undefined) {
@@ -285,7 +320,7 @@ async function analyzeBirdNETAlternative(audioFile: string): Promise<BirdDetecti
     const args = [
       '--i', audioFile,
       '--o', RESULTS_DIR,
-      '--min_conf', options.minConfidence.toString(),
+      '--min_conf', getSpeciesPriors().getFloor(options.minConfidence).toString(),
       '--rtype', 'csv',
     ];
     
@@ -366,6 +401,7 @@ function parseResultsCSV(filePath: string): BirdDetection[] {
         startTime: parseFloat(startStr),
         endTime: parseFloat(endStr),
         timestamp: new Date(),
+        source: 'audio',
       });
     }
   }
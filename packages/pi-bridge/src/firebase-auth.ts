@@ -0,0 +1,317 @@
+/**
+ * Firebase Auth Module
+ *
+ * Lets users signed in to the web app call the bridge with their Firebase
+ * ID token (Authorization: Bearer <idToken>) instead of an API key.
+ *
+ * Tokens are verified locally: RS256 against Google's securetoken
+ * certificates, which are cached in ~/.birdcam so verification keeps working
+ * while offline. With FIREBASE_AUTH_EMULATOR_HOST set, the emulator's
+ * unsigned tokens are accepted instead.
+ *
+ * Access follows the camera document in Firestore: the owner (`userId`) is
+ * an admin, and users in `sharedWith` ({ uid: 'viewer' | 'operator' }) get
+ * that role. The last known owner and shares are cached for offline use.
+ */
+
+import crypto from 'crypto';
+import https from 'https';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { config } from './config.js';
+import { getFirestore } from './firebase.js';
+import { ROLES, type Role } from './users.js';
+
+const BIRDCAM_DIR = join(homedir(), '.birdcam');
+const CERTS_FILE = join(BIRDCAM_DIR, 'firebase-certs.json');
+const ACCESS_FILE = join(BIRDCAM_DIR, 'camera-access.json');
+
+const CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const DEFAULT_CERTS_MAX_AGE_MS = 60 * 60 * 1000;
+const CERTS_MIN_REFETCH_MS = 60 * 1000;   // Unknown key IDs can't force a fetch per request
+const CLOCK_SKEW_SECONDS = 300;   // Pis without NTP drift
+
+export interface FirebaseIdentity {
+  uid: string;
+  email?: string;
+  role: Role;
+}
+
+interface CachedCerts {
+  certs: Record<string, string>;   // kid -> PEM certificate
+  expiresAt: number;
+}
+
+interface CameraAccess {
+  cameraId: string | null;
+  ownerUid: string | null;
+  sharedWith: Record<string, Role>;
+}
+
+interface IdTokenClaims {
+  sub?: string;
+  aud?: string;
+  iss?: string;
+  exp?: number;
+  iat?: number;
+  auth_time?: number;
+  email?: string;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')) as T;
+}
+
+export class FirebaseAuth {
+  private certs: CachedCerts | null = null;
+  private certsRequest: Promise<void> | null = null;
+  private certsFetchedAt = 0;
+  private access: CameraAccess;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.access = this.loadAccess();
+    this.certs = this.loadCerts();
+  }
+
+  /**
+   * Whether ID tokens are accepted at all
+   */
+  isEnabled(): boolean {
+    return process.env.FIREBASE_AUTH_ENABLED !== 'false' &&
+      (config.firebase.enabled || !!process.env.FIREBASE_AUTH_EMULATOR_HOST);
+  }
+
+  /**
+   * Follow the camera document for its owner and shares
+   */
+  start(cameraId: string): void {
+    this.stop();
+
+    this.unsubscribe = getFirestore().collection('cameras').doc(cameraId).onSnapshot(
+      (snapshot) => {
+        this.setAccess(cameraId, snapshot.get('userId'), snapshot.get('sharedWith'));
+      },
+      (err) => {
+        console.warn('[FirebaseAuth] Camera subscription failed:', err.message);
+      }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  setAccess(cameraId: string, ownerUid: unknown, sharedWith: unknown): void {
+    const shares: Record<string, Role> = {};
+    if (sharedWith && typeof sharedWith === 'object') {
+      for (const [uid, role] of Object.entries(sharedWith as Record<string, unknown>)) {
+        shares[uid] = ROLES.includes(role as Role) ? role as Role : 'viewer';
+      }
+    }
+
+    this.access = {
+      cameraId,
+      ownerUid: typeof ownerUid === 'string' && ownerUid ? ownerUid : null,
+      sharedWith: shares,
+    };
+    this.saveAccess();
+  }
+
+  getAccess(): CameraAccess {
+    return { ...this.access, sharedWith: { ...this.access.sharedWith } };
+  }
+
+  /**
+   * The role a Firebase user has on this camera (null = no access)
+   */
+  getRole(uid: string): Role | null {
+    if (this.access.ownerUid === uid) return 'admin';
+    return this.access.sharedWith[uid] ?? null;
+  }
+
+  /**
+   * Verify an ID token and look up the user's role on this camera.
+   * Returns null (and logs why) if the token is invalid or has no access.
+   */
+  async authenticate(idToken: string): Promise<FirebaseIdentity | null> {
+    if (!this.isEnabled()) return null;
+
+    let claims: IdTokenClaims;
+    try {
+      claims = await this.verifyIdToken(idToken);
+    } catch (err) {
+      console.warn('[FirebaseAuth] Rejected ID token:', (err as Error).message);
+      return null;
+    }
+
+    const uid = claims.sub as string;
+    const role = this.getRole(uid);
+    if (!role) {
+      console.warn(`[FirebaseAuth] ${claims.email || uid} is not the owner of this camera and it is not shared with them`);
+      return null;
+    }
+    return { uid, email: claims.email, role };
+  }
+
+  /**
+   * Check an ID token's signature and claims. Throws if invalid.
+   */
+  async verifyIdToken(idToken: string): Promise<IdTokenClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) throw new Error('Malformed token');
+
+    let header: { alg?: string; kid?: string };
+    let claims: IdTokenClaims;
+    try {
+      header = decodeSegment(parts[0]);
+      claims = decodeSegment(parts[1]);
+    } catch {
+      throw new Error('Malformed token');
+    }
+
+    // The Auth emulator issues unsigned tokens
+    const emulatorToken = !!process.env.FIREBASE_AUTH_EMULATOR_HOST && header.alg === 'none';
+    if (!emulatorToken) {
+      if (header.alg !== 'RS256') throw new Error(`Unexpected algorithm ${header.alg}`);
+      if (!header.kid) throw new Error('Missing key ID');
+
+      const cert = await this.getCert(header.kid);
+      const valid = crypto.verify(
+        'RSA-SHA256',
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        new crypto.X509Certificate(cert).publicKey,
+        Buffer.from(parts[2], 'base64url')
+      );
+      if (!valid) throw new Error('Invalid signature');
+    }
+
+    const projectId = config.firebase.projectId;
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.aud !== projectId) throw new Error(`Token is for project ${claims.aud}`);
+    if (claims.iss !== `https://securetoken.google.com/${projectId}`) throw new Error('Unexpected issuer');
+    if (typeof claims.sub !== 'string' || !claims.sub || claims.sub.length > 128) throw new Error('Missing subject');
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('Token has expired');
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('Token issued in the future');
+    if (typeof claims.auth_time === 'number' && claims.auth_time - CLOCK_SKEW_SECONDS > now) {
+      throw new Error('Sign-in time in the future');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Certificate for a key ID, refreshing the cache when it is stale or
+   * the key is unknown (at most once a minute). Falls back to stale
+   * certificates while offline.
+   */
+  private async getCert(kid: string): Promise<string> {
+    const stale = !this.certs || this.certs.expiresAt <= Date.now();
+    const canRefetch = this.certsRequest !== null || Date.now() - this.certsFetchedAt >= CERTS_MIN_REFETCH_MS;
+    if ((stale || !this.certs?.certs[kid]) && canRefetch) {
+      try {
+        await this.refreshCerts();
+      } catch (err) {
+        console.warn('[FirebaseAuth] Could not fetch signing certificates:', (err as Error).message);
+      }
+    }
+
+    const cert = this.certs?.certs[kid];
+    if (!cert) throw new Error(`Unknown key ID ${kid}`);
+    return cert;
+  }
+
+  private refreshCerts(): Promise<void> {
+    // Share one request between concurrent verifications
+    if (!this.certsRequest) {
+      this.certsFetchedAt = Date.now();
+      this.certsRequest = this.fetchCerts().finally(() => {
+        this.certsRequest = null;
+      });
+    }
+    return this.certsRequest;
+  }
+
+  private fetchCerts(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = https.get(CERTS_URL, { timeout: 10000 }, (res) => {
+        let data = '';
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => {
+          try {
+            if (res.statusCode !== 200) throw new Error(`HTTP ${res.statusCode}`);
+            const certs = JSON.parse(data) as Record<string, string>;
+            const maxAge = /max-age=(\d+)/.exec(res.headers['cache-control'] || '');
+            this.certs = {
+              certs,
+              expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_CERTS_MAX_AGE_MS),
+            };
+            this.saveCerts();
+            resolve();
+          } catch (err) {
+            reject(err);
+          }
+        });
+      });
+      req.on('timeout', () => req.destroy(new Error('Timed out')));
+      req.on('error', reject);
+    });
+  }
+
+  private loadCerts(): CachedCerts | null {
+    try {
+      if (existsSync(CERTS_FILE)) {
+        return JSON.parse(readFileSync(CERTS_FILE, 'utf-8'));
+      }
+    } catch (err) {
+      console.warn('[FirebaseAuth] Failed to load cached certificates:', (err as Error).message);
+    }
+    return null;
+  }
+
+  private saveCerts(): void {
+    try {
+      mkdirSync(BIRDCAM_DIR, { recursive: true });
+      writeFileSync(CERTS_FILE, JSON.stringify(this.certs, null, 2));
+    } catch (err) {
+      console.warn('[FirebaseAuth] Failed to cache certificates:', (err as Error).message);
+    }
+  }
+
+  private loadAccess(): CameraAccess {
+    try {
+      if (existsSync(ACCESS_FILE)) {
+        const data = JSON.parse(readFileSync(ACCESS_FILE, 'utf-8'));
+        return {
+          cameraId: data.cameraId ?? null,
+          ownerUid: data.ownerUid ?? null,
+          sharedWith: data.sharedWith && typeof data.sharedWith === 'object' ? data.sharedWith : {},
+        };
+      }
+    } catch (err) {
+      console.warn('[FirebaseAuth] Failed to load camera access:', (err as Error).message);
+    }
+    return { cameraId: null, ownerUid: null, sharedWith: {} };
+  }
+
+  private saveAccess(): void {
+    try {
+      mkdirSync(BIRDCAM_DIR, { recursive: true });
+      writeFileSync(ACCESS_FILE, JSON.stringify(this.access, null, 2), { mode: 0o600 });
+    } catch (err) {
+      console.warn('[FirebaseAuth] Failed to save camera access:', (err as Error).message);
+    }
+  }
+}
+
+// Singleton instance
+let firebaseAuth: FirebaseAuth | null = null;
+
+export function getFirebaseAuth(): FirebaseAuth {
+  if (!firebaseAuth) {
+    firebaseAuth = new FirebaseAuth();
+  }
+  return firebaseAuth;
+}
@@ -1,6 +1,7 @@
 import admin from 'firebase-admin';
 import { readFileSync } from 'fs';
 import { config } from './config.js';
+import type { AuditEntry } from './audit.js';
 
 let app: admin.app.App | null = null;
 
@@ -121,16 +122,6 @@ export function getStorage(): admin.storage.Storage {
   return admin.storage();
 }
 
-export interface DetectionData {
-  species: string;
-  scientificName: string;
-  confidence: number;
-  clipId: string;
-  clipBuffer: Buffer;
-  thumbnailBuffer?: Buffer;
-  timestamp: Date;
-}
-
 export interface DetectionRecord {
   id?: string;
   cameraId: string;
@@ -143,115 +134,115 @@ export interface DetectionRecord {
   createdAt: admin.firestore.Timestamp;
 }
 
+export interface SightingRecordData {
+  sightingId: string;
+  species: string;
+  scientificName: string;
+  confidence: number;
+  timestamp: Date;
+  clipId?: string;
+  audioConfidence?: number;
+  visualConfidence?: number;
+  zoneId?: string;
+}
+
 /**
- * Upload a clip to Firebase Storage
+ * Save a bird sighting as a detection record, keyed by sighting ID
+ *
+ * Safe to call more than once for the same sighting: the species counters
+ * are only incremented the first time, later calls just refresh the
+ * identification and confidences (e.g. after audio/visual fusion).
+ * Returns false if the detection already existed.
  */
-export async function uploadClip(
+export async function upsertDetection(
   cameraId: string,
-  clipId: string,
-  clipBuffer: Buffer,
-  contentType: string = 'video/mp4'
-): Promise<string> {
-  const storage = getStorage();
-  const bucket = storage.bucket();
-  
-  const filePath = `clips/${cameraId}/${clipId}.mp4`;
-  const file = bucket.file(filePath);
-  
-  await file.save(clipBuffer, {
-    contentType,
-    metadata: {
+  data: SightingRecordData
+): Promise<boolean> {
+  const db = getFirestore();
+  const detectionRef = db.collection('detections').doc(data.sightingId);
+  const speciesRef = db.collection('species').doc(data.scientificName.replace(/\s+/g, '_').toLowerCase());
+  const timestamp = admin.firestore.Timestamp.fromDate(data.timestamp);
+  
+  return db.runTransaction(async (tx) => {
+    const existing = await tx.get(detectionRef);
+    const modalities = {
+      ...(data.audioConfidence !== undefined ? { audioConfidence: data.audioConfidence } : {}),
+      ...(data.visualConfidence !== undefined ? { visualConfidence: data.visualConfidence } : {}),
+      ...(data.zoneId ? { zoneId: data.zoneId } : {}),
+    };
+    
+    if (existing.exists) {
+      tx.set(detectionRef, {
+        species: data.species,
+        scientificName: data.scientificName,
+        confidence: data.confidence,
+        ...modalities,
+      }, { merge: true });
+      return false;
+    }
+    
+    const record: Omit<DetectionRecord, 'id'> & { sightingId: string; clipId?: string; audioConfidence?: number; visualConfidence?: number; zoneId?: string } = {
       cameraId,
-      clipId,
-      uploadedAt: new Date().toISOString(),
-    },
+      sightingId: data.sightingId,
+      species: data.species,
+      scientificName: data.scientificName,
+      confidence: data.confidence,
+      timestamp,
+      createdAt: admin.firestore.Timestamp.now(),
+      ...(data.clipId ? { clipId: data.clipId } : {}),
+      ...modalities,
+    };
+    
+    tx.set(detectionRef, record);
+    tx.update(db.collection('cameras').doc(cameraId), {
+      lastDetection: {
+        species: data.species,
+        confidence: data.confidence,
+        timestamp,
+      },
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    tx.set(speciesRef, {
+      commonName: data.species,
+      scientificName: data.scientificName,
+      lastSeen: timestamp,
+      detectionCount: admin.firestore.FieldValue.increment(1),
+    }, { merge: true });
+    
+    return true;
   });
-  
-  // Make the file publicly accessible
-  await file.makePublic();
-  
-  return `https://storage.googleapis.com/${bucket.name}/${filePath}`;
 }
 
 /**
- * Upload a thumbnail to Firebase Storage
+ * Attach uploaded clip/thumbnail URLs to existing detection records
  */
-export async function uploadThumbnail(
-  cameraId: string,
-  clipId: string,
-  thumbnailBuffer: Buffer
-): Promise<string> {
-  const storage = getStorage();
-  const bucket = storage.bucket();
-  
-  const filePath = `thumbnails/${cameraId}/${clipId}.jpg`;
-  const file = bucket.file(filePath);
-  
-  await file.save(thumbnailBuffer, {
-    contentType: 'image/jpeg',
-    metadata: {
-      cameraId,
-      clipId,
-    },
-  });
+export async function attachDetectionMedia(
+  sightingIds: string[],
+  media: { clipId: string; clipUrl?: string; thumbnailUrl?: string }
+): Promise<void> {
+  if (sightingIds.length === 0) return;
   
-  await file.makePublic();
+  const db = getFirestore();
+  const batch = db.batch();
+  const update: Record<string, string> = { clipId: media.clipId };
+  if (media.clipUrl) update.clipUrl = media.clipUrl;
+  if (media.thumbnailUrl) update.thumbnailUrl = media.thumbnailUrl;
   
-  return `https://storage.googleapis.com/${bucket.name}/${filePath}`;
+  for (const id of sightingIds) {
+    batch.set(db.collection('detections').doc(id), update, { merge: true });
+  }
+  await batch.commit();
 }
 
 /**
- * Save a bird detection record
+ * Mirror an audit log entry under the camera document (idempotent)
  */
-export async function saveDetection(
-  cameraId: string,
-  data: DetectionData
-): Promise<string> {
+export async function saveAuditEntry(cameraId: string, entry: AuditEntry): Promise<void> {
   const db = getFirestore();
-  
-  // Upload clip
-  const clipUrl = await uploadClip(cameraId, data.clipId, data.clipBuffer);
-  
-  // Upload thumbnail if available
-  let thumbnailUrl: string | undefined;
-  if (data.thumbnailBuffer) {
-    thumbnailUrl = await uploadThumbnail(cameraId, data.clipId, data.thumbnailBuffer);
-  }
-  
-  // Create detection record
-  const record: Omit<DetectionRecord, 'id'> = {
-    cameraId,
-    species: data.species,
-    scientificName: data.scientificName,
-    confidence: data.confidence,
-    clipUrl,
-    thumbnailUrl,
-    timestamp: admin.firestore.Timestamp.fromDate(data.timestamp),
-    createdAt: admin.firestore.Timestamp.now(),
-  };
-  
-  const docRef = await db.collection('detections').add(record);
-  
-  // Also update the camera's last detection info
-  await db.collection('cameras').doc(cameraId).update({
-    lastDetection: {
-      species: data.species,
-      confidence: data.confidence,
-      timestamp: record.timestamp,
-      clipUrl,
-      thumbnailUrl,
-    },
-    updatedAt: admin.firestore.Timestamp.now(),
+  // Firestore rejects undefined fields
+  const data = JSON.parse(JSON.stringify(entry));
+  await db.collection('cameras').doc(cameraId).collection('audit').doc(entry.id).set({
+    ...data,
+    at: admin.firestore.Timestamp.fromDate(new Date(entry.at)),
   });
-  
-  // Update species collection (for analytics)
-  const speciesRef = db.collection('species').doc(data.scientificName.replace(/\s+/g, '_').toLowerCase());
-  await speciesRef.set({
-    commonName: data.species,
-    scientificName: data.scientificName,
-    lastSeen: record.timestamp,
-    detectionCount: admin.firestore.FieldValue.increment(1),
-  }, { merge: true });
-  
-  return docRef.id;
 }
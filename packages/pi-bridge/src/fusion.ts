@@ -0,0 +1,193 @@
+/**
+ * Detection Fusion Module
+ *
+ * Correlates BirdNET audio detections with visual detections so one bird
+ * that is both heard and seen becomes a single sighting instead of two.
+ *
+ * A detection is fused into a recent sighting when:
+ * - it comes from the other modality (audio vs visual),
+ * - it falls within the fusion time window, and
+ * - the two agree taxonomically (same species, same genus, or one side
+ *   is an unclassified "Bird").
+ *
+ * The fused sighting keeps each modality's evidence and a combined score.
+ */
+
+import { config } from './config.js';
+import { getBirdTracker, type BirdSighting, type ModalityEvidence } from './bird-tracker.js';
+import type { BirdDetection, DetectionSource } from './detector.js';
+
+export type TaxonomyMatch = 'species' | 'genus' | 'generic';
+
+export interface FusionResult {
+  sighting: BirdSighting;
+  fused: boolean;             // True if merged into an existing sighting
+  match?: TaxonomyMatch;
+}
+
+interface RecentSighting {
+  sightingId: string;
+  time: number;
+  scientificName: string;
+  sources: Set<DetectionSource>;
+}
+
+// Scientific name used for birds the visual model couldn't classify
+export const GENERIC_BIRD_NAME = 'Aves';
+
+/**
+ * Compare two scientific names
+ */
+export function matchTaxonomy(a: string, b: string): TaxonomyMatch | null {
+  const nameA = a.trim().toLowerCase();
+  const nameB = b.trim().toLowerCase();
+  const generic = GENERIC_BIRD_NAME.toLowerCase();
+
+  if (nameA === generic || nameB === generic) return 'generic';
+  if (nameA === nameB) return 'species';
+
+  // Genus is the first word; a bare genus/family name matches any species in it
+  const genusA = nameA.split(/\s+/)[0];
+  const genusB = nameB.split(/\s+/)[0];
+  if (genusA === genusB) return 'genus';
+
+  return null;
+}
+
+/**
+ * Combine per-modality confidences into one score
+ *
+ * Agreement on species is treated as independent evidence (noisy-OR).
+ * Genus-level or generic agreement only partially corroborates, so the
+ * weaker modality contributes half as much.
+ */
+export function combineConfidence(audio: number | undefined, visual: number | undefined, match?: TaxonomyMatch): number {
+  if (audio === undefined) return visual ?? 0;
+  if (visual === undefined) return audio;
+
+  if (match === 'species') {
+    return 1 - (1 - audio) * (1 - visual);
+  }
+
+  const strong = Math.max(audio, visual);
+  const weak = Math.min(audio, visual);
+  return strong + (1 - strong) * weak * 0.5;
+}
+
+export class DetectionFusion {
+  private recent: RecentSighting[] = [];
+  private windowMs: number;
+
+  constructor(windowSeconds: number = config.fusion.windowSeconds) {
+    this.windowMs = windowSeconds * 1000;
+  }
+
+  /**
+   * Record a detection, fusing it with a matching sighting from the other modality
+   */
+  async ingest(detection: BirdDetection, snapshotId?: string): Promise<FusionResult> {
+    const tracker = getBirdTracker();
+    const time = detection.timestamp.getTime();
+    const evidence: ModalityEvidence = {
+      species: detection.species,
+      scientificName: detection.scientificName,
+      confidence: detection.confidence,
+      timestamp: detection.timestamp.toISOString(),
+      ...(detection.bbox ? { bbox: detection.bbox } : {}),
+      ...(snapshotId ? { snapshotId } : {}),
+    };
+
+    this.prune(time);
+
+    const candidate = this.findMatch(detection);
+    if (candidate) {
+      const existing = tracker.getSighting(candidate.recent.sightingId);
+      if (existing) {
+        const sighting = this.merge(existing, detection.source, evidence, candidate.match, detection.zoneId);
+        candidate.recent.sources.add(detection.source);
+        candidate.recent.scientificName = sighting.scientificName;
+        console.log(`[Fusion] Fused ${detection.source} ${detection.species} into ${sighting.id} (${candidate.match} match, ${(sighting.confidence * 100).toFixed(0)}%)`);
+        return { sighting, fused: true, match: candidate.match };
+      }
+    }
+
+    const sighting = await tracker.recordSighting({
+      species: detection.species,
+      scientificName: detection.scientificName,
+      confidence: detection.confidence,
+      timestamp: evidence.timestamp,
+      source: detection.source,
+      [detection.source]: evidence,
+      snapshotId,
+      zoneId: detection.zoneId,
+      presetId: detection.presetId,
+    });
+
+    this.recent.push({
+      sightingId: sighting.id,
+      time,
+      scientificName: detection.scientificName,
+      sources: new Set([detection.source]),
+    });
+
+    return { sighting, fused: false };
+  }
+
+  private findMatch(detection: BirdDetection): { recent: RecentSighting; match: TaxonomyMatch } | null {
+    const time = detection.timestamp.getTime();
+    let best: { recent: RecentSighting; match: TaxonomyMatch; distance: number } | null = null;
+    const rank: Record<TaxonomyMatch, number> = { species: 0, genus: 1, generic: 2 };
+
+    for (const recent of this.recent) {
+      if (recent.sources.has(detection.source)) continue;
+
+      const distance = Math.abs(time - recent.time);
+      if (distance > this.windowMs) continue;
+
+      const match = matchTaxonomy(detection.scientificName, recent.scientificName);
+      if (!match) continue;
+
+      // Prefer the closest taxonomic match, then the closest in time
+      if (!best || rank[match] < rank[best.match] || (rank[match] === rank[best.match] && distance < best.distance)) {
+        best = { recent, match, distance };
+      }
+    }
+
+    return best ? { recent: best.recent, match: best.match } : null;
+  }
+
+  private merge(existing: BirdSighting, source: DetectionSource, evidence: ModalityEvidence, match: TaxonomyMatch, zoneId?: string): BirdSighting {
+    const audio = source === 'audio' ? evidence : existing.audio;
+    const visual = source === 'visual' ? evidence : existing.visual;
+
+    // Keep the most specific identification; on a genus-level match, the more confident one
+    let identity = { species: existing.species, scientificName: existing.scientificName };
+    const existingGeneric = existing.scientificName === GENERIC_BIRD_NAME;
+    const incomingGeneric = evidence.scientificName === GENERIC_BIRD_NAME;
+    if ((existingGeneric && !incomingGeneric) || (match === 'genus' && evidence.confidence > existing.confidence)) {
+      identity = { species: evidence.species, scientificName: evidence.scientificName };
+    }
+
+    return getBirdTracker().mergeModality(existing.id, {
+      ...identity,
+      [source]: evidence,
+      confidence: combineConfidence(audio?.confidence, visual?.confidence, match),
+      // Audio has no position, so the zone comes from whichever modality saw the bird
+      zoneId: existing.zoneId ?? zoneId,
+    })!;
+  }
+
+  private prune(now: number): void {
+    this.recent = this.recent.filter(r => now - r.time <= this.windowMs);
+  }
+}
+
+// Singleton instance
+let fusion: DetectionFusion | null = null;
+
+export function getDetectionFusion(): DetectionFusion {
+  if (!fusion) {
+    fusion = new DetectionFusion();
+  }
+  return fusion;
+}
@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+
+/**
+ * Bridge Client Generator
+ *
+ * Writes a typed fetch client for the HTTP API (from the route table in
+ * api-routes.ts) into the web app, so it shares the bridge's request and
+ * response types instead of guessing them.
+ *
+ * Usage:
+ *   npm run generate:client            # Write apps/web/src/lib/bridge-api.ts
+ *   npm run generate:client -- --check # Fail if the file is out of date
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { API_ROUTES, API_SCHEMAS, type ApiRoute } from './api-routes.js';
+import { refName, type Schema } from './api-schema.js';
+
+const OUTPUT_PATH = join(dirname(fileURLToPath(import.meta.url)), '../../../apps/web/src/lib/bridge-api.ts');
+
+function pascal(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function docComment(text: string, indent: string): string {
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n`;
+}
+
+/**
+ * TypeScript type for a schema
+ */
+function toType(schema: Schema, indent: string = ''): string {
+  const ref = refName(schema);
+  if (ref) return ref;
+  if (schema.anyOf) return schema.anyOf.map(option => toType(option, indent)).join(' | ');
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value).replace(/"/g, "'")).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? toType(schema.items, indent) : 'unknown';
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object': {
+      if (!schema.properties) {
+        const values = typeof schema.additionalProperties === 'object' ? toType(schema.additionalProperties, indent) : 'unknown';
+        return `Record<string, ${values}>`;
+      }
+      return objectBody(schema, indent);
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function objectBody(schema: Schema, indent: string): string {
+  const inner = indent + '  ';
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, prop]) => {
+    const doc = prop.description ? docComment(prop.description, inner) : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${doc}${inner}${propertyKey(name)}${optional}: ${toType(prop, inner)};`;
+  });
+  return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+function declareType(name: string, schema: Schema): string {
+  const doc = schema.description ? docComment(schema.description, '') : '';
+  if (schema.type === 'object' && schema.properties && !schema.anyOf) {
+    return `${doc}export interface ${name} ${objectBody(schema, '')}\n`;
+  }
+  return `${doc}export type ${name} = ${toType(schema)};\n`;
+}
+
+function pathParams(path: string): string[] {
+  return [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+}
+
+/**
+ * Template literal building a route's path from its parameters
+ */
+function pathExpression(route: ApiRoute): string {
+  const template = '`' + route.path.replace(/:(\w+)/g, (_match, name: string) => `\${encodeURIComponent(String(${name}))}`) + '`';
+  return route.camera ? `this.cameraPath(${template})` : template;
+}
+
+/**
+ * Type for a route's body/query/response: the component it refers to, or
+ * a new named type
+ */
+function namedType(route: ApiRoute, part: 'Body' | 'Query' | 'Response', schema: Schema, declarations: string[]): string {
+  const ref = refName(schema);
+  if (ref) return ref;
+  const name = pascal(route.operationId) + part;
+  declarations.push(declareType(name, schema));
+  return name;
+}
+
+function generateMethod(route: ApiRoute, declarations: string[]): string {
+  const args: string[] = [];
+  for (const name of pathParams(route.path)) {
+    const schema = route.params?.properties?.[name];
+    args.push(`${name}: ${schema ? toType(schema) : 'string'}`);
+  }
+
+  const options: string[] = [];
+  if (route.body) {
+    const type = namedType(route, 'Body', route.body, declarations);
+    const optional = route.body.type === 'object' && !route.body.required?.length && !refName(route.body);
+    args.push(`body${optional ? '?' : ''}: ${type}`);
+    options.push('body');
+  }
+  if (route.query) {
+    const type = namedType(route, 'Query', route.query, declarations);
+    args.push(`query?: ${type}`);
+    options.push('query');
+  }
+
+  const call = `'${route.method}', ${pathExpression(route)}${options.length ? `, { ${options.join(', ')} }` : ''}`;
+  const doc = `  /** ${route.summary} (${route.method} ${route.path}) */\n`;
+
+  if (route.produces) {
+    return `${doc}  ${route.operationId}(${args.join(', ')}): Promise<Response> {\n    return this.send(${call});\n  }\n`;
+  }
+  const response = route.response ? namedType(route, 'Response', route.response, declarations) : 'unknown';
+  return `${doc}  ${route.operationId}(${args.join(', ')}): Promise<${response}> {\n    return this.request<${response}>(${call});\n  }\n`;
+}
+
+const CLIENT_SOURCE = `export class BridgeApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: ApiError | null
+  ) {
+    super(message);
+    this.name = 'BridgeApiError';
+  }
+}
+
+export interface BridgeClientOptions {
+  /** Bridge URL, e.g. http://birdcam.local:8080 */
+  baseUrl: string;
+  /** Auth headers for each request (X-API-Key, or Authorization with a token) */
+  headers?: () => HeadersInit | Promise<HeadersInit>;
+  /** Camera for per-camera routes (the default camera when omitted) */
+  cameraId?: string;
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | boolean | undefined;
+
+interface RequestOptions {
+  body?: unknown;
+  query?: object;
+}
+
+export class BridgeClient {
+  constructor(private readonly options: BridgeClientOptions) {}
+
+  /** Absolute URL for a bridge path (e.g. a signed stream URL it returned) */
+  resolveUrl(path: string): string {
+    return new URL(path, this.options.baseUrl).toString();
+  }
+
+  /** A client for another camera on the same bridge */
+  forCamera(cameraId: string): BridgeClient {
+    return new BridgeClient({ ...this.options, cameraId });
+  }
+
+  private cameraPath(path: string): string {
+    const { cameraId } = this.options;
+    return cameraId ? \`/api/cameras/\${encodeURIComponent(cameraId)}\${path.slice('/api'.length)}\` : path;
+  }
+
+  private async send(method: string, path: string, options: RequestOptions = {}): Promise<Response> {
+    const url = new URL(path, this.options.baseUrl);
+    for (const [key, value] of Object.entries(options.query ?? {}) as Array<[string, QueryValue]>) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers = new Headers(this.options.headers ? await this.options.headers() : undefined);
+    if (options.body !== undefined) headers.set('Content-Type', 'application/json');
+
+    const response = await (this.options.fetch ?? fetch)(url.toString(), {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as ApiError | null;
+      throw new BridgeApiError(body?.error || \`Bridge returned \${response.status}\`, response.status, body);
+    }
+    return response;
+  }
+
+  private async request<T>(method: string, path: string, options?: RequestOptions): Promise<T> {
+    const response = await this.send(method, path, options);
+    return (await response.json()) as T;
+  }
+
+`;
+
+function generate(): string {
+  const operationIds = new Set<string>();
+  for (const route of API_ROUTES) {
+    if (operationIds.has(route.operationId)) {
+      throw new Error(`Duplicate operationId: ${route.operationId}`);
+    }
+    operationIds.add(route.operationId);
+  }
+
+  const components = Object.entries(API_SCHEMAS).map(([name, schema]) => declareType(name, schema));
+  const declarations: string[] = [];
+  const methods = API_ROUTES.map(route => generateMethod(route, declarations));
+
+  return [
+    '/**\n' +
+    ' * Pi Bridge API client\n' +
+    ' *\n' +
+    ' * GENERATED by packages/pi-bridge (npm run generate:client) from the\n' +
+    ' * bridge\'s route table (src/api-routes.ts). Do not edit by hand.\n' +
+    ' */\n',
+    '// ==================== Schemas ====================\n',
+    components.join('\n'),
+    '// ==================== Requests & Responses ====================\n',
+    declarations.join('\n'),
+    '// ==================== Client ====================\n',
+    CLIENT_SOURCE + methods.join('\n') + '}\n',
+  ].join('\n');
+}
+
+function main(): void {
+  const check = process.argv.includes('--check');
+  const source = generate();
+  const current = existsSync(OUTPUT_PATH) ? readFileSync(OUTPUT_PATH, 'utf-8') : null;
+  const name = relative(process.cwd(), OUTPUT_PATH);
+
+  if (check) {
+    if (current !== source) {
+      console.error(`❌ ${name} is out of date. Run: npm run generate:client`);
+      process.exit(1);
+    }
+    console.log(`✅ ${name} is up to date`);
+    return;
+  }
+
+  if (current === source) {
+    console.log(`✅ ${name} is up to date`);
+    return;
+  }
+  writeFileSync(OUTPUT_PATH, source);
+  console.log(`✅ Wrote ${name} (${API_ROUTES.length} routes)`);
+}
+
+main();
@@ -8,24 +8,41 @@
  * - RTSP to HLS transcoding
  * - Motion detection with clip recording
  * - PTZ camera control
+ * - ONVIF encoder and imaging tuning
  * - Web dashboard for management
  * - Firebase integration for cloud sync
  */
 
 import { config, validateConfig } from './config.js';
 import { initFirebase, registerCamera, sendHeartbeat, updateCameraStatus } from './firebase.js';
-import { startStreaming, stopStreaming, probeStream, isStreaming, setRtspUrl } from './streamer.js';
-import { startServer, setPtzController } from './server.js';
+import { startStreaming, stopStreaming, restartStreaming, probeStream, isStreaming, setRtspUrl } from './streamer.js';
+import { startServer } from './server.js';
 import { startTunnel, startQuickTunnel, stopTunnel, getPublicUrl } from './tunnel.js';
 import { discoverCameras, connectCamera, getBestStreamUrl, autoConnect, type OnvifDevice } from './onvif.js';
 import { getMotionDetector, stopMotionDetection, type MotionEvent } from './motion.js';
+import { getOnvifEventSource } from './onvif-events.js';
+import { createImagingController } from './onvif-imaging.js';
 import { getRecorder } from './recorder.js';
+import { getClipSessionManager } from './clip-session.js';
+import { getOutbox } from './outbox.js';
+import { getAuditLog, type AuditEntry } from './audit.js';
+import { getSpeciesPriors } from './species-priors.js';
+import { getZoneManager } from './zones.js';
+import { getFirebaseAuth } from './firebase-auth.js';
+import { hasPrivacyZones, onPrivacyZonesChanged } from './privacy.js';
 import { createPtzController, type PtzController } from './ptz.js';
 import { createAmcrestPtzController, isAmcrestCamera, type AmcrestPtzController } from './amcrest-ptz.js';
+import { createSimulatedPtzController, type SimulatedPtzController } from './ptz-simulator.js';
+import { getAutoTracker } from './auto-track.js';
+import { getCameraRegistry } from './cameras.js';
 import { getPresetManager } from './ptz-presets.js';
+import { getScheduler } from './scheduler.js';
+import { getProfileManager } from './profiles.js';
 import { getBirdTracker, type BirdSighting } from './bird-tracker.js';
 import { initDetector, setDetectorSource, onBirdDetected, startDetection, type BirdDetection } from './detector.js';
-import { startGo2rtc, stopGo2rtc, isGo2rtcRunning, ensureGo2rtc } from './webrtc.js';
+import { getVisualDetector } from './visual-detector.js';
+import { getDetectionFusion } from './fusion.js';
+import { startGo2rtc, stopGo2rtc, restartGo2rtc, isGo2rtcRunning, ensureGo2rtc } from './webrtc.js';
 
 console.log(`
 ╔══════════════════════════════════════════════════════════════╗
@@ -39,7 +56,7 @@ console.log(`
 let cameraId: string | null = null;
 let heartbeatInterval: NodeJS.Timeout | null = null;
 let onvifDevice: OnvifDevice | null = null;
-let ptzController: PtzController | AmcrestPtzController | null = null;
+let ptzController: PtzController | AmcrestPtzController | SimulatedPtzController | null = null;
 
 async function resolveRtspUrl(): Promise<string> {
   // If ONVIF is enabled, discover/connect to get RTSP URL
@@ -99,9 +116,26 @@ async function resolveRtspUrl(): Promise<string> {
   return config.camera.rtspUrl;
 }
 
+/**
+ * Hand a working PTZ controller to the API, preset manager and auto-tracker
+ */
+function attachPtzController(controller: PtzController | AmcrestPtzController | SimulatedPtzController): void {
+  ptzController = controller;
+  getCameraRegistry().getDefaultCamera().setPtzController(controller);
+  getPresetManager().setPtzController(controller as unknown as PtzController);
+  getAutoTracker().setPtzController(controller);
+  console.log('[Main] PTZ: Preset manager initialized');
+}
+
 async function initializePtz(): Promise<void> {
   const ptzMode = config.ptz.mode;
   
+  if (ptzMode === 'simulated') {
+    console.log('[Main] PTZ: Enabled via simulator (the camera will not move)');
+    attachPtzController(createSimulatedPtzController());
+    return;
+  }
+  
   // Amcrest CGI mode can work without ONVIF - just needs camera host/credentials
   const forceAmcrestCgi = ptzMode === 'amcrest';
   const hasAmcrestConfig = config.onvif.host && config.onvif.username && config.onvif.password;
@@ -121,12 +155,7 @@ async function initializePtz(): Promise<void> {
       const capabilities = await ptzController.getCapabilities();
       if (capabilities.supported) {
         console.log('[Main] PTZ: Enabled via Amcrest CGI (standalone)');
-        setPtzController(ptzController as unknown as PtzController);
-        
-        const presetManager = getPresetManager();
-        presetManager.setPtzController(ptzController);
-        presetManager.initSchedules();
-        console.log('[Main] PTZ: Preset manager initialized');
+        attachPtzController(ptzController);
         return;
       }
     } catch (err) {
@@ -151,12 +180,7 @@ async function initializePtz(): Promise<void> {
         const capabilities = await ptzController.getCapabilities();
         if (capabilities.supported) {
           console.log('[Main] PTZ: Enabled via Amcrest CGI (fallback)');
-          setPtzController(ptzController as unknown as PtzController);
-          
-          const presetManager = getPresetManager();
-          presetManager.setPtzController(ptzController);
-          presetManager.initSchedules();
-          console.log('[Main] PTZ: Preset manager initialized');
+          attachPtzController(ptzController);
           return;
         }
       } catch (err) {
@@ -206,13 +230,7 @@ async function initializePtz(): Promise<void> {
     const capabilities = await ptzController.getCapabilities();
     if (capabilities.supported) {
       console.log(`[Main] PTZ: Enabled via ${useAmcrestCgi ? 'Amcrest CGI' : 'ONVIF'}`);
-      setPtzController(ptzController as PtzController);
-      
-      // Initialize preset manager with PTZ controller
-      const presetManager = getPresetManager();
-      presetManager.setPtzController(ptzController);
-      presetManager.initSchedules();
-      console.log('[Main] PTZ: Preset manager initialized');
+      attachPtzController(ptzController);
     } else {
       console.log('[Main] PTZ: Camera does not support PTZ');
       ptzController = null;
@@ -223,16 +241,130 @@ async function initializePtz(): Promise<void> {
   }
 }
 
+/**
+ * Encoder and imaging control for the default camera (needs an ONVIF connection)
+ */
+function initializeImaging(): void {
+  if (!config.onvif.enabled || !onvifDevice) {
+    console.log('[Main] Imaging: Not available (ONVIF not connected)');
+    return;
+  }
+
+  // Without a configured profile the controller picks the highest resolution one, like the stream
+  const imaging = createImagingController(
+    onvifDevice.address,
+    onvifDevice.port,
+    config.onvif.username,
+    config.onvif.password,
+    config.onvif.profileToken || undefined
+  );
+  getCameraRegistry().getDefaultCamera().setImagingController(imaging);
+  console.log('[Main] Imaging: Enabled via ONVIF');
+}
+
+async function handleBirdDetection(detection: BirdDetection): Promise<void> {
+  console.log(`[Main] 🐦 Bird detected (${detection.source}): ${detection.species} (${(detection.confidence * 100).toFixed(1)}%)`);
+
+  // Visual detections are placed in a zone by their bbox center
+  if (detection.bbox) {
+    const { x, y, w, h } = detection.bbox;
+    const location = getZoneManager().locate({ x: x + w / 2, y: y + h / 2 });
+    if (location.ignored) {
+      console.log(`[Main] Ignoring ${detection.species}: outside detection zones`);
+      return;
+    }
+    detection.zoneId = location.zoneId;
+  }
+  detection.presetId = getPresetManager().getCurrentPresetId() ?? undefined;
+
+  // Keep the patrol on this bird until things go quiet
+  getPresetManager().holdPatrol(`${detection.source} detection: ${detection.species}`);
+
+  // Follow the bird in frame (visual detections only)
+  if (detection.bbox) {
+    getAutoTracker().update(detection.bbox);
+  }
+
+  // Visual detections already come with the frame they were made on
+  const snapshotId = detection.snapshotId
+    ?? (await getRecorder().captureSnapshot(`bird-${detection.species}`))?.id;
+
+  // Record sighting, or fuse it with the other modality's sighting of the same bird
+  const { sighting, fused } = await getDetectionFusion().ingest(detection, snapshotId);
+
+  // Queue for cloud sync (survives restarts and offline periods)
+  if (config.firebase.enabled) {
+    getOutbox().enqueueDetection(sighting);
+  }
+
+  // Start a clip, or extend the one already covering this activity
+  if (config.recording.enabled) {
+    await getClipSessionManager().handleEvent('bird', sighting.id, sighting.zoneId);
+  }
+
+  // Update Firebase if connected
+  if (cameraId && !fused) {
+    try {
+      await updateCameraStatus(cameraId, 'active', {
+        event: 'bird_detected',
+        species: detection.species,
+        confidence: detection.confidence,
+        source: detection.source,
+        sightingId: sighting.id,
+        zoneId: sighting.zoneId ?? null,
+      });
+    } catch {}
+  }
+}
+
 async function initializeBirdDetection(rtspUrl: string): Promise<void> {
+  const birdTracker = getBirdTracker();
+  const clipSessions = getClipSessionManager();
+
+  // Visual detections (motion-triggered frames) share the BirdNET handling
+  if (config.visualDetection.enabled) {
+    try {
+      const visual = getVisualDetector();
+      if (await visual.load()) {
+        visual.on('detection', (detection: BirdDetection) => {
+          handleBirdDetection(detection).catch(err => {
+            console.error('[Main] Failed to handle visual detection:', (err as Error).message);
+          });
+        });
+
+        // Keep the auto-tracker fed from the live stream while it follows a bird
+        const tracker = getAutoTracker();
+        tracker.on('started', () => {
+          visual.startTracking(rtspUrl, tracker.getConfig().fps, boxes => tracker.updateFromDetections(boxes));
+        });
+        tracker.on('returned', () => visual.stopTracking());
+        console.log('[Main] Visual detection: Enabled');
+      }
+    } catch (err) {
+      console.warn('[Main] Visual detection: Failed to load models:', (err as Error).message);
+    }
+  }
+
+  // Upload clips that captured bird sightings
+  if (config.storage.backend !== 'none' && config.sync.uploadClips) {
+    clipSessions.on('sessionClosed', (clip) => {
+      if (clip.sightingIds?.length) {
+        getOutbox().enqueueClip(clip);
+      }
+    });
+  }
+
+  // Listen for new species events
+  birdTracker.on('newSpecies', (sighting: BirdSighting) => {
+    console.log(`[Main] 🎉 NEW SPECIES: ${sighting.species} added to life list!`);
+  });
+
   if (process.env.BIRD_DETECTION_ENABLED === 'false') {
     console.log('[Main] Bird detection: Disabled by config');
     return;
   }
 
   try {
-    const birdTracker = getBirdTracker();
-    const recorder = getRecorder();
-
     // Initialize detector
     initDetector({
       minConfidence: config.detection.minConfidence,
@@ -246,51 +378,7 @@ async function initializeBirdDetection(rtspUrl: string): Promise<void> {
     setDetectorSource(rtspUrl);
 
     // Handle bird detections
-    onBirdDetected(async (detection: BirdDetection) => {
-      console.log(`[Main] 🐦 Bird detected: ${detection.species} (${(detection.confidence * 100).toFixed(1)}%)`);
-
-      // Capture snapshot
-      const snapshot = await recorder.captureSnapshot(`bird-${detection.species}`);
-
-      // Record sighting
-      const sighting = await birdTracker.recordSighting({
-        species: detection.species,
-        scientificName: detection.scientificName,
-        confidence: detection.confidence,
-        timestamp: new Date().toISOString(),
-        snapshotId: snapshot?.id,
-      });
-
-      // Start recording if not already
-      if (!recorder.isRecording()) {
-        const clipId = await recorder.startRecording('motion');
-        if (clipId) {
-          // Could update sighting with clipId here
-          setTimeout(() => {
-            if (recorder.isRecording()) {
-              recorder.stopRecording();
-            }
-          }, 15000);
-        }
-      }
-
-      // Update Firebase if connected
-      if (cameraId) {
-        try {
-          await updateCameraStatus(cameraId, 'active', {
-            event: 'bird_detected',
-            species: detection.species,
-            confidence: detection.confidence,
-            sightingId: sighting.id,
-          });
-        } catch {}
-      }
-    });
-
-    // Listen for new species events
-    birdTracker.on('newSpecies', (sighting: BirdSighting) => {
-      console.log(`[Main] 🎉 NEW SPECIES: ${sighting.species} added to life list!`);
-    });
+    onBirdDetected(handleBirdDetection);
 
     // Start detection
     await startDetection();
@@ -300,29 +388,38 @@ async function initializeBirdDetection(rtspUrl: string): Promise<void> {
   }
 }
 
-async function initializeMotionDetection(rtspUrl: string): Promise<void> {
-  if (process.env.MOTION_DETECTION_ENABLED === 'false') {
-    console.log('[Main] Motion detection: Disabled by config');
-    return;
-  }
-
+function initializeRecording(rtspUrl: string): void {
   const recorder = getRecorder({
     clipsDir: process.env.CLIPS_DIR || '/var/birdcam/clips',
     snapshotsDir: process.env.SNAPSHOTS_DIR || '/var/birdcam/snapshots',
+    bufferDir: config.recording.bufferDir,
+    segmentSeconds: config.recording.segmentDuration,
+    preBufferSeconds: config.recording.enabled ? config.recording.preBuffer : 0,
+    postBufferSeconds: config.recording.postBuffer,
+    maxClipDurationSeconds: config.recording.maxClipDuration,
     retentionDays: parseInt(process.env.RETENTION_DAYS || '7', 10),
     maxStorageMb: parseInt(process.env.MAX_STORAGE_MB || '10000', 10),
   });
   recorder.setRtspUrl(rtspUrl);
 
-  const motion = getMotionDetector({
-    enabled: true,
-    sensitivity: parseInt(process.env.MOTION_SENSITIVITY || '50', 10),
-    cooldownMs: parseInt(process.env.MOTION_COOLDOWN_MS || '5000', 10),
-  });
+  // Keep a rolling pre-roll buffer so triggered clips include the moments before the trigger
+  recorder.startBuffer();
+}
+
+async function initializeMotionDetection(rtspUrl: string): Promise<void> {
+  if (process.env.MOTION_DETECTION_ENABLED === 'false') {
+    console.log('[Main] Motion detection: Disabled by config');
+    return;
+  }
 
-  // On motion, start recording and capture snapshot
-  motion.on('motion', async (event: MotionEvent) => {
-    console.log(`[Main] Motion detected! Confidence: ${event.confidence.toFixed(1)}%`);
+  const recorder = getRecorder();
+  const clipSessions = getClipSessionManager();
+  const zones = getZoneManager();
+  const source = config.onvifEvents.motionSource;
+
+  // On motion (from either source), start recording and capture snapshot
+  const handleMotion = async (event: MotionEvent) => {
+    console.log(`[Main] Motion detected in ${event.regionName || event.regionId || 'frame'}! Confidence: ${event.confidence.toFixed(1)}%`);
     
     // Capture snapshot
     const snapshot = await recorder.captureSnapshot('motion');
@@ -330,16 +427,16 @@ async function initializeMotionDetection(rtspUrl: string): Promise<void> {
       event.snapshotPath = snapshot.path;
     }
     
-    // Start recording if not already
-    if (!recorder.isRecording()) {
-      await recorder.startRecording('motion');
-      
-      // Auto-stop after configured duration
-      setTimeout(() => {
-        if (recorder.isRecording()) {
-          recorder.stopRecording();
-        }
-      }, 15000); // 15 second clips
+    // Start a clip, or extend the one already covering this activity
+    if (config.recording.enabled) {
+      const zoneId = event.regionId && zones.getZone(event.regionId) ? event.regionId : undefined;
+      await clipSessions.handleEvent('motion', undefined, zoneId);
+    }
+    
+    // Look for birds in the frame (results arrive as 'detection' events)
+    const visual = getVisualDetector();
+    if (snapshot && visual.isLoaded()) {
+      visual.analyzeSnapshot(snapshot);
     }
     
     // Update Firebase if connected
@@ -347,22 +444,57 @@ async function initializeMotionDetection(rtspUrl: string): Promise<void> {
       try {
         await updateCameraStatus(cameraId, 'motion', {
           confidence: event.confidence,
+          regionId: event.regionId ?? null,
           snapshot: snapshot?.path,
         });
       } catch {}
     }
-  });
+  };
 
-  motion.on('motionEnd', () => {
-    console.log('[Main] Motion ended');
-  });
+  if (source !== 'onvif') {
+    const motion = getMotionDetector({
+      enabled: true,
+      sensitivity: parseInt(process.env.MOTION_SENSITIVITY || '50', 10),
+      threshold: parseFloat(process.env.MOTION_THRESHOLD || '2'),
+      cooldownMs: parseInt(process.env.MOTION_COOLDOWN_MS || '5000', 10),
+      fps: parseInt(process.env.MOTION_FPS || '5', 10),
+    });
 
-  // Start motion detection
-  try {
-    await motion.start(rtspUrl);
-    console.log('[Main] Motion detection: Enabled');
-  } catch (err) {
-    console.warn('[Main] Motion detection: Failed to start:', (err as Error).message);
+    // Zones from the web dashboard replace the motion regions
+    if (zones.getZones().length > 0) {
+      motion.updateConfig({ regions: zones.toMotionRegions() });
+    }
+    zones.on('updated', () => {
+      motion.updateConfig({ regions: zones.toMotionRegions() });
+    });
+
+    motion.on('motion', handleMotion);
+    motion.on('motionEnd', () => {
+      console.log('[Main] Motion ended');
+    });
+
+    // Start motion detection
+    try {
+      await motion.start(rtspUrl);
+      console.log('[Main] Motion detection: Enabled');
+    } catch (err) {
+      console.warn('[Main] Motion detection: Failed to start:', (err as Error).message);
+    }
+  }
+
+  // Camera-side motion, line crossing and intrusion from the ONVIF Events service
+  if (source !== 'ffmpeg') {
+    const events = getOnvifEventSource({
+      host: onvifDevice?.address || config.onvif.host,
+      port: onvifDevice?.port || config.onvif.port,
+    });
+    events.on('motion', handleMotion);
+    events.on('motionEnd', () => {
+      console.log('[Main] Camera motion ended');
+    });
+    events.start();
+    getCameraRegistry().getDefaultCamera().setEventSource(events);
+    console.log('[Main] ONVIF events: Enabled');
   }
 }
 
@@ -412,9 +544,15 @@ async function main() {
     console.warn('[Main] Could not probe stream - continuing anyway');
   }
   
+  // Initialize clip recording (before the server so API routes share the configured recorder)
+  initializeRecording(rtspUrl);
+  
   // Initialize PTZ control
   await initializePtz();
   
+  // Initialize camera encoder/imaging control
+  initializeImaging();
+  
   // Start HLS server
   console.log('[Main] Starting web server...');
   const localUrl = await startServer();
@@ -458,6 +596,25 @@ async function main() {
     console.log('[Main] Starting RTSP→HLS transcoding...');
     await startStreaming();
   }
+
+  // Privacy masks are burned into the running transcoders - restart them when zones change
+  if (hasPrivacyZones()) {
+    console.log('[Main] Privacy zones: masking all outgoing video');
+  }
+  onPrivacyZonesChanged(async (zones) => {
+    console.log(`[Main] Privacy zones changed (${zones.length}), restarting streams`);
+    if (isGo2rtcRunning()) {
+      await restartGo2rtc();
+    }
+    if (isStreaming()) {
+      await restartStreaming();
+    }
+    for (const camera of getCameraRegistry().getCameras()) {
+      if (camera.getEntry()?.privacyMask && camera.streamer.isStreaming()) {
+        await camera.streamer.restart();
+      }
+    }
+  });
   
   // Wait for streams to be ready
   await new Promise(resolve => setTimeout(resolve, 3000));
@@ -468,10 +625,19 @@ async function main() {
   // Initialize bird detection (BirdNET)
   await initializeBirdDetection(rtspUrl);
   
+  // Start any extra cameras (streaming, motion clips and PTZ each)
+  const cameras = getCameraRegistry();
+  await cameras.startAll();
+  
   // Register camera with BirdCam Network (if Firebase enabled)
   if (config.firebase.enabled) {
+    // Mirror the audit log under the camera document (queued until registered)
+    if (config.audit.mirrorToFirestore) {
+      getAuditLog().on('entry', (entry: AuditEntry) => getOutbox().enqueueAudit(entry));
+    }
+    
     console.log('[Main] Registering with BirdCam Network...');
-    try {
+    const registerWithNetwork = async (): Promise<void> => {
       cameraId = await registerCamera(
         '', // userId will be set when user claims the camera
         `${publicUrl}/stream.m3u8`,
@@ -487,29 +653,72 @@ async function main() {
           ptzSupported: ptzController !== null,
         });
       }
+      
+      // Flush anything queued while offline
+      getOutbox().start(cameraId);
+
+      // Follow species priors learned from corrections in the web app
+      getSpeciesPriors().start(cameraId);
+
+      // Follow zones drawn in the web dashboard's zone editor
+      getZoneManager().start(cameraId);
+
+      // Follow the camera's owner and shares for web app (Firebase) sign-in
+      getFirebaseAuth().start(cameraId);
+    };
+    
+    try {
+      await registerWithNetwork();
     } catch (err) {
       console.warn('[Main] Failed to register camera:', (err as Error).message);
-      console.warn('[Main] Continuing without cloud registration...');
+      console.warn('[Main] Continuing offline - detections will be queued for sync');
     }
     
-    // Start heartbeat
+    // Start heartbeat (also retries registration while offline)
+    let heartbeatOk = true;
     heartbeatInterval = setInterval(async () => {
-      if (cameraId) {
+      if (!cameraId) {
         try {
-          await sendHeartbeat(cameraId);
-          if (config.debug) {
-            console.log('[Main] Heartbeat sent');
-          }
-        } catch (err) {
-          console.error('[Main] Heartbeat failed:', (err as Error).message);
+          await registerWithNetwork();
+        } catch {}
+        return;
+      }
+      
+      try {
+        await sendHeartbeat(cameraId);
+        if (!heartbeatOk) {
+          console.log('[Main] Connectivity restored, retrying queued uploads');
+          getOutbox().retryNow();
+        }
+        heartbeatOk = true;
+        if (config.debug) {
+          console.log('[Main] Heartbeat sent');
         }
+      } catch (err) {
+        heartbeatOk = false;
+        console.error('[Main] Heartbeat failed:', (err as Error).message);
       }
     }, 30000); // Every 30 seconds
   } else {
     console.log('[Main] Cloud registration: Skipped (Firebase disabled)');
+    
+    // Clip uploads to S3/NAS storage don't need a registered camera
+    if (config.storage.backend !== 'none') {
+      getOutbox().start();
+    }
+  }
+  
+  // Apply the day/night profile and switch at civil dawn/dusk
+  const profiles = getProfileManager();
+  await profiles.start();
+  
+  // Run scheduled preset moves, patrols, recordings and detection windows
+  if (config.scheduler.enabled) {
+    getScheduler().start();
   }
   
   // Print startup summary
+  const profileStatus = profiles.getStatus();
   console.log('');
   console.log('═══════════════════════════════════════════════════════════════');
   console.log('  🐦 BirdCam Pi Bridge is running!');
@@ -528,14 +737,28 @@ async function main() {
   console.log(`    • WebRTC:      ${webrtcEnabled ? '✅ Enabled' : '❌ Not available'}`);
   console.log(`    • HLS:         ${isStreaming() ? '✅ Active' : '⏳ Starting...'}`);
   console.log(`    • PTZ Control: ${ptzController ? '✅ Enabled' : '❌ Not available'}`);
+  console.log(`    • Imaging:     ${cameras.getDefaultCamera().getImagingController() ? '✅ ONVIF' : '❌ Not available'}`);
   console.log(`    • Motion:      ${getMotionDetector().isRunning() ? '✅ Enabled' : '❌ Disabled'}`);
+  console.log(`    • Cam Events:  ${cameras.getDefaultCamera().getEventSource()?.isRunning() ? `✅ ONVIF (${config.onvifEvents.types.join(', ')})` : '❌ Not used'}`);
   console.log(`    • Birds:       ${process.env.BIRD_DETECTION_ENABLED !== 'false' ? '✅ BirdNET' : '❌ Disabled'}`);
-  console.log(`    • Recording:   ✅ Ready`);
+  console.log(`    • Visual:      ${getVisualDetector().isLoaded() ? '✅ ONNX (motion-triggered)' : '❌ Not available'}`);
+  console.log(`    • Cameras:     ${cameras.getCameras().map(c => c.id).join(', ')}`);
+  console.log(`    • Profile:     ${profileStatus.activeProfile ?? 'none'}${profileStatus.auto.enabled && profileStatus.locationSet ? ' (auto at civil twilight)' : ''}`);
+  console.log(`    • Audit Log:   ✅ ${config.audit.dir}${config.audit.mirrorToFirestore && config.firebase.enabled ? ' (mirrored to Firestore)' : ''}`);
+  console.log(`    • Web Sign-in: ${getFirebaseAuth().isEnabled() ? '✅ Firebase ID tokens' : '❌ Disabled'}`);
+  console.log(`    • Schedules:   ${config.scheduler.enabled ? `✅ ${getScheduler().getJobs().filter(j => j.enabled).length} job(s)` : '❌ Disabled'}`);
+  console.log(`    • Recording:   ✅ Ready${getRecorder().isBuffering() ? ` (${config.recording.preBuffer}s pre-roll)` : ''}`);
   console.log('');
   if (cameraId) {
     console.log(`  🔗 Camera ID: ${cameraId}`);
     console.log('     Add this camera in your BirdCam dashboard!');
   }
+  if (config.storage.backend !== 'none') {
+    console.log(`  ☁️  Clip storage: ${config.storage.backend}`);
+  }
+  if (getOutbox().getStats().depth > 0) {
+    console.log(`  📤 Sync queue: ${getOutbox().getStats().depth} item(s) pending`);
+  }
   console.log('═══════════════════════════════════════════════════════════════');
 }
 
@@ -549,6 +772,22 @@ function shutdown(signal: string) {
   
   // Stop motion detection
   stopMotionDetection();
+  getVisualDetector().stopTracking();
+  getCameraRegistry().getDefaultCamera().getEventSource()?.stop();
+  
+  // Stop syncing (queued items stay on disk for the next start)
+  getOutbox().stop();
+  getSpeciesPriors().stop();
+  getZoneManager().stop();
+  getFirebaseAuth().stop();
+  getScheduler().stop();
+  getProfileManager().stop();
+  
+  // Stop the pre-roll buffer
+  getRecorder().stopBuffer();
+  
+  // Stop extra cameras
+  getCameraRegistry().stopAll();
   
   // Update camera status to offline
   if (cameraId) {
@@ -1,61 +1,205 @@
 /**
  * Motion Detection Module
- * 
+ *
  * Analyzes video frames for motion and triggers events.
- * Uses frame differencing with configurable sensitivity.
+ * Decodes low-res grayscale frames with FFmpeg and compares each one against
+ * an adaptive background model, so slow lighting changes are absorbed while
+ * a bird landing on the feeder still stands out.
+ *
+ * Detection can be limited to include polygons (each with its own
+ * sensitivity) and exclude polygons mask out swaying branches, shadows, etc.
  */
 
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
-import { mkdirSync, existsSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
 import { config } from './config.js';
 
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const REGIONS_FILE = join(SETTINGS_DIR, 'motion-regions.json');
+
+/**
+ * Regions file for a camera other than the default one
+ */
+export function cameraRegionsFile(cameraId: string): string {
+  return join(SETTINGS_DIR, `motion-regions-${cameraId}.json`);
+}
+
+export interface MotionPoint {
+  x: number;                // Normalized 0-1, top-left origin
+  y: number;
+}
+
+export interface MotionRegion {
+  id: string;
+  name?: string;
+  type: 'include' | 'exclude';
+  polygon: MotionPoint[];
+  sensitivity?: number;     // 0-100, overrides the global sensitivity
+}
+
 export interface MotionEvent {
   timestamp: Date;
   confidence: number;
-  region?: { x: number; y: number; width: number; height: number };
+  regionId?: string;        // Region the motion fired in ('full' = whole frame)
+  regionName?: string;
+  changedPercent?: number;  // % of the region's pixels that changed
+  region?: { x: number; y: number; width: number; height: number };  // Bounding box of the motion (normalized)
   snapshotPath?: string;
+  source?: 'ffmpeg' | 'onvif';  // Frame differencing or an ONVIF camera event
+  eventType?: string;       // ONVIF event topic
 }
 
 export interface MotionConfig {
   enabled: boolean;
   sensitivity: number;      // 0-100, higher = more sensitive
-  threshold: number;        // Minimum % of pixels changed to trigger
+  threshold: number;        // Minimum % of a region's pixels changed to trigger
   cooldownMs: number;       // Minimum time between events
   minDurationMs: number;    // Motion must persist for this long
+  fps: number;              // Frames analyzed per second
+  frameWidth: number;       // Analysis resolution
+  frameHeight: number;
+  backgroundAlpha: number;  // Background learning rate per frame (0-1)
   debug?: boolean;          // Enable debug logging
-  regions?: Array<{         // Detection regions (empty = full frame)
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>;
+  regions?: MotionRegion[]; // Include/exclude polygons (no include regions = full frame)
 }
 
+// Legacy rectangle regions ({ x, y, width, height }) are still accepted
+type RegionInput = MotionRegion | { x: number; y: number; width: number; height: number; id?: string; name?: string };
+
 const DEFAULT_CONFIG: MotionConfig = {
   enabled: true,
   sensitivity: 50,
-  threshold: 5,
+  threshold: 2,
   cooldownMs: 5000,
   minDurationMs: 500,
+  fps: 5,
+  frameWidth: 160,
+  frameHeight: 90,
+  backgroundAlpha: 0.05,
 };
 
-class MotionDetector extends EventEmitter {
+// A frame where more than this share of pixels changes is a lighting change
+// (cloud, exposure adjustment, IR switch), not motion
+const GLOBAL_CHANGE_FRACTION = 0.6;
+// Foreground pixels are learned into the background this much slower
+const FOREGROUND_ALPHA_FACTOR = 0.1;
+
+const FULL_FRAME_ID = 'full';
+
+interface RegionMask {
+  id: string;
+  name?: string;
+  pixelThreshold: number;
+  pixelCount: number;
+}
+
+/**
+ * Convert stored/legacy region definitions into polygons
+ */
+export function normalizeRegions(regions: RegionInput[] | undefined): MotionRegion[] {
+  if (!Array.isArray(regions)) return [];
+
+  return regions.map((region, i): MotionRegion => {
+    if ('polygon' in region && Array.isArray(region.polygon)) {
+      return {
+        id: region.id || `region-${i + 1}`,
+        ...(region.name ? { name: region.name } : {}),
+        type: region.type === 'exclude' ? 'exclude' : 'include',
+        polygon: region.polygon.map(p => ({ x: clamp01(p.x), y: clamp01(p.y) })),
+        ...(region.sensitivity !== undefined ? { sensitivity: region.sensitivity } : {}),
+      };
+    }
+
+    const rect = region as { x: number; y: number; width: number; height: number; id?: string; name?: string };
+    return {
+      id: rect.id || `region-${i + 1}`,
+      ...(rect.name ? { name: rect.name } : {}),
+      type: 'include' as const,
+      polygon: [
+        { x: rect.x, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y + rect.height },
+        { x: rect.x, y: rect.y + rect.height },
+      ].map(p => ({ x: clamp01(p.x), y: clamp01(p.y) })),
+    };
+  }).filter(r => r.polygon.length >= 3);
+}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, Number(v) || 0));
+}
+
+/**
+ * Point-in-polygon test (ray casting)
+ */
+export function pointInPolygon(x: number, y: number, polygon: MotionPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Map sensitivity 0-100 to a per-pixel brightness difference (48-8 levels)
+ */
+function pixelThresholdFor(sensitivity: number): number {
+  const s = Math.min(100, Math.max(0, sensitivity));
+  return 8 + (100 - s) * 0.4;
+}
+
+export class MotionDetector extends EventEmitter {
   private config: MotionConfig;
+  private regionsFile: string;
   private ffmpegProcess: ChildProcess | null = null;
   private lastMotionTime: number = 0;
   private motionStartTime: number = 0;
   private isInMotion: boolean = false;
   private running: boolean = false;
+  private rtspUrl: string = '';
 
-  constructor(motionConfig?: Partial<MotionConfig>) {
+  // Frame analysis state
+  private pending: Buffer = Buffer.alloc(0);
+  private background: Float32Array | null = null;
+  private pixelRegion: Int16Array = new Int16Array(0);   // Index into masks, -1 = ignored
+  private masks: RegionMask[] = [];
+
+  constructor(motionConfig?: Partial<MotionConfig>, regionsFile: string = REGIONS_FILE) {
     super();
+    this.regionsFile = regionsFile;
     this.config = { ...DEFAULT_CONFIG, ...motionConfig };
+    this.config.regions = motionConfig?.regions
+      ? normalizeRegions(motionConfig.regions)
+      : this.loadRegions();
+    this.buildMasks();
   }
 
   updateConfig(newConfig: Partial<MotionConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
-    console.log('[Motion] Config updated:', this.config);
+
+    if (newConfig.regions !== undefined) {
+      this.config.regions = normalizeRegions(newConfig.regions);
+      this.saveRegions();
+    }
+
+    this.buildMasks();
+    console.log('[Motion] Config updated:', { ...this.config, regions: `${this.config.regions?.length || 0} regions` });
+
+    // Decoder output format changed - restart it
+    const decoderChanged = previous.fps !== this.config.fps ||
+      previous.frameWidth !== this.config.frameWidth ||
+      previous.frameHeight !== this.config.frameHeight;
+    if (decoderChanged && this.running && this.rtspUrl) {
+      this.restart();
+    }
   }
 
   async start(rtspUrl: string): Promise<void> {
@@ -66,39 +210,38 @@ class MotionDetector extends EventEmitter {
     }
 
     this.running = true;
+    this.rtspUrl = rtspUrl;
+    this.pending = Buffer.alloc(0);
+    this.background = null;
     console.log('[Motion] Starting detection...');
 
-    // Use FFmpeg with scdet filter for reliable scene change detection
-    // The scdet filter detects scene changes and outputs to stderr
-    // t = threshold (0-1, lower = more sensitive), s = print scene score
-    const sensitivity = this.config.sensitivity / 100;
-    // Map sensitivity 0-100 to threshold 0.5-0.05 (higher sensitivity = lower threshold)
-    const sceneThreshold = Math.max(0.05, 0.5 - (sensitivity * 0.45));
+    const { fps, frameWidth, frameHeight } = this.config;
+    const regionCount = this.config.regions?.length || 0;
+    console.log(`[Motion] Frame differencing at ${frameWidth}x${frameHeight}, ${fps} fps, ${regionCount || 'no'} regions (sensitivity: ${this.config.sensitivity})`);
 
-    console.log(`[Motion] Using scdet threshold: ${sceneThreshold.toFixed(3)} (sensitivity: ${this.config.sensitivity})`);
-
-    // Use scdet filter which reliably outputs scene change events
-    // The filter outputs: [Parsed_scdet_0 @ ...] lavfi.scd.mafd=X lavfi.scd.score=X lavfi.scd.time=X
+    // Decode low-res grayscale frames to stdout
     this.ffmpegProcess = spawn(config.ffmpegPath, [
       '-rtsp_transport', 'tcp',
       '-i', rtspUrl,
-      '-vf', `scdet=t=${sceneThreshold.toFixed(3)}:s=1`,
-      '-fps_mode', 'vfr',  // Variable framerate - only output on scene changes
-      '-f', 'null',
+      '-an',
+      '-vf', `fps=${fps},scale=${frameWidth}:${frameHeight},format=gray`,
+      '-f', 'rawvideo',
+      '-pix_fmt', 'gray',
       '-'
     ], {
-      stdio: ['pipe', 'pipe', 'pipe']
+      stdio: ['ignore', 'pipe', 'pipe']
     });
 
     this.ffmpegProcess.stdout?.on('data', (data: Buffer) => {
-      this.processOutput(data.toString());
+      this.processOutput(data);
     });
 
     this.ffmpegProcess.stderr?.on('data', (data: Buffer) => {
-      const output = data.toString();
-      // scdet filter outputs scene detection info to stderr
-      if (output.includes('lavfi.scd.score=') || output.includes('scd.score')) {
-        this.processScdetOutput(output);
+      if (this.config.debug || config.debug) {
+        const output = data.toString().trim();
+        if (output.toLowerCase().includes('error')) {
+          console.log('[Motion] FFmpeg:', output);
+        }
       }
     });
 
@@ -110,7 +253,8 @@ class MotionDetector extends EventEmitter {
     this.ffmpegProcess.on('exit', (code) => {
       console.log('[Motion] FFmpeg exited with code:', code);
       this.running = false;
-      
+      this.ffmpegProcess = null;
+
       // Auto-restart if unexpected exit
       if (code !== 0 && this.config.enabled) {
         console.log('[Motion] Auto-restarting in 5 seconds...');
@@ -119,49 +263,188 @@ class MotionDetector extends EventEmitter {
     });
   }
 
-  private processOutput(output: string): void {
-    // Parse metadata output for scene detection (legacy support)
-    if (output.includes('lavfi.scene_score')) {
-      const match = output.match(/lavfi\.scene_score=(\d+\.?\d*)/);
-      if (match) {
-        const score = parseFloat(match[1]);
-        this.handleMotionScore(score);
+  private restart(): void {
+    if (this.ffmpegProcess) {
+      this.ffmpegProcess.removeAllListeners('exit');
+      this.ffmpegProcess.kill('SIGTERM');
+      this.ffmpegProcess = null;
+    }
+    this.running = false;
+    this.start(this.rtspUrl);
+  }
+
+  private processOutput(data: Buffer): void {
+    const frameSize = this.config.frameWidth * this.config.frameHeight;
+    this.pending = this.pending.length ? Buffer.concat([this.pending, data]) : data;
+
+    while (this.pending.length >= frameSize) {
+      const frame = this.pending.subarray(0, frameSize);
+      this.pending = this.pending.subarray(frameSize);
+      this.analyzeFrame(frame);
+    }
+
+    // Keep the leftover partial frame in its own buffer
+    if (this.pending.length) {
+      this.pending = Buffer.from(this.pending);
+    }
+  }
+
+  /**
+   * Rasterize regions into a per-pixel lookup at the analysis resolution
+   */
+  private buildMasks(): void {
+    const { frameWidth: width, frameHeight: height } = this.config;
+    const regions = this.config.regions || [];
+    const includes = regions.filter(r => r.type === 'include');
+    const excludes = regions.filter(r => r.type === 'exclude');
+
+    const masks: RegionMask[] = includes.length > 0
+      ? includes.map(r => ({
+          id: r.id,
+          name: r.name,
+          pixelThreshold: pixelThresholdFor(r.sensitivity ?? this.config.sensitivity),
+          pixelCount: 0,
+        }))
+      : [{ id: FULL_FRAME_ID, pixelThreshold: pixelThresholdFor(this.config.sensitivity), pixelCount: 0 }];
+
+    const pixelRegion = new Int16Array(width * height).fill(-1);
+
+    for (let y = 0; y < height; y++) {
+      const ny = (y + 0.5) / height;
+      for (let x = 0; x < width; x++) {
+        const nx = (x + 0.5) / width;
+        if (excludes.some(r => pointInPolygon(nx, ny, r.polygon))) continue;
+
+        let index = -1;
+        if (includes.length === 0) {
+          index = 0;
+        } else {
+          // Overlapping include regions: the first one listed wins
+          index = includes.findIndex(r => pointInPolygon(nx, ny, r.polygon));
+        }
+
+        if (index >= 0) {
+          pixelRegion[y * width + x] = index;
+          masks[index].pixelCount++;
+        }
       }
     }
+
+    this.masks = masks;
+    this.pixelRegion = pixelRegion;
   }
 
-  private processScdetOutput(output: string): void {
-    // scdet filter outputs lines like:
-    // [Parsed_scdet_0 @ 0x...] lavfi.scd.mafd=0.123 lavfi.scd.score=0.456 lavfi.scd.time=1.234
-    // The score is 0-1, higher means more scene change
-    const scoreMatch = output.match(/lavfi\.scd\.score=(\d+\.?\d*)/);
-    if (scoreMatch) {
-      const score = parseFloat(scoreMatch[1]);
+  private analyzeFrame(frame: Buffer): void {
+    const { frameWidth: width, backgroundAlpha } = this.config;
+    const pixels = frame.length;
+
+    if (!this.background || this.background.length !== pixels) {
+      this.background = Float32Array.from(frame);
+      return;
+    }
+
+    const background = this.background;
+    const pixelRegion = this.pixelRegion;
+
+    // Compensate for global brightness shifts before differencing, using the
+    // median difference so a bird filling part of the region doesn't skew it
+    const histogram = new Uint32Array(511);
+    let watched = 0;
+    for (let i = 0; i < pixels; i++) {
+      if (pixelRegion[i] < 0) continue;
+      histogram[Math.round(frame[i] - background[i]) + 255]++;
+      watched++;
+    }
+    if (watched === 0) return;
+
+    let offset = 0;
+    for (let bin = 0, seen = 0; bin < histogram.length; bin++) {
+      seen += histogram[bin];
+      if (seen * 2 >= watched) {
+        offset = bin - 255;
+        break;
+      }
+    }
+
+    const changed = new Array<number>(this.masks.length).fill(0);
+    const bounds = this.masks.map(() => ({ minX: Infinity, minY: Infinity, maxX: -1, maxY: -1 }));
+    let totalChanged = 0;
+
+    for (let i = 0; i < pixels; i++) {
+      const value = frame[i];
+      const index = pixelRegion[i];
+      const diff = Math.abs(value - offset - background[i]);
+
+      let foreground = false;
+      if (index >= 0 && diff > this.masks[index].pixelThreshold) {
+        foreground = true;
+        changed[index]++;
+        totalChanged++;
+
+        const x = i % width;
+        const y = (i - x) / width;
+        const b = bounds[index];
+        if (x < b.minX) b.minX = x;
+        if (x > b.maxX) b.maxX = x;
+        if (y < b.minY) b.minY = y;
+        if (y > b.maxY) b.maxY = y;
+      }
+
+      // Adaptive background: moving objects are learned in slowly
+      const alpha = foreground ? backgroundAlpha * FOREGROUND_ALPHA_FACTOR : backgroundAlpha;
+      background[i] += alpha * (value - background[i]);
+    }
+
+    // Sudden whole-scene change: relearn the background instead of reporting motion
+    if (totalChanged / watched > GLOBAL_CHANGE_FRACTION) {
       if (this.config.debug || config.debug) {
-        console.log(`[Motion] Scene change detected, score: ${score.toFixed(3)}`);
+        console.log('[Motion] Lighting change, resetting background');
       }
-      // scdet only triggers when threshold is exceeded, so any detection is significant
-      this.handleMotionScore(score);
+      this.background = Float32Array.from(frame);
+      return;
     }
-  }
 
-  private processSceneChange(output: string): void {
-    // Legacy fallback for select filter scene output
-    const match = output.match(/scene:(\d+\.?\d*)/);
-    if (match) {
-      const score = parseFloat(match[1]);
-      this.handleMotionScore(score);
+    // Pick the region with the largest share of changed pixels
+    let best = -1;
+    let bestPercent = 0;
+    for (let r = 0; r < this.masks.length; r++) {
+      if (this.masks[r].pixelCount === 0) continue;
+      const percent = (changed[r] / this.masks[r].pixelCount) * 100;
+      if (percent > bestPercent) {
+        best = r;
+        bestPercent = percent;
+      }
+    }
+
+    if (this.config.debug || config.debug) {
+      if (best >= 0 && bestPercent > 0) {
+        console.log(`[Motion] ${this.masks[best].id}: ${bestPercent.toFixed(2)}% changed`);
+      }
+    }
+
+    if (best < 0 || bestPercent < this.config.threshold) {
+      this.handleMotion(null);
+      return;
     }
+
+    const { frameHeight: height } = this.config;
+    const b = bounds[best];
+    this.handleMotion({
+      mask: this.masks[best],
+      percent: bestPercent,
+      box: {
+        x: b.minX / width,
+        y: b.minY / height,
+        width: (b.maxX - b.minX + 1) / width,
+        height: (b.maxY - b.minY + 1) / height,
+      },
+    });
   }
 
-  private handleMotionScore(score: number): void {
+  private handleMotion(hit: { mask: RegionMask; percent: number; box: MotionEvent['region'] } | null): void {
     const now = Date.now();
-    
-    // scdet filter already applies threshold, so any detection is significant
-    // But we still use threshold for confidence filtering
-    const minScore = this.config.threshold / 100;
-    
-    if (score >= minScore) {
+
+    if (hit) {
       if (!this.isInMotion) {
         this.motionStartTime = now;
         this.isInMotion = true;
@@ -172,13 +455,19 @@ class MotionDetector extends EventEmitter {
         // Check cooldown
         if (now - this.lastMotionTime >= this.config.cooldownMs) {
           this.lastMotionTime = now;
-          
+
           const event: MotionEvent = {
             timestamp: new Date(),
-            confidence: Math.min(score * 100, 100),
+            // Reaching the threshold is 50%, twice the threshold or more is 100%
+            confidence: Math.min(100, (hit.percent / this.config.threshold) * 50),
+            regionId: hit.mask.id,
+            ...(hit.mask.name ? { regionName: hit.mask.name } : {}),
+            changedPercent: Math.round(hit.percent * 100) / 100,
+            region: hit.box,
+            source: 'ffmpeg',
           };
 
-          console.log(`[Motion] Detected! Confidence: ${event.confidence.toFixed(1)}%`);
+          console.log(`[Motion] Detected in ${hit.mask.name || hit.mask.id}! Confidence: ${event.confidence.toFixed(1)}%`);
           this.emit('motion', event);
         }
       }
@@ -190,15 +479,35 @@ class MotionDetector extends EventEmitter {
     }
   }
 
+  private loadRegions(): MotionRegion[] {
+    try {
+      if (existsSync(this.regionsFile)) {
+        return normalizeRegions(JSON.parse(readFileSync(this.regionsFile, 'utf-8')));
+      }
+    } catch (err) {
+      console.warn('[Motion] Failed to load regions:', (err as Error).message);
+    }
+    return [];
+  }
+
+  private saveRegions(): void {
+    try {
+      mkdirSync(dirname(this.regionsFile), { recursive: true });
+      writeFileSync(this.regionsFile, JSON.stringify(this.config.regions || [], null, 2));
+    } catch (err) {
+      console.warn('[Motion] Failed to save regions:', (err as Error).message);
+    }
+  }
+
   stop(): void {
     this.running = false;
     this.config.enabled = false;
-    
+
     if (this.ffmpegProcess) {
       this.ffmpegProcess.kill('SIGTERM');
       this.ffmpegProcess = null;
     }
-    
+
     console.log('[Motion] Detection stopped');
   }
 
@@ -0,0 +1,409 @@
+/**
+ * ONVIF Events Module
+ *
+ * Subscribes to a camera's ONVIF Events service (PullPoint) and turns its
+ * on-camera analytics - cell motion, line crossing, field intrusion and
+ * tamper - into the same MotionEvents the frame-differencing detector emits.
+ * Camera-side detection costs the Pi nothing, so it can replace motion.ts
+ * or run next to it (MOTION_SOURCE=onvif|both).
+ *
+ * The subscription is renewed while running and recreated with backoff
+ * when the camera drops it or goes offline.
+ */
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { config } from './config.js';
+import { soapRequest } from './onvif-soap.js';
+import type { MotionEvent } from './motion.js';
+
+export type OnvifEventKind = 'motion' | 'line' | 'intrusion' | 'tamper' | 'other';
+
+export interface OnvifEvent {
+  topic: string;                    // e.g. tns1:RuleEngine/CellMotionDetector/Motion
+  kind: OnvifEventKind;
+  time: string;                     // UtcTime of the message
+  operation: string;                // Initialized | Changed | Deleted
+  source: Record<string, string>;   // Source SimpleItems (VideoSourceToken, Rule, ...)
+  data: Record<string, string>;     // Data SimpleItems (IsMotion, State, ...)
+  active: boolean | null;           // On/off state, null for one-shot events (line crossed)
+}
+
+export interface OnvifEventSourceOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  types: string[];                  // Event kinds that become MotionEvents
+  cooldownMs: number;               // Minimum time between MotionEvents
+  pullTimeoutSeconds: number;       // How long each PullMessages call waits for events
+  label: string;                    // Log prefix
+}
+
+export interface OnvifEventStatus {
+  running: boolean;
+  connected: boolean;
+  subscription: string | null;
+  types: string[];
+  eventCount: number;
+  triggerCount: number;
+  lastEventAt: string | null;
+  lastError: string | null;
+}
+
+const SUBSCRIPTION_SECONDS = 60;
+const RENEW_BEFORE_SECONDS = 20;
+const MESSAGE_LIMIT = 32;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 60000;
+const MAX_RECENT_EVENTS = 100;
+
+const ACTIONS = {
+  getCapabilities: 'http://www.onvif.org/ver10/device/wsdl/GetCapabilities',
+  subscribe: 'http://www.onvif.org/ver10/events/wsdl/EventPortType/CreatePullPointSubscriptionRequest',
+  pull: 'http://www.onvif.org/ver10/events/wsdl/PullPointSubscription/PullMessagesRequest',
+  renew: 'http://docs.oasis-open.org/wsn/bw-2/SubscriptionManager/RenewRequest',
+  unsubscribe: 'http://docs.oasis-open.org/wsn/bw-2/SubscriptionManager/UnsubscribeRequest',
+};
+
+// Checked in order - "Motion" last, since tamper topics can mention it too
+const TOPIC_KINDS: [RegExp, OnvifEventKind][] = [
+  [/LineDetector|LineCross|CrossLine|Tripwire/i, 'line'],
+  [/FieldDetector|Intrusion|ObjectsInside|RegionEntrance/i, 'intrusion'],
+  [/Tamper|GlobalSceneChange|ImageTooBlurry|ImageTooDark|ImageTooBright|SignalLoss/i, 'tamper'],
+  [/Motion/i, 'motion'],
+];
+
+export function classifyTopic(topic: string): OnvifEventKind {
+  return TOPIC_KINDS.find(([pattern]) => pattern.test(topic))?.[1] ?? 'other';
+}
+
+/**
+ * Parse the NotificationMessages of a PullMessages response
+ */
+export function parseNotifications(xml: string): OnvifEvent[] {
+  const events: OnvifEvent[] = [];
+  const blocks = xml.match(/<([\w-]+:)?NotificationMessage\b[\s\S]*?<\/([\w-]+:)?NotificationMessage>/g) || [];
+
+  for (const block of blocks) {
+    const topic = decodeXml(block.match(/<([\w-]+:)?Topic\b[^>]*>([^<]*)</)?.[2]?.trim() || '');
+    const message = block.match(/<([\w-]+:)?Message\b[^>]*UtcTime="[^"]*"[^>]*>/)?.[0] || '';
+    const utcTime = message.match(/UtcTime="([^"]*)"/)?.[1];
+    const time = utcTime && !isNaN(Date.parse(utcTime)) ? new Date(utcTime).toISOString() : new Date().toISOString();
+    const data = simpleItems(block.match(/<([\w-]+:)?Data\b[^>]*>([\s\S]*?)<\/([\w-]+:)?Data>/)?.[2] || '');
+    const state = Object.values(data).find(v => /^(true|false)$/i.test(v));
+
+    events.push({
+      topic,
+      kind: classifyTopic(topic),
+      time,
+      operation: message.match(/PropertyOperation="([^"]*)"/)?.[1] || 'Changed',
+      source: simpleItems(block.match(/<([\w-]+:)?Source\b[^>]*>([\s\S]*?)<\/([\w-]+:)?Source>/)?.[2] || ''),
+      data,
+      active: state === undefined ? null : state.toLowerCase() === 'true',
+    });
+  }
+  return events;
+}
+
+function simpleItems(xml: string): Record<string, string> {
+  const items: Record<string, string> = {};
+  for (const match of xml.matchAll(/<([\w-]+:)?SimpleItem\s([^>]*?)\/?>/g)) {
+    const attrs = match[2];
+    const name = attrs.match(/Name="([^"]*)"/)?.[1];
+    const value = attrs.match(/Value="([^"]*)"/)?.[1];
+    if (name !== undefined && value !== undefined) {
+      items[decodeXml(name)] = decodeXml(value);
+    }
+  }
+  return items;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export class OnvifEventSource extends EventEmitter {
+  private options: OnvifEventSourceOptions;
+  private running = false;
+  private subscription: string | null = null;
+  private referenceParameters = '';
+  private renewAt = 0;
+  private activeStates: Set<string> = new Set();
+  private inMotion = false;
+  private lastTriggerAt = 0;
+  private recent: OnvifEvent[] = [];
+  private eventCount = 0;
+  private triggerCount = 0;
+  private lastEventAt: string | null = null;
+  private lastError: string | null = null;
+  private waitTimer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(options: Partial<OnvifEventSourceOptions> = {}) {
+    super();
+    this.options = {
+      host: config.onvif.host,
+      port: config.onvif.port,
+      username: config.onvif.username,
+      password: config.onvif.password,
+      types: config.onvifEvents.types,
+      cooldownMs: parseInt(process.env.MOTION_COOLDOWN_MS || '5000', 10),
+      pullTimeoutSeconds: config.onvifEvents.pullTimeoutSeconds,
+      label: 'OnvifEvents',
+      ...options,
+    };
+  }
+
+  /**
+   * Subscribe and keep pulling events until stop()
+   */
+  start(): void {
+    if (this.running) return;
+    if (!this.options.host) {
+      console.warn(`[${this.options.label}] No ONVIF host configured`);
+      return;
+    }
+
+    this.running = true;
+    console.log(`[${this.options.label}] Listening for ${this.options.types.join(', ')} events from ${this.options.host}:${this.options.port}`);
+    this.run().catch(err => {
+      console.error(`[${this.options.label}] Event loop failed:`, (err as Error).message);
+      this.running = false;
+    });
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.wake?.();
+
+    if (this.subscription) {
+      // The envelope is built before the subscription is forgotten
+      this.call(this.subscription, ACTIONS.unsubscribe, '<wsnt:Unsubscribe/>').catch(() => {});
+      this.subscription = null;
+    }
+    console.log(`[${this.options.label}] Stopped`);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStatus(): OnvifEventStatus {
+    return {
+      running: this.running,
+      connected: this.subscription !== null,
+      subscription: this.subscription,
+      types: [...this.options.types],
+      eventCount: this.eventCount,
+      triggerCount: this.triggerCount,
+      lastEventAt: this.lastEventAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Most recent camera events (all kinds), newest first
+   */
+  getRecentEvents(limit: number = 50): OnvifEvent[] {
+    return this.recent.slice(-limit).reverse();
+  }
+
+  private async run(): Promise<void> {
+    let retryMs = RETRY_BASE_MS;
+
+    while (this.running) {
+      try {
+        await this.subscribe();
+        retryMs = RETRY_BASE_MS;
+
+        while (this.running && this.subscription) {
+          if (Date.now() >= this.renewAt) {
+            await this.renew();
+          }
+          await this.pull();
+        }
+      } catch (err) {
+        if (!this.running) break;
+        this.subscription = null;
+        this.lastError = (err as Error).message;
+        console.warn(`[${this.options.label}] ${this.lastError} - retrying in ${retryMs / 1000}s`);
+        await this.sleep(retryMs);
+        retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+      }
+    }
+  }
+
+  private async subscribe(): Promise<void> {
+    const serviceUrl = await this.getEventServiceUrl();
+    const response = await this.call(serviceUrl, ACTIONS.subscribe, `
+      <tev:CreatePullPointSubscription>
+        <tev:InitialTerminationTime>PT${SUBSCRIPTION_SECONDS}S</tev:InitialTerminationTime>
+      </tev:CreatePullPointSubscription>`);
+
+    const reference = response.match(/<([\w-]+:)?SubscriptionReference\b[^>]*>([\s\S]*?)<\/([\w-]+:)?SubscriptionReference>/)?.[2] || '';
+    const address = reference.match(/<([\w-]+:)?Address\b[^>]*>([^<]+)</)?.[2]?.trim();
+    if (!address) {
+      throw new Error('Camera returned no PullPoint subscription address');
+    }
+
+    // Some cameras identify the subscription by reference parameters instead of the URL
+    this.referenceParameters = reference.match(/<([\w-]+:)?ReferenceParameters\b[^>]*>([\s\S]*?)<\/([\w-]+:)?ReferenceParameters>/)?.[2] || '';
+    this.subscription = this.onCameraHost(decodeXml(address));
+    // A new subscription starts with Initialized messages carrying the current states
+    this.activeStates.clear();
+    this.inMotion = false;
+    this.renewAt = Date.now() + (SUBSCRIPTION_SECONDS - RENEW_BEFORE_SECONDS) * 1000;
+    this.lastError = null;
+    console.log(`[${this.options.label}] Subscribed (${this.subscription})`);
+  }
+
+  private async renew(): Promise<void> {
+    await this.call(this.subscription!, ACTIONS.renew, `
+      <wsnt:Renew>
+        <wsnt:TerminationTime>PT${SUBSCRIPTION_SECONDS}S</wsnt:TerminationTime>
+      </wsnt:Renew>`);
+    this.renewAt = Date.now() + (SUBSCRIPTION_SECONDS - RENEW_BEFORE_SECONDS) * 1000;
+  }
+
+  private async pull(): Promise<void> {
+    const response = await this.call(this.subscription!, ACTIONS.pull, `
+      <tev:PullMessages>
+        <tev:Timeout>PT${this.options.pullTimeoutSeconds}S</tev:Timeout>
+        <tev:MessageLimit>${MESSAGE_LIMIT}</tev:MessageLimit>
+      </tev:PullMessages>`, (this.options.pullTimeoutSeconds + 10) * 1000);
+
+    if (!this.running) return;
+    for (const event of parseNotifications(response)) {
+      this.handleEvent(event);
+    }
+  }
+
+  /**
+   * Turn on/off states into motion/motionEnd, with the motion cooldown
+   */
+  private handleEvent(event: OnvifEvent): void {
+    this.eventCount++;
+    this.lastEventAt = event.time;
+    this.recent.push(event);
+    if (this.recent.length > MAX_RECENT_EVENTS) {
+      this.recent.shift();
+    }
+    if (config.debug) {
+      console.log(`[${this.options.label}] ${event.topic} ${JSON.stringify(event.data)}`);
+    }
+    this.emit('event', event);
+
+    if (!this.options.types.includes(event.kind)) return;
+
+    const key = `${event.topic}|${Object.entries(event.source).map(([k, v]) => `${k}=${v}`).join(',')}`;
+    if (event.active === false) {
+      this.activeStates.delete(key);
+      if (this.inMotion && this.activeStates.size === 0) {
+        this.inMotion = false;
+        this.emit('motionEnd', { timestamp: new Date(event.time) });
+      }
+      return;
+    }
+    if (event.active === true) {
+      // Only the rising edge triggers
+      if (this.activeStates.has(key)) return;
+      this.activeStates.add(key);
+      this.inMotion = true;
+    }
+
+    const now = Date.now();
+    if (now - this.lastTriggerAt < this.options.cooldownMs) return;
+    this.lastTriggerAt = now;
+    this.triggerCount++;
+    this.emit('motion', this.toMotionEvent(event));
+  }
+
+  private toMotionEvent(event: OnvifEvent): MotionEvent {
+    const rule = event.source.Rule || event.source.RuleName;
+    return {
+      timestamp: new Date(event.time),
+      confidence: 100,
+      regionId: `onvif:${rule || event.kind}`,
+      regionName: rule ? `${rule} (${event.kind})` : `camera ${event.kind}`,
+      source: 'onvif',
+      eventType: event.topic,
+    };
+  }
+
+  private async getEventServiceUrl(): Promise<string> {
+    const { host, port } = this.options;
+    const fallback = `http://${host}:${port}/onvif/event_service`;
+    try {
+      const response = await this.call(`http://${host}:${port}/onvif/device_service`, ACTIONS.getCapabilities, `
+        <tds:GetCapabilities>
+          <tds:Category>Events</tds:Category>
+        </tds:GetCapabilities>`);
+      const xaddr = response.match(/<([\w-]+:)?Events\b[^>]*>[\s\S]*?<([\w-]+:)?XAddr>([^<]+)</)?.[3]?.trim();
+      return xaddr ? this.onCameraHost(xaddr) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * Cameras often report their own (possibly NATed) address - keep the path, use ours
+   */
+  private onCameraHost(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hostname = this.options.host;
+      parsed.port = String(this.options.port);
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = () => {
+        if (this.waitTimer) clearTimeout(this.waitTimer);
+        this.waitTimer = null;
+        this.wake = null;
+        resolve();
+      };
+      this.waitTimer = setTimeout(() => this.wake?.(), ms);
+    });
+  }
+
+  private call(url: string, action: string, body: string, timeout = 10000): Promise<string> {
+    // Subscription calls are addressed with WS-Addressing headers
+    const subscriptionCall = url === this.subscription;
+    const headers = `
+    <wsa:Action>${action}</wsa:Action>
+    <wsa:MessageID>urn:uuid:${crypto.randomUUID()}</wsa:MessageID>
+    <wsa:To>${url}</wsa:To>${subscriptionCall ? this.referenceParameters : ''}
+  `;
+
+    return soapRequest(url, body, {
+      username: this.options.username,
+      password: this.options.password,
+      action,
+      headers,
+      label: 'Event',
+      timeout,
+    });
+  }
+}
+
+// Singleton instance (the default camera's event source)
+let eventSource: OnvifEventSource | null = null;
+
+export function getOnvifEventSource(options?: Partial<OnvifEventSourceOptions>): OnvifEventSource {
+  if (!eventSource) {
+    eventSource = new OnvifEventSource(options);
+  }
+  return eventSource;
+}
@@ -0,0 +1,633 @@
+/**
+ * ONVIF Imaging Module
+ *
+ * Tunes the camera itself rather than the ffmpeg output: the Media
+ * service's video encoder (resolution, frame rate, GOP length, bitrate)
+ * and the Imaging service (exposure, IR cut filter / day-night, focus,
+ * wide dynamic range, picture levels).
+ */
+
+import { soapRequest } from './onvif-soap.js';
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export interface EncoderConfig {
+  token: string;
+  name: string;
+  encoding: string;            // H264, H265, JPEG, ...
+  resolution: string;          // e.g. "1920x1080"
+  fps: number;                 // FrameRateLimit
+  govLength: number | null;    // GOP length (H264 only)
+  bitrate: number;             // kbps
+  quality: number;
+}
+
+export interface EncoderOptions {
+  resolutions: string[];
+  fps: ValueRange | null;
+  govLength: ValueRange | null;
+  bitrate: ValueRange | null;
+  quality: ValueRange | null;
+}
+
+export interface EncoderUpdate {
+  resolution?: string;
+  fps?: number;
+  govLength?: number;
+  bitrate?: number;
+  quality?: number;
+}
+
+export type IrCutFilterMode = 'ON' | 'OFF' | 'AUTO';
+export type DayNightMode = 'day' | 'night' | 'auto';
+
+export interface ImagingSettings {
+  brightness?: number;
+  colorSaturation?: number;
+  contrast?: number;
+  sharpness?: number;
+  exposure?: {
+    mode: 'AUTO' | 'MANUAL';
+    minExposureTime?: number;  // microseconds
+    maxExposureTime?: number;
+    minGain?: number;
+    maxGain?: number;
+    exposureTime?: number;     // MANUAL only
+    gain?: number;             // MANUAL only
+  };
+  focus?: {
+    mode: 'AUTO' | 'MANUAL';
+    defaultSpeed?: number;
+    nearLimit?: number;
+    farLimit?: number;
+  };
+  irCutFilter?: IrCutFilterMode;  // ON = day (filter in), OFF = night, AUTO = camera decides
+  wideDynamicRange?: {
+    mode: 'ON' | 'OFF';
+    level?: number;
+  };
+}
+
+export interface ImagingOptions {
+  brightness: ValueRange | null;
+  colorSaturation: ValueRange | null;
+  contrast: ValueRange | null;
+  sharpness: ValueRange | null;
+  exposureModes: string[];
+  exposureTime: ValueRange | null;
+  gain: ValueRange | null;
+  focusModes: string[];
+  focusSpeed: ValueRange | null;
+  focusNearLimit: ValueRange | null;
+  focusFarLimit: ValueRange | null;
+  irCutFilterModes: string[];
+  wideDynamicRangeModes: string[];
+  wideDynamicRangeLevel: ValueRange | null;
+}
+
+// Everything SetVideoEncoderConfiguration needs to send back
+interface EncoderState extends EncoderConfig {
+  useCount: string;
+  encodingInterval: string;
+  h264Profile: string | null;
+  multicast: { type: string; address: string; port: string; ttl: string; autoStart: string };
+  sessionTimeout: string;
+}
+
+const DAY_NIGHT_FILTER: Record<DayNightMode, IrCutFilterMode> = {
+  day: 'ON',
+  night: 'OFF',
+  auto: 'AUTO',
+};
+
+const ACTIONS = {
+  getCapabilities: 'http://www.onvif.org/ver10/device/wsdl/GetCapabilities',
+  getProfiles: 'http://www.onvif.org/ver10/media/wsdl/GetProfiles',
+  getProfile: 'http://www.onvif.org/ver10/media/wsdl/GetProfile',
+  getEncoder: 'http://www.onvif.org/ver10/media/wsdl/GetVideoEncoderConfiguration',
+  getEncoderOptions: 'http://www.onvif.org/ver10/media/wsdl/GetVideoEncoderConfigurationOptions',
+  setEncoder: 'http://www.onvif.org/ver10/media/wsdl/SetVideoEncoderConfiguration',
+  getImaging: 'http://www.onvif.org/ver20/imaging/wsdl/GetImagingSettings',
+  getImagingOptions: 'http://www.onvif.org/ver20/imaging/wsdl/GetOptions',
+  setImaging: 'http://www.onvif.org/ver20/imaging/wsdl/SetImagingSettings',
+  move: 'http://www.onvif.org/ver20/imaging/wsdl/Move',
+  stop: 'http://www.onvif.org/ver20/imaging/wsdl/Stop',
+};
+
+function tagBlock(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<([\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</([\\w-]+:)?${tag}>`));
+  return match ? match[2] : null;
+}
+
+function tagValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<([\\w-]+:)?${tag}\\b[^>]*>([^<]*)</`));
+  return match ? match[2].trim() : null;
+}
+
+function tagValues(xml: string, tag: string): string[] {
+  const values: string[] = [];
+  for (const match of xml.matchAll(new RegExp(`<([\\w-]+:)?${tag}\\b[^>]*>([^<]*)</`, 'g'))) {
+    values.push(match[2].trim());
+  }
+  return values;
+}
+
+function numberValue(xml: string, tag: string): number | undefined {
+  const value = tagValue(xml, tag);
+  return value === null || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+}
+
+function rangeOf(xml: string | null, tag: string): ValueRange | null {
+  const block = xml && tagBlock(xml, tag);
+  if (!block) return null;
+  const min = numberValue(block, 'Min');
+  const max = numberValue(block, 'Max');
+  return min === undefined || max === undefined ? null : { min, max };
+}
+
+function clamp(value: number, range: ValueRange | null): number {
+  return range ? Math.max(range.min, Math.min(range.max, value)) : value;
+}
+
+export class OnvifImagingController {
+  private host: string;
+  private port: number;
+  private username?: string;
+  private password?: string;
+  private profileToken?: string;
+  private services: { media: string; imaging: string } | null = null;
+  private tokens: { encoder: string; videoSource: string } | null = null;
+  private encoderOptions: EncoderOptions | null = null;
+
+  constructor(host: string, port: number, username?: string, password?: string, profileToken?: string) {
+    this.host = host;
+    this.port = port;
+    this.username = username;
+    this.password = password;
+    this.profileToken = profileToken;
+  }
+
+  /**
+   * Current video encoder configuration of the streamed profile
+   */
+  async getEncoder(): Promise<EncoderConfig> {
+    const { encoder } = await this.getTokens();
+    const state = await this.readEncoder(encoder);
+    return {
+      token: state.token,
+      name: state.name,
+      encoding: state.encoding,
+      resolution: state.resolution,
+      fps: state.fps,
+      govLength: state.govLength,
+      bitrate: state.bitrate,
+      quality: state.quality,
+    };
+  }
+
+  async getEncoderOptions(): Promise<EncoderOptions> {
+    if (this.encoderOptions) return this.encoderOptions;
+
+    const { media } = await this.getServices();
+    const { encoder } = await this.getTokens();
+    const response = await this.call(media, ACTIONS.getEncoderOptions, `
+      <trt:GetVideoEncoderConfigurationOptions>
+        <trt:ConfigurationToken>${encoder}</trt:ConfigurationToken>
+        ${this.profileToken ? `<trt:ProfileToken>${this.profileToken}</trt:ProfileToken>` : ''}
+      </trt:GetVideoEncoderConfigurationOptions>`);
+
+    // H264 options carry the ranges that matter; fall back to JPEG-only cameras
+    const codec = tagBlock(response, 'H264') || tagBlock(response, 'JPEG') || '';
+    const resolutions: string[] = [];
+    for (const block of codec.match(/<([\w-]+:)?ResolutionsAvailable\b[\s\S]*?<\/([\w-]+:)?ResolutionsAvailable>/g) || []) {
+      const width = numberValue(block, 'Width');
+      const height = numberValue(block, 'Height');
+      if (width && height) resolutions.push(`${width}x${height}`);
+    }
+    const bitrateBlock = tagBlock(tagBlock(response, 'Extension') || '', 'H264') || '';
+
+    this.encoderOptions = {
+      resolutions,
+      fps: rangeOf(codec, 'FrameRateRange'),
+      govLength: rangeOf(codec, 'GovLengthRange'),
+      bitrate: rangeOf(bitrateBlock, 'BitrateRange'),
+      quality: rangeOf(response, 'QualityRange'),
+    };
+    return this.encoderOptions;
+  }
+
+  /**
+   * Push encoder changes to the camera (persisted on the camera)
+   */
+  async setEncoder(update: EncoderUpdate): Promise<EncoderConfig> {
+    const { encoder } = await this.getTokens();
+    const state = await this.readEncoder(encoder);
+    const options = await this.getEncoderOptions().catch(() => null);
+
+    if (update.resolution !== undefined) {
+      if (!/^\d+x\d+$/.test(update.resolution)) {
+        throw new Error(`Invalid resolution: ${update.resolution}`);
+      }
+      if (options?.resolutions.length && !options.resolutions.includes(update.resolution)) {
+        throw new Error(`Resolution ${update.resolution} not supported (${options.resolutions.join(', ')})`);
+      }
+      state.resolution = update.resolution;
+    }
+    if (update.fps !== undefined) state.fps = Math.round(clamp(update.fps, options?.fps ?? null));
+    if (update.bitrate !== undefined) state.bitrate = Math.round(clamp(update.bitrate, options?.bitrate ?? null));
+    if (update.quality !== undefined) state.quality = clamp(update.quality, options?.quality ?? null);
+    if (update.govLength !== undefined) {
+      if (state.govLength === null) {
+        throw new Error(`GOP length only applies to H264 (encoder is ${state.encoding})`);
+      }
+      state.govLength = Math.round(clamp(update.govLength, options?.govLength ?? null));
+    }
+
+    const { media } = await this.getServices();
+    const [width, height] = state.resolution.split('x');
+    const h264 = state.govLength !== null ? `
+          <tt:H264>
+            <tt:GovLength>${state.govLength}</tt:GovLength>
+            <tt:H264Profile>${state.h264Profile || 'Main'}</tt:H264Profile>
+          </tt:H264>` : '';
+
+    await this.call(media, ACTIONS.setEncoder, `
+      <trt:SetVideoEncoderConfiguration>
+        <trt:Configuration token="${state.token}">
+          <tt:Name>${state.name}</tt:Name>
+          <tt:UseCount>${state.useCount}</tt:UseCount>
+          <tt:Encoding>${state.encoding}</tt:Encoding>
+          <tt:Resolution>
+            <tt:Width>${width}</tt:Width>
+            <tt:Height>${height}</tt:Height>
+          </tt:Resolution>
+          <tt:Quality>${state.quality}</tt:Quality>
+          <tt:RateControl>
+            <tt:FrameRateLimit>${state.fps}</tt:FrameRateLimit>
+            <tt:EncodingInterval>${state.encodingInterval}</tt:EncodingInterval>
+            <tt:BitrateLimit>${state.bitrate}</tt:BitrateLimit>
+          </tt:RateControl>${h264}
+          <tt:Multicast>
+            <tt:Address>
+              <tt:Type>${state.multicast.type}</tt:Type>
+              <tt:IPv4Address>${state.multicast.address}</tt:IPv4Address>
+            </tt:Address>
+            <tt:Port>${state.multicast.port}</tt:Port>
+            <tt:TTL>${state.multicast.ttl}</tt:TTL>
+            <tt:AutoStart>${state.multicast.autoStart}</tt:AutoStart>
+          </tt:Multicast>
+          <tt:SessionTimeout>${state.sessionTimeout}</tt:SessionTimeout>
+        </trt:Configuration>
+        <trt:ForcePersistence>true</trt:ForcePersistence>
+      </trt:SetVideoEncoderConfiguration>`);
+
+    console.log(`[Imaging] Encoder set: ${state.resolution} @ ${state.fps}fps, ${state.bitrate}kbps${state.govLength !== null ? `, GOP ${state.govLength}` : ''}`);
+    return this.getEncoder();
+  }
+
+  /**
+   * Current imaging settings of the profile's video source
+   */
+  async getImaging(): Promise<ImagingSettings> {
+    const { imaging } = await this.getServices();
+    const { videoSource } = await this.getTokens();
+    const response = await this.call(imaging, ACTIONS.getImaging, `
+      <timg:GetImagingSettings>
+        <timg:VideoSourceToken>${videoSource}</timg:VideoSourceToken>
+      </timg:GetImagingSettings>`);
+
+    const settings = tagBlock(response, 'ImagingSettings') || response;
+    const result: ImagingSettings = {
+      brightness: numberValue(settings, 'Brightness'),
+      colorSaturation: numberValue(settings, 'ColorSaturation'),
+      contrast: numberValue(settings, 'Contrast'),
+      sharpness: numberValue(settings, 'Sharpness'),
+    };
+
+    const exposure = tagBlock(settings, 'Exposure');
+    if (exposure) {
+      result.exposure = {
+        mode: tagValue(exposure, 'Mode') === 'MANUAL' ? 'MANUAL' : 'AUTO',
+        minExposureTime: numberValue(exposure, 'MinExposureTime'),
+        maxExposureTime: numberValue(exposure, 'MaxExposureTime'),
+        minGain: numberValue(exposure, 'MinGain'),
+        maxGain: numberValue(exposure, 'MaxGain'),
+        exposureTime: numberValue(exposure, 'ExposureTime'),
+        gain: numberValue(exposure, 'Gain'),
+      };
+    }
+
+    const focus = tagBlock(settings, 'Focus');
+    if (focus) {
+      result.focus = {
+        mode: tagValue(focus, 'AutoFocusMode') === 'MANUAL' ? 'MANUAL' : 'AUTO',
+        defaultSpeed: numberValue(focus, 'DefaultSpeed'),
+        nearLimit: numberValue(focus, 'NearLimit'),
+        farLimit: numberValue(focus, 'FarLimit'),
+      };
+    }
+
+    const irCut = tagValue(settings, 'IrCutFilter');
+    if (irCut === 'ON' || irCut === 'OFF' || irCut === 'AUTO') {
+      result.irCutFilter = irCut;
+    }
+
+    const wdr = tagBlock(settings, 'WideDynamicRange');
+    if (wdr) {
+      result.wideDynamicRange = {
+        mode: tagValue(wdr, 'Mode') === 'ON' ? 'ON' : 'OFF',
+        level: numberValue(wdr, 'Level'),
+      };
+    }
+    return result;
+  }
+
+  async getImagingOptions(): Promise<ImagingOptions> {
+    const { imaging } = await this.getServices();
+    const { videoSource } = await this.getTokens();
+    const response = await this.call(imaging, ACTIONS.getImagingOptions, `
+      <timg:GetOptions>
+        <timg:VideoSourceToken>${videoSource}</timg:VideoSourceToken>
+      </timg:GetOptions>`);
+
+    const options = tagBlock(response, 'ImagingOptions') || response;
+    const exposure = tagBlock(options, 'Exposure');
+    const focus = tagBlock(options, 'Focus');
+    const wdr = tagBlock(options, 'WideDynamicRange');
+    return {
+      brightness: rangeOf(options, 'Brightness'),
+      colorSaturation: rangeOf(options, 'ColorSaturation'),
+      contrast: rangeOf(options, 'Contrast'),
+      sharpness: rangeOf(options, 'Sharpness'),
+      exposureModes: exposure ? tagValues(exposure, 'Mode') : [],
+      exposureTime: rangeOf(exposure, 'ExposureTime'),
+      gain: rangeOf(exposure, 'Gain'),
+      focusModes: tagValues(focus || '', 'AutoFocusModes'),
+      focusSpeed: rangeOf(focus, 'DefaultSpeed'),
+      focusNearLimit: rangeOf(focus, 'NearLimit'),
+      focusFarLimit: rangeOf(focus, 'FarLimit'),
+      irCutFilterModes: tagValues(options, 'IrCutFilterModes'),
+      wideDynamicRangeModes: wdr ? tagValues(wdr, 'Mode') : [],
+      wideDynamicRangeLevel: rangeOf(wdr, 'Level'),
+    };
+  }
+
+  /**
+   * Push imaging changes - only the given settings are sent
+   */
+  async setImaging(update: ImagingSettings): Promise<ImagingSettings> {
+    const { imaging } = await this.getServices();
+    const { videoSource } = await this.getTokens();
+
+    const options = await this.getImagingOptions().catch(() => null);
+
+    // Only finite numbers reach the XML, clamped to what the camera accepts
+    const checked = (name: string, value: number | undefined, range: ValueRange | null | undefined) => {
+      if (value === undefined) return undefined;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${name} must be a number`);
+      }
+      return clamp(value, range ?? null);
+    };
+
+    // ImagingSettings20 elements must appear in schema order
+    const parts: string[] = [];
+    const level = (tag: string, value?: number) => {
+      if (value !== undefined) parts.push(`<tt:${tag}>${value}</tt:${tag}>`);
+    };
+    const optional = (tag: string, value?: number) =>
+      value !== undefined ? `<tt:${tag}>${value}</tt:${tag}>` : '';
+
+    level('Brightness', checked('brightness', update.brightness, options?.brightness));
+    level('ColorSaturation', checked('colorSaturation', update.colorSaturation, options?.colorSaturation));
+    level('Contrast', checked('contrast', update.contrast, options?.contrast));
+    if (update.exposure) {
+      const e = update.exposure;
+      const time = options?.exposureTime;
+      const gain = options?.gain;
+      parts.push(`<tt:Exposure>
+            <tt:Mode>${e.mode}</tt:Mode>
+            ${optional('MinExposureTime', checked('exposure.minExposureTime', e.minExposureTime, time))}${optional('MaxExposureTime', checked('exposure.maxExposureTime', e.maxExposureTime, time))}
+            ${optional('MinGain', checked('exposure.minGain', e.minGain, gain))}${optional('MaxGain', checked('exposure.maxGain', e.maxGain, gain))}
+            ${optional('ExposureTime', checked('exposure.exposureTime', e.exposureTime, time))}${optional('Gain', checked('exposure.gain', e.gain, gain))}
+          </tt:Exposure>`);
+    }
+    if (update.focus) {
+      const f = update.focus;
+      parts.push(`<tt:Focus>
+            <tt:AutoFocusMode>${f.mode}</tt:AutoFocusMode>
+            ${optional('DefaultSpeed', checked('focus.defaultSpeed', f.defaultSpeed, options?.focusSpeed))}${optional('NearLimit', checked('focus.nearLimit', f.nearLimit, options?.focusNearLimit))}${optional('FarLimit', checked('focus.farLimit', f.farLimit, options?.focusFarLimit))}
+          </tt:Focus>`);
+    }
+    if (update.irCutFilter) {
+      parts.push(`<tt:IrCutFilter>${update.irCutFilter}</tt:IrCutFilter>`);
+    }
+    level('Sharpness', checked('sharpness', update.sharpness, options?.sharpness));
+    if (update.wideDynamicRange) {
+      const w = update.wideDynamicRange;
+      parts.push(`<tt:WideDynamicRange>
+            <tt:Mode>${w.mode}</tt:Mode>
+            ${optional('Level', checked('wideDynamicRange.level', w.level, options?.wideDynamicRangeLevel))}
+          </tt:WideDynamicRange>`);
+    }
+
+    if (parts.length === 0) {
+      return this.getImaging();
+    }
+
+    await this.call(imaging, ACTIONS.setImaging, `
+      <timg:SetImagingSettings>
+        <timg:VideoSourceToken>${videoSource}</timg:VideoSourceToken>
+        <timg:ImagingSettings>
+          ${parts.join('\n          ')}
+        </timg:ImagingSettings>
+        <timg:ForcePersistence>true</timg:ForcePersistence>
+      </timg:SetImagingSettings>`);
+
+    console.log(`[Imaging] Imaging settings updated: ${Object.keys(update).join(', ')}`);
+    return this.getImaging();
+  }
+
+  /**
+   * Day = IR cut filter in (color), night = filter out (IR, mono), auto = camera's light sensor
+   */
+  async setDayNight(mode: DayNightMode): Promise<ImagingSettings> {
+    return this.setImaging({ irCutFilter: DAY_NIGHT_FILTER[mode] });
+  }
+
+  /**
+   * Drive focus continuously (-1 to 1, negative = near) until stopFocus()
+   */
+  async moveFocus(speed: number): Promise<boolean> {
+    try {
+      const { imaging } = await this.getServices();
+      const { videoSource } = await this.getTokens();
+      await this.call(imaging, ACTIONS.move, `
+        <timg:Move>
+          <timg:VideoSourceToken>${videoSource}</timg:VideoSourceToken>
+          <timg:Focus>
+            <tt:Continuous>
+              <tt:Speed>${Math.max(-1, Math.min(1, speed))}</tt:Speed>
+            </tt:Continuous>
+          </timg:Focus>
+        </timg:Move>`);
+      return true;
+    } catch (err) {
+      console.error(`[Imaging] Focus move failed: ${(err as Error).message}`);
+      return false;
+    }
+  }
+
+  async stopFocus(): Promise<boolean> {
+    try {
+      const { imaging } = await this.getServices();
+      const { videoSource } = await this.getTokens();
+      await this.call(imaging, ACTIONS.stop, `
+        <timg:Stop>
+          <timg:VideoSourceToken>${videoSource}</timg:VideoSourceToken>
+        </timg:Stop>`);
+      return true;
+    } catch (err) {
+      console.error(`[Imaging] Focus stop failed: ${(err as Error).message}`);
+      return false;
+    }
+  }
+
+  private async readEncoder(token: string): Promise<EncoderState> {
+    const { media } = await this.getServices();
+    const response = await this.call(media, ACTIONS.getEncoder, `
+      <trt:GetVideoEncoderConfiguration>
+        <trt:ConfigurationToken>${token}</trt:ConfigurationToken>
+      </trt:GetVideoEncoderConfiguration>`);
+
+    const configuration = tagBlock(response, 'Configuration');
+    if (!configuration) {
+      throw new Error('Camera returned no video encoder configuration');
+    }
+    const resolution = tagBlock(configuration, 'Resolution') || '';
+    const rate = tagBlock(configuration, 'RateControl') || '';
+    const h264 = tagBlock(configuration, 'H264');
+    const multicast = tagBlock(configuration, 'Multicast') || '';
+
+    return {
+      token,
+      name: tagValue(configuration, 'Name') || token,
+      useCount: tagValue(configuration, 'UseCount') || '1',
+      encoding: tagValue(configuration, 'Encoding') || 'H264',
+      resolution: `${numberValue(resolution, 'Width') ?? 0}x${numberValue(resolution, 'Height') ?? 0}`,
+      quality: numberValue(configuration, 'Quality') ?? 0,
+      fps: numberValue(rate, 'FrameRateLimit') ?? 0,
+      encodingInterval: tagValue(rate, 'EncodingInterval') || '1',
+      bitrate: numberValue(rate, 'BitrateLimit') ?? 0,
+      govLength: h264 ? numberValue(h264, 'GovLength') ?? null : null,
+      h264Profile: h264 ? tagValue(h264, 'H264Profile') : null,
+      multicast: {
+        type: tagValue(multicast, 'Type') || 'IPv4',
+        address: tagValue(multicast, 'IPv4Address') || '0.0.0.0',
+        port: tagValue(multicast, 'Port') || '0',
+        ttl: tagValue(multicast, 'TTL') || '0',
+        autoStart: tagValue(multicast, 'AutoStart') || 'false',
+      },
+      sessionTimeout: tagValue(configuration, 'SessionTimeout') || 'PT60S',
+    };
+  }
+
+  /**
+   * Encoder and video source tokens of the profile (the highest resolution one if none configured)
+   */
+  private async getTokens(): Promise<{ encoder: string; videoSource: string }> {
+    if (this.tokens) return this.tokens;
+    const { media } = await this.getServices();
+
+    let profile: string | null = null;
+    if (this.profileToken) {
+      const response = await this.call(media, ACTIONS.getProfile, `
+        <trt:GetProfile>
+          <trt:ProfileToken>${this.profileToken}</trt:ProfileToken>
+        </trt:GetProfile>`);
+      profile = tagBlock(response, 'Profile');
+    } else {
+      const response = await this.call(media, ACTIONS.getProfiles, '<trt:GetProfiles/>');
+      let bestPixels = -1;
+      for (const block of response.match(/<([\w-]+:)?Profiles\b[\s\S]*?<\/([\w-]+:)?Profiles>/g) || []) {
+        const encoder = tagBlock(block, 'VideoEncoderConfiguration');
+        if (!encoder) continue;
+        const resolution = tagBlock(encoder, 'Resolution') || '';
+        const pixels = (numberValue(resolution, 'Width') ?? 0) * (numberValue(resolution, 'Height') ?? 0);
+        if (pixels > bestPixels) {
+          bestPixels = pixels;
+          profile = block;
+          this.profileToken = block.match(/token="([^"]+)"/)?.[1];
+        }
+      }
+    }
+
+    const encoder = profile?.match(/<([\w-]+:)?VideoEncoderConfiguration\b[^>]*token="([^"]+)"/)?.[2];
+    const videoSource = profile && tagValue(tagBlock(profile, 'VideoSourceConfiguration') || '', 'SourceToken');
+    if (!encoder || !videoSource) {
+      throw new Error('Media profile has no video encoder or video source');
+    }
+    this.tokens = { encoder, videoSource };
+    return this.tokens;
+  }
+
+  private async getServices(): Promise<{ media: string; imaging: string }> {
+    if (this.services) return this.services;
+    const base = `http://${this.host}:${this.port}`;
+    const services = { media: `${base}/onvif/media_service`, imaging: `${base}/onvif/imaging_service` };
+
+    try {
+      const response = await this.call(`${base}/onvif/device_service`, ACTIONS.getCapabilities, `
+        <tds:GetCapabilities>
+          <tds:Category>All</tds:Category>
+        </tds:GetCapabilities>`);
+      const media = tagValue(tagBlock(response, 'Media') || '', 'XAddr');
+      const imaging = tagValue(tagBlock(response, 'Imaging') || '', 'XAddr');
+      if (media) services.media = this.onCameraHost(media);
+      if (imaging) services.imaging = this.onCameraHost(imaging);
+    } catch (err) {
+      console.warn(`[Imaging] Could not get service addresses: ${(err as Error).message}`);
+    }
+
+    this.services = services;
+    return services;
+  }
+
+  /**
+   * Cameras often report their own (possibly NATed) address - keep the path, use ours
+   */
+  private onCameraHost(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hostname = this.host;
+      parsed.port = String(this.port);
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  private call(url: string, action: string, body: string, timeout = 10000): Promise<string> {
+    return soapRequest(url, body, {
+      username: this.username,
+      password: this.password,
+      action,
+      label: 'Imaging',
+      timeout,
+    });
+  }
+}
+
+// Factory function
+export function createImagingController(
+  host: string,
+  port: number,
+  username?: string,
+  password?: string,
+  profileToken?: string
+): OnvifImagingController {
+  return new OnvifImagingController(host, port, username, password, profileToken);
+}
@@ -0,0 +1,156 @@
+/**
+ * ONVIF SOAP Module
+ *
+ * The SOAP 1.2 envelope, WS-Security UsernameToken and HTTP POST shared by
+ * the ONVIF modules (device/media, PTZ, events, imaging). Security tokens
+ * are timestamped with the camera's clock, since cameras reject tokens
+ * created too far from their own time.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+// Namespace prefixes available to every request body and header
+const NAMESPACES: Record<string, string> = {
+  soap: 'http://www.w3.org/2003/05/soap-envelope',
+  wsa: 'http://www.w3.org/2005/08/addressing',
+  wsnt: 'http://docs.oasis-open.org/wsn/b-2',
+  tds: 'http://www.onvif.org/ver10/device/wsdl',
+  trt: 'http://www.onvif.org/ver10/media/wsdl',
+  tptz: 'http://www.onvif.org/ver20/ptz/wsdl',
+  timg: 'http://www.onvif.org/ver20/imaging/wsdl',
+  tev: 'http://www.onvif.org/ver10/events/wsdl',
+  tt: 'http://www.onvif.org/ver10/schema',
+};
+
+export interface SoapRequestOptions {
+  username?: string;
+  password?: string;
+  action?: string;         // SOAP action URI, sent in the Content-Type
+  headers?: string;        // Extra SOAP header elements (e.g. WS-Addressing)
+  label?: string;          // Error message prefix, e.g. "PTZ"
+  timeout?: number;
+}
+
+// Time offset to compensate for camera clock drift (in milliseconds)
+// Can be set via ONVIF_TIME_OFFSET env var (in ms) or auto-detected
+let cameraTimeOffset = parseInt(process.env.ONVIF_TIME_OFFSET || '0', 10) || 0;
+
+if (cameraTimeOffset !== 0) {
+  console.log(`[ONVIF] Using manual time offset from env: ${cameraTimeOffset}ms (${(cameraTimeOffset / 1000 / 60).toFixed(1)} minutes)`);
+}
+
+/**
+ * Set the time offset between local time and camera time
+ * Positive = camera is ahead, Negative = camera is behind
+ */
+export function setCameraTimeOffset(offsetMs: number): void {
+  cameraTimeOffset = offsetMs;
+  console.log(`[ONVIF] Camera time offset set to ${offsetMs}ms (${(offsetMs / 1000 / 60).toFixed(1)} minutes)`);
+}
+
+export function getCameraTimeOffset(): number {
+  return cameraTimeOffset;
+}
+
+/**
+ * Get the current time adjusted for camera offset
+ */
+export function getCameraAdjustedTime(): Date {
+  return new Date(Date.now() + cameraTimeOffset);
+}
+
+/**
+ * WS-Security UsernameToken with a password digest
+ */
+function createSecurityHeader(username: string, password: string): string {
+  const nonce = crypto.randomBytes(16);
+  const created = getCameraAdjustedTime().toISOString();
+  const digest = crypto.createHash('sha1')
+    .update(Buffer.concat([nonce, Buffer.from(created), Buffer.from(password)]))
+    .digest('base64');
+
+  return `
+    <wsse:Security xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd"
+                   xmlns:wsu="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">
+      <wsse:UsernameToken>
+        <wsse:Username>${escapeXml(username)}</wsse:Username>
+        <wsse:Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">${digest}</wsse:Password>
+        <wsse:Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">${nonce.toString('base64')}</wsse:Nonce>
+        <wsu:Created>${created}</wsu:Created>
+      </wsse:UsernameToken>
+    </wsse:Security>`;
+}
+
+export function createSoapEnvelope(body: string, options: SoapRequestOptions = {}): string {
+  const security = options.username && options.password
+    ? createSecurityHeader(options.username, options.password)
+    : '';
+  const xmlns = Object.entries(NAMESPACES)
+    .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+    .join('\n               ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<soap:Envelope ${xmlns}>
+  <soap:Header>${security}${options.headers ?? ''}</soap:Header>
+  <soap:Body>${body}</soap:Body>
+</soap:Envelope>`;
+}
+
+/**
+ * POST a SOAP request and resolve with the response XML
+ */
+export function soapRequest(url: string, body: string, options: SoapRequestOptions = {}): Promise<string> {
+  const envelope = createSoapEnvelope(body, options);
+  const parsed = new URL(url);
+  const label = options.label ?? 'SOAP';
+  const contentType = options.action
+    ? `application/soap+xml; charset=utf-8; action="${options.action}"`
+    : 'application/soap+xml; charset=utf-8';
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      hostname: parsed.hostname,
+      port: parsed.port || 80,
+      path: parsed.pathname + parsed.search,
+      method: 'POST',
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': Buffer.byteLength(envelope),
+      },
+      timeout: options.timeout ?? 10000,
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        if (res.statusCode === 200) {
+          resolve(data);
+        } else {
+          const reason = data.match(/<([\w-]+:)?Text\b[^>]*>([^<]*)</)?.[2];
+          reject(new Error(`${label} request failed: ${res.statusCode}${reason ? ` - ${reason}` : ''}`));
+        }
+      });
+    });
+
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error(`${label} request timeout`));
+    });
+
+    req.write(envelope);
+    req.end();
+  });
+}
+
+/**
+ * Escape text for use inside an XML element or attribute
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,8 +1,10 @@
 import { EventEmitter } from 'events';
 import dgram from 'dgram';
-import http from 'http';
 import crypto from 'crypto';
 import { config } from './config.js';
+import { soapRequest, setCameraTimeOffset, getCameraTimeOffset } from './onvif-soap.js';
+
+export { setCameraTimeOffset, getCameraAdjustedTime } from './onvif-soap.js';
 
 // ONVIF WS-Discovery multicast address
 const MULTICAST_ADDRESS = '239.255.255.250';
@@ -55,71 +57,6 @@ function createProbeMessage(): string {
 </soap:Envelope>`;
 }
 
-// Time offset to compensate for camera clock drift (in milliseconds)
-// Can be set via ONVIF_TIME_OFFSET env var (in ms) or auto-detected
-let cameraTimeOffset = parseInt(process.env.ONVIF_TIME_OFFSET || '0', 10) || 0;
-
-if (cameraTimeOffset !== 0) {
-  console.log(`[ONVIF] Using manual time offset from env: ${cameraTimeOffset}ms (${(cameraTimeOffset / 1000 / 60).toFixed(1)} minutes)`);
-}
-
-/**
- * Set the time offset between local time and camera time
- * Positive = camera is ahead, Negative = camera is behind
- */
-export function setCameraTimeOffset(offsetMs: number): void {
-  cameraTimeOffset = offsetMs;
-  console.log(`[ONVIF] Camera time offset set to ${offsetMs}ms (${(offsetMs / 1000 / 60).toFixed(1)} minutes)`);
-}
-
-/**
- * Get the current time adjusted for camera offset
- */
-function getCameraAdjustedTime(): Date {
-  return new Date(Date.now() + cameraTimeOffset);
-}
-
-// SOAP request with ONVIF auth
-function createAuthHeader(username: string, password: string): { header: string; created: string; nonce64: string } {
-  const nonce = crypto.randomBytes(16);
-  // Use camera-adjusted time for WS-Security timestamp
-  const created = getCameraAdjustedTime().toISOString();
-  
-  // WS-Security UsernameToken with password digest
-  const sha1 = crypto.createHash('sha1');
-  sha1.update(Buffer.concat([nonce, Buffer.from(created), Buffer.from(password)]));
-  const digest = sha1.digest('base64');
-  const nonce64 = nonce.toString('base64');
-  
-  return { header: digest, created, nonce64 };
-}
-
-function createSoapEnvelope(body: string, username?: string, password?: string): string {
-  let securityHeader = '';
-  
-  if (username && password) {
-    const auth = createAuthHeader(username, password);
-    securityHeader = `
-    <wsse:Security xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd" 
-                   xmlns:wsu="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">
-      <wsse:UsernameToken>
-        <wsse:Username>${username}</wsse:Username>
-        <wsse:Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">${auth.header}</wsse:Password>
-        <wsse:Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">${auth.nonce64}</wsse:Nonce>
-        <wsu:Created>${auth.created}</wsu:Created>
-      </wsse:UsernameToken>
-    </wsse:Security>`;
-  }
-  
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope"
-               xmlns:trt="http://www.onvif.org/ver10/media/wsdl"
-               xmlns:tt="http://www.onvif.org/ver10/schema">
-  <soap:Header>${securityHeader}</soap:Header>
-  <soap:Body>${body}</soap:Body>
-</soap:Envelope>`;
-}
-
 // Simple XML value extractor (no external deps)
 function extractValue(xml: string, tag: string): string | null {
   // Handle namespaced tags
@@ -151,52 +88,6 @@ function extractAll(xml: string, tag: string): string[] {
   return results;
 }
 
-// HTTP SOAP request
-async function soapRequest(
-  url: string,
-  action: string,
-  body: string,
-  username?: string,
-  password?: string,
-  timeout = 10000
-): Promise<string> {
-  const parsed = new URL(url);
-  const envelope = createSoapEnvelope(body, username, password);
-  
-  return new Promise((resolve, reject) => {
-    const req = http.request({
-      hostname: parsed.hostname,
-      port: parsed.port || 80,
-      path: parsed.pathname,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/soap+xml; charset=utf-8',
-        'Content-Length': Buffer.byteLength(envelope),
-      },
-      timeout,
-    }, (res) => {
-      let data = '';
-      res.on('data', chunk => data += chunk);
-      res.on('end', () => {
-        if (res.statusCode === 200) {
-          resolve(data);
-        } else {
-          reject(new Error(`SOAP request failed: ${res.statusCode} - ${data}`));
-        }
-      });
-    });
-    
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('SOAP request timeout'));
-    });
-    
-    req.write(envelope);
-    req.end();
-  });
-}
-
 /**
  * Discover ONVIF cameras on the local network
  */
@@ -267,9 +158,10 @@ export async function discoverCameras(timeoutMs = 5000): Promise<DiscoveredCamer
  */
 export async function detectCameraTimeOffset(host: string, port: number = 80): Promise<number> {
   // Skip auto-detection if manual offset is configured
-  if (cameraTimeOffset !== 0) {
-    console.log(`[ONVIF] Using pre-configured time offset: ${(cameraTimeOffset / 1000).toFixed(1)}s`);
-    return cameraTimeOffset;
+  const configuredOffset = getCameraTimeOffset();
+  if (configuredOffset !== 0) {
+    console.log(`[ONVIF] Using pre-configured time offset: ${(configuredOffset / 1000).toFixed(1)}s`);
+    return configuredOffset;
   }
   
   const baseUrl = `http://${host}:${port}/onvif/device_service`;
@@ -279,7 +171,7 @@ export async function detectCameraTimeOffset(host: string, port: number = 80): P
   
   try {
     const localTimeBefore = Date.now();
-    const response = await soapRequest(baseUrl, 'GetSystemDateAndTime', body);
+    const response = await soapRequest(baseUrl, body);
     const localTimeAfter = Date.now();
     const localTime = (localTimeBefore + localTimeAfter) / 2;
     
@@ -315,7 +207,7 @@ export async function detectCameraTimeOffset(host: string, port: number = 80): P
     console.log('[ONVIF] Could not auto-detect camera time (may require auth)');
   }
   
-  return cameraTimeOffset;
+  return getCameraTimeOffset();
 }
 
 /**
@@ -340,7 +232,7 @@ export async function connectCamera(
   let deviceInfo: any = { manufacturer: 'Unknown', model: 'Unknown', name: 'ONVIF Camera' };
   
   try {
-    const deviceResponse = await soapRequest(baseUrl, 'GetDeviceInformation', deviceInfoBody, username, password);
+    const deviceResponse = await soapRequest(baseUrl, deviceInfoBody, { username, password });
     deviceInfo = {
       manufacturer: extractValue(deviceResponse, 'Manufacturer') || 'Unknown',
       model: extractValue(deviceResponse, 'Model') || 'Unknown',
@@ -353,7 +245,7 @@ export async function connectCamera(
   
   // Get media profiles
   const profilesBody = `<trt:GetProfiles xmlns:trt="http://www.onvif.org/ver10/media/wsdl"/>`;
-  const profilesResponse = await soapRequest(mediaUrl, 'GetProfiles', profilesBody, username, password);
+  const profilesResponse = await soapRequest(mediaUrl, profilesBody, { username, password });
   
   // Extract profile tokens
   const profileMatches = profilesResponse.matchAll(/<[^:>]*:?Profiles[^>]*token="([^"]+)"[^>]*>/gi);
@@ -386,7 +278,7 @@ export async function connectCamera(
       </trt:GetStreamUri>`;
     
     try {
-      const streamResponse = await soapRequest(mediaUrl, 'GetStreamUri', streamBody, username, password);
+      const streamResponse = await soapRequest(mediaUrl, streamBody, { username, password });
       const uri = extractValue(streamResponse, 'Uri');
       
       if (uri) {
@@ -399,7 +291,7 @@ export async function connectCamera(
           </trt:GetProfile>`;
         
         try {
-          const configResponse = await soapRequest(mediaUrl, 'GetProfile', configBody, username, password);
+          const configResponse = await soapRequest(mediaUrl, configBody, { username, password });
           const width = extractValue(configResponse, 'Width');
           const height = extractValue(configResponse, 'Height');
           if (width && height) {
@@ -520,7 +412,7 @@ export async function getCameraTime(
   const body = `<tds:GetSystemDateAndTime xmlns:tds="http://www.onvif.org/ver10/device/wsdl"/>`;
   
   try {
-    const response = await soapRequest(deviceUrl, 'GetSystemDateAndTime', body, username, password);
+    const response = await soapRequest(deviceUrl, body, { username, password });
     
     // Parse the response
     const dateTimeType = extractValue(response, 'DateTimeType') || 'Manual';
@@ -603,7 +495,7 @@ export async function setCameraTime(
   }
   
   try {
-    await soapRequest(deviceUrl, 'SetSystemDateAndTime', body, username, password);
+    await soapRequest(deviceUrl, body, { username, password });
     console.log(`[ONVIF] Camera time ${useNtp ? 'set to NTP' : 'synchronized to'}: ${now.toISOString()}`);
     return true;
   } catch (err) {
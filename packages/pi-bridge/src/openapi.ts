@@ -0,0 +1,214 @@
+/**
+ * OpenAPI Module
+ *
+ * Publishes the route table (api-routes.ts) as an OpenAPI 3.1 document and
+ * validates requests against it before they reach a handler. Invalid
+ * requests get a 400 with the first problem found. With
+ * API_VALIDATE_RESPONSES=true (default: DEBUG) JSON responses are checked
+ * too, and mismatches are logged.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { config } from './config.js';
+import { API_ROUTES, API_SCHEMAS, type ApiRoute } from './api-routes.js';
+import { coerceParams, validate, type Schema } from './api-schema.js';
+
+const CAMERA_PREFIX = '/api/cameras/:camId';
+const ERROR_RESPONSE = { $ref: '#/components/schemas/ApiError' };
+
+interface CompiledRoute {
+  route: ApiRoute;
+  path: string;              // Express path (with the camera prefix if added)
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Express path -> regex matching it (":name" segments captured). Like
+ * Express routing (and the route groups in auth.ts) it ignores case and
+ * a trailing slash.
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split(/(:\w+)/)
+    .map(part => {
+      if (part.startsWith(':')) {
+        paramNames.push(part.slice(1));
+        return '([^/]+?)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}/?$`, 'i'), paramNames };
+}
+
+/**
+ * Every path a route is served at
+ */
+function expandPaths(route: ApiRoute): string[] {
+  return route.camera ? [route.path, CAMERA_PREFIX + route.path.slice('/api'.length)] : [route.path];
+}
+
+const compiled: CompiledRoute[] = API_ROUTES.flatMap(route =>
+  expandPaths(route).map(path => ({ route, path, ...compilePath(path) }))
+);
+
+function matchRoute(method: string, path: string): { entry: CompiledRoute; params: Record<string, string> } | null {
+  // Express serves HEAD with the GET handler
+  const routeMethod = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+  for (const entry of compiled) {
+    if (entry.route.method !== routeMethod) continue;
+    const match = entry.pattern.exec(path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    entry.paramNames.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+    return { entry, params };
+  }
+  return null;
+}
+
+function pathParamsSchema(entry: CompiledRoute): Schema {
+  const properties: Record<string, Schema> = {};
+  for (const name of entry.paramNames) {
+    properties[name] = entry.route.params?.properties?.[name] ?? { type: 'string' };
+  }
+  return { type: 'object', properties, required: entry.paramNames };
+}
+
+/**
+ * Reject requests that don't match their route's schemas
+ */
+export function apiValidator(req: Request, res: Response, next: NextFunction): void {
+  const matched = matchRoute(req.method, req.path);
+  if (!matched) return next();
+  const { entry, params } = matched;
+  const { route } = entry;
+
+  let error: string | null = null;
+  if (route.params) {
+    const schema = pathParamsSchema(entry);
+    error = validate(schema, coerceParams(schema, params), 'path', API_SCHEMAS);
+  }
+  if (!error && route.query) {
+    const query = req.query as Record<string, unknown>;
+    error = validate(route.query, coerceParams(route.query, query), 'query', API_SCHEMAS);
+  }
+  if (!error && route.body) {
+    error = validate(route.body, req.body ?? {}, 'body', API_SCHEMAS);
+  }
+  if (error) {
+    res.status(400).json({ success: false, error: `Invalid request: ${error}` });
+    return;
+  }
+
+  if (config.api.validateResponses && route.response) {
+    const schema = route.response;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode < 400) {
+        // Compare what the client will see (Dates as ISO strings)
+        const problem = validate(schema, JSON.parse(JSON.stringify(body ?? null)), 'response', API_SCHEMAS);
+        if (problem) {
+          console.warn(`[API] ${route.method} ${entry.path} (${route.operationId}): ${problem}`);
+        }
+      }
+      return json(body);
+    };
+  }
+
+  next();
+}
+
+// ==================== OpenAPI Document ====================
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function buildParameters(entry: CompiledRoute): unknown[] {
+  const parameters: unknown[] = [];
+  for (const name of entry.paramNames) {
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema: entry.route.params?.properties?.[name] ?? { type: 'string' },
+      ...(name === 'camId' ? { description: 'Camera id (see GET /api/cameras)' } : {}),
+    });
+  }
+  const query = entry.route.query;
+  for (const [name, schema] of Object.entries(query?.properties ?? {})) {
+    parameters.push({
+      name,
+      in: 'query',
+      required: query?.required?.includes(name) ?? false,
+      schema,
+      ...(schema.description ? { description: schema.description } : {}),
+    });
+  }
+  return parameters;
+}
+
+function buildOperation(entry: CompiledRoute): Record<string, unknown> {
+  const { route } = entry;
+  const forCamera = entry.path !== route.path;
+  const content = route.produces
+    ? { [route.produces]: { schema: { type: 'string', format: 'binary' } } }
+    : { 'application/json': { schema: route.response ?? {} } };
+
+  const parameters = buildParameters(entry);
+  return {
+    operationId: forCamera ? `${route.operationId}ForCamera` : route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(parameters.length ? { parameters } : {}),
+    ...(route.body ? {
+      requestBody: { required: true, content: { 'application/json': { schema: route.body } } },
+    } : {}),
+    responses: {
+      '200': { description: 'OK', content },
+      '400': { description: 'Invalid request or the action failed', content: { 'application/json': { schema: ERROR_RESPONSE } } },
+      ...(route.public ? {} : {
+        '401': { description: 'Not authenticated' },
+        '403': { description: 'Role or token scope does not allow this', content: { 'application/json': { schema: ERROR_RESPONSE } } },
+      }),
+    },
+    ...(route.public ? { security: [] } : {}),
+  };
+}
+
+/**
+ * The HTTP API as an OpenAPI 3.1 document
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const entry of compiled) {
+    const path = toOpenApiPath(entry.path);
+    paths[path] = { ...paths[path], [entry.route.method.toLowerCase()]: buildOperation(entry) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Birdcam Pi Bridge API',
+      version: '1.0.0',
+      description: 'Camera streaming, PTZ, recording, bird detection and settings. ' +
+        `Per-camera routes are served for the default camera at /api/... and for any camera at ${toOpenApiPath(CAMERA_PREFIX)}/...`,
+    },
+    tags: [...new Set(API_ROUTES.map(route => route.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: API_SCHEMAS,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'API key or scoped token' },
+        apiKeyQuery: { type: 'apiKey', in: 'query', name: 'api_key' },
+        bearer: { type: 'http', scheme: 'bearer', description: 'Scoped token or Firebase ID token' },
+        basic: { type: 'http', scheme: 'basic' },
+      },
+    },
+    security: [{ apiKey: [] }, { apiKeyQuery: [] }, { bearer: [] }, { basic: [] }],
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * Sync Outbox Module
+ *
+ * Durable local queue for everything that has to leave the Pi:
+ * detections (Firestore), clips and thumbnails (configured storage backend)
+ * and, when mirroring is enabled, audit log entries (Firestore). Items are persisted to
+ * ~/.birdcam so nothing is lost while the Pi is offline or restarting, and
+ * are retried with exponential backoff, up to SYNC_MAX_ATTEMPTS times.
+ *
+ * Changes are appended to outbox.journal (one small line each, easy on the
+ * SD card) and folded into the outbox.json snapshot every few hundred lines.
+ * The queue holds at most SYNC_MAX_QUEUE items; beyond that the oldest
+ * lowest-priority items (audit entries first) are dropped.
+ *
+ * Items are keyed by what they describe (sighting ID or clip ID), so
+ * queueing the same sighting twice only ever produces one upload.
+ */
+
+import { EventEmitter } from 'events';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { config } from './config.js';
+import { upsertDetection, attachDetectionMedia, saveAuditEntry } from './firebase.js';
+import { getRecorder, type ClipInfo } from './recorder.js';
+import type { BirdSighting } from './bird-tracker.js';
+import type { AuditEntry } from './audit.js';
+
+export type OutboxItemType = 'detection' | 'clip' | 'thumbnail' | 'audit';
+
+export interface DetectionPayload {
+  sightingId: string;
+  species: string;
+  scientificName: string;
+  confidence: number;
+  timestamp: string;
+  clipId?: string;
+  audioConfidence?: number;
+  visualConfidence?: number;
+  zoneId?: string;
+}
+
+export interface MediaPayload {
+  clipId: string;
+  path: string;
+  sightingIds: string[];
+}
+
+export interface OutboxItem {
+  key: string;                 // Dedupe key, e.g. "detection:<sightingId>"
+  type: OutboxItemType;
+  payload: DetectionPayload | MediaPayload | AuditEntry;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface OutboxStats {
+  depth: number;
+  byType: Record<OutboxItemType, number>;
+  oldestItemAt: string | null;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  online: boolean;
+}
+
+interface OutboxState {
+  items: OutboxItem[];
+  lastSyncAt: string | null;
+}
+
+// One line of outbox.journal: an item added or updated, or one removed
+type JournalEntry = { put: OutboxItem } | { remove: string; lastSyncAt?: string };
+
+const COMPACT_AFTER_LINES = 500;
+
+// Detections go first so media can be attached to records that already exist
+const TYPE_PRIORITY: Record<OutboxItemType, number> = { detection: 0, thumbnail: 1, clip: 2, audit: 3 };
+
+export class SyncOutbox extends EventEmitter {
+  private state: OutboxState;
+  private statePath: string;
+  private journalPath: string;
+  private journalLines = 0;
+  private cameraId: string | null = null;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private lastError: string | null = null;
+
+  constructor(stateDir?: string) {
+    super();
+    const dir = stateDir || join(homedir(), '.birdcam');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    this.statePath = join(dir, 'outbox.json');
+    this.journalPath = join(dir, 'outbox.journal');
+    this.state = this.loadState();
+    this.replayJournal();
+    this.compact();
+  }
+
+  private loadState(): OutboxState {
+    try {
+      if (existsSync(this.statePath)) {
+        return JSON.parse(readFileSync(this.statePath, 'utf-8'));
+      }
+    } catch (err) {
+      console.warn('[Outbox] Failed to load queue:', (err as Error).message);
+    }
+    return { items: [], lastSyncAt: null };
+  }
+
+  private replayJournal(): void {
+    if (!existsSync(this.journalPath)) return;
+    try {
+      for (const line of readFileSync(this.journalPath, 'utf-8').split('\n')) {
+        if (!line) continue;
+        try {
+          this.applyEntry(JSON.parse(line));
+        } catch {
+          // A line cut short by a power loss
+        }
+      }
+    } catch (err) {
+      console.warn('[Outbox] Failed to read journal:', (err as Error).message);
+    }
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    if ('put' in entry) {
+      const index = this.state.items.findIndex(i => i.key === entry.put.key);
+      if (index >= 0) {
+        this.state.items[index] = entry.put;
+      } else {
+        this.state.items.push(entry.put);
+      }
+    } else {
+      this.state.items = this.state.items.filter(i => i.key !== entry.remove);
+      if (entry.lastSyncAt) this.state.lastSyncAt = entry.lastSyncAt;
+    }
+  }
+
+  /**
+   * Append a change to the journal (folded into the snapshot now and then)
+   */
+  private record(entry: JournalEntry): void {
+    try {
+      appendFileSync(this.journalPath, JSON.stringify(entry) + '\n');
+      if (++this.journalLines >= COMPACT_AFTER_LINES) this.compact();
+    } catch (err) {
+      console.error('[Outbox] Failed to save queue:', (err as Error).message);
+    }
+  }
+
+  /**
+   * Write the whole queue as a snapshot and start a fresh journal
+   */
+  private compact(): void {
+    try {
+      // Write-then-rename so a power cut never leaves a truncated queue
+      const tmpPath = `${this.statePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(this.state));
+      renameSync(tmpPath, this.statePath);
+      writeFileSync(this.journalPath, '');
+      this.journalLines = 0;
+    } catch (err) {
+      console.error('[Outbox] Failed to save queue:', (err as Error).message);
+    }
+  }
+
+  /**
+   * Start syncing queued items
+   *
+   * Detections need a registered camera; media uploads only need a storage
+   * backend, so the outbox can run before (or without) cloud registration.
+   */
+  start(cameraId?: string): void {
+    this.running = true;
+    if (cameraId) this.cameraId = cameraId;
+    if (this.state.items.length > 0) {
+      console.log(`[Outbox] Resuming sync of ${this.state.items.length} queued item(s)`);
+    }
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+  }
+
+  /**
+   * Queue a sighting for upload as a detection record
+   */
+  enqueueDetection(sighting: BirdSighting): void {
+    const payload: DetectionPayload = {
+      sightingId: sighting.id,
+      species: sighting.species,
+      scientificName: sighting.scientificName,
+      confidence: sighting.confidence,
+      timestamp: sighting.timestamp,
+      clipId: sighting.clipId,
+      audioConfidence: sighting.audio?.confidence,
+      visualConfidence: sighting.visual?.confidence,
+      zoneId: sighting.zoneId,
+    };
+    this.enqueue('detection', `detection:${sighting.id}`, payload);
+  }
+
+  /**
+   * Queue a clip (and its thumbnail) for upload, attached to its sightings
+   */
+  enqueueClip(clip: ClipInfo): void {
+    const sightingIds = clip.sightingIds || [];
+    this.enqueue('clip', `clip:${clip.id}`, { clipId: clip.id, path: clip.path, sightingIds });
+    if (clip.thumbnail) {
+      this.enqueue('thumbnail', `thumbnail:${clip.id}`, { clipId: clip.id, path: clip.thumbnail, sightingIds });
+    }
+  }
+
+  /**
+   * Queue an audit log entry for mirroring under the camera document
+   */
+  enqueueAudit(entry: AuditEntry): void {
+    this.enqueue('audit', `audit:${entry.id}`, entry);
+  }
+
+  /**
+   * Retry everything immediately (e.g. once connectivity is back)
+   */
+  retryNow(): void {
+    const now = new Date().toISOString();
+    for (const item of this.state.items) {
+      item.nextAttemptAt = now;
+    }
+    this.schedule(0);
+  }
+
+  getStats(): OutboxStats {
+    const byType: Record<OutboxItemType, number> = { detection: 0, clip: 0, thumbnail: 0, audit: 0 };
+    for (const item of this.state.items) {
+      byType[item.type]++;
+    }
+    const oldest = this.state.items.reduce<string | null>(
+      (min, item) => (!min || item.createdAt < min ? item.createdAt : min), null);
+
+    return {
+      depth: this.state.items.length,
+      byType,
+      oldestItemAt: oldest,
+      lastSyncAt: this.state.lastSyncAt,
+      lastError: this.lastError,
+      online: this.running && this.lastError === null,
+    };
+  }
+
+  getItems(): OutboxItem[] {
+    return [...this.state.items];
+  }
+
+  private enqueue(type: OutboxItemType, key: string, payload: DetectionPayload | MediaPayload | AuditEntry): void {
+    let item = this.state.items.find(i => i.key === key);
+    if (item) {
+      // Same sighting/clip queued again - keep one item with the newest data
+      item.payload = payload;
+    } else {
+      const now = new Date().toISOString();
+      item = { key, type, payload, createdAt: now, attempts: 0, nextAttemptAt: now };
+      this.state.items.push(item);
+    }
+    this.record({ put: item });
+    this.enforceLimit();
+    this.emit('queued', key);
+    this.schedule(0);
+  }
+
+  /**
+   * Keep the queue within SYNC_MAX_QUEUE by dropping the oldest items of the
+   * lowest priority (audit entries, then clips, thumbnails, detections)
+   */
+  private enforceLimit(): void {
+    const excess = this.state.items.length - config.sync.maxQueueSize;
+    if (excess <= 0) return;
+
+    const victims = [...this.state.items]
+      .sort((a, b) => TYPE_PRIORITY[b.type] - TYPE_PRIORITY[a.type] || a.createdAt.localeCompare(b.createdAt))
+      .slice(0, excess);
+    for (const item of victims) {
+      this.drop(item, 'queue full');
+    }
+  }
+
+  private drop(item: OutboxItem, reason: string): void {
+    this.remove(item.key);
+    this.record({ remove: item.key });
+    console.warn(`[Outbox] Dropped ${item.key}: ${reason}`);
+    this.emit('dropped', item, reason);
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.process().catch(err => {
+        console.error('[Outbox] Sync pass failed:', (err as Error).message);
+      });
+    }, delayMs);
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing || !this.running) return;
+    this.processing = true;
+
+    try {
+      const due = this.state.items
+        .filter(i => new Date(i.nextAttemptAt).getTime() <= Date.now())
+        .sort((a, b) => TYPE_PRIORITY[a.type] - TYPE_PRIORITY[b.type] || a.createdAt.localeCompare(b.createdAt));
+
+      for (const item of due) {
+        if (!this.running) break;
+        if (this.isBlocked(item)) continue;
+
+        // enqueue() may replace the payload while it uploads
+        const payload = item.payload;
+        try {
+          await this.send(item);
+          this.state.lastSyncAt = new Date().toISOString();
+          this.lastError = null;
+          if (this.state.items.includes(item) && item.payload === payload) {
+            this.remove(item.key);
+            this.record({ remove: item.key, lastSyncAt: this.state.lastSyncAt });
+          }
+          // Otherwise the newer payload stays queued for the next pass
+          this.emit('synced', { ...item, payload });
+        } catch (err) {
+          if (this.state.items.includes(item)) {
+            this.fail(item, (err as Error).message);
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    this.scheduleNext();
+  }
+
+  /**
+   * Media waits until the detections it attaches to have been uploaded
+   */
+  private isBlocked(item: OutboxItem): boolean {
+    if (item.type === 'detection' || item.type === 'audit') return false;
+    const { sightingIds } = item.payload as MediaPayload;
+    return this.state.items.some(i => i.type === 'detection' && sightingIds.includes((i.payload as DetectionPayload).sightingId));
+  }
+
+  private async send(item: OutboxItem): Promise<void> {
+    if (item.type === 'detection') {
+      if (!this.cameraId) {
+        throw new Error('Camera not registered yet');
+      }
+      const payload = item.payload as DetectionPayload;
+      const created = await upsertDetection(this.cameraId, { ...payload, timestamp: new Date(payload.timestamp) });
+      if (!created && config.debug) {
+        console.log(`[Outbox] Detection ${payload.sightingId} already synced`);
+      }
+      return;
+    }
+
+    if (item.type === 'audit') {
+      if (!this.cameraId) {
+        throw new Error('Camera not registered yet');
+      }
+      await saveAuditEntry(this.cameraId, item.payload as AuditEntry);
+      return;
+    }
+
+    const payload = item.payload as MediaPayload;
+    if (!existsSync(payload.path)) {
+      // Clip was pruned before it could be uploaded - nothing left to send
+      console.warn(`[Outbox] Dropping ${item.key}: file no longer exists`);
+      return;
+    }
+
+    const recorder = getRecorder();
+    const prefix = this.cameraId || config.deviceId;
+    const media = item.type === 'clip'
+      ? { clipId: payload.clipId, clipUrl: await recorder.uploadClip(payload.clipId, prefix) }
+      : { clipId: payload.clipId, thumbnailUrl: await recorder.uploadThumbnail(payload.clipId, prefix) };
+
+    if (config.firebase.enabled) {
+      await attachDetectionMedia(payload.sightingIds, media);
+    }
+  }
+
+  private fail(item: OutboxItem, message: string): void {
+    item.attempts++;
+    item.lastError = message;
+    this.lastError = message;
+    if (item.attempts >= config.sync.maxAttempts) {
+      this.drop(item, `gave up after ${item.attempts} attempts: ${message}`);
+      return;
+    }
+
+    const delay = Math.min(config.sync.retryBaseMs * 2 ** (item.attempts - 1), config.sync.retryMaxMs);
+    // Jitter keeps a backlog from retrying in lockstep
+    item.nextAttemptAt = new Date(Date.now() + delay * (0.8 + Math.random() * 0.4)).toISOString();
+    this.record({ put: item });
+    console.warn(`[Outbox] ${item.key} failed (attempt ${item.attempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+  }
+
+  private remove(key: string): void {
+    this.state.items = this.state.items.filter(i => i.key !== key);
+  }
+
+  private scheduleNext(): void {
+    const ready = this.state.items.filter(i => !this.isBlocked(i));
+    if (ready.length === 0) return;
+    const next = Math.min(...ready.map(i => new Date(i.nextAttemptAt).getTime()));
+    this.schedule(Math.max(1000, next - Date.now()));
+  }
+}
+
+// Singleton instance
+let outbox: SyncOutbox | null = null;
+
+export function getOutbox(): SyncOutbox {
+  if (!outbox) {
+    outbox = new SyncOutbox();
+  }
+  return outbox;
+}
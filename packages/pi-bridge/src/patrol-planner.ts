@@ -0,0 +1,221 @@
+/**
+ * Patrol Planner Module
+ *
+ * Decides how long an adaptive patrol dwells at each preset. Every preset's
+ * activity is scored as sightings per hour the camera actually spent there,
+ * around the current hour of day over the last couple of weeks, so busy
+ * spots get more time without starving quiet ones (a prior keeps rarely
+ * visited presets in play and dwell is clamped to a minimum).
+ *
+ * Hours and days are the camera's local time (SCHEDULER_TIMEZONE), like
+ * the scheduler's. Time spent at each preset is kept in
+ * ~/.birdcam/patrol-exposure.json.
+ * Decisions (moves, pauses for bird activity, resumes) are kept in memory
+ * for the API.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { config } from './config.js';
+import { getBirdTracker } from './bird-tracker.js';
+import { getZonedParts } from './timezone.js';
+
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const EXPOSURE_FILE = join(SETTINGS_DIR, 'patrol-exposure.json');
+
+const LOOKBACK_DAYS = 14;
+const MAX_DECISIONS = 200;
+// Prior: assume one sighting per hour until a preset has history
+const PRIOR_SIGHTINGS = 1;
+const PRIOR_HOURS = 1;
+// Weight of sightings/exposure by distance from the current hour
+const HOUR_WEIGHTS = [1, 0.5];
+
+export type PatrolDecisionAction = 'start' | 'move' | 'pause' | 'resume' | 'stop';
+
+export interface PatrolDecision {
+  timestamp: string;
+  action: PatrolDecisionAction;
+  presetId?: string;
+  dwellSeconds?: number;
+  reason: string;
+}
+
+export interface PresetActivity {
+  presetId: string;
+  sightings: number;       // Hour-weighted sightings in the lookback window
+  exposureHours: number;   // Hour-weighted time spent at the preset
+  rate: number;            // Smoothed sightings per hour
+  share: number;           // Fraction of the patrol cycle this preset gets
+}
+
+export interface DwellPlan {
+  dwellSeconds: number;
+  reason: string;
+}
+
+// date (local YYYY-MM-DD) -> presetId -> seconds per hour of day
+type ExposureLog = Record<string, Record<string, number[]>>;
+
+export class PatrolPlanner {
+  private exposure: ExposureLog;
+  private decisions: PatrolDecision[] = [];
+
+  constructor() {
+    this.exposure = this.loadExposure();
+  }
+
+  /**
+   * Activity score of each preset around an hour of day
+   */
+  getActivity(presetIds: string[], now: Date = new Date()): PresetActivity[] {
+    const hour = localHour(now);
+    const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const sightings = new Map<string, number>(presetIds.map(id => [id, 0]));
+    for (const s of getBirdTracker().getSightingsSince(since)) {
+      if (!s.presetId || !sightings.has(s.presetId)) continue;
+      const weight = hourWeight(localHour(new Date(s.timestamp)), hour);
+      sightings.set(s.presetId, sightings.get(s.presetId)! + weight);
+    }
+
+    const activity = presetIds.map(presetId => {
+      let seconds = 0;
+      for (const [date, byPreset] of Object.entries(this.exposure)) {
+        if (date < localDateKey(since)) continue;
+        byPreset[presetId]?.forEach((s, h) => {
+          seconds += s * hourWeight(h, hour);
+        });
+      }
+      const exposureHours = seconds / 3600;
+      const count = sightings.get(presetId)!;
+      return {
+        presetId,
+        sightings: round(count),
+        exposureHours: round(exposureHours),
+        rate: round((count + PRIOR_SIGHTINGS) / (exposureHours + PRIOR_HOURS)),
+        share: 0,
+      };
+    });
+
+    const total = activity.reduce((sum, a) => sum + a.rate, 0);
+    for (const a of activity) {
+      a.share = total > 0 ? round(a.rate / total) : 1 / activity.length;
+    }
+    return activity;
+  }
+
+  /**
+   * Dwell time at a preset: its share of a cycle that would take
+   * dwellSeconds per preset in a fixed patrol, clamped to [min, max]
+   */
+  planDwell(
+    presetIds: string[],
+    presetId: string,
+    options: { dwellSeconds: number; minDwellSeconds: number; maxDwellSeconds: number }
+  ): DwellPlan {
+    const activity = this.getActivity(presetIds);
+    const preset = activity.find(a => a.presetId === presetId);
+    if (!preset) {
+      return { dwellSeconds: options.dwellSeconds, reason: 'not in patrol' };
+    }
+
+    const cycleSeconds = options.dwellSeconds * presetIds.length;
+    const dwellSeconds = Math.round(Math.min(options.maxDwellSeconds,
+      Math.max(options.minDwellSeconds, cycleSeconds * preset.share)));
+
+    return {
+      dwellSeconds,
+      reason: `${preset.sightings} sightings in ${preset.exposureHours}h around ${localHour(new Date())}:00 ` +
+        `(${(preset.share * 100).toFixed(0)}% of activity)`,
+    };
+  }
+
+  /**
+   * Count time spent watching a preset (attributed to the hour the dwell started)
+   */
+  recordExposure(presetId: string, startedAt: Date, seconds: number): void {
+    if (seconds <= 0) return;
+
+    const date = localDateKey(startedAt);
+    const day = this.exposure[date] ??= {};
+    const hours = day[presetId] ??= new Array(24).fill(0);
+    hours[localHour(startedAt)] += Math.round(seconds);
+
+    this.saveExposure();
+  }
+
+  log(decision: Omit<PatrolDecision, 'timestamp'>): PatrolDecision {
+    const entry = { timestamp: new Date().toISOString(), ...decision };
+    this.decisions.push(entry);
+    if (this.decisions.length > MAX_DECISIONS) {
+      this.decisions.splice(0, this.decisions.length - MAX_DECISIONS);
+    }
+    console.log(`[PatrolPlanner] ${entry.action}${entry.presetId ? ` ${entry.presetId}` : ''}` +
+      `${entry.dwellSeconds ? ` for ${entry.dwellSeconds}s` : ''}: ${entry.reason}`);
+    return entry;
+  }
+
+  /**
+   * Most recent decisions, newest first
+   */
+  getDecisions(limit: number = 50): PatrolDecision[] {
+    return this.decisions.slice(-limit).reverse();
+  }
+
+  private loadExposure(): ExposureLog {
+    try {
+      if (existsSync(EXPOSURE_FILE)) {
+        return JSON.parse(readFileSync(EXPOSURE_FILE, 'utf-8'));
+      }
+    } catch (err) {
+      console.warn('[PatrolPlanner] Failed to load exposure:', (err as Error).message);
+    }
+    return {};
+  }
+
+  private saveExposure(): void {
+    // Drop days that fell out of the lookback window
+    const oldest = localDateKey(new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000));
+    for (const date of Object.keys(this.exposure)) {
+      if (date < oldest) delete this.exposure[date];
+    }
+
+    try {
+      mkdirSync(SETTINGS_DIR, { recursive: true });
+      writeFileSync(EXPOSURE_FILE, JSON.stringify(this.exposure));
+    } catch (err) {
+      console.error('[PatrolPlanner] Failed to save exposure:', (err as Error).message);
+    }
+  }
+}
+
+function hourWeight(hour: number, target: number): number {
+  const distance = Math.min(Math.abs(hour - target), 24 - Math.abs(hour - target));
+  return HOUR_WEIGHTS[distance] ?? 0;
+}
+
+function localHour(date: Date): number {
+  return getZonedParts(date, config.scheduler.timezone).hour;
+}
+
+function localDateKey(date: Date): string {
+  const { year, month, day } = getZonedParts(date, config.scheduler.timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Singleton instance
+let patrolPlanner: PatrolPlanner | null = null;
+
+export function getPatrolPlanner(): PatrolPlanner {
+  if (!patrolPlanner) {
+    patrolPlanner = new PatrolPlanner();
+  }
+  return patrolPlanner;
+}
@@ -0,0 +1,155 @@
+/**
+ * Privacy Mask Module
+ *
+ * Burns privacy zones (drawn in the web dashboard's zone editor) into every
+ * video that leaves the Pi: the HLS stream, the go2rtc WebRTC/RTSP restream,
+ * clips, snapshots and thumbnails. A neighbor's window must never reach a
+ * public camera page, so masking errs on the side of covering too much.
+ *
+ * Polygons are rasterized onto a coarse grid, grown by one cell and turned
+ * into a chain of filled FFmpeg drawbox filters. Box coordinates are
+ * expressions of the frame size, so the same filter works at any resolution.
+ */
+
+import { pointInPolygon, type MotionPoint } from './motion.js';
+import { getZoneManager, type Zone } from './zones.js';
+
+const GRID_WIDTH = 160;
+const GRID_HEIGHT = 90;
+// Points sampled per cell edge when rasterizing (corners, midpoints, center)
+const CELL_SAMPLES = [0, 0.5, 1];
+
+let cachedKey = '';
+let cachedFilter: string | null = null;
+
+export function getPrivacyZones(): Zone[] {
+  return getZoneManager().getZones().filter(z => z.type === 'privacy');
+}
+
+export function hasPrivacyZones(): boolean {
+  return getPrivacyZones().length > 0;
+}
+
+/**
+ * FFmpeg filter chain that paints the privacy zones black (null if none)
+ */
+export function getPrivacyFilter(): string | null {
+  const polygons = getPrivacyZones().map(z => z.polygon);
+  const key = JSON.stringify(polygons);
+  if (key !== cachedKey) {
+    cachedKey = key;
+    cachedFilter = polygons.length > 0 ? buildFilter(polygons) : null;
+  }
+  return cachedFilter;
+}
+
+/**
+ * Prepend the privacy mask to a -vf filter chain. The mask goes first so
+ * scaling/cropping afterwards can't shift anything out from under it.
+ */
+export function withPrivacyFilter(filters?: string): string | undefined {
+  const mask = getPrivacyFilter();
+  if (mask && filters) return `${mask},${filters}`;
+  return mask || filters;
+}
+
+/**
+ * Call a listener whenever the privacy zones change (other zone edits are ignored)
+ */
+export function onPrivacyZonesChanged(listener: (zones: Zone[]) => void): void {
+  let previous = JSON.stringify(getPrivacyZones().map(z => z.polygon));
+
+  getZoneManager().on('updated', () => {
+    const zones = getPrivacyZones();
+    const current = JSON.stringify(zones.map(z => z.polygon));
+    if (current === previous) return;
+
+    previous = current;
+    listener(zones);
+  });
+}
+
+/**
+ * Rasterize polygons onto the grid (grown by one cell) and cover the
+ * filled cells with as few rectangles as possible
+ */
+function buildFilter(polygons: MotionPoint[][]): string {
+  const filled = new Uint8Array(GRID_WIDTH * GRID_HEIGHT);
+
+  for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+    for (let gx = 0; gx < GRID_WIDTH; gx++) {
+      if (cellTouches(gx, gy, polygons)) {
+        // Grow by one cell so rounding at any resolution can't leave an edge uncovered
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const x = gx + dx;
+            const y = gy + dy;
+            if (x >= 0 && x < GRID_WIDTH && y >= 0 && y < GRID_HEIGHT) {
+              filled[y * GRID_WIDTH + x] = 1;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Horizontal runs per row, merged downwards while the next row has the same run
+  const boxes: { x: number; y: number; w: number; h: number }[] = [];
+  let open = new Map<string, { x: number; y: number; w: number; h: number }>();
+
+  for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+    const next = new Map<string, { x: number; y: number; w: number; h: number }>();
+    let gx = 0;
+    while (gx < GRID_WIDTH) {
+      if (!filled[gy * GRID_WIDTH + gx]) {
+        gx++;
+        continue;
+      }
+      const start = gx;
+      while (gx < GRID_WIDTH && filled[gy * GRID_WIDTH + gx]) gx++;
+
+      const key = `${start}:${gx}`;
+      const box = open.get(key);
+      if (box) {
+        box.h++;
+        open.delete(key);
+        next.set(key, box);
+      } else {
+        const created = { x: start, y: gy, w: gx - start, h: 1 };
+        boxes.push(created);
+        next.set(key, created);
+      }
+    }
+    open = next;
+  }
+
+  return boxes.map(b =>
+    `drawbox=x=floor(iw*${fraction(b.x, GRID_WIDTH)}):y=floor(ih*${fraction(b.y, GRID_HEIGHT)})` +
+    `:w=ceil(iw*${fraction(b.w, GRID_WIDTH)})+1:h=ceil(ih*${fraction(b.h, GRID_HEIGHT)})+1:color=black:t=fill`
+  ).join(',');
+}
+
+function cellTouches(gx: number, gy: number, polygons: MotionPoint[][]): boolean {
+  for (const polygon of polygons) {
+    // A vertex inside the cell catches polygons smaller than a cell
+    if (polygon.some(p =>
+      p.x * GRID_WIDTH >= gx && p.x * GRID_WIDTH <= gx + 1 &&
+      p.y * GRID_HEIGHT >= gy && p.y * GRID_HEIGHT <= gy + 1
+    )) {
+      return true;
+    }
+
+    for (const sy of CELL_SAMPLES) {
+      for (const sx of CELL_SAMPLES) {
+        if (pointInPolygon((gx + sx) / GRID_WIDTH, (gy + sy) / GRID_HEIGHT, polygon)) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+function fraction(cells: number, total: number): string {
+  return (cells / total).toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+}
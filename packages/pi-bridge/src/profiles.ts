@@ -0,0 +1,483 @@
+/**
+ * Operating Profiles Module
+ *
+ * Named bundles of video settings, motion config, detection thresholds and
+ * an optional ONVIF IR mode for the default camera - out of the box a "day"
+ * and a "night" profile. With a location set (LOCATION_LATITUDE/LONGITUDE)
+ * the day and night profiles are switched at civil dawn and dusk, so IR
+ * footage can run with calmer motion settings. A manual switch holds until
+ * the next twilight.
+ *
+ * Settings a profile leaves out are not touched when it is applied. Profiles,
+ * the auto-switch setting and the switch history are kept in
+ * ~/.birdcam/profiles.json.
+ */
+
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { config } from './config.js';
+import { getCivilTwilight } from './weather.js';
+import { getSettings, type VideoSettings } from './settings.js';
+import { isStreaming, restartStreaming } from './streamer.js';
+import { getMotionDetector, type MotionConfig } from './motion.js';
+import { getDetectorOptions, updateDetectorOptions } from './detector.js';
+import { getVisualDetector } from './visual-detector.js';
+import { getCameraRegistry } from './cameras.js';
+import type { DayNightMode } from './onvif-imaging.js';
+
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const PROFILES_FILE = join(SETTINGS_DIR, 'profiles.json');
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_HISTORY = 200;
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+export interface ProfileDetection {
+  minConfidence?: number;        // BirdNET threshold (0-1)
+  visualMinConfidence?: number;  // Visual detector combined confidence (0-1)
+  visualThreshold?: number;      // YOLO box threshold (0-1)
+}
+
+export interface OperatingProfile {
+  id: string;
+  name: string;
+  video?: Partial<VideoSettings>;
+  motion?: Partial<Omit<MotionConfig, 'regions'>>;
+  detection?: ProfileDetection;
+  irMode?: DayNightMode;         // ONVIF IR cut filter (needs imaging control)
+}
+
+export type ProfileSwitchReason = 'dawn' | 'dusk' | 'manual' | 'schedule' | 'startup';
+
+export interface ProfileSwitch {
+  at: string;
+  from: string | null;
+  to: string;
+  reason: ProfileSwitchReason;
+  errors?: string[];             // Parts of the profile that could not be applied
+}
+
+export interface AutoSwitchConfig {
+  enabled: boolean;
+  dayProfile: string;
+  nightProfile: string;
+}
+
+export interface ProfileStatus {
+  activeProfile: string | null;
+  activeSince: string | null;
+  auto: AutoSwitchConfig;
+  locationSet: boolean;          // Auto-switching needs LOCATION_LATITUDE/LONGITUDE
+  phase: 'day' | 'night' | null;
+  nextSwitch: { at: string; profile: string; reason: 'dawn' | 'dusk' } | null;
+}
+
+interface ProfilesState {
+  profiles: OperatingProfile[];
+  auto: AutoSwitchConfig;
+  activeProfile: string | null;
+  activeSince: string | null;
+  history: ProfileSwitch[];
+}
+
+export class ProfileManager extends EventEmitter {
+  private state: ProfilesState;
+  private timer: NodeJS.Timeout | null = null;
+  private phase: 'day' | 'night' | null = null;
+
+  constructor() {
+    super();
+    this.state = this.loadState();
+  }
+
+  /**
+   * Apply the profile for the current time (or the last active one) and start auto-switching
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    this.ensureDefaults();
+
+    this.phase = this.currentPhase();
+    const { auto } = this.state;
+    const target = auto.enabled && this.phase
+      ? (this.phase === 'day' ? auto.dayProfile : auto.nightProfile)
+      : this.state.activeProfile;
+
+    // Runtime settings start from the environment again - re-apply
+    if (target && this.getProfile(target)) {
+      await this.activate(target, 'startup', target !== this.state.activeProfile);
+    }
+
+    this.timer = setInterval(() => {
+      this.check().catch(err => {
+        console.error('[Profiles] Auto-switch failed:', (err as Error).message);
+      });
+    }, CHECK_INTERVAL_MS);
+
+    if (auto.enabled && !this.locationSet()) {
+      console.warn('[Profiles] Auto-switching needs LOCATION_LATITUDE and LOCATION_LONGITUDE');
+    }
+    console.log(`[Profiles] Active: ${this.state.activeProfile ?? 'none'} (auto-switch ${auto.enabled ? 'on' : 'off'})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getProfiles(): OperatingProfile[] {
+    return this.state.profiles.map(p => ({ ...p }));
+  }
+
+  getProfile(id: string): OperatingProfile | undefined {
+    return this.state.profiles.find(p => p.id === id);
+  }
+
+  /**
+   * Add or replace a profile. Throws if it is invalid.
+   */
+  async saveProfile(input: OperatingProfile): Promise<OperatingProfile> {
+    validateProfile(input);
+    const profile: OperatingProfile = {
+      id: input.id,
+      name: input.name,
+      ...(input.video ? { video: input.video } : {}),
+      ...(input.motion ? { motion: input.motion } : {}),
+      ...(input.detection ? { detection: input.detection } : {}),
+      ...(input.irMode ? { irMode: input.irMode } : {}),
+    };
+
+    const index = this.state.profiles.findIndex(p => p.id === profile.id);
+    if (index >= 0) {
+      this.state.profiles[index] = profile;
+    } else {
+      this.state.profiles.push(profile);
+    }
+    this.saveState();
+
+    // Edits to the running profile take effect right away
+    if (this.state.activeProfile === profile.id) {
+      await this.apply(profile);
+    }
+    return profile;
+  }
+
+  /**
+   * Remove a profile. Throws if it is active or used for auto-switching.
+   */
+  removeProfile(id: string): boolean {
+    const index = this.state.profiles.findIndex(p => p.id === id);
+    if (index < 0) return false;
+    if (this.state.activeProfile === id) {
+      throw new Error('The active profile cannot be removed');
+    }
+    if (this.state.auto.dayProfile === id || this.state.auto.nightProfile === id) {
+      throw new Error('The profile is used for auto-switching');
+    }
+
+    this.state.profiles.splice(index, 1);
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * Switch to a profile now. Returns null if it doesn't exist.
+   */
+  async activate(id: string, reason: ProfileSwitchReason = 'manual', record = true): Promise<ProfileSwitch | null> {
+    const profile = this.getProfile(id);
+    if (!profile) return null;
+
+    const errors = await this.apply(profile);
+    const entry: ProfileSwitch = {
+      at: new Date().toISOString(),
+      from: this.state.activeProfile,
+      to: profile.id,
+      reason,
+      ...(errors.length ? { errors } : {}),
+    };
+
+    if (record) {
+      this.state.activeSince = entry.at;
+      this.state.history.push(entry);
+      if (this.state.history.length > MAX_HISTORY) {
+        this.state.history = this.state.history.slice(-MAX_HISTORY);
+      }
+      console.log(`[Profiles] Switched to ${profile.name} (${reason})${errors.length ? ` - ${errors.join('; ')}` : ''}`);
+      this.emit('switched', entry);
+    }
+    this.state.activeProfile = profile.id;
+    this.saveState();
+    return entry;
+  }
+
+  /**
+   * Update auto-switching. Throws if a referenced profile doesn't exist.
+   */
+  setAuto(updates: Partial<AutoSwitchConfig>): AutoSwitchConfig {
+    const auto = { ...this.state.auto, ...updates };
+    if (typeof auto.enabled !== 'boolean') {
+      throw new Error('enabled must be true or false');
+    }
+    for (const id of [auto.dayProfile, auto.nightProfile]) {
+      if (!this.getProfile(id)) {
+        throw new Error(`Unknown profile: ${id}`);
+      }
+    }
+
+    const enabling = auto.enabled && !this.state.auto.enabled;
+    this.state.auto = auto;
+    this.saveState();
+
+    // Switch to the right profile for now on the next check
+    if (enabling) {
+      this.phase = null;
+    }
+    return { ...auto };
+  }
+
+  getStatus(): ProfileStatus {
+    return {
+      activeProfile: this.state.activeProfile,
+      activeSince: this.state.activeSince,
+      auto: { ...this.state.auto },
+      locationSet: this.locationSet(),
+      phase: this.currentPhase(),
+      nextSwitch: this.state.auto.enabled ? this.nextSwitch() : null,
+    };
+  }
+
+  /**
+   * Most recent switches, newest first
+   */
+  getHistory(limit: number = 50): ProfileSwitch[] {
+    return this.state.history.slice(-limit).reverse();
+  }
+
+  /**
+   * Switch when the phase changed since the last check (manual switches hold until then)
+   */
+  private async check(): Promise<void> {
+    const phase = this.currentPhase();
+    if (!phase || phase === this.phase) return;
+    this.phase = phase;
+
+    const { auto } = this.state;
+    if (!auto.enabled) return;
+    const target = phase === 'day' ? auto.dayProfile : auto.nightProfile;
+    if (target !== this.state.activeProfile) {
+      await this.activate(target, phase === 'day' ? 'dawn' : 'dusk');
+    }
+  }
+
+  /**
+   * Push a profile's settings to the default camera; returns what failed
+   */
+  private async apply(profile: OperatingProfile): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (profile.video) {
+      const settings = getSettings();
+      const current = settings.getVideo();
+      const changed = Object.entries(profile.video)
+        .some(([key, value]) => current[key as keyof VideoSettings] !== value);
+      if (changed) {
+        settings.updateVideo(profile.video);
+        if (isStreaming()) {
+          try {
+            await restartStreaming();
+          } catch (err) {
+            errors.push(`stream restart: ${(err as Error).message}`);
+          }
+        }
+      }
+    }
+
+    if (profile.motion) {
+      getMotionDetector().updateConfig(profile.motion);
+    }
+
+    if (profile.detection) {
+      const { minConfidence, visualMinConfidence, visualThreshold } = profile.detection;
+      updateDetectorOptions({ minConfidence });
+      getVisualDetector().setThresholds({ minConfidence: visualMinConfidence, detectionThreshold: visualThreshold });
+    }
+
+    if (profile.irMode) {
+      const imaging = getCameraRegistry().getDefaultCamera().getImagingController();
+      if (!imaging) {
+        errors.push('IR mode: camera imaging control not available');
+      } else {
+        try {
+          await imaging.setDayNight(profile.irMode);
+        } catch (err) {
+          errors.push(`IR mode: ${(err as Error).message}`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  private locationSet(): boolean {
+    return config.detection.latitude !== undefined && config.detection.longitude !== undefined;
+  }
+
+  private currentPhase(now: Date = new Date()): 'day' | 'night' | null {
+    if (!this.locationSet()) return null;
+    const twilight = getCivilTwilight(now, config.detection.latitude!, config.detection.longitude!);
+    if (twilight.polar) return twilight.polar;
+    return now >= twilight.dawn! && now < twilight.dusk! ? 'day' : 'night';
+  }
+
+  private nextSwitch(): ProfileStatus['nextSwitch'] {
+    if (!this.locationSet()) return null;
+    const now = Date.now();
+    const { auto } = this.state;
+
+    // Twilight of today's and the next two solar days, first one still ahead
+    for (let day = 0; day < 3; day++) {
+      const twilight = getCivilTwilight(new Date(now + day * 86400000), config.detection.latitude!, config.detection.longitude!);
+      if (twilight.dawn && twilight.dawn.getTime() > now) {
+        return { at: twilight.dawn.toISOString(), profile: auto.dayProfile, reason: 'dawn' };
+      }
+      if (twilight.dusk && twilight.dusk.getTime() > now) {
+        return { at: twilight.dusk.toISOString(), profile: auto.nightProfile, reason: 'dusk' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * First run: a day profile with the current settings and a calmer night one
+   */
+  private ensureDefaults(): void {
+    if (this.state.profiles.length > 0) return;
+
+    const motion = getMotionDetector().getConfig();
+    const visual = getVisualDetector().getThresholds();
+    const hasImaging = getCameraRegistry().getDefaultCamera().getImagingController() !== null;
+
+    this.state.profiles = [
+      {
+        id: 'day',
+        name: 'Day',
+        motion: { sensitivity: motion.sensitivity, threshold: motion.threshold, minDurationMs: motion.minDurationMs },
+        detection: {
+          minConfidence: getDetectorOptions().minConfidence,
+          visualMinConfidence: visual.minConfidence,
+          visualThreshold: visual.detectionThreshold,
+        },
+        ...(hasImaging ? { irMode: 'day' as const } : {}),
+      },
+      {
+        // IR noise and insects under the illuminator trigger plain frame differencing
+        id: 'night',
+        name: 'Night',
+        motion: {
+          sensitivity: Math.max(10, motion.sensitivity - 20),
+          threshold: motion.threshold * 2,
+          minDurationMs: Math.max(motion.minDurationMs, 1000),
+        },
+        detection: {
+          minConfidence: getDetectorOptions().minConfidence,
+          visualMinConfidence: Math.min(0.9, visual.minConfidence + 0.15),
+          visualThreshold: visual.detectionThreshold,
+        },
+        ...(hasImaging ? { irMode: 'night' as const } : {}),
+      },
+    ];
+    this.saveState();
+    console.log('[Profiles] Created default day and night profiles');
+  }
+
+  private loadState(): ProfilesState {
+    const defaults: ProfilesState = {
+      profiles: [],
+      auto: { enabled: config.profiles.autoSwitch, dayProfile: 'day', nightProfile: 'night' },
+      activeProfile: null,
+      activeSince: null,
+      history: [],
+    };
+
+    try {
+      if (existsSync(PROFILES_FILE)) {
+        const data = JSON.parse(readFileSync(PROFILES_FILE, 'utf-8'));
+        return {
+          profiles: Array.isArray(data.profiles) ? data.profiles : [],
+          auto: { ...defaults.auto, ...data.auto },
+          activeProfile: typeof data.activeProfile === 'string' ? data.activeProfile : null,
+          activeSince: typeof data.activeSince === 'string' ? data.activeSince : null,
+          history: Array.isArray(data.history) ? data.history : [],
+        };
+      }
+    } catch (err) {
+      console.warn('[Profiles] Failed to load profiles:', (err as Error).message);
+    }
+    return defaults;
+  }
+
+  private saveState(): void {
+    try {
+      mkdirSync(SETTINGS_DIR, { recursive: true });
+      writeFileSync(PROFILES_FILE, JSON.stringify(this.state, null, 2));
+    } catch (err) {
+      console.error('[Profiles] Failed to save profiles:', (err as Error).message);
+    }
+  }
+}
+
+function validateProfile(profile: OperatingProfile): void {
+  if (typeof profile?.id !== 'string' || !PROFILE_ID_PATTERN.test(profile.id)) {
+    throw new Error('id must be 1-32 lowercase letters, digits or dashes');
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new Error('name is required');
+  }
+
+  if (profile.video !== undefined) {
+    if (typeof profile.video !== 'object' || profile.video === null) {
+      throw new Error('video must be an object of video settings');
+    }
+    const { outputResolution, qualityPreset } = profile.video;
+    if (outputResolution && !['1080p', '720p', '480p', 'source', 'custom'].includes(outputResolution)) {
+      throw new Error('Invalid resolution preset');
+    }
+    if (qualityPreset && !['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium'].includes(qualityPreset)) {
+      throw new Error('Invalid quality preset');
+    }
+  }
+
+  if (profile.motion !== undefined) {
+    if (typeof profile.motion !== 'object' || profile.motion === null) {
+      throw new Error('motion must be an object of motion settings');
+    }
+    if ('regions' in profile.motion) {
+      throw new Error('Motion regions are not part of a profile');
+    }
+  }
+
+  if (profile.detection !== undefined) {
+    for (const [key, value] of Object.entries(profile.detection)) {
+      if (typeof value !== 'number' || value < 0 || value > 1) {
+        throw new Error(`detection.${key} must be between 0 and 1`);
+      }
+    }
+  }
+
+  if (profile.irMode !== undefined && !['day', 'night', 'auto'].includes(profile.irMode)) {
+    throw new Error('irMode must be day, night or auto');
+  }
+}
+
+// Singleton instance
+let profileManager: ProfileManager | null = null;
+
+export function getProfileManager(): ProfileManager {
+  if (!profileManager) {
+    profileManager = new ProfileManager();
+  }
+  return profileManager;
+}
@@ -1,7 +1,10 @@
 /**
  * PTZ Preset Management Module
  * 
- * Enhanced preset management with named presets, scheduling, and patrol mode.
+ * Enhanced preset management with named presets and patrol mode. Adaptive
+ * patrols dwell longer where birds have recently been seen (see
+ * patrol-planner.ts) and hold position while a bird is being detected.
+ * Timed preset moves are scheduler jobs (see scheduler.ts).
  */
 
 import { existsSync, readFileSync, writeFileSync } from 'fs';
@@ -9,6 +12,7 @@ import { join } from 'path';
 import { homedir } from 'os';
 import type { PtzController } from './ptz.js';
 import type { AmcrestPtzController } from './amcrest-ptz.js';
+import { getPatrolPlanner } from './patrol-planner.js';
 
 export interface SavedPreset {
   id: string;
@@ -21,13 +25,21 @@ export interface SavedPreset {
   tags?: string[];       // e.g., ['feeder', 'morning', 'birds']
 }
 
+export type PatrolMode = 'fixed' | 'adaptive';
+
 export interface PatrolConfig {
   enabled: boolean;
   presets: string[];     // Preset IDs in order
-  dwellSeconds: number;  // Time at each preset
+  dwellSeconds: number;  // Time at each preset (average per preset when adaptive)
   loop: boolean;
+  mode: PatrolMode;      // adaptive = dwell weighted by recent sightings
+  minDwellSeconds: number;
+  maxDwellSeconds: number;
+  pauseOnActivity: boolean;   // Hold position while birds are being detected
+  resumeAfterSeconds: number; // Quiet time before moving on
 }
 
+/** Preset schedule as stored by older versions, migrated to scheduler jobs */
 export interface ScheduledPreset {
   id: string;
   presetId: string;
@@ -49,6 +61,11 @@ const DEFAULT_STATE: PresetManagerState = {
     presets: [],
     dwellSeconds: 30,
     loop: true,
+    mode: 'fixed',
+    minDwellSeconds: 10,
+    maxDwellSeconds: 300,
+    pauseOnActivity: true,
+    resumeAfterSeconds: 60,
   },
   scheduled: [],
 };
@@ -59,7 +76,9 @@ export class PresetManager {
   private ptzController: PtzController | AmcrestPtzController | null = null;
   private patrolTimer: NodeJS.Timeout | null = null;
   private patrolIndex: number = 0;
-  private scheduleTimers: Map<string, NodeJS.Timeout> = new Map();
+  private patrolHeld: boolean = false;
+  private currentPresetId: string | null = null;
+  private dwellStart: { presetId: string; at: Date } | null = null;
 
   constructor(stateDir?: string) {
     const dir = stateDir || join(homedir(), '.birdcam');
@@ -70,8 +89,8 @@ export class PresetManager {
   private loadState(): PresetManagerState {
     try {
       if (existsSync(this.statePath)) {
-        const data = readFileSync(this.statePath, 'utf-8');
-        return { ...DEFAULT_STATE, ...JSON.parse(data) };
+        const data = JSON.parse(readFileSync(this.statePath, 'utf-8'));
+        return { ...DEFAULT_STATE, ...data, patrol: { ...DEFAULT_STATE.patrol, ...data.patrol } };
       }
     } catch (err) {
       console.warn('[PresetManager] Failed to load state:', (err as Error).message);
@@ -181,6 +200,7 @@ export class PresetManager {
     const success = await this.ptzController.gotoPreset(preset.token);
     
     if (success) {
+      this.currentPresetId = id;
       // Update last used
       preset.lastUsed = new Date().toISOString();
       this.saveState();
@@ -189,6 +209,20 @@ export class PresetManager {
     return success;
   }
 
+  /**
+   * Preset the camera was last moved to (null after manual moves)
+   */
+  getCurrentPresetId(): string | null {
+    return this.currentPresetId;
+  }
+
+  /**
+   * Forget the current preset, e.g. after the camera was moved by hand
+   */
+  clearCurrentPreset(): void {
+    this.currentPresetId = null;
+  }
+
   /**
    * Delete a preset
    */
@@ -200,9 +234,6 @@ export class PresetManager {
       // Remove from patrol if present
       this.state.patrol.presets = this.state.patrol.presets.filter(p => p !== id);
       
-      // Remove from scheduled
-      this.state.scheduled = this.state.scheduled.filter(s => s.presetId !== id);
-      
       this.saveState();
       console.log(`[PresetManager] Deleted preset: ${id}`);
       return true;
@@ -251,9 +282,14 @@ export class PresetManager {
 
     this.state.patrol.enabled = true;
     this.patrolIndex = 0;
+    this.patrolHeld = false;
     this.saveState();
 
     console.log(`[PresetManager] Starting patrol with ${this.state.patrol.presets.length} presets`);
+    getPatrolPlanner().log({
+      action: 'start',
+      reason: `${this.state.patrol.mode} patrol over ${this.state.patrol.presets.length} presets`,
+    });
     this.runPatrolStep();
     return true;
   }
@@ -266,8 +302,14 @@ export class PresetManager {
       clearTimeout(this.patrolTimer);
       this.patrolTimer = null;
     }
+    const wasRunning = this.state.patrol.enabled;
+    this.endDwell();
+    this.patrolHeld = false;
     this.state.patrol.enabled = false;
     this.saveState();
+    if (wasRunning) {
+      getPatrolPlanner().log({ action: 'stop', reason: 'patrol stopped' });
+    }
     console.log('[PresetManager] Patrol stopped');
   }
 
@@ -278,15 +320,66 @@ export class PresetManager {
     return this.patrolTimer !== null;
   }
 
+  /**
+   * Check if patrol is holding position for bird activity
+   */
+  isPatrolHeld(): boolean {
+    return this.patrolHeld;
+  }
+
+  /**
+   * Hold the patrol at the current preset while birds are being detected.
+   * Each call restarts the quiet period; the patrol moves on once it passes.
+   */
+  holdPatrol(reason: string = 'bird activity'): void {
+    const patrol = this.state.patrol;
+    if (!patrol.enabled || !patrol.pauseOnActivity || !this.patrolTimer) return;
+
+    clearTimeout(this.patrolTimer);
+    if (!this.patrolHeld) {
+      this.patrolHeld = true;
+      getPatrolPlanner().log({ action: 'pause', presetId: this.currentPresetId ?? undefined, reason });
+    }
+
+    this.patrolTimer = setTimeout(() => {
+      this.patrolHeld = false;
+      getPatrolPlanner().log({
+        action: 'resume',
+        presetId: this.currentPresetId ?? undefined,
+        reason: `no activity for ${patrol.resumeAfterSeconds}s`,
+      });
+      this.runPatrolStep();
+    }, patrol.resumeAfterSeconds * 1000);
+  }
+
+  /**
+   * Count the time spent at the current patrol preset
+   */
+  private endDwell(): void {
+    if (!this.dwellStart) return;
+    const seconds = (Date.now() - this.dwellStart.at.getTime()) / 1000;
+    getPatrolPlanner().recordExposure(this.dwellStart.presetId, this.dwellStart.at, seconds);
+    this.dwellStart = null;
+  }
+
   private async runPatrolStep(): Promise<void> {
     if (!this.state.patrol.enabled || this.state.patrol.presets.length === 0) {
       return;
     }
 
-    const presetId = this.state.patrol.presets[this.patrolIndex];
-    console.log(`[PresetManager] Patrol step ${this.patrolIndex + 1}/${this.state.patrol.presets.length}: ${presetId}`);
+    const patrol = this.state.patrol;
+    const presetId = patrol.presets[this.patrolIndex];
+    console.log(`[PresetManager] Patrol step ${this.patrolIndex + 1}/${patrol.presets.length}: ${presetId}`);
 
-    await this.gotoPreset(presetId);
+    const plan = patrol.mode === 'adaptive'
+      ? getPatrolPlanner().planDwell(patrol.presets, presetId, patrol)
+      : { dwellSeconds: patrol.dwellSeconds, reason: 'fixed dwell' };
+
+    this.endDwell();
+    if (await this.gotoPreset(presetId)) {
+      this.dwellStart = { presetId, at: new Date() };
+      getPatrolPlanner().log({ action: 'move', presetId, dwellSeconds: plan.dwellSeconds, reason: plan.reason });
+    }
 
     // Move to next preset
     this.patrolIndex++;
@@ -299,124 +392,29 @@ export class PresetManager {
       }
     }
 
+    // Stopped while the camera was moving
+    if (!this.state.patrol.enabled) return;
+
     // Schedule next step
     this.patrolTimer = setTimeout(
       () => this.runPatrolStep(),
-      this.state.patrol.dwellSeconds * 1000
+      plan.dwellSeconds * 1000
     );
   }
 
-  // ==================== Scheduled Presets ====================
-
-  /**
-   * Get scheduled presets
-   */
-  getScheduledPresets(): ScheduledPreset[] {
-    return [...this.state.scheduled];
-  }
-
-  /**
-   * Add a scheduled preset
-   */
-  addScheduledPreset(schedule: Omit<ScheduledPreset, 'id'>): ScheduledPreset {
-    const scheduled: ScheduledPreset = {
-      ...schedule,
-      id: `schedule_${Date.now()}`,
-    };
-
-    this.state.scheduled.push(scheduled);
-    this.saveState();
-
-    if (scheduled.enabled) {
-      this.setupScheduleTimer(scheduled);
-    }
-
-    console.log(`[PresetManager] Added scheduled preset: ${scheduled.name || scheduled.id}`);
-    return scheduled;
-  }
+  // ==================== Legacy Schedules ====================
 
   /**
-   * Remove a scheduled preset
+   * Hand over preset schedules saved by older versions (they now run in
+   * the scheduler, see scheduler.ts) and clear them from this state
    */
-  removeScheduledPreset(id: string): boolean {
-    const index = this.state.scheduled.findIndex(s => s.id === id);
-    if (index >= 0) {
-      this.state.scheduled.splice(index, 1);
+  takeLegacySchedules(): ScheduledPreset[] {
+    const legacy = this.state.scheduled;
+    if (legacy.length > 0) {
+      this.state.scheduled = [];
       this.saveState();
-
-      // Clear timer if exists
-      const timer = this.scheduleTimers.get(id);
-      if (timer) {
-        clearTimeout(timer);
-        this.scheduleTimers.delete(id);
-      }
-
-      return true;
-    }
-    return false;
-  }
-
-  /**
-   * Initialize all schedule timers
-   */
-  initSchedules(): void {
-    for (const schedule of this.state.scheduled) {
-      if (schedule.enabled) {
-        this.setupScheduleTimer(schedule);
-      }
     }
-  }
-
-  private setupScheduleTimer(schedule: ScheduledPreset): void {
-    // Simple implementation: parse cron and set timeout to next occurrence
-    // For production, use a proper cron library like node-cron
-    const nextRun = this.getNextCronTime(schedule.cronExpression);
-    if (!nextRun) return;
-
-    const delay = nextRun.getTime() - Date.now();
-    if (delay <= 0) return;
-
-    console.log(`[PresetManager] Scheduling ${schedule.name || schedule.id} for ${nextRun.toISOString()}`);
-
-    const timer = setTimeout(async () => {
-      console.log(`[PresetManager] Executing scheduled preset: ${schedule.name || schedule.id}`);
-      await this.gotoPreset(schedule.presetId);
-      
-      // Reschedule for next occurrence
-      this.setupScheduleTimer(schedule);
-    }, delay);
-
-    this.scheduleTimers.set(schedule.id, timer);
-  }
-
-  private getNextCronTime(cron: string): Date | null {
-    // Very basic cron parser for common patterns
-    // Format: minute hour day month weekday
-    const parts = cron.split(' ');
-    if (parts.length !== 5) return null;
-
-    const [minute, hour, day, month, weekday] = parts;
-    const now = new Date();
-    const next = new Date(now);
-
-    // Handle simple cases: specific hour and minute
-    if (minute !== '*' && hour !== '*') {
-      next.setHours(parseInt(hour, 10));
-      next.setMinutes(parseInt(minute, 10));
-      next.setSeconds(0);
-      next.setMilliseconds(0);
-
-      // If time has passed today, move to tomorrow
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-
-      return next;
-    }
-
-    // Default: run in 1 hour
-    next.setTime(now.getTime() + 60 * 60 * 1000);
-    return next;
+    return legacy;
   }
 
   /**
@@ -424,10 +422,6 @@ export class PresetManager {
    */
   destroy(): void {
     this.stopPatrol();
-    for (const timer of this.scheduleTimers.values()) {
-      clearTimeout(timer);
-    }
-    this.scheduleTimers.clear();
   }
 }
 
@@ -0,0 +1,208 @@
+/**
+ * Simulated PTZ Controller
+ *
+ * A camera-less PtzController with the same methods as the ONVIF and
+ * Amcrest controllers. Position follows the commanded velocities over real
+ * time, so auto-tracking and patrols can be exercised (PTZ_MODE=simulated)
+ * and checked in closed loop with projectToFrame().
+ *
+ * Pan and tilt run -1 to 1 across the full range of motion, zoom 0 to 1.
+ */
+
+import type { PtzCapabilities, PtzPosition, PtzPreset } from './ptz.js';
+import type { DetectionBox } from './detector.js';
+
+// Field of view at full wide angle, in pan/tilt units
+const WIDE_FOV = 0.5;
+const MAX_ZOOM_FACTOR = 4;
+// Distance covered per second at velocity 1
+const PAN_TILT_UNITS_PER_SECOND = 0.5;
+const ZOOM_UNITS_PER_SECOND = 0.5;
+
+export interface SimulatedPtzCommand {
+  time: number;
+  command: string;
+  pan?: number;
+  tilt?: number;
+  zoom?: number;
+}
+
+export class SimulatedPtzController {
+  private position: PtzPosition = { pan: 0, tilt: 0, zoom: 0 };
+  private velocity = { pan: 0, tilt: 0, zoom: 0 };
+  private updatedAt = Date.now();
+  private home: PtzPosition = { pan: 0, tilt: 0, zoom: 0 };
+  private presets: Map<string, { name: string; position: PtzPosition }> = new Map();
+  private commands: SimulatedPtzCommand[] = [];
+
+  async getCapabilities(): Promise<PtzCapabilities> {
+    return {
+      supported: true,
+      absoluteMove: true,
+      relativeMove: true,
+      continuousMove: true,
+      presets: true,
+      home: true,
+    };
+  }
+
+  async continuousMove(pan: number, tilt: number, zoom: number): Promise<boolean> {
+    this.integrate();
+    this.velocity = { pan: clamp(pan, -1, 1), tilt: clamp(tilt, -1, 1), zoom: clamp(zoom, -1, 1) };
+    this.record('continuousMove', pan, tilt, zoom);
+    return true;
+  }
+
+  async stop(): Promise<boolean> {
+    this.integrate();
+    this.velocity = { pan: 0, tilt: 0, zoom: 0 };
+    this.record('stop');
+    return true;
+  }
+
+  async absoluteMove(pan: number, tilt: number, zoom: number): Promise<boolean> {
+    this.integrate();
+    this.velocity = { pan: 0, tilt: 0, zoom: 0 };
+    this.position = clampPosition({ pan, tilt, zoom });
+    this.record('absoluteMove', pan, tilt, zoom);
+    return true;
+  }
+
+  async relativeMove(pan: number, tilt: number, zoom: number): Promise<boolean> {
+    this.integrate();
+    this.position = clampPosition({
+      pan: this.position.pan + pan,
+      tilt: this.position.tilt + tilt,
+      zoom: this.position.zoom + zoom,
+    });
+    this.record('relativeMove', pan, tilt, zoom);
+    return true;
+  }
+
+  async getPosition(): Promise<PtzPosition | null> {
+    this.integrate();
+    return { ...this.position };
+  }
+
+  async goHome(): Promise<boolean> {
+    return this.absoluteMove(this.home.pan, this.home.tilt, this.home.zoom);
+  }
+
+  async setHome(): Promise<boolean> {
+    this.integrate();
+    this.home = { ...this.position };
+    return true;
+  }
+
+  async getPresets(): Promise<PtzPreset[]> {
+    return [...this.presets.entries()].map(([token, p]) => ({ token, name: p.name }));
+  }
+
+  async gotoPreset(presetToken: string): Promise<boolean> {
+    const preset = this.presets.get(presetToken);
+    if (!preset) return false;
+    return this.absoluteMove(preset.position.pan, preset.position.tilt, preset.position.zoom);
+  }
+
+  async setPreset(name: string): Promise<string | null> {
+    this.integrate();
+    const token = String(this.presets.size + 1);
+    this.presets.set(token, { name, position: { ...this.position } });
+    return token;
+  }
+
+  async panLeft(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(-speed, 0, 0);
+  }
+
+  async panRight(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(speed, 0, 0);
+  }
+
+  async tiltUp(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(0, speed, 0);
+  }
+
+  async tiltDown(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(0, -speed, 0);
+  }
+
+  async zoomIn(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(0, 0, speed);
+  }
+
+  async zoomOut(speed: number = 0.5): Promise<boolean> {
+    return this.continuousMove(0, 0, -speed);
+  }
+
+  /**
+   * Where an object at a fixed scene position (pan/tilt units) appears in
+   * the current frame, as a normalized box. Null when it's out of view.
+   */
+  projectToFrame(scenePan: number, sceneTilt: number, size: number): DetectionBox | null {
+    this.integrate();
+    const fov = this.getFieldOfView();
+    const w = size / fov;
+    const cx = 0.5 + (scenePan - this.position.pan) / fov;
+    // Image y grows downwards, tilt grows upwards
+    const cy = 0.5 - (sceneTilt - this.position.tilt) / fov;
+
+    if (cx + w / 2 < 0 || cx - w / 2 > 1 || cy + w / 2 < 0 || cy - w / 2 > 1) {
+      return null;
+    }
+    return { x: cx - w / 2, y: cy - w / 2, w, h: w };
+  }
+
+  /**
+   * Width of the view in pan/tilt units at the current zoom
+   */
+  getFieldOfView(): number {
+    return WIDE_FOV / (1 + this.position.zoom * (MAX_ZOOM_FACTOR - 1));
+  }
+
+  /**
+   * Commands received so far (most recent last)
+   */
+  getCommands(): SimulatedPtzCommand[] {
+    return [...this.commands];
+  }
+
+  private integrate(): void {
+    const now = Date.now();
+    const seconds = (now - this.updatedAt) / 1000;
+    this.updatedAt = now;
+    if (seconds <= 0) return;
+
+    this.position = clampPosition({
+      pan: this.position.pan + this.velocity.pan * PAN_TILT_UNITS_PER_SECOND * seconds,
+      tilt: this.position.tilt + this.velocity.tilt * PAN_TILT_UNITS_PER_SECOND * seconds,
+      zoom: this.position.zoom + this.velocity.zoom * ZOOM_UNITS_PER_SECOND * seconds,
+    });
+  }
+
+  private record(command: string, pan?: number, tilt?: number, zoom?: number): void {
+    this.commands.push({ time: Date.now(), command, pan, tilt, zoom });
+    if (this.commands.length > 500) {
+      this.commands.shift();
+    }
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function clampPosition(position: PtzPosition): PtzPosition {
+  return {
+    pan: clamp(position.pan, -1, 1),
+    tilt: clamp(position.tilt, -1, 1),
+    zoom: clamp(position.zoom, 0, 1),
+  };
+}
+
+/**
+ * Factory function
+ */
+export function createSimulatedPtzController(): SimulatedPtzController {
+  return new SimulatedPtzController();
+}
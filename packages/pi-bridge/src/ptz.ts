@@ -4,9 +4,8 @@
  * Controls camera movement via ONVIF PTZ service.
  */
 
-import http from 'http';
-import crypto from 'crypto';
 import { config } from './config.js';
+import { soapRequest } from './onvif-soap.js';
 
 export interface PtzCapabilities {
   supported: boolean;
@@ -31,85 +30,6 @@ export interface PtzPreset {
   name: string;
 }
 
-// Create WS-Security header for ONVIF
-function createSecurityHeader(username: string, password: string): string {
-  const nonce = crypto.randomBytes(16);
-  const created = new Date().toISOString();
-  
-  const sha1 = crypto.createHash('sha1');
-  sha1.update(Buffer.concat([nonce, Buffer.from(created), Buffer.from(password)]));
-  const digest = sha1.digest('base64');
-  const nonce64 = nonce.toString('base64');
-  
-  return `
-    <wsse:Security xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd" 
-                   xmlns:wsu="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">
-      <wsse:UsernameToken>
-        <wsse:Username>${username}</wsse:Username>
-        <wsse:Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">${digest}</wsse:Password>
-        <wsse:Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">${nonce64}</wsse:Nonce>
-        <wsu:Created>${created}</wsu:Created>
-      </wsse:UsernameToken>
-    </wsse:Security>`;
-}
-
-function createSoapEnvelope(body: string, username?: string, password?: string): string {
-  const securityHeader = username && password ? createSecurityHeader(username, password) : '';
-  
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope"
-               xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl"
-               xmlns:tt="http://www.onvif.org/ver10/schema">
-  <soap:Header>${securityHeader}</soap:Header>
-  <soap:Body>${body}</soap:Body>
-</soap:Envelope>`;
-}
-
-async function soapRequest(
-  host: string,
-  port: number,
-  path: string,
-  body: string,
-  username?: string,
-  password?: string,
-  timeout = 10000
-): Promise<string> {
-  const envelope = createSoapEnvelope(body, username, password);
-  
-  return new Promise((resolve, reject) => {
-    const req = http.request({
-      hostname: host,
-      port,
-      path,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/soap+xml; charset=utf-8',
-        'Content-Length': Buffer.byteLength(envelope),
-      },
-      timeout,
-    }, (res) => {
-      let data = '';
-      res.on('data', chunk => data += chunk);
-      res.on('end', () => {
-        if (res.statusCode === 200) {
-          resolve(data);
-        } else {
-          reject(new Error(`PTZ request failed: ${res.statusCode}`));
-        }
-      });
-    });
-    
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('PTZ request timeout'));
-    });
-    
-    req.write(envelope);
-    req.end();
-  });
-}
-
 export class PtzController {
   private host: string;
   private port: number;
@@ -126,6 +46,14 @@ export class PtzController {
     this.profileToken = profileToken;
   }
 
+  private request(body: string): Promise<string> {
+    return soapRequest(`http://${this.host}:${this.port}/onvif/ptz_service`, body, {
+      username: this.username,
+      password: this.password,
+      label: 'PTZ',
+    });
+  }
+
   /**
    * Get PTZ capabilities for the camera
    */
@@ -136,14 +64,7 @@ export class PtzController {
       const body = `
         <tptz:GetConfigurations xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl"/>`;
       
-      const response = await soapRequest(
-        this.host,
-        this.port,
-        '/onvif/ptz_service',
-        body,
-        this.username,
-        this.password
-      );
+      const response = await this.request(body);
 
       // Parse capabilities from response
       const hasAbsolute = response.includes('AbsolutePanTiltPositionSpace') || response.includes('AbsoluteZoomPositionSpace');
@@ -183,7 +104,7 @@ export class PtzController {
       </tptz:ContinuousMove>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log(`[PTZ] Continuous move: pan=${pan}, tilt=${tilt}, zoom=${zoom}`);
       return true;
     } catch (err) {
@@ -204,7 +125,7 @@ export class PtzController {
       </tptz:Stop>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log('[PTZ] Stopped');
       return true;
     } catch (err) {
@@ -227,7 +148,7 @@ export class PtzController {
       </tptz:AbsoluteMove>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log(`[PTZ] Absolute move: pan=${pan}, tilt=${tilt}, zoom=${zoom}`);
       return true;
     } catch (err) {
@@ -250,7 +171,7 @@ export class PtzController {
       </tptz:RelativeMove>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log(`[PTZ] Relative move: pan=${pan}, tilt=${tilt}, zoom=${zoom}`);
       return true;
     } catch (err) {
@@ -269,7 +190,7 @@ export class PtzController {
       </tptz:GetStatus>`;
 
     try {
-      const response = await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      const response = await this.request(body);
       
       // Parse position from response
       const panMatch = response.match(/<tt:PanTilt[^>]*x="([^"]+)"[^>]*y="([^"]+)"/i);
@@ -299,7 +220,7 @@ export class PtzController {
       </tptz:GotoHomePosition>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log('[PTZ] Going home');
       return true;
     } catch (err) {
@@ -318,7 +239,7 @@ export class PtzController {
       </tptz:SetHomePosition>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log('[PTZ] Home position set');
       return true;
     } catch (err) {
@@ -337,7 +258,7 @@ export class PtzController {
       </tptz:GetPresets>`;
 
     try {
-      const response = await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      const response = await this.request(body);
       
       const presets: PtzPreset[] = [];
       const presetMatches = response.matchAll(/<tptz:Preset[^>]*token="([^"]+)"[^>]*>[\s\S]*?<tt:Name>([^<]*)<\/tt:Name>/gi);
@@ -368,7 +289,7 @@ export class PtzController {
       </tptz:GotoPreset>`;
 
     try {
-      await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      await this.request(body);
       console.log(`[PTZ] Going to preset: ${presetToken}`);
       return true;
     } catch (err) {
@@ -388,7 +309,7 @@ export class PtzController {
       </tptz:SetPreset>`;
 
     try {
-      const response = await soapRequest(this.host, this.port, '/onvif/ptz_service', body, this.username, this.password);
+      const response = await this.request(body);
       
       const tokenMatch = response.match(/<tptz:PresetToken>([^<]+)<\/tptz:PresetToken>/i);
       const token = tokenMatch ? tokenMatch[1] : null;
@@ -3,21 +3,35 @@
  * 
  * Handles video clip recording and snapshot capture.
  * Supports triggered recording (motion events) and manual capture.
+ * 
+ * A continuous segmenter keeps a short rolling buffer of the camera stream
+ * on disk, so triggered clips are stitched together from segments that
+ * already include the moments before the trigger (pre-roll).
  */
 
 import { spawn, ChildProcess } from 'child_process';
-import { mkdirSync, existsSync, readdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { createReadStream, mkdirSync, existsSync, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
 import { join, basename } from 'path';
+import ffmpeg from 'fluent-ffmpeg';
 import { config } from './config.js';
+import { getStorageAdapter } from './storage.js';
+import { getPrivacyFilter } from './privacy.js';
+
+export type ClipTrigger = 'motion' | 'manual' | 'scheduled';
 
 export interface RecordingConfig {
   clipsDir: string;
   snapshotsDir: string;
-  preBufferSeconds: number;    // Seconds to include before trigger
+  bufferDir: string;           // Rolling pre-roll segments (kept outside clipsDir)
+  segmentSeconds: number;      // Length of each pre-roll segment
+  preBufferSeconds: number;    // Seconds to include before trigger (0 = no buffer)
   postBufferSeconds: number;   // Seconds to record after trigger
   maxClipDurationSeconds: number;
   retentionDays: number;       // Auto-delete clips older than this
   maxStorageMb: number;        // Max storage before cleanup
+  privacyMask: boolean;        // Burn in the privacy zones (they belong to the default camera)
 }
 
 export interface ClipInfo {
@@ -25,9 +39,52 @@ export interface ClipInfo {
   path: string;
   startTime: Date;
   duration: number;
-  trigger: 'motion' | 'manual' | 'scheduled';
+  trigger: ClipTrigger;
   size: number;
   thumbnail?: string;
+  triggerTime?: Date;
+  triggerOffset?: number;      // Seconds into the clip where the trigger fired
+  sightingIds?: string[];      // Bird sightings that occurred during the clip
+  zoneId?: string;             // Detection zone the triggering activity was in
+  remote?: ClipRemote;         // Uploaded copy in the configured storage backend
+}
+
+export interface ClipRemote {
+  backend: string;
+  clipKey?: string;
+  clipUrl?: string;
+  thumbnailKey?: string;
+  thumbnailUrl?: string;
+  uploadedAt: string;
+}
+
+// Clip fields persisted in the <id>.json sidecar next to the video
+/**
+ * Codec arguments for writing a clip. Clips are stream-copied unless
+ * privacy zones have to be burned in, which means re-encoding the video.
+ */
+function clipCodecArgs(privacyFilter: string | null): string[] {
+  if (!privacyFilter) {
+    return ['-c', 'copy'];
+  }
+  return ['-vf', privacyFilter, '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-c:a', 'copy'];
+}
+
+type ClipMetadata = Pick<ClipInfo, 'trigger' | 'duration' | 'triggerOffset' | 'sightingIds' | 'zoneId' | 'remote'> & {
+  startTime: string;
+  triggerTime?: string;
+};
+
+interface BufferSegment {
+  path: string;
+  start: number;               // Epoch ms, taken from the segment filename
+}
+
+interface BufferedRecording {
+  id: string;
+  trigger: ClipTrigger;
+  triggerTime: number;
+  windowStart: number;         // Earliest moment the clip should cover
 }
 
 export interface SnapshotInfo {
@@ -40,21 +97,39 @@ export interface SnapshotInfo {
 const DEFAULT_CONFIG: RecordingConfig = {
   clipsDir: '/var/birdcam/clips',
   snapshotsDir: '/var/birdcam/snapshots',
+  bufferDir: '/tmp/birdcam-buffer',
+  segmentSeconds: 2,
   preBufferSeconds: 5,
   postBufferSeconds: 10,
   maxClipDurationSeconds: 60,
   retentionDays: 7,
   maxStorageMb: 10000, // 10GB
+  privacyMask: true,
 };
 
-class Recorder {
+const SEGMENT_PATTERN = /^seg_(\d+)\.ts$/;
+// Clip IDs become file names, so nothing else may reach join()
+const CLIP_ID_PATTERN = /^clip_\d+$/;
+
+export class Recorder extends EventEmitter {
   private config: RecordingConfig;
   private rtspUrl: string = '';
   private activeRecording: ChildProcess | null = null;
   private recordingStartTime: Date | null = null;
   private recordingId: string | null = null;
+  private recordingTrigger: ClipTrigger | null = null;
+  private recordingDone: Promise<ClipInfo | null> | null = null;
+  private autoStopTimer: NodeJS.Timeout | null = null;
+
+  // Pre-roll ring buffer
+  private segmenter: ChildProcess | null = null;
+  private bufferRunning: boolean = false;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private bufferedRecording: BufferedRecording | null = null;
+  private finalizing: Set<BufferedRecording> = new Set();
 
   constructor(recordingConfig?: Partial<RecordingConfig>) {
+    super();
     this.config = { ...DEFAULT_CONFIG, ...recordingConfig };
     this.ensureDirectories();
   }
@@ -72,6 +147,145 @@ class Recorder {
     this.rtspUrl = url;
   }
 
+  private privacyFilter(): string | null {
+    return this.config.privacyMask ? getPrivacyFilter() : null;
+  }
+
+  // ==================== Pre-roll Buffer ====================
+
+  /**
+   * Start the continuous segmenter that feeds the pre-roll buffer
+   */
+  startBuffer(): void {
+    if (this.bufferRunning) return;
+    if (!this.rtspUrl) {
+      console.error('[Recorder] No RTSP URL configured');
+      return;
+    }
+    if (this.config.preBufferSeconds <= 0) {
+      console.log('[Recorder] Pre-roll disabled, clips will start at the trigger');
+      return;
+    }
+
+    if (!existsSync(this.config.bufferDir)) {
+      mkdirSync(this.config.bufferDir, { recursive: true });
+    }
+
+    this.bufferRunning = true;
+    this.spawnSegmenter();
+
+    this.pruneTimer = setInterval(() => this.pruneBuffer(), this.config.segmentSeconds * 1000);
+
+    console.log(`[Recorder] Pre-roll buffer started (${this.config.preBufferSeconds}s in ${this.config.segmentSeconds}s segments)`);
+  }
+
+  /**
+   * Stop the segmenter and discard buffered segments
+   */
+  stopBuffer(): void {
+    this.bufferRunning = false;
+
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+
+    if (this.segmenter) {
+      this.segmenter.kill('SIGTERM');
+      this.segmenter = null;
+    }
+
+    console.log('[Recorder] Pre-roll buffer stopped');
+  }
+
+  isBuffering(): boolean {
+    return this.bufferRunning && this.segmenter !== null;
+  }
+
+  private spawnSegmenter(): void {
+    // Copy codec into short MPEG-TS segments named by their start time (epoch seconds)
+    this.segmenter = spawn(config.ffmpegPath, [
+      '-rtsp_transport', 'tcp',
+      '-i', this.rtspUrl,
+      '-map', '0:v',
+      '-map', '0:a?',
+      '-c', 'copy',
+      '-f', 'segment',
+      '-segment_time', String(this.config.segmentSeconds),
+      '-segment_format', 'mpegts',
+      '-reset_timestamps', '1',
+      '-strftime', '1',
+      join(this.config.bufferDir, 'seg_%s.ts'),
+    ]);
+
+    this.segmenter.stderr?.on('data', (data: Buffer) => {
+      if (config.debug) {
+        console.log(`[Recorder] Segmenter: ${data.toString().trim()}`);
+      }
+    });
+
+    this.segmenter.on('error', (err) => {
+      console.error('[Recorder] Segmenter error:', err.message);
+    });
+
+    this.segmenter.on('exit', (code) => {
+      this.segmenter = null;
+      if (!this.bufferRunning) return;
+
+      console.warn(`[Recorder] Segmenter exited with code ${code}, restarting in 5 seconds...`);
+      setTimeout(() => {
+        if (this.bufferRunning && !this.segmenter) {
+          this.spawnSegmenter();
+        }
+      }, 5000);
+    });
+  }
+
+  /**
+   * List buffered segments, oldest first
+   */
+  private listSegments(): BufferSegment[] {
+    if (!existsSync(this.config.bufferDir)) return [];
+
+    const segments: BufferSegment[] = [];
+    for (const file of readdirSync(this.config.bufferDir)) {
+      const match = file.match(SEGMENT_PATTERN);
+      if (match) {
+        segments.push({
+          path: join(this.config.bufferDir, file),
+          start: parseInt(match[1], 10) * 1000,
+        });
+      }
+    }
+
+    return segments.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Delete segments that no pending clip can still need
+   */
+  private pruneBuffer(): void {
+    const segmentMs = this.config.segmentSeconds * 1000;
+    let keepFrom = Date.now() - this.config.preBufferSeconds * 1000 - segmentMs;
+
+    const pending = [...this.finalizing];
+    if (this.bufferedRecording) pending.push(this.bufferedRecording);
+    for (const recording of pending) {
+      keepFrom = Math.min(keepFrom, recording.windowStart);
+    }
+
+    // A segment is only safe to drop once the one after it also starts before keepFrom
+    const segments = this.listSegments();
+    for (let i = 0; i < segments.length - 1; i++) {
+      if (segments[i + 1].start > keepFrom) break;
+      try {
+        unlinkSync(segments[i].path);
+      } catch {
+        // Segment may already be gone
+      }
+    }
+  }
+
   /**
    * Capture a snapshot from the stream
    */
@@ -87,11 +301,15 @@ class Recorder {
 
     console.log(`[Recorder] Capturing snapshot: ${reason}`);
 
+    const privacyFilter = this.privacyFilter();
+    const privacyArgs = privacyFilter ? ['-vf', privacyFilter] : [];
+
     return new Promise((resolve) => {
       const ffmpeg = spawn(config.ffmpegPath, [
         '-rtsp_transport', 'tcp',
         '-i', this.rtspUrl,
         '-vframes', '1',
+        ...privacyArgs,
         '-q:v', '2',
         '-y',
         filepath
@@ -129,18 +347,27 @@ class Recorder {
 
   /**
    * Start recording a clip
+   * 
+   * With the pre-roll buffer running, the clip covers preBufferSeconds before
+   * the trigger. Motion clips end postBufferSeconds after the trigger (see
+   * extendRecording); manual and scheduled clips run until stopped. All clips
+   * are capped at maxClipDurationSeconds.
    */
-  async startRecording(trigger: 'motion' | 'manual' | 'scheduled' = 'manual'): Promise<string | null> {
+  async startRecording(trigger: ClipTrigger = 'manual'): Promise<string | null> {
     if (!this.rtspUrl) {
       console.error('[Recorder] No RTSP URL configured');
       return null;
     }
 
-    if (this.activeRecording) {
+    if (this.isRecording()) {
       console.log('[Recorder] Recording already in progress');
       return this.recordingId;
     }
 
+    if (this.isBuffering()) {
+      return this.startBufferedRecording(trigger);
+    }
+
     const id = `clip_${Date.now()}`;
     const filename = `${id}.mp4`;
     const filepath = join(this.config.clipsDir, filename);
@@ -149,49 +376,431 @@ class Recorder {
     console.log(`[Recorder] Starting recording: ${trigger}`);
 
     this.recordingId = id;
+    this.recordingTrigger = trigger;
     this.recordingStartTime = new Date();
+    const startTime = this.recordingStartTime;
 
-    // Record with copy codec (no transcoding) for efficiency
-    this.activeRecording = spawn(config.ffmpegPath, [
+    // Record with copy codec (no transcoding) for efficiency, unless masking
+    const recording = spawn(config.ffmpegPath, [
       '-rtsp_transport', 'tcp',
       '-i', this.rtspUrl,
-      '-c', 'copy',
+      ...clipCodecArgs(this.privacyFilter()),
       '-t', String(this.config.maxClipDurationSeconds),
       '-movflags', '+faststart',
       '-y',
       filepath
     ]);
+    this.activeRecording = recording;
 
-    this.activeRecording.on('close', async (code) => {
-      if (code === 0 && existsSync(filepath)) {
-        // Generate thumbnail
-        await this.generateThumbnail(filepath, thumbnailPath);
+    this.recordingDone = new Promise((resolve) => {
+      recording.on('close', async (code) => {
+        let clip: ClipInfo | null = null;
+
+        if (code === 0 && existsSync(filepath)) {
+          // Generate thumbnail
+          await this.generateThumbnail(filepath, thumbnailPath);
+
+          clip = await this.saveClip(id, filepath, thumbnailPath, {
+            trigger,
+            startTime: startTime.toISOString(),
+            duration: await this.probeDuration(filepath),
+            triggerTime: startTime.toISOString(),
+            triggerOffset: 0,
+          });
+        } else {
+          console.error(`[Recorder] Recording failed with code: ${code}`);
+        }
         
-        const stats = statSync(filepath);
-        console.log(`[Recorder] Clip saved: ${filepath} (${(stats.size / 1024 / 1024).toFixed(2)}MB)`);
-      } else {
-        console.error(`[Recorder] Recording failed with code: ${code}`);
-      }
-      
-      this.activeRecording = null;
-      this.recordingStartTime = null;
-      this.recordingId = null;
+        // stopRecording() may already have handed over to a newer recording
+        if (this.activeRecording === recording) {
+          this.clearAutoStop();
+          this.clearRecordingState();
+        }
+        resolve(clip);
+      });
     });
 
+    this.scheduleInitialAutoStop(trigger);
+
     // Auto-cleanup old files
     this.cleanupOldFiles();
 
     return id;
   }
 
+  private startBufferedRecording(trigger: ClipTrigger): string {
+    const now = Date.now();
+    const id = `clip_${now}`;
+
+    console.log(`[Recorder] Starting recording: ${trigger} (with ${this.config.preBufferSeconds}s pre-roll)`);
+
+    const recording: BufferedRecording = {
+      id,
+      trigger,
+      triggerTime: now,
+      windowStart: now - this.config.preBufferSeconds * 1000,
+    };
+
+    this.bufferedRecording = recording;
+    this.recordingId = id;
+    this.recordingTrigger = trigger;
+    this.recordingStartTime = new Date(now);
+
+    this.scheduleInitialAutoStop(trigger);
+    this.cleanupOldFiles();
+
+    return id;
+  }
+
+  /**
+   * Keep a triggered recording going for another postBufferSeconds
+   * 
+   * Returns false if nothing is recording or the clip has already reached
+   * maxClipDurationSeconds. Manual and scheduled recordings run until
+   * stopped and are left as they are.
+   */
+  extendRecording(): boolean {
+    if (!this.isRecording() || !this.recordingStartTime) {
+      return false;
+    }
+
+    const remainingSeconds = this.remainingClipSeconds();
+    if (remainingSeconds <= 0) {
+      return false;
+    }
+    if (this.recordingTrigger === 'manual' || this.recordingTrigger === 'scheduled') {
+      return true;
+    }
+
+    this.scheduleAutoStop(Math.min(this.config.postBufferSeconds, remainingSeconds));
+    return true;
+  }
+
+  private scheduleInitialAutoStop(trigger: ClipTrigger): void {
+    const remainingSeconds = this.remainingClipSeconds();
+    const seconds = trigger === 'manual' || trigger === 'scheduled'
+      ? remainingSeconds
+      : Math.min(this.config.postBufferSeconds, remainingSeconds);
+    this.scheduleAutoStop(Math.max(seconds, 0));
+  }
+
+  /**
+   * Seconds left before the current clip reaches maxClipDurationSeconds,
+   * counted from the start of the clip (including any pre-roll)
+   */
+  private remainingClipSeconds(): number {
+    const clipStart = this.bufferedRecording?.windowStart ?? this.recordingStartTime?.getTime() ?? Date.now();
+    return this.config.maxClipDurationSeconds - (Date.now() - clipStart) / 1000;
+  }
+
+  private clearRecordingState(): void {
+    this.activeRecording = null;
+    this.recordingStartTime = null;
+    this.recordingId = null;
+    this.recordingTrigger = null;
+    this.recordingDone = null;
+  }
+
+  private scheduleAutoStop(seconds: number): void {
+    this.clearAutoStop();
+    this.autoStopTimer = setTimeout(() => {
+      this.autoStopTimer = null;
+      this.stopRecording().catch(err => {
+        console.error('[Recorder] Failed to finalize clip:', (err as Error).message);
+      });
+    }, seconds * 1000);
+  }
+
+  private clearAutoStop(): void {
+    if (this.autoStopTimer) {
+      clearTimeout(this.autoStopTimer);
+      this.autoStopTimer = null;
+    }
+  }
+
   /**
    * Stop the current recording
+   * 
+   * Resolves with the saved clip once it has been written to disk.
    */
-  stopRecording(): void {
+  async stopRecording(): Promise<ClipInfo | null> {
+    this.clearAutoStop();
+
+    if (this.bufferedRecording) {
+      const recording = this.bufferedRecording;
+
+      console.log('[Recorder] Stopping recording...');
+      this.bufferedRecording = null;
+      this.recordingId = null;
+      this.recordingTrigger = null;
+      this.recordingStartTime = null;
+
+      this.finalizing.add(recording);
+      try {
+        return await this.finalizeBufferedRecording(recording, Date.now());
+      } finally {
+        this.finalizing.delete(recording);
+      }
+    }
+
     if (this.activeRecording) {
       console.log('[Recorder] Stopping recording...');
-      this.activeRecording.kill('SIGINT'); // Graceful stop to finalize file
+      const recording = this.activeRecording;
+      const done = this.recordingDone;
+      // Released right away so the next startRecording() gets a new clip
+      this.clearRecordingState();
+      recording.kill('SIGINT'); // Graceful stop to finalize file
+      return done ?? null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Stitch buffered segments covering [windowStart, endTime] into a clip
+   */
+  private async finalizeBufferedRecording(recording: BufferedRecording, endTime: number): Promise<ClipInfo | null> {
+    // Wait for the segment containing endTime to be closed by the segmenter
+    const deadline = Date.now() + (this.config.segmentSeconds * 2 + 5) * 1000;
+    while (Date.now() < deadline && !this.listSegments().some(seg => seg.start >= endTime)) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    const segments = this.listSegments();
+    const selected = segments.filter((seg, i) => {
+      const next = segments[i + 1];
+      return seg.start < endTime && (!next || next.start > recording.windowStart);
+    });
+
+    if (selected.length === 0) {
+      console.error('[Recorder] No buffered segments available for clip');
+      return null;
+    }
+
+    const filepath = join(this.config.clipsDir, `${recording.id}.mp4`);
+    const thumbnailPath = join(this.config.clipsDir, `${recording.id}_thumb.jpg`);
+    const listPath = join(this.config.bufferDir, `${recording.id}.txt`);
+
+    writeFileSync(listPath, selected.map(seg => `file '${seg.path}'`).join('\n') + '\n');
+
+    const ok = await new Promise<boolean>((resolve) => {
+      const concat = spawn(config.ffmpegPath, [
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', listPath,
+        ...clipCodecArgs(this.privacyFilter()),
+        '-movflags', '+faststart',
+        '-y',
+        filepath
+      ]);
+
+      let error = '';
+      concat.stderr.on('data', (data) => {
+        error += data.toString();
+      });
+
+      concat.on('close', (code) => {
+        if (code !== 0) {
+          console.error(`[Recorder] Clip stitching failed: ${error.slice(-500)}`);
+        }
+        resolve(code === 0 && existsSync(filepath));
+      });
+    });
+
+    try {
+      unlinkSync(listPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    if (!ok) return null;
+
+    await this.generateThumbnail(filepath, thumbnailPath);
+
+    // Segments start on keyframes, so the clip starts exactly at the first segment
+    const clipStart = selected[0].start;
+    return this.saveClip(recording.id, filepath, thumbnailPath, {
+      trigger: recording.trigger,
+      startTime: new Date(clipStart).toISOString(),
+      duration: await this.probeDuration(filepath),
+      triggerTime: new Date(recording.triggerTime).toISOString(),
+      triggerOffset: Math.max(0, (recording.triggerTime - clipStart) / 1000),
+    });
+  }
+
+  /**
+   * Persist clip metadata and announce the finished clip
+   */
+  private async saveClip(id: string, filepath: string, thumbnailPath: string, metadata: ClipMetadata): Promise<ClipInfo> {
+    this.writeClipMetadata(id, metadata);
+
+    const stats = statSync(filepath);
+    const clip: ClipInfo = {
+      id,
+      path: filepath,
+      size: stats.size,
+      thumbnail: existsSync(thumbnailPath) ? thumbnailPath : undefined,
+      ...this.parseClipMetadata(metadata),
+    };
+
+    console.log(`[Recorder] Clip saved: ${filepath} (${(stats.size / 1024 / 1024).toFixed(2)}MB, trigger at ${clip.triggerOffset?.toFixed(1) ?? 0}s)`);
+    this.emit('clipSaved', clip);
+    return clip;
+  }
+
+  private getMetadataPath(id: string): string {
+    if (!CLIP_ID_PATTERN.test(id)) throw new Error(`Invalid clip ID: ${id}`);
+    return join(this.config.clipsDir, `${id}.json`);
+  }
+
+  private writeClipMetadata(id: string, metadata: ClipMetadata): void {
+    try {
+      writeFileSync(this.getMetadataPath(id), JSON.stringify(metadata, null, 2));
+    } catch (err) {
+      console.warn('[Recorder] Failed to save clip metadata:', (err as Error).message);
+    }
+  }
+
+  private readClipMetadata(id: string): ClipMetadata | null {
+    if (!CLIP_ID_PATTERN.test(id)) return null;
+    const metaPath = this.getMetadataPath(id);
+    if (!existsSync(metaPath)) return null;
+
+    try {
+      return JSON.parse(readFileSync(metaPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private parseClipMetadata(metadata: ClipMetadata): Pick<ClipInfo, 'trigger' | 'startTime' | 'duration' | 'triggerTime' | 'triggerOffset' | 'sightingIds' | 'zoneId' | 'remote'> {
+    return {
+      trigger: metadata.trigger,
+      startTime: new Date(metadata.startTime),
+      duration: metadata.duration,
+      triggerTime: metadata.triggerTime ? new Date(metadata.triggerTime) : undefined,
+      triggerOffset: metadata.triggerOffset,
+      sightingIds: metadata.sightingIds,
+      zoneId: metadata.zoneId,
+      remote: metadata.remote,
+    };
+  }
+
+  /**
+   * Record which bird sightings happened during a saved clip
+   */
+  setClipSightings(id: string, sightingIds: string[]): boolean {
+    const metadata = this.readClipMetadata(id);
+    if (!metadata) return false;
+
+    metadata.sightingIds = [...new Set(sightingIds)];
+    this.writeClipMetadata(id, metadata);
+    return true;
+  }
+
+  /**
+   * Record which detection zone a saved clip's activity was in
+   */
+  setClipZone(id: string, zoneId: string): boolean {
+    const metadata = this.readClipMetadata(id);
+    if (!metadata) return false;
+
+    metadata.zoneId = zoneId;
+    this.writeClipMetadata(id, metadata);
+    return true;
+  }
+
+  /**
+   * Upload a clip's video to the configured storage backend
+   *
+   * Objects are stored under clips/<prefix>/<id>.mp4, where prefix is
+   * usually the camera ID. Returns the object's URL.
+   */
+  async uploadClip(id: string, prefix: string): Promise<string> {
+    if (!CLIP_ID_PATTERN.test(id)) throw new Error(`Invalid clip ID: ${id}`);
+    const filepath = join(this.config.clipsDir, `${id}.mp4`);
+    const key = `clips/${prefix}/${id}.mp4`;
+    const url = await this.uploadFile(id, filepath, key, 'video/mp4');
+    this.updateRemote(id, { clipKey: key, clipUrl: url });
+    return url;
+  }
+
+  /**
+   * Upload a clip's thumbnail to the configured storage backend
+   */
+  async uploadThumbnail(id: string, prefix: string): Promise<string> {
+    if (!CLIP_ID_PATTERN.test(id)) throw new Error(`Invalid clip ID: ${id}`);
+    const filepath = join(this.config.clipsDir, `${id}_thumb.jpg`);
+    const key = `thumbnails/${prefix}/${id}.jpg`;
+    const url = await this.uploadFile(id, filepath, key, 'image/jpeg');
+    this.updateRemote(id, { thumbnailKey: key, thumbnailUrl: url });
+    return url;
+  }
+
+  /**
+   * Open a stream of a clip's video, from disk or from remote storage
+   * when the local copy has already been pruned
+   */
+  async openClipStream(id: string): Promise<Readable | null> {
+    const clip = this.getClip(id);
+    if (!clip) return null;
+
+    if (existsSync(clip.path)) {
+      return createReadStream(clip.path);
+    }
+
+    const storage = getStorageAdapter();
+    if (!clip.remote?.clipKey || !storage || storage.backend !== clip.remote.backend) {
+      return null;
     }
+    return storage.download(clip.remote.clipKey);
+  }
+
+  private async uploadFile(id: string, filepath: string, key: string, contentType: string): Promise<string> {
+    const storage = getStorageAdapter();
+    if (!storage) {
+      throw new Error('No storage backend configured');
+    }
+    if (!existsSync(filepath)) {
+      throw new Error(`File not found: ${basename(filepath)}`);
+    }
+
+    return storage.upload(key, readFileSync(filepath), {
+      contentType,
+      metadata: {
+        clipId: id,
+        deviceId: config.deviceId,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  private updateRemote(id: string, remote: Partial<ClipRemote>): void {
+    const metadata = this.readClipMetadata(id);
+    if (!metadata) return;
+
+    metadata.remote = {
+      ...metadata.remote,
+      ...remote,
+      backend: getStorageAdapter()?.backend || 'none',
+      uploadedAt: new Date().toISOString(),
+    };
+    this.writeClipMetadata(id, metadata);
+  }
+
+  /**
+   * Get a video's duration in seconds via ffprobe (0 if unknown)
+   */
+  private probeDuration(videoPath: string): Promise<number> {
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(videoPath, (err, metadata) => {
+        if (err) {
+          resolve(0);
+          return;
+        }
+        resolve(Number(metadata.format.duration) || 0);
+      });
+    });
   }
 
   /**
@@ -231,25 +840,53 @@ class Recorder {
       .filter(f => f.endsWith('.mp4'))
       .sort()
       .reverse(); // Newest first
+    const localIds = new Set<string>();
 
     for (const file of files) {
       const filepath = join(this.config.clipsDir, file);
       const stats = statSync(filepath);
       const id = file.replace('.mp4', '');
+      localIds.add(id);
       const thumbnailPath = join(this.config.clipsDir, `${id}_thumb.jpg`);
+      const metadata = this.readClipMetadata(id);
 
       clips.push({
         id,
         path: filepath,
         startTime: stats.birthtime,
-        duration: 0, // Would need ffprobe to get actual duration
+        duration: 0, // Unknown for clips recorded before metadata sidecars
         trigger: 'manual',
         size: stats.size,
         thumbnail: existsSync(thumbnailPath) ? thumbnailPath : undefined,
+        ...(metadata ? this.parseClipMetadata(metadata) : {}),
+      });
+    }
+
+    // Clips pruned locally but still available from remote storage
+    for (const file of readdirSync(this.config.clipsDir).filter(f => f.endsWith('.json'))) {
+      const id = file.replace('.json', '');
+      if (localIds.has(id)) continue;
+
+      const metadata = this.readClipMetadata(id);
+      if (!metadata?.remote?.clipKey) continue;
+
+      clips.push({
+        id,
+        path: join(this.config.clipsDir, `${id}.mp4`),
+        size: 0,
+        ...this.parseClipMetadata(metadata),
       });
     }
 
-    return clips;
+    return clips.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Get a clip by ID
+   */
+  getClip(id: string): ClipInfo | null {
+    if (!CLIP_ID_PATTERN.test(id)) return null;
+    return this.listClips().find(c => c.id === id) || null;
   }
 
   /**
@@ -284,14 +921,21 @@ class Recorder {
    * Delete a clip by ID
    */
   deleteClip(id: string): boolean {
+    if (!CLIP_ID_PATTERN.test(id)) return false;
     const filepath = join(this.config.clipsDir, `${id}.mp4`);
     const thumbnailPath = join(this.config.clipsDir, `${id}_thumb.jpg`);
+    const metadataPath = this.getMetadataPath(id);
 
-    if (existsSync(filepath)) {
-      unlinkSync(filepath);
+    if (existsSync(filepath) || existsSync(metadataPath)) {
+      if (existsSync(filepath)) {
+        unlinkSync(filepath);
+      }
       if (existsSync(thumbnailPath)) {
         unlinkSync(thumbnailPath);
       }
+      if (existsSync(metadataPath)) {
+        unlinkSync(metadataPath);
+      }
       console.log(`[Recorder] Deleted clip: ${id}`);
       return true;
     }
@@ -313,6 +957,10 @@ class Recorder {
       
       for (const file of readdirSync(dir)) {
         const filepath = join(dir, file);
+        // Keep sidecars of uploaded clips so they stay playable from remote storage
+        if (file.endsWith('.json') && this.readClipMetadata(file.replace('.json', ''))?.remote?.clipKey) {
+          continue;
+        }
         const stats = statSync(filepath);
         totalSize += stats.size;
         files.push({
@@ -382,7 +1030,15 @@ class Recorder {
   }
 
   isRecording(): boolean {
-    return this.activeRecording !== null;
+    return this.activeRecording !== null || this.bufferedRecording !== null;
+  }
+
+  getRecordingId(): string | null {
+    return this.recordingId;
+  }
+
+  getRecordingTrigger(): ClipTrigger | null {
+    return this.recordingTrigger;
   }
 
   getConfig(): RecordingConfig {
@@ -0,0 +1,731 @@
+/**
+ * Scheduler Module
+ *
+ * Runs jobs on cron schedules or relative to sunrise/sunset:
+ *   - "30 6 * * 1-5"        06:30 on weekdays (full 5-field cron, names, steps, @daily...)
+ *   - "sunrise-30m"         30 minutes before sunrise, every day
+ *   - "sunset+1h * * 6,0"   an hour after sunset on weekends (day/month/weekday fields)
+ *
+ * Jobs move to a PTZ preset, start/stop patrol, open a recording window,
+ * turn bird detection on/off or switch the operating profile. Cron fields are evaluated in the job's IANA
+ * timezone (SCHEDULER_TIMEZONE by default), so DST is handled. Sun times
+ * come from the weather forecast and are cached so sun jobs keep running
+ * offline (extrapolated from the last known day).
+ *
+ * Jobs are stored in ~/.birdcam/schedules.json. Runs missed while the bridge
+ * was down are skipped.
+ */
+
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { config } from './config.js';
+import { getZonedParts, isValidTimezone, zonedTimeToDate } from './timezone.js';
+import { getSunTimes } from './weather.js';
+import { getPresetManager } from './ptz-presets.js';
+import { getRecorder, type ClipInfo } from './recorder.js';
+import { startDetection, stopDetection, isDetecting } from './detector.js';
+import { getVisualDetector } from './visual-detector.js';
+import { getProfileManager } from './profiles.js';
+
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const SCHEDULES_FILE = join(SETTINGS_DIR, 'schedules.json');
+
+const TICK_INTERVAL_MS = 15 * 1000;
+const SUN_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const SUN_FORECAST_DAYS = 14;
+// Give up looking for a matching time this far ahead (e.g. "0 0 30 2 *")
+const MAX_LOOKAHEAD_YEARS = 5;
+
+export type ScheduleAction =
+  | { type: 'preset'; presetId: string }
+  | { type: 'patrol'; enabled: boolean }
+  | { type: 'recording'; durationMinutes: number }
+  | { type: 'detection'; enabled: boolean }
+  | { type: 'profile'; profileId: string };
+
+export interface ScheduleJob {
+  id: string;
+  name?: string;
+  schedule: string;        // Cron expression or sun-relative trigger (see above)
+  timezone?: string;       // IANA timezone, defaults to SCHEDULER_TIMEZONE
+  action: ScheduleAction;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+export interface ScheduledRun {
+  jobId: string;
+  name?: string;
+  action: ScheduleAction;
+  runAt: string;
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;         // Day-of-month field was '*'
+  anyWeekday: boolean;     // Day-of-week field was '*'
+}
+
+export type ParsedSchedule =
+  | { kind: 'cron'; fields: CronFields }
+  | { kind: 'sun'; event: 'sunrise' | 'sunset'; offsetMinutes: number; fields: CronFields };
+
+interface StoredSunTimes {
+  date: string;
+  sunrise: string;
+  sunset: string;
+}
+
+interface SchedulerState {
+  jobs: ScheduleJob[];
+  sunTimes: StoredSunTimes[];
+}
+
+// ==================== Parsing ====================
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const index = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (index >= 0) return index + min;
+  if (!/^\d+$/.test(value)) throw new Error(`Invalid value "${value}"`);
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid step in ${label} field: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      start = parseValue(a, min, names);
+      end = parseValue(b, min, names);
+    } else {
+      start = parseValue(range, min, names);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${label} field out of range (${min}-${max}): "${part}"`);
+    }
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseDateFields(day: string, month: string, weekday: string): Omit<CronFields, 'minutes' | 'hours'> {
+  // Cron allows 7 for Sunday as well as 0
+  const weekdays = parseField(weekday, 0, 7, 'weekday', WEEKDAY_NAMES);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    days: parseField(day, 1, 31, 'day'),
+    months: parseField(month, 1, 12, 'month', MONTH_NAMES),
+    weekdays,
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+}
+
+/**
+ * Parse a cron expression or sun-relative trigger. Throws on invalid input.
+ */
+export function parseSchedule(schedule: string): ParsedSchedule {
+  const expression = MACROS[schedule.trim().toLowerCase()] || schedule.trim();
+  const parts = expression.split(/\s+/);
+
+  const sun = parts[0].toLowerCase().match(/^(sunrise|sunset)(?:([+-])(\d+)(m|h)?)?$/);
+  if (sun) {
+    if (parts.length !== 1 && parts.length !== 4) {
+      throw new Error('Sun triggers take either no fields or day, month and weekday fields');
+    }
+    const [, event, sign, amount, unit] = sun;
+    const minutes = amount ? parseInt(amount, 10) * (unit === 'h' ? 60 : 1) : 0;
+    const [day = '*', month = '*', weekday = '*'] = parts.slice(1);
+    return {
+      kind: 'sun',
+      event: event as 'sunrise' | 'sunset',
+      offsetMinutes: sign === '-' ? -minutes : minutes,
+      fields: {
+        minutes: new Set(),
+        hours: new Set(),
+        ...parseDateFields(day, month, weekday),
+      },
+    };
+  }
+
+  if (/^sun(rise|set)/i.test(parts[0])) {
+    throw new Error(`Invalid sun trigger "${parts[0]}" (e.g. sunrise, sunset-30m, sunrise+1h)`);
+  }
+  if (parts.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day month weekday');
+  }
+
+  const [minute, hour, day, month, weekday] = parts;
+  return {
+    kind: 'cron',
+    fields: {
+      minutes: parseField(minute, 0, 59, 'minute'),
+      hours: parseField(hour, 0, 23, 'hour'),
+      ...parseDateFields(day, month, weekday),
+    },
+  };
+}
+
+function dateMatches(fields: CronFields, day: number, month: number, weekday: number): boolean {
+  if (!fields.months.has(month)) return false;
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (!fields.anyDay && !fields.anyWeekday) {
+    return fields.days.has(day) || fields.weekdays.has(weekday);
+  }
+  return fields.days.has(day) && fields.weekdays.has(weekday);
+}
+
+// ==================== Next-run calculation ====================
+
+/**
+ * Next time a cron schedule fires strictly after `after`, in a timezone
+ */
+export function nextCronTime(fields: CronFields, after: Date, timeZone: string): Date | null {
+  const start = getZonedParts(after, timeZone);
+  // Wall-clock time in the timezone, held in a UTC Date for calendar arithmetic
+  const wall = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute + 1));
+  const limit = Date.UTC(start.year + MAX_LOOKAHEAD_YEARS, 0, 1);
+
+  while (wall.getTime() < limit) {
+    const month = wall.getUTCMonth() + 1;
+    if (!fields.months.has(month)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dateMatches(fields, wall.getUTCDate(), month, wall.getUTCDay())) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const run = zonedTimeToDate(
+      wall.getUTCFullYear(), month, wall.getUTCDate(), wall.getUTCHours(), wall.getUTCMinutes(), timeZone
+    );
+    if (run.getTime() > after.getTime()) {
+      return run;
+    }
+    // Wall-clock time repeated by a DST change - already past
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Next time a sun-relative schedule fires strictly after `after`.
+ * Days without forecast data reuse the time of day of the closest known day.
+ */
+export function nextSunTime(
+  schedule: Extract<ParsedSchedule, { kind: 'sun' }>,
+  after: Date,
+  timeZone: string,
+  sunTimes: StoredSunTimes[]
+): Date | null {
+  if (sunTimes.length === 0) return null;
+
+  const known = new Map(sunTimes.map(s => [s.date, new Date(s[schedule.event])]));
+  const sorted = [...sunTimes].sort((a, b) => a.date.localeCompare(b.date));
+  const start = getZonedParts(after, timeZone);
+
+  // Start a day early: a sunset-relative time can fall after midnight
+  for (let offset = -1; offset <= 366; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const day = date.getUTCDate();
+    const month = date.getUTCMonth() + 1;
+    if (!dateMatches(schedule.fields, day, month, date.getUTCDay())) continue;
+
+    const key = date.toISOString().slice(0, 10);
+    let event = known.get(key);
+    if (!event) {
+      const closest = sorted.reduce((best, s) =>
+        Math.abs(Date.parse(s.date) - date.getTime()) < Math.abs(Date.parse(best.date) - date.getTime()) ? s : best
+      );
+      const time = getZonedParts(new Date(closest[schedule.event]), timeZone);
+      event = zonedTimeToDate(date.getUTCFullYear(), month, day, time.hour, time.minute, timeZone);
+    }
+
+    const run = new Date(event.getTime() + schedule.offsetMinutes * 60 * 1000);
+    if (run.getTime() > after.getTime()) {
+      return run;
+    }
+  }
+
+  return null;
+}
+
+// ==================== Scheduler ====================
+
+export class Scheduler extends EventEmitter {
+  private state: SchedulerState;
+  private nextRuns: Map<string, Date> = new Map();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private sunTimer: NodeJS.Timeout | null = null;
+  private recordingUntil: number | null = null;
+  private recordingTimer: NodeJS.Timeout | null = null;
+  private listeningForClips = false;
+
+  constructor() {
+    super();
+    this.state = this.loadState();
+  }
+
+  /**
+   * Start running jobs (picks up schedules left in the PTZ preset manager)
+   */
+  start(): void {
+    if (this.tickTimer) return;
+
+    this.migrateLegacySchedules();
+    this.refreshNextRuns();
+
+    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.refreshSunTimes();
+    this.sunTimer = setInterval(() => this.refreshSunTimes(), SUN_REFRESH_INTERVAL_MS);
+
+    const enabled = this.state.jobs.filter(j => j.enabled).length;
+    console.log(`[Scheduler] Started with ${enabled} active job(s) (timezone ${config.scheduler.timezone})`);
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    if (this.sunTimer) {
+      clearInterval(this.sunTimer);
+      this.sunTimer = null;
+    }
+    if (this.recordingTimer) {
+      clearTimeout(this.recordingTimer);
+      this.recordingTimer = null;
+    }
+    this.recordingUntil = null;
+  }
+
+  getJobs(): (ScheduleJob & { nextRunAt: string | null })[] {
+    return this.state.jobs.map(job => ({
+      ...job,
+      nextRunAt: this.nextRuns.get(job.id)?.toISOString() ?? null,
+    }));
+  }
+
+  getJob(id: string): ScheduleJob | undefined {
+    return this.state.jobs.find(j => j.id === id);
+  }
+
+  /**
+   * Add a job. Throws if the schedule, timezone or action is invalid.
+   */
+  addJob(input: Pick<ScheduleJob, 'schedule' | 'action'> & Partial<Pick<ScheduleJob, 'name' | 'timezone' | 'enabled'>>): ScheduleJob {
+    const job: ScheduleJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+      ...(input.name ? { name: input.name } : {}),
+      schedule: input.schedule,
+      ...(input.timezone ? { timezone: input.timezone } : {}),
+      action: input.action,
+      enabled: input.enabled ?? true,
+      createdAt: new Date().toISOString(),
+    };
+    validateJob(job);
+
+    this.state.jobs.push(job);
+    this.saveState();
+    this.refreshNextRun(job);
+
+    console.log(`[Scheduler] Added job ${job.name || job.id}: ${job.schedule} -> ${describeAction(job.action)}`);
+    return job;
+  }
+
+  /**
+   * Update a job. Throws if the result is invalid.
+   */
+  updateJob(id: string, updates: Partial<Pick<ScheduleJob, 'name' | 'schedule' | 'timezone' | 'action' | 'enabled'>>): ScheduleJob | null {
+    const job = this.getJob(id);
+    if (!job) return null;
+
+    const updated: ScheduleJob = { ...job, ...updates, id: job.id, createdAt: job.createdAt };
+    validateJob(updated);
+
+    Object.assign(job, updated);
+    this.saveState();
+    this.refreshNextRun(job);
+    return job;
+  }
+
+  removeJob(id: string): boolean {
+    const index = this.state.jobs.findIndex(j => j.id === id);
+    if (index < 0) return false;
+
+    this.state.jobs.splice(index, 1);
+    this.nextRuns.delete(id);
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * Run a job immediately (doesn't change its schedule)
+   */
+  async runJob(id: string): Promise<boolean> {
+    const job = this.getJob(id);
+    if (!job) return false;
+    return this.execute(job);
+  }
+
+  /**
+   * Upcoming runs of all enabled jobs, soonest first
+   */
+  getUpcoming(hours: number = 48, limit: number = 50): ScheduledRun[] {
+    const now = new Date();
+    const horizon = now.getTime() + hours * 60 * 60 * 1000;
+    const runs: ScheduledRun[] = [];
+
+    for (const job of this.state.jobs) {
+      if (!job.enabled) continue;
+
+      let after = now;
+      for (let i = 0; i < limit; i++) {
+        const next = this.computeNextRun(job, after);
+        if (!next || next.getTime() > horizon) break;
+        runs.push({ jobId: job.id, name: job.name, action: job.action, runAt: next.toISOString() });
+        after = next;
+      }
+    }
+
+    return runs.sort((a, b) => a.runAt.localeCompare(b.runAt)).slice(0, limit);
+  }
+
+  /**
+   * Whether a scheduled recording window is open
+   */
+  isRecordingWindowOpen(): boolean {
+    return this.recordingUntil !== null && Date.now() < this.recordingUntil;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    for (const job of this.state.jobs) {
+      const next = this.nextRuns.get(job.id);
+      if (!job.enabled || !next || next.getTime() > now) continue;
+
+      this.execute(job).catch(err => {
+        console.error(`[Scheduler] Job ${job.name || job.id} failed:`, (err as Error).message);
+      });
+      this.refreshNextRun(job);
+    }
+  }
+
+  private async execute(job: ScheduleJob): Promise<boolean> {
+    console.log(`[Scheduler] Running ${job.name || job.id}: ${describeAction(job.action)}`);
+
+    let error: string | undefined;
+    try {
+      await this.performAction(job.action);
+    } catch (err) {
+      error = (err as Error).message;
+      console.warn(`[Scheduler] ${job.name || job.id} failed: ${error}`);
+    }
+
+    job.lastRunAt = new Date().toISOString();
+    if (error) {
+      job.lastError = error;
+    } else {
+      delete job.lastError;
+    }
+    this.saveState();
+    this.emit('jobRun', job, error);
+    return !error;
+  }
+
+  private async performAction(action: ScheduleAction): Promise<void> {
+    switch (action.type) {
+      case 'preset': {
+        if (!(await getPresetManager().gotoPreset(action.presetId))) {
+          throw new Error(`Could not move to preset ${action.presetId}`);
+        }
+        return;
+      }
+
+      case 'patrol': {
+        const presets = getPresetManager();
+        if (!action.enabled) {
+          presets.stopPatrol();
+        } else if (!presets.isPatrolling() && !presets.startPatrol()) {
+          throw new Error('Could not start patrol');
+        }
+        return;
+      }
+
+      case 'recording':
+        await this.openRecordingWindow(action.durationMinutes);
+        return;
+
+      case 'detection': {
+        const visual = getVisualDetector();
+        if (action.enabled) {
+          visual.setPaused(false);
+          if (!isDetecting()) {
+            await startDetection();
+          }
+        } else {
+          visual.setPaused(true);
+          stopDetection();
+        }
+        return;
+      }
+
+      case 'profile': {
+        if (!(await getProfileManager().activate(action.profileId, 'schedule'))) {
+          throw new Error(`Unknown profile ${action.profileId}`);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Record continuously for a while: clips are capped at the recorder's
+   * maximum duration, so a new one is started whenever one is saved
+   */
+  private async openRecordingWindow(durationMinutes: number): Promise<void> {
+    const recorder = getRecorder();
+    this.recordingUntil = Math.max(this.recordingUntil ?? 0, Date.now() + durationMinutes * 60 * 1000);
+
+    if (!this.listeningForClips) {
+      this.listeningForClips = true;
+      recorder.on('clipSaved', (clip: ClipInfo) => {
+        if (clip.trigger === 'scheduled' && this.isRecordingWindowOpen()) {
+          recorder.startRecording('scheduled').catch(err => {
+            console.error('[Scheduler] Failed to continue recording window:', (err as Error).message);
+          });
+        }
+      });
+    }
+
+    if (this.recordingTimer) {
+      clearTimeout(this.recordingTimer);
+    }
+    this.recordingTimer = setTimeout(() => {
+      this.recordingTimer = null;
+      this.recordingUntil = null;
+      console.log('[Scheduler] Recording window closed');
+      // Leave a motion/bird clip that took over the recorder to finish on its own
+      if (recorder.getRecordingTrigger() === 'scheduled') {
+        recorder.stopRecording().catch(() => {});
+      }
+    }, this.recordingUntil - Date.now());
+
+    if (!(await recorder.startRecording('scheduled'))) {
+      throw new Error('Could not start recording');
+    }
+    console.log(`[Scheduler] Recording until ${new Date(this.recordingUntil).toISOString()}`);
+  }
+
+  private computeNextRun(job: ScheduleJob, after: Date): Date | null {
+    const parsed = parseSchedule(job.schedule);
+    const timeZone = job.timezone || config.scheduler.timezone;
+
+    return parsed.kind === 'cron'
+      ? nextCronTime(parsed.fields, after, timeZone)
+      : nextSunTime(parsed, after, timeZone, this.state.sunTimes);
+  }
+
+  private refreshNextRun(job: ScheduleJob): void {
+    if (!job.enabled) {
+      this.nextRuns.delete(job.id);
+      return;
+    }
+
+    try {
+      const next = this.computeNextRun(job, new Date());
+      if (next) {
+        this.nextRuns.set(job.id, next);
+      } else {
+        this.nextRuns.delete(job.id);
+      }
+    } catch (err) {
+      console.warn(`[Scheduler] Invalid schedule for ${job.name || job.id}:`, (err as Error).message);
+      this.nextRuns.delete(job.id);
+    }
+  }
+
+  private refreshNextRuns(): void {
+    for (const job of this.state.jobs) {
+      this.refreshNextRun(job);
+    }
+  }
+
+  private async refreshSunTimes(): Promise<void> {
+    try {
+      const sunTimes = await getSunTimes(SUN_FORECAST_DAYS);
+      if (sunTimes.length === 0) return;
+
+      this.state.sunTimes = sunTimes.map(s => ({
+        date: s.date,
+        sunrise: s.sunrise.toISOString(),
+        sunset: s.sunset.toISOString(),
+      }));
+      this.saveState();
+
+      // Sun jobs may have been waiting for data, or the times moved
+      for (const job of this.state.jobs) {
+        if (/^sun(rise|set)/i.test(job.schedule.trim())) {
+          this.refreshNextRun(job);
+        }
+      }
+    } catch (err) {
+      console.warn('[Scheduler] Failed to refresh sun times:', (err as Error).message);
+    }
+  }
+
+  /**
+   * Turn schedules from the PTZ preset manager's old cron stub into jobs
+   */
+  private migrateLegacySchedules(): void {
+    const legacy = getPresetManager().takeLegacySchedules();
+    for (const schedule of legacy) {
+      try {
+        this.addJob({
+          name: schedule.name,
+          schedule: schedule.cronExpression,
+          action: { type: 'preset', presetId: schedule.presetId },
+          enabled: schedule.enabled,
+        });
+      } catch (err) {
+        console.warn(`[Scheduler] Skipped invalid preset schedule ${schedule.id}:`, (err as Error).message);
+      }
+    }
+  }
+
+  private loadState(): SchedulerState {
+    try {
+      if (existsSync(SCHEDULES_FILE)) {
+        const data = JSON.parse(readFileSync(SCHEDULES_FILE, 'utf-8'));
+        return {
+          jobs: Array.isArray(data.jobs) ? data.jobs : [],
+          sunTimes: Array.isArray(data.sunTimes) ? data.sunTimes : [],
+        };
+      }
+    } catch (err) {
+      console.warn('[Scheduler] Failed to load schedules:', (err as Error).message);
+    }
+    return { jobs: [], sunTimes: [] };
+  }
+
+  private saveState(): void {
+    try {
+      mkdirSync(SETTINGS_DIR, { recursive: true });
+      writeFileSync(SCHEDULES_FILE, JSON.stringify(this.state, null, 2));
+    } catch (err) {
+      console.error('[Scheduler] Failed to save schedules:', (err as Error).message);
+    }
+  }
+}
+
+function validateJob(job: ScheduleJob): void {
+  if (typeof job.schedule !== 'string' || !job.schedule.trim()) {
+    throw new Error('schedule is required');
+  }
+  parseSchedule(job.schedule);
+
+  if (job.timezone && !isValidTimezone(job.timezone)) {
+    throw new Error(`Unknown timezone: ${job.timezone}`);
+  }
+
+  const action = job.action as Partial<ScheduleAction> | undefined;
+  switch (action?.type) {
+    case 'preset':
+      if (typeof action.presetId !== 'string' || !action.presetId) {
+        throw new Error('preset action needs a presetId');
+      }
+      return;
+    case 'patrol':
+    case 'detection':
+      if (typeof action.enabled !== 'boolean') {
+        throw new Error(`${action.type} action needs enabled: true/false`);
+      }
+      return;
+    case 'recording':
+      if (typeof action.durationMinutes !== 'number' || action.durationMinutes <= 0) {
+        throw new Error('recording action needs a positive durationMinutes');
+      }
+      return;
+    case 'profile':
+      if (typeof action.profileId !== 'string' || !action.profileId) {
+        throw new Error('profile action needs a profileId');
+      }
+      return;
+    default:
+      throw new Error('action.type must be one of: preset, patrol, recording, detection, profile');
+  }
+}
+
+function describeAction(action: ScheduleAction): string {
+  switch (action.type) {
+    case 'preset': return `go to preset ${action.presetId}`;
+    case 'patrol': return action.enabled ? 'start patrol' : 'stop patrol';
+    case 'recording': return `record for ${action.durationMinutes} min`;
+    case 'detection': return action.enabled ? 'detection on' : 'detection off';
+    case 'profile': return `switch to profile ${action.profileId}`;
+  }
+}
+
+// Singleton instance
+let scheduler: Scheduler | null = null;
+
+export function getScheduler(): Scheduler {
+  if (!scheduler) {
+    scheduler = new Scheduler();
+  }
+  return scheduler;
+}
@@ -9,20 +9,33 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { existsSync, statSync, createReadStream, readFileSync } from 'fs';
 import { config } from './config.js';
 import { getStreamStats, isStreaming, probeStream } from './streamer.js';
 import { getRecorder, type ClipInfo, type SnapshotInfo } from './recorder.js';
+import { getOutbox } from './outbox.js';
 import { getMotionDetector, type MotionConfig } from './motion.js';
 import { PtzController, createPtzController, type PtzCapabilities, type PtzPreset } from './ptz.js';
-import type { AmcrestPtzController } from './amcrest-ptz.js';
 import { isGo2rtcRunning, proxyToGo2rtc, getGo2rtcApiPort } from './webrtc.js';
 import { getCameraTime, setCameraTime, checkTimeSync } from './onvif.js';
-import { getSettings, RESOLUTION_PRESETS, type VideoSettings } from './settings.js';
-import { initAuth, authMiddleware, isAuthConfigured, getApiKey, getCredentialsFilePath, regenerateApiKey } from './auth.js';
+import { RESOLUTION_PRESETS, type VideoSettings } from './settings.js';
+import type { DayNightMode, ImagingSettings } from './onvif-imaging.js';
+import { initAuth, authMiddleware, isAuthConfigured, getApiKey, getCredentialsFilePath, regenerateApiKey, getAdminUsername, canAccess, requireAdmin, type Principal } from './auth.js';
+import { signPath, signPlaylist, getDefaultTtl } from './signed-urls.js';
+import { getUserStore } from './users.js';
+import { getAuditLog } from './audit.js';
+import { apiValidator, buildOpenApiDocument } from './openapi.js';
+import { getFirebaseAuth } from './firebase-auth.js';
 import { getPresetManager } from './ptz-presets.js';
+import { getPatrolPlanner } from './patrol-planner.js';
+import { getAutoTracker } from './auto-track.js';
+import { getScheduler } from './scheduler.js';
+import { getProfileManager } from './profiles.js';
 import { getBirdTracker } from './bird-tracker.js';
+import { getSpeciesPriors } from './species-priors.js';
+import { getZoneManager } from './zones.js';
+import { getCameraRegistry, DEFAULT_CAMERA_ID, type Camera } from './cameras.js';
 import { getDashboardV2Html } from './dashboard-v2.js';
 import { getNotificationManager } from './notifications.js';
 import { getCurrentWeather, getForecast, getBirdActivityRating, getWeatherSummary } from './weather.js';
@@ -76,21 +89,74 @@ initAuth();
 // Apply auth to all routes except health
 app.use(authMiddleware);
 
-// Global PTZ controller (set when camera connects)
-// Supports both ONVIF PtzController and AmcrestPtzController
-let ptzController: PtzController | AmcrestPtzController | null = null;
-
-export function setPtzController(controller: PtzController | AmcrestPtzController): void {
-  console.log('[Server] setPtzController called:', controller ? 'controller provided' : 'null');
-  ptzController = controller;
-  console.log('[Server] ptzController now set:', ptzController ? 'yes' : 'no');
-}
+// Check requests against the route schemas (api-routes.ts)
+app.use(apiValidator);
 
 // Middleware for API error handling
 const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) => 
   (req: Request, res: Response, next: NextFunction) => 
     Promise.resolve(fn(req, res, next)).catch(next);
 
+// ==================== Cameras ====================
+
+// Per-camera routes, served at /api/cameras/:camId/... and (for the
+// default camera) at the original /api/... paths
+const cameraRoutes = express.Router({ mergeParams: true });
+
+const resolveCamera = (req: Request, res: Response, next: NextFunction) => {
+  const camId = req.params.camId || DEFAULT_CAMERA_ID;
+  const camera = getCameraRegistry().getCamera(camId);
+  if (!camera) {
+    res.status(404).json({ error: `Camera not found: ${camId}` });
+    return;
+  }
+  res.locals.camera = camera;
+  next();
+};
+
+function cameraOf(res: Response): Camera {
+  return res.locals.camera as Camera;
+}
+
+// Manual moves invalidate the preset the patrol thinks the default camera is at
+function clearCurrentPreset(camera: Camera): void {
+  if (camera.isDefault) {
+    getPresetManager().clearCurrentPreset();
+  }
+}
+
+// List cameras
+app.get('/api/cameras', (req, res) => {
+  res.json({ cameras: getCameraRegistry().getCameras().map(c => c.getStatus()) });
+});
+
+// Add a camera (stored in cameras.json and started right away)
+app.post('/api/cameras', asyncHandler(async (req, res) => {
+  try {
+    const camera = await getCameraRegistry().addCamera(req.body);
+    res.json({ success: true, camera: camera.getStatus() });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+}));
+
+// Remove a camera (the default camera is configured through the environment)
+app.delete('/api/cameras/:camId', (req, res) => {
+  if (req.params.camId === DEFAULT_CAMERA_ID) {
+    return res.status(400).json({ success: false, error: 'The default camera cannot be removed' });
+  }
+  const success = getCameraRegistry().removeCamera(req.params.camId);
+  res.status(success ? 200 : 404).json({ success });
+});
+
+app.use('/api/cameras/:camId', resolveCamera, cameraRoutes);
+app.use('/api', resolveCamera, cameraRoutes);
+
+// Camera status
+cameraRoutes.get('/status', (req, res) => {
+  res.json(cameraOf(res).getStatus());
+});
+
 // ==================== Health & Info ====================
 
 app.get('/health', (req, res) => {
@@ -109,12 +175,14 @@ app.get('/health', (req, res) => {
     motionDetection: motion.isRunning(),
     recording: recorder.isRecording(),
     storage: recorder.getStorageStats(),
+    sync: config.firebase.enabled || config.storage.backend !== 'none' ? getOutbox().getStats() : null,
+    storageBackend: config.storage.backend,
   });
 });
 
 // ==================== API Key Management ====================
 
-app.get('/api/auth/key', (req, res) => {
+app.get('/api/auth/key', requireAdmin, (req, res) => {
   res.json({
     apiKey: getApiKey(),
     credentialsFile: getCredentialsFilePath(),
@@ -123,7 +191,7 @@ app.get('/api/auth/key', (req, res) => {
   });
 });
 
-app.post('/api/auth/regenerate', (req, res) => {
+app.post('/api/auth/regenerate', requireAdmin, (req, res) => {
   const newKey = regenerateApiKey();
   res.json({
     success: true,
@@ -134,8 +202,98 @@ app.post('/api/auth/regenerate', (req, res) => {
   });
 });
 
+// ==================== Users & Tokens ====================
+
+// Who the current request is authenticated as
+app.get('/api/auth/me', (req, res) => {
+  const principal = res.locals.principal as Principal | undefined;
+  res.json({ authenticated: !!principal, principal: principal ?? null });
+});
+
+// Web app sign-in: whether ID tokens are accepted, and the camera's owner and shares
+app.get('/api/auth/firebase', (req, res) => {
+  const firebaseAuth = getFirebaseAuth();
+  res.json({ enabled: firebaseAuth.isEnabled(), ...firebaseAuth.getAccess() });
+});
+
+app.get('/api/users', requireAdmin, (req, res) => {
+  res.json({ admin: getAdminUsername(), users: getUserStore().getUsers() });
+});
+
+app.post('/api/users', requireAdmin, (req, res) => {
+  try {
+    const user = getUserStore().addUser(req.body || {}, getAdminUsername());
+    res.json({ success: true, user });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Change a user's role and/or password
+app.put('/api/users/:username', requireAdmin, (req, res) => {
+  try {
+    const user = getUserStore().updateUser(req.params.username, req.body || {});
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    res.json({ success: true, user });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+app.delete('/api/users/:username', requireAdmin, (req, res) => {
+  const success = getUserStore().removeUser(req.params.username);
+  res.status(success ? 200 : 404).json({ success });
+});
+
+app.get('/api/tokens', requireAdmin, (req, res) => {
+  res.json({ tokens: getUserStore().getTokens() });
+});
+
+// Create a token; the secret is only shown in this response
+app.post('/api/tokens', requireAdmin, (req, res) => {
+  try {
+    const principal = res.locals.principal as Principal | undefined;
+    const { token, info } = getUserStore().createToken(req.body || {}, principal?.name ?? 'anonymous');
+    res.json({ success: true, token, info, message: 'Store this token now - it cannot be shown again.' });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+app.delete('/api/tokens/:id', requireAdmin, (req, res) => {
+  const token = getUserStore().revokeToken(req.params.id);
+  if (!token) {
+    return res.status(404).json({ success: false, error: 'Token not found' });
+  }
+  res.json({ success: true, token });
+});
+
+// ==================== Audit Log ====================
+
+// Control actions, newest first, filtered by time, caller, route and result
+app.get('/api/audit', requireAdmin, (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  const result = getAuditLog().query({
+    since: q.since,
+    until: q.until,
+    actor: q.actor,
+    kind: q.kind,
+    method: q.method,
+    route: q.route,
+    tokenId: q.tokenId,
+    ok: q.result === 'ok' ? true : q.result === 'failed' ? false : undefined,
+    status: q.status ? parseInt(q.status, 10) : undefined,
+    limit: q.limit ? parseInt(q.limit, 10) : undefined,
+    offset: q.offset ? parseInt(q.offset, 10) : undefined,
+  });
+  res.json({ ...result, stats: getAuditLog().getStats() });
+});
+
 app.get('/info', asyncHandler(async (req, res) => {
   const recorder = getRecorder();
+  const ptzController = getCameraRegistry().getDefaultCamera().getPtzController();
   const motion = getMotionDetector();
   const streamInfo = await probeStream();
   
@@ -157,9 +315,15 @@ app.get('/info', asyncHandler(async (req, res) => {
     },
     storage: recorder.getStorageStats(),
     ptz: ptzController ? await ptzController.getCapabilities() : { supported: false },
+    cameras: getCameraRegistry().getCameras().map(c => c.id),
   });
 }));
 
+// This API as an OpenAPI document (the web app's client is generated from the same table)
+app.get('/api/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument());
+});
+
 // ==================== Stream ====================
 
 // HLS manifest
@@ -171,10 +335,39 @@ app.get('/stream.m3u8', (req, res) => {
     return;
   }
   
+  // Every segment gets its own signature, expiring with the playlist's
+  const playlistExp = req.query.sig ? parseInt(req.query.exp as string) || undefined : undefined;
   res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
   res.setHeader('Cache-Control', 'no-cache, no-store');
   res.setHeader('Access-Control-Allow-Origin', '*');
-  createReadStream(filePath).pipe(res);
+  res.send(signPlaylist(readFileSync(filePath, 'utf-8'), req.path, playlistExp));
+});
+
+// Signed playlist URL for players, so no API key goes into the URL
+cameraRoutes.get('/stream/url', (req, res) => {
+  const camera = cameraOf(res);
+  const path = camera.id === DEFAULT_CAMERA_ID ? '/stream.m3u8' : `/cameras/${camera.id}/stream.m3u8`;
+  try {
+    const ttl = req.query.ttl ? parseInt(req.query.ttl as string) : getDefaultTtl();
+    res.json({ ...signPath(path, ttl), ttl });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Signed URL for a snapshot, clip video/thumbnail or stream path the caller may read
+app.post('/api/sign', (req, res) => {
+  const path = typeof req.body?.path === 'string' ? req.body.path.split('?')[0] : '';
+  const principal = res.locals.principal as Principal | undefined;
+  const denied = principal ? canAccess(principal, 'GET', path) : null;
+  if (denied) {
+    return res.status(403).json({ success: false, error: denied });
+  }
+  try {
+    res.json({ success: true, ...signPath(path, req.body?.ttl ?? getDefaultTtl()) });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
 });
 
 // HLS segments
@@ -193,6 +386,38 @@ app.get('/segment:num.ts', (req, res) => {
   createReadStream(filePath).pipe(res);
 });
 
+// HLS manifest and segments of other cameras
+app.get('/cameras/:camId/stream.m3u8', resolveCamera, (req, res) => {
+  const filePath = join(cameraOf(res).streamer.getOutputDir(), 'stream.m3u8');
+  
+  if (!existsSync(filePath)) {
+    res.status(503).json({ error: 'Stream not ready', hint: 'Wait for transcoding to start' });
+    return;
+  }
+  
+  // Every segment gets its own signature, expiring with the playlist's
+  const playlistExp = req.query.sig ? parseInt(req.query.exp as string) || undefined : undefined;
+  res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+  res.setHeader('Cache-Control', 'no-cache, no-store');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.send(signPlaylist(readFileSync(filePath, 'utf-8'), req.path, playlistExp));
+});
+
+app.get('/cameras/:camId/segment:num.ts', resolveCamera, (req, res) => {
+  const filePath = join(cameraOf(res).streamer.getOutputDir(), `segment${req.params.num}.ts`);
+  
+  if (!existsSync(filePath)) {
+    res.status(404).json({ error: 'Segment not found' });
+    return;
+  }
+  
+  const stat = statSync(filePath);
+  res.setHeader('Content-Type', 'video/mp2t');
+  res.setHeader('Content-Length', stat.size);
+  res.setHeader('Cache-Control', 'max-age=3600');
+  createReadStream(filePath).pipe(res);
+});
+
 // Simple test page for debugging video playback
 app.get('/test', (req, res) => {
   res.send(`<!DOCTYPE html>
@@ -210,7 +435,7 @@ app.get('/test', (req, res) => {
     const log = document.getElementById("log");
     function addLog(msg) { log.textContent += new Date().toISOString().slice(11,19) + " " + msg + "\\n"; console.log(msg); log.scrollTop = log.scrollHeight; }
     
-    const hlsUrl = "/stream.m3u8";
+    const hlsUrl = "${signPath('/stream.m3u8').url}";
     addLog("Loading: " + hlsUrl);
     
     if (Hls.isSupported()) {
@@ -303,8 +528,8 @@ app.get('/api/webrtc/streams', asyncHandler(async (req, res) => {
 // ==================== Snapshots ====================
 
 // Capture snapshot
-app.post('/api/snapshot', asyncHandler(async (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.post('/snapshot', asyncHandler(async (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const snapshot = await recorder.captureSnapshot(req.body?.reason || 'api');
   
   if (snapshot) {
@@ -315,8 +540,8 @@ app.post('/api/snapshot', asyncHandler(async (req, res) => {
 }));
 
 // Get latest snapshot as image
-app.get('/api/snapshot/latest', asyncHandler(async (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/snapshot/latest', asyncHandler(async (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const snapshots = recorder.listSnapshots();
   
   if (snapshots.length === 0) {
@@ -338,15 +563,15 @@ app.get('/api/snapshot/latest', asyncHandler(async (req, res) => {
 }));
 
 // List snapshots
-app.get('/api/snapshots', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/snapshots', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const snapshots = recorder.listSnapshots();
   res.json({ count: snapshots.length, snapshots });
 });
 
 // Get specific snapshot
-app.get('/api/snapshots/:id', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/snapshots/:id', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const snapshots = recorder.listSnapshots();
   const snapshot = snapshots.find(s => s.id === req.params.id);
   
@@ -362,8 +587,8 @@ app.get('/api/snapshots/:id', (req, res) => {
 // ==================== Recording ====================
 
 // Start recording
-app.post('/api/recording/start', asyncHandler(async (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.post('/recording/start', asyncHandler(async (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const trigger = req.body?.trigger || 'manual';
   const id = await recorder.startRecording(trigger);
   
@@ -375,48 +600,76 @@ app.post('/api/recording/start', asyncHandler(async (req, res) => {
 }));
 
 // Stop recording
-app.post('/api/recording/stop', (req, res) => {
-  const recorder = getRecorder();
-  recorder.stopRecording();
-  res.json({ success: true });
-});
+cameraRoutes.post('/recording/stop', asyncHandler(async (req, res) => {
+  const recorder = cameraOf(res).recorder;
+  const clip = await recorder.stopRecording();
+  res.json({ success: true, clip });
+}));
 
 // Recording status
-app.get('/api/recording/status', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/recording/status', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   res.json({
     recording: recorder.isRecording(),
+    session: cameraOf(res).clipSessions.getActiveSession(),
     storage: recorder.getStorageStats(),
   });
 });
 
 // List clips
-app.get('/api/clips', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/clips', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const clips = recorder.listClips();
   res.json({ count: clips.length, clips });
 });
 
-// Get clip video
-app.get('/api/clips/:id/video', (req, res) => {
-  const recorder = getRecorder();
-  const clips = recorder.listClips();
-  const clip = clips.find(c => c.id === req.params.id);
+// Get clip details with the sightings captured in it
+cameraRoutes.get('/clips/:id', (req, res) => {
+  const clip = cameraOf(res).recorder.getClip(req.params.id);
+  if (!clip) {
+    res.status(404).json({ error: 'Clip not found' });
+    return;
+  }
+
+  res.json({
+    clip,
+    sightings: getBirdTracker().getSightingsForClip(clip.id),
+  });
+});
+
+// Get clip video (local copies support Range requests so the player can seek)
+cameraRoutes.get('/clips/:id/video', asyncHandler(async (req, res) => {
+  const recorder = cameraOf(res).recorder;
+  const clip = recorder.getClip(req.params.id);
   
-  if (!clip || !existsSync(clip.path)) {
+  if (!clip) {
     res.status(404).json({ error: 'Clip not found' });
     return;
   }
   
-  const stat = statSync(clip.path);
+  if (existsSync(clip.path)) {
+    res.sendFile(resolve(clip.path), { headers: { 'Content-Type': 'video/mp4' } });
+    return;
+  }
+  
+  // Local copy pruned - stream it back from remote storage
+  const stream = await recorder.openClipStream(clip.id);
+  if (!stream) {
+    res.status(404).json({ error: 'Clip video not available' });
+    return;
+  }
+  
   res.setHeader('Content-Type', 'video/mp4');
-  res.setHeader('Content-Length', stat.size);
-  createReadStream(clip.path).pipe(res);
-});
+  stream.on('error', (err) => {
+    console.error('[Server] Remote clip stream failed:', err.message);
+    res.destroy(err);
+  });
+  stream.pipe(res);
+}));
 
 // Get clip thumbnail
-app.get('/api/clips/:id/thumbnail', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.get('/clips/:id/thumbnail', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const clips = recorder.listClips();
   const clip = clips.find(c => c.id === req.params.id);
   
@@ -430,8 +683,8 @@ app.get('/api/clips/:id/thumbnail', (req, res) => {
 });
 
 // Delete clip
-app.delete('/api/clips/:id', (req, res) => {
-  const recorder = getRecorder();
+cameraRoutes.delete('/clips/:id', (req, res) => {
+  const recorder = cameraOf(res).recorder;
   const success = recorder.deleteClip(req.params.id);
   res.json({ success });
 });
@@ -439,31 +692,59 @@ app.delete('/api/clips/:id', (req, res) => {
 // ==================== Motion Detection ====================
 
 // Get motion config
-app.get('/api/motion/config', (req, res) => {
-  const motion = getMotionDetector();
+cameraRoutes.get('/motion/config', (req, res) => {
+  const motion = cameraOf(res).motion;
   res.json(motion.getConfig());
 });
 
 // Update motion config
-app.post('/api/motion/config', (req, res) => {
-  const motion = getMotionDetector();
+cameraRoutes.post('/motion/config', (req, res) => {
+  const motion = cameraOf(res).motion;
   motion.updateConfig(req.body);
   res.json({ success: true, config: motion.getConfig() });
 });
 
 // Motion status
-app.get('/api/motion/status', (req, res) => {
-  const motion = getMotionDetector();
+cameraRoutes.get('/motion/status', (req, res) => {
+  const motion = cameraOf(res).motion;
   res.json({
     running: motion.isRunning(),
     config: motion.getConfig(),
+    cameraEvents: cameraOf(res).getEventSource()?.getStatus() ?? null,
   });
 });
 
+// Recent ONVIF camera events (motion, line crossing, intrusion, tamper)
+cameraRoutes.get('/motion/events', (req, res) => {
+  const events = cameraOf(res).getEventSource();
+  if (!events) {
+    res.json({ enabled: false, events: [] });
+    return;
+  }
+  const limit = parseInt(req.query.limit as string, 10) || 50;
+  res.json({ enabled: true, status: events.getStatus(), events: events.getRecentEvents(limit) });
+});
+
+// ==================== Zones ====================
+
+// Detect/ignore/privacy zones (synced from the web dashboard)
+app.get('/api/zones', (req, res) => {
+  res.json({ zones: getZoneManager().getZones() });
+});
+
+// Replace zones locally (for setups without Firebase)
+app.put('/api/zones', (req, res) => {
+  if (!Array.isArray(req.body?.zones)) {
+    return res.status(400).json({ error: 'zones array required' });
+  }
+  res.json({ success: true, zones: getZoneManager().setZones(req.body.zones) });
+});
+
 // ==================== PTZ Control ====================
 
 // PTZ capabilities
-app.get('/api/ptz/capabilities', asyncHandler(async (req, res) => {
+cameraRoutes.get('/ptz/capabilities', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.json({ supported: false, error: 'PTZ not available' });
     return;
@@ -474,7 +755,8 @@ app.get('/api/ptz/capabilities', asyncHandler(async (req, res) => {
 }));
 
 // PTZ status/position
-app.get('/api/ptz/status', asyncHandler(async (req, res) => {
+cameraRoutes.get('/ptz/status', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.json({ supported: false });
     return;
@@ -491,7 +773,8 @@ app.get('/api/ptz/status', asyncHandler(async (req, res) => {
 }));
 
 // PTZ move commands
-app.post('/api/ptz/move', asyncHandler(async (req, res) => {
+cameraRoutes.post('/ptz/move', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
     return;
@@ -499,6 +782,7 @@ app.post('/api/ptz/move', asyncHandler(async (req, res) => {
   
   const { pan = 0, tilt = 0, zoom = 0, type = 'continuous' } = req.body;
   let success = false;
+  clearCurrentPreset(cameraOf(res));
   
   switch (type) {
     case 'continuous':
@@ -516,7 +800,8 @@ app.post('/api/ptz/move', asyncHandler(async (req, res) => {
 }));
 
 // PTZ stop
-app.post('/api/ptz/stop', asyncHandler(async (req, res) => {
+cameraRoutes.post('/ptz/stop', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
     return;
@@ -527,18 +812,21 @@ app.post('/api/ptz/stop', asyncHandler(async (req, res) => {
 }));
 
 // PTZ home
-app.post('/api/ptz/home', asyncHandler(async (req, res) => {
+cameraRoutes.post('/ptz/home', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
     return;
   }
   
+  clearCurrentPreset(cameraOf(res));
   const success = await ptzController.goHome();
   res.json({ success });
 }));
 
 // PTZ presets
-app.get('/api/ptz/presets', asyncHandler(async (req, res) => {
+cameraRoutes.get('/ptz/presets', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.json({ presets: [] });
     return;
@@ -548,17 +836,20 @@ app.get('/api/ptz/presets', asyncHandler(async (req, res) => {
   res.json({ presets });
 }));
 
-app.post('/api/ptz/presets/:token', asyncHandler(async (req, res) => {
+cameraRoutes.post('/ptz/presets/:token', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
     return;
   }
   
+  clearCurrentPreset(cameraOf(res));
   const success = await ptzController.gotoPreset(req.params.token);
   res.json({ success });
 }));
 
-app.put('/api/ptz/presets', asyncHandler(async (req, res) => {
+cameraRoutes.put('/ptz/presets', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
     return;
@@ -570,7 +861,8 @@ app.put('/api/ptz/presets', asyncHandler(async (req, res) => {
 }));
 
 // PTZ Test - cycles through all PTZ functions
-app.post('/api/ptz/test', asyncHandler(async (req, res) => {
+cameraRoutes.post('/ptz/test', asyncHandler(async (req, res) => {
+  const ptzController = cameraOf(res).getPtzController();
   console.log('[PTZ Test] Endpoint called, ptzController:', ptzController ? 'available' : 'null');
   if (!ptzController) {
     res.status(400).json({ success: false, error: 'PTZ not available' });
@@ -749,8 +1041,8 @@ app.post('/api/camera/time/sync', asyncHandler(async (req, res) => {
 // ==================== Settings ====================
 
 // Get all settings
-app.get('/api/settings', (req, res) => {
-  const settings = getSettings();
+cameraRoutes.get('/settings', (req, res) => {
+  const settings = cameraOf(res).settings;
   res.json({
     ...settings.getAll(),
     resolutionPresets: RESOLUTION_PRESETS,
@@ -758,14 +1050,14 @@ app.get('/api/settings', (req, res) => {
 });
 
 // Get video settings
-app.get('/api/settings/video', (req, res) => {
-  const settings = getSettings();
+cameraRoutes.get('/settings/video', (req, res) => {
+  const settings = cameraOf(res).settings;
   res.json(settings.getVideo());
 });
 
 // Update video settings
-app.post('/api/settings/video', (req, res) => {
-  const settings = getSettings();
+cameraRoutes.post('/settings/video', (req, res) => {
+  const settings = cameraOf(res).settings;
   const updates = req.body as Partial<VideoSettings>;
   
   // Validate resolution
@@ -791,8 +1083,8 @@ app.post('/api/settings/video', (req, res) => {
 });
 
 // Reset settings to defaults
-app.post('/api/settings/reset', (req, res) => {
-  const settings = getSettings();
+cameraRoutes.post('/settings/reset', (req, res) => {
+  const settings = cameraOf(res).settings;
   const defaults = settings.reset();
   res.json({ 
     success: true, 
@@ -802,23 +1094,245 @@ app.post('/api/settings/reset', (req, res) => {
 });
 
 // Apply settings (restart stream)
-app.post('/api/settings/apply', asyncHandler(async (req, res) => {
-  const { stopStreaming, startStreaming, isStreaming } = await import('./streamer.js');
+cameraRoutes.post('/settings/apply', asyncHandler(async (req, res) => {
+  const streamer = cameraOf(res).streamer;
   
-  if (isStreaming()) {
+  if (streamer.isStreaming()) {
     console.log('[Settings] Restarting stream to apply settings...');
-    stopStreaming();
-    
-    // Wait a moment for cleanup
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    await startStreaming();
+    await streamer.restart();
     res.json({ success: true, message: 'Stream restarted with new settings.' });
   } else {
     res.json({ success: true, message: 'Settings saved. Stream not running.' });
   }
 }));
 
+// ==================== Camera Encoder & Imaging (ONVIF) ====================
+
+const IMAGING_NOT_AVAILABLE = 'Camera imaging control not available (needs ONVIF)';
+
+// Everything the camera reports: encoder, imaging and what they can be set to
+cameraRoutes.get('/camera/config', asyncHandler(async (req, res) => {
+  const camera = cameraOf(res);
+  const imaging = camera.getImagingController();
+  if (!imaging) {
+    res.json({ supported: false, error: IMAGING_NOT_AVAILABLE, stored: camera.settings.getCamera() });
+    return;
+  }
+
+  // Cameras without an Imaging service still report their encoder
+  const [encoder, encoderOptions, imagingSettings, imagingOptions] = await Promise.all([
+    imaging.getEncoder().catch(() => null),
+    imaging.getEncoderOptions().catch(() => null),
+    imaging.getImaging().catch(() => null),
+    imaging.getImagingOptions().catch(() => null),
+  ]);
+  res.json({
+    supported: encoder !== null || imagingSettings !== null,
+    encoder,
+    encoderOptions,
+    imaging: imagingSettings,
+    imagingOptions,
+    stored: camera.settings.getCamera(),
+  });
+}));
+
+// Video encoder (resolution, fps, GOP length, bitrate kbps)
+cameraRoutes.get('/camera/encoder', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.json({ supported: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+  const [encoder, options] = await Promise.all([imaging.getEncoder(), imaging.getEncoderOptions().catch(() => null)]);
+  res.json({ supported: true, encoder, options });
+}));
+
+cameraRoutes.post('/camera/encoder', asyncHandler(async (req, res) => {
+  const camera = cameraOf(res);
+  const imaging = camera.getImagingController();
+  if (!imaging) {
+    res.status(400).json({ success: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+
+  const { resolution, fps, govLength, bitrate, quality } = req.body || {};
+  for (const [name, value] of Object.entries({ fps, govLength, bitrate, quality })) {
+    if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+      res.status(400).json({ success: false, error: `${name} must be a positive number` });
+      return;
+    }
+  }
+  if (resolution !== undefined && typeof resolution !== 'string') {
+    res.status(400).json({ success: false, error: 'resolution must be a string like 1920x1080' });
+    return;
+  }
+
+  try {
+    const encoder = await imaging.setEncoder({ resolution, fps, govLength, bitrate, quality });
+    // Remember what the camera was set to
+    const stored = camera.settings.updateCamera({
+      sourceResolution: encoder.resolution,
+      sourceFps: encoder.fps,
+      sourceGovLength: encoder.govLength ?? undefined,
+      sourceBitrate: encoder.bitrate,
+    });
+    res.json({
+      success: true,
+      encoder,
+      stored,
+      message: 'Camera encoder updated. Apply settings if the stream stalls.',
+    });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+}));
+
+// Imaging (exposure, focus, IR cut filter, WDR, brightness/contrast/saturation/sharpness)
+cameraRoutes.get('/camera/imaging', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.json({ supported: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+  const [settings, options] = await Promise.all([imaging.getImaging(), imaging.getImagingOptions().catch(() => null)]);
+  res.json({ supported: true, settings, options });
+}));
+
+cameraRoutes.post('/camera/imaging', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.status(400).json({ success: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+
+  const updates = (req.body || {}) as ImagingSettings;
+  if (updates.irCutFilter && !['ON', 'OFF', 'AUTO'].includes(updates.irCutFilter)) {
+    res.status(400).json({ success: false, error: 'irCutFilter must be ON, OFF or AUTO' });
+    return;
+  }
+  if (updates.exposure && !['AUTO', 'MANUAL'].includes(updates.exposure.mode)) {
+    res.status(400).json({ success: false, error: 'exposure.mode must be AUTO or MANUAL' });
+    return;
+  }
+  if (updates.focus && !['AUTO', 'MANUAL'].includes(updates.focus.mode)) {
+    res.status(400).json({ success: false, error: 'focus.mode must be AUTO or MANUAL' });
+    return;
+  }
+  if (updates.wideDynamicRange && !['ON', 'OFF'].includes(updates.wideDynamicRange.mode)) {
+    res.status(400).json({ success: false, error: 'wideDynamicRange.mode must be ON or OFF' });
+    return;
+  }
+  const numbers = {
+    brightness: updates.brightness,
+    colorSaturation: updates.colorSaturation,
+    contrast: updates.contrast,
+    sharpness: updates.sharpness,
+    'exposure.minExposureTime': updates.exposure?.minExposureTime,
+    'exposure.maxExposureTime': updates.exposure?.maxExposureTime,
+    'exposure.minGain': updates.exposure?.minGain,
+    'exposure.maxGain': updates.exposure?.maxGain,
+    'exposure.exposureTime': updates.exposure?.exposureTime,
+    'exposure.gain': updates.exposure?.gain,
+    'focus.defaultSpeed': updates.focus?.defaultSpeed,
+    'focus.nearLimit': updates.focus?.nearLimit,
+    'focus.farLimit': updates.focus?.farLimit,
+    'wideDynamicRange.level': updates.wideDynamicRange?.level,
+  };
+  for (const [name, value] of Object.entries(numbers)) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      res.status(400).json({ success: false, error: `${name} must be a number` });
+      return;
+    }
+  }
+
+  try {
+    const settings = await imaging.setImaging(updates);
+    res.json({ success: true, settings });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+}));
+
+// Day/night shortcut for the IR cut filter (day = color, night = IR)
+cameraRoutes.post('/camera/daynight', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.status(400).json({ success: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+
+  const mode = req.body?.mode as DayNightMode;
+  if (!['day', 'night', 'auto'].includes(mode)) {
+    res.status(400).json({ success: false, error: 'mode must be day, night or auto' });
+    return;
+  }
+
+  try {
+    const settings = await imaging.setDayNight(mode);
+    res.json({ success: true, mode, settings });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+}));
+
+// Manual focus: move at a speed (-1 near to 1 far) until stopped
+cameraRoutes.post('/camera/focus', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.status(400).json({ success: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+
+  const speed = Number(req.body?.speed);
+  if (!isFinite(speed)) {
+    res.status(400).json({ success: false, error: 'speed required (-1 to 1)' });
+    return;
+  }
+  const success = await imaging.moveFocus(speed);
+  res.json({ success });
+}));
+
+cameraRoutes.post('/camera/focus/stop', asyncHandler(async (req, res) => {
+  const imaging = cameraOf(res).getImagingController();
+  if (!imaging) {
+    res.status(400).json({ success: false, error: IMAGING_NOT_AVAILABLE });
+    return;
+  }
+  const success = await imaging.stopFocus();
+  res.json({ success });
+}));
+
+// ==================== Auto-Tracking ====================
+
+// Auto-tracking status and config
+app.get('/api/ptz/track', (req, res) => {
+  const tracker = getAutoTracker();
+  res.json({ ...tracker.getStatus(), config: tracker.getConfig() });
+});
+
+// Update auto-tracking config (enabled, deadZone, maxSpeed, targetSize, returnAfterSeconds...)
+app.post('/api/ptz/track/config', (req, res) => {
+  const config = getAutoTracker().setConfig(req.body || {});
+  res.json({ success: true, config });
+});
+
+// Follow a bird's bounding box (normalized 0-1, e.g. from the web app's tracker)
+app.post('/api/ptz/track/target', (req, res) => {
+  const bbox = req.body?.bbox;
+  const valid = bbox && ['x', 'y', 'w', 'h'].every(k => typeof bbox[k] === 'number' && bbox[k] >= 0 && bbox[k] <= 1);
+  if (!valid) {
+    return res.status(400).json({ success: false, error: 'bbox with normalized x, y, w, h required' });
+  }
+  const success = getAutoTracker().update({ x: bbox.x, y: bbox.y, w: bbox.w, h: bbox.h });
+  res.json({ success, status: getAutoTracker().getStatus() });
+});
+
+// Stop following and return to the starting preset
+app.post('/api/ptz/track/release', (req, res) => {
+  getAutoTracker().release();
+  res.json({ success: true });
+});
+
 // ==================== Enhanced Preset Management ====================
 
 // Get all saved presets
@@ -828,6 +1342,8 @@ app.get('/api/presets', (req, res) => {
     presets: presetManager.getPresets(),
     patrol: presetManager.getPatrolConfig(),
     patrolActive: presetManager.isPatrolling(),
+    patrolHeld: presetManager.isPatrolHeld(),
+    currentPresetId: presetManager.getCurrentPresetId(),
   });
 });
 
@@ -882,6 +1398,124 @@ app.post('/api/patrol/config', (req, res) => {
   res.json({ success: true, config });
 });
 
+// Patrol decisions (moves, dwell times and why, pauses for bird activity)
+app.get('/api/patrol/log', (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  res.json({ decisions: getPatrolPlanner().getDecisions(limit) });
+});
+
+// Current activity score of each patrol preset
+app.get('/api/patrol/activity', (req, res) => {
+  const patrol = getPresetManager().getPatrolConfig();
+  res.json({ mode: patrol.mode, presets: getPatrolPlanner().getActivity(patrol.presets) });
+});
+
+// ==================== Schedules ====================
+
+// Scheduled jobs with their next run time
+app.get('/api/schedules', (req, res) => {
+  res.json({ jobs: getScheduler().getJobs(), timezone: config.scheduler.timezone });
+});
+
+// Upcoming runs across all jobs
+app.get('/api/schedules/upcoming', (req, res) => {
+  const hours = Math.min(parseInt(req.query.hours as string) || 48, 24 * 31);
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  res.json({ runs: getScheduler().getUpcoming(hours, limit) });
+});
+
+// Add a job
+app.post('/api/schedules', (req, res) => {
+  try {
+    const job = getScheduler().addJob(req.body || {});
+    res.json({ success: true, job });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Update a job
+app.put('/api/schedules/:id', (req, res) => {
+  try {
+    const job = getScheduler().updateJob(req.params.id, req.body || {});
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    res.json({ success: true, job });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Delete a job
+app.delete('/api/schedules/:id', (req, res) => {
+  const success = getScheduler().removeJob(req.params.id);
+  res.status(success ? 200 : 404).json({ success });
+});
+
+// Run a job now
+app.post('/api/schedules/:id/run', asyncHandler(async (req, res) => {
+  const scheduler = getScheduler();
+  if (!scheduler.getJob(req.params.id)) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+  const success = await scheduler.runJob(req.params.id);
+  res.json({ success, job: scheduler.getJob(req.params.id) });
+}));
+
+// ==================== Operating Profiles ====================
+
+// Profiles, the active one and the next automatic switch
+app.get('/api/profiles', (req, res) => {
+  const profiles = getProfileManager();
+  res.json({ ...profiles.getStatus(), profiles: profiles.getProfiles() });
+});
+
+// Switch history, newest first
+app.get('/api/profiles/history', (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  res.json({ history: getProfileManager().getHistory(limit) });
+});
+
+// Auto-switching at civil dawn/dusk ({ enabled, dayProfile, nightProfile })
+app.post('/api/profiles/auto', (req, res) => {
+  try {
+    const auto = getProfileManager().setAuto(req.body || {});
+    res.json({ success: true, auto });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Add or replace a profile
+app.put('/api/profiles/:id', asyncHandler(async (req, res) => {
+  try {
+    const profile = await getProfileManager().saveProfile({ ...req.body, id: req.params.id });
+    res.json({ success: true, profile });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+}));
+
+// Delete a profile
+app.delete('/api/profiles/:id', (req, res) => {
+  try {
+    const success = getProfileManager().removeProfile(req.params.id);
+    res.status(success ? 200 : 404).json({ success });
+  } catch (err) {
+    res.status(400).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// Switch now (holds until the next dawn/dusk when auto-switching)
+app.post('/api/profiles/:id/activate', asyncHandler(async (req, res) => {
+  const entry = await getProfileManager().activate(req.params.id);
+  if (!entry) {
+    return res.status(404).json({ success: false, error: 'Profile not found' });
+  }
+  res.json({ success: true, switch: entry });
+}));
+
 // ==================== Bird Tracking ====================
 
 // Get bird tracking summary
@@ -908,6 +1542,28 @@ app.get('/api/birds/sightings', (req, res) => {
   });
 });
 
+// Get a single sighting
+app.get('/api/birds/sightings/:id', (req, res) => {
+  const sighting = getBirdTracker().getSighting(req.params.id);
+  if (sighting) {
+    res.json(sighting);
+  } else {
+    res.status(404).json({ error: 'Sighting not found' });
+  }
+});
+
+// Get per-species prior weights learned from corrections
+app.get('/api/birds/priors', (req, res) => {
+  const priors = getSpeciesPriors().getPriors();
+  res.json({
+    priors,
+    thresholds: {
+      audio: Object.fromEntries(Object.keys(priors).map(id => [id, getSpeciesPriors().getMinConfidence(id, config.detection.minConfidence)])),
+      visual: Object.fromEntries(Object.keys(priors).map(id => [id, getSpeciesPriors().getMinConfidence(id, config.visualDetection.minConfidence)])),
+    },
+  });
+});
+
 // Get sightings for today
 app.get('/api/birds/today', (req, res) => {
   const tracker = getBirdTracker();
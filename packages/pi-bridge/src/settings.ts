@@ -6,13 +6,20 @@
  */
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { EventEmitter } from 'events';
 
 const SETTINGS_DIR = join(homedir(), '.birdcam');
 const SETTINGS_FILE = join(SETTINGS_DIR, 'settings.json');
 
+/**
+ * Settings file for a camera other than the default one
+ */
+export function cameraSettingsFile(cameraId: string): string {
+  return join(SETTINGS_DIR, `settings-${cameraId}.json`);
+}
+
 export interface VideoSettings {
   // Output settings (FFmpeg transcoding)
   outputResolution: '1080p' | '720p' | '480p' | 'source' | 'custom';
@@ -68,12 +75,14 @@ export const RESOLUTION_PRESETS: Record<string, { width: number; height: number
   '360p': { width: 640, height: 360 },
 };
 
-class SettingsManager extends EventEmitter {
+export class SettingsManager extends EventEmitter {
   private settings: AllSettings;
   private loaded = false;
+  private settingsFile: string;
 
-  constructor() {
+  constructor(settingsFile: string = SETTINGS_FILE) {
     super();
+    this.settingsFile = settingsFile;
     this.settings = { ...DEFAULT_SETTINGS };
   }
 
@@ -87,12 +96,12 @@ class SettingsManager extends EventEmitter {
 
     try {
       // Ensure settings directory exists
-      if (!existsSync(SETTINGS_DIR)) {
-        mkdirSync(SETTINGS_DIR, { recursive: true });
+      if (!existsSync(dirname(this.settingsFile))) {
+        mkdirSync(dirname(this.settingsFile), { recursive: true });
       }
 
-      if (existsSync(SETTINGS_FILE)) {
-        const data = readFileSync(SETTINGS_FILE, 'utf-8');
+      if (existsSync(this.settingsFile)) {
+        const data = readFileSync(this.settingsFile, 'utf-8');
         const saved = JSON.parse(data) as Partial<AllSettings>;
         
         // Merge with defaults to handle new fields
@@ -102,7 +111,7 @@ class SettingsManager extends EventEmitter {
           lastModified: saved.lastModified || new Date().toISOString(),
         };
         
-        console.log('[Settings] Loaded from', SETTINGS_FILE);
+        console.log('[Settings] Loaded from', this.settingsFile);
       } else {
         // Save defaults
         this.save();
@@ -122,13 +131,13 @@ class SettingsManager extends EventEmitter {
    */
   save(): void {
     try {
-      if (!existsSync(SETTINGS_DIR)) {
-        mkdirSync(SETTINGS_DIR, { recursive: true });
+      if (!existsSync(dirname(this.settingsFile))) {
+        mkdirSync(dirname(this.settingsFile), { recursive: true });
       }
       
       this.settings.lastModified = new Date().toISOString();
-      writeFileSync(SETTINGS_FILE, JSON.stringify(this.settings, null, 2));
-      console.log('[Settings] Saved to', SETTINGS_FILE);
+      writeFileSync(this.settingsFile, JSON.stringify(this.settings, null, 2));
+      console.log('[Settings] Saved to', this.settingsFile);
     } catch (err) {
       console.error('[Settings] Failed to save:', (err as Error).message);
     }
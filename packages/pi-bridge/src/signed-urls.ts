@@ -0,0 +1,141 @@
+/**
+ * Signed URLs Module
+ *
+ * Short-lived HMAC-signed URLs for media that players and <video>/<img>
+ * tags fetch directly (HLS playlists and segments, snapshots, clip videos
+ * and thumbnails), so no API key has to go into a URL. A signed URL
+ * carries ?exp=<unix seconds>&sig=<HMAC-SHA256 of path and exp> and only
+ * grants GET on that one path until it expires.
+ *
+ * The signing secret comes from URL_SIGNING_SECRET or is generated and
+ * kept in ~/.birdcam/url-signing-key.txt (mode 600).
+ */
+
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, posix } from 'path';
+import { homedir } from 'os';
+
+const BIRDCAM_DIR = join(homedir(), '.birdcam');
+const SIGNING_KEY_FILE = join(BIRDCAM_DIR, 'url-signing-key.txt');
+
+const DEFAULT_TTL_SECONDS = parseInt(process.env.SIGNED_URL_TTL || '900', 10) || 900;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+/** Paths that may be signed (optionally under /api/cameras/:camId or /cameras/:camId) */
+const SIGNABLE_PATHS = [
+  /^(\/cameras\/[^/]+)?\/stream\.m3u8$/,
+  /^(\/cameras\/[^/]+)?\/segment\d+\.ts$/,
+  /^\/api(\/cameras\/[^/]+)?\/snapshot\/latest$/,
+  /^\/api(\/cameras\/[^/]+)?\/snapshots\/[^/]+$/,
+  /^\/api(\/cameras\/[^/]+)?\/clips\/[^/]+\/(video|thumbnail)$/,
+];
+
+export interface SignedUrl {
+  url: string;          // Path with exp and sig query parameters
+  expiresAt: number;    // Unix ms
+}
+
+let signingKey: Buffer | null = null;
+
+function getSigningKey(): Buffer {
+  if (signingKey) return signingKey;
+
+  if (process.env.URL_SIGNING_SECRET) {
+    signingKey = Buffer.from(process.env.URL_SIGNING_SECRET);
+    return signingKey;
+  }
+
+  try {
+    if (existsSync(SIGNING_KEY_FILE)) {
+      const saved = readFileSync(SIGNING_KEY_FILE, 'utf-8').trim();
+      if (saved) {
+        signingKey = Buffer.from(saved, 'hex');
+        return signingKey;
+      }
+    }
+  } catch (err) {
+    console.warn('[SignedUrls] Could not read signing key:', (err as Error).message);
+  }
+
+  const key = crypto.randomBytes(32);
+  try {
+    mkdirSync(BIRDCAM_DIR, { recursive: true });
+    writeFileSync(SIGNING_KEY_FILE, key.toString('hex') + '\n', { mode: 0o600 });
+    console.log('[SignedUrls] 🔑 Generated URL signing key at', SIGNING_KEY_FILE);
+  } catch (err) {
+    console.warn('[SignedUrls] Could not save signing key:', (err as Error).message);
+  }
+  signingKey = key;
+  return key;
+}
+
+function computeSignature(path: string, exp: number): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(`${path}\n${exp}`).digest('base64url');
+}
+
+/**
+ * Whether a path may be handed out as a signed URL
+ */
+export function isSignablePath(path: string): boolean {
+  return SIGNABLE_PATHS.some(pattern => pattern.test(path));
+}
+
+/**
+ * Seconds a signed URL lasts unless asked otherwise
+ */
+export function getDefaultTtl(): number {
+  return DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Sign a path. Throws if the path cannot be signed.
+ */
+export function signPath(path: string, ttlSeconds: number = DEFAULT_TTL_SECONDS): SignedUrl {
+  if (!isSignablePath(path)) {
+    throw new Error(`Path cannot be signed: ${path}`);
+  }
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TTL_SECONDS) {
+    throw new Error(`ttl must be between 1 and ${MAX_TTL_SECONDS} seconds`);
+  }
+  const exp = Math.floor(Date.now() / 1000) + Math.round(ttlSeconds);
+  return {
+    url: `${path}?exp=${exp}&sig=${computeSignature(path, exp)}`,
+    expiresAt: exp * 1000,
+  };
+}
+
+/**
+ * Check a request's exp/sig query parameters against its path
+ */
+export function verifySignedPath(path: string, exp: unknown, sig: unknown): boolean {
+  if (typeof exp !== 'string' || typeof sig !== 'string' || !isSignablePath(path)) {
+    return false;
+  }
+  const expSeconds = parseInt(exp, 10);
+  if (!Number.isFinite(expSeconds) || expSeconds * 1000 <= Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(computeSignature(path, expSeconds));
+  const actual = Buffer.from(sig);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Rewrite an HLS playlist so every segment URI carries its own signature.
+ * Segments expire with the playlist's signature, or after the default TTL.
+ */
+export function signPlaylist(playlist: string, playlistPath: string, playlistExp?: number): string {
+  const dir = posix.dirname(playlistPath);
+  const exp = playlistExp && playlistExp * 1000 > Date.now()
+    ? playlistExp
+    : Math.floor(Date.now() / 1000) + DEFAULT_TTL_SECONDS;
+
+  return playlist.split('\n').map(line => {
+    const uri = line.trim();
+    if (!uri || uri.startsWith('#') || uri.includes('://')) return line;
+    const segmentPath = posix.join(dir, uri.split('?')[0]);
+    if (!isSignablePath(segmentPath)) return line;
+    return `${uri.split('?')[0]}?exp=${exp}&sig=${computeSignature(segmentPath, exp)}`;
+  }).join('\n');
+}
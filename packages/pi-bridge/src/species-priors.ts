@@ -0,0 +1,130 @@
+/**
+ * Species Priors Module
+ *
+ * Per-species weights learned from user/community corrections in the web app
+ * (stored on the camera document as `speciesPriors`). Species the model keeps
+ * getting wrong at this camera need more confidence to be logged; species it
+ * tends to miss need less.
+ *
+ * Priors are cached in ~/.birdcam so they still apply while offline.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { getFirestore } from './firebase.js';
+
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const PRIORS_FILE = join(SETTINGS_DIR, 'species-priors.json');
+
+// Thresholds never drop below this, however strong the prior
+const MIN_THRESHOLD = 0.1;
+const MAX_THRESHOLD = 0.99;
+
+/**
+ * Species ID as used by the web app ("Blue Jay" -> "blue_jay")
+ */
+export function toSpeciesId(species: string): string {
+  return species.toLowerCase().replace(/\s+/g, '_');
+}
+
+export class SpeciesPriors {
+  private priors: Record<string, number> = {};
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * Follow the camera document for prior updates
+   */
+  start(cameraId: string): void {
+    this.stop();
+
+    this.unsubscribe = getFirestore().collection('cameras').doc(cameraId).onSnapshot(
+      (snapshot) => {
+        const priors = snapshot.get('speciesPriors');
+        if (priors && typeof priors === 'object') {
+          this.setPriors(priors);
+        }
+      },
+      (err) => {
+        console.warn('[Priors] Camera subscription failed:', err.message);
+      }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  setPriors(priors: Record<string, number>): void {
+    const cleaned: Record<string, number> = {};
+    for (const [speciesId, weight] of Object.entries(priors)) {
+      if (typeof weight === 'number' && weight > 0 && Number.isFinite(weight)) {
+        cleaned[speciesId] = weight;
+      }
+    }
+
+    this.priors = cleaned;
+    this.save();
+    console.log(`[Priors] Loaded ${Object.keys(cleaned).length} species priors`);
+  }
+
+  getPriors(): Record<string, number> {
+    return { ...this.priors };
+  }
+
+  getWeight(species: string): number {
+    return this.priors[toSpeciesId(species)] ?? 1;
+  }
+
+  /**
+   * Confidence a detection of this species needs, given the base threshold.
+   * A weight of 4 halves the threshold; a weight of 0.25 doubles it.
+   */
+  getMinConfidence(species: string, base: number): number {
+    const threshold = base / Math.sqrt(this.getWeight(species));
+    return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, threshold));
+  }
+
+  /**
+   * Lowest threshold any species can have, for pre-filtering raw model output
+   */
+  getFloor(base: number): number {
+    const weights = Object.values(this.priors);
+    const maxWeight = weights.length > 0 ? Math.max(1, ...weights) : 1;
+    return Math.max(MIN_THRESHOLD, base / Math.sqrt(maxWeight));
+  }
+
+  private load(): void {
+    try {
+      if (existsSync(PRIORS_FILE)) {
+        this.priors = JSON.parse(readFileSync(PRIORS_FILE, 'utf-8'));
+      }
+    } catch (err) {
+      console.warn('[Priors] Failed to load cached priors:', (err as Error).message);
+    }
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(SETTINGS_DIR, { recursive: true });
+      writeFileSync(PRIORS_FILE, JSON.stringify(this.priors, null, 2));
+    } catch (err) {
+      console.warn('[Priors] Failed to cache priors:', (err as Error).message);
+    }
+  }
+}
+
+// Singleton instance
+let speciesPriors: SpeciesPriors | null = null;
+
+export function getSpeciesPriors(): SpeciesPriors {
+  if (!speciesPriors) {
+    speciesPriors = new SpeciesPriors();
+  }
+  return speciesPriors;
+}
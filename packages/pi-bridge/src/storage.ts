@@ -0,0 +1,276 @@
+/**
+ * Storage Module
+ *
+ * Pluggable backends for uploaded clips and thumbnails:
+ * - Firebase Storage
+ * - S3-compatible object storage (AWS S3, MinIO, B2, ...) via SigV4-signed requests
+ * - Local filesystem (including NFS/SMB mounts on a NAS)
+ *
+ * The backend is selected with STORAGE_BACKEND (see config.ts).
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { createReadStream, existsSync, mkdirSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { config } from './config.js';
+import { getStorage } from './firebase.js';
+
+export type StorageBackend = 'firebase' | 's3' | 'local';
+
+export interface UploadOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** Store an object and return a URL for it */
+  upload(key: string, body: Buffer, options: UploadOptions): Promise<string>;
+  download(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// ==================== Firebase ====================
+
+export class FirebaseStorageAdapter implements StorageAdapter {
+  readonly backend = 'firebase' as const;
+
+  private bucket() {
+    return getStorage().bucket();
+  }
+
+  async upload(key: string, body: Buffer, options: UploadOptions): Promise<string> {
+    const bucket = this.bucket();
+    const file = bucket.file(key);
+
+    await file.save(body, {
+      contentType: options.contentType,
+      metadata: options.metadata,
+    });
+    await file.makePublic();
+
+    return `https://storage.googleapis.com/${bucket.name}/${key}`;
+  }
+
+  async download(key: string): Promise<Readable> {
+    return this.bucket().file(key).createReadStream();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const [exists] = await this.bucket().file(key).exists();
+    return exists;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket().file(key).delete({ ignoreNotFound: true });
+  }
+}
+
+// ==================== S3-compatible ====================
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicUrl?: string;
+}
+
+export class S3StorageAdapter implements StorageAdapter {
+  readonly backend = 's3' as const;
+
+  constructor(private s3: S3Config) {}
+
+  async upload(key: string, body: Buffer, options: UploadOptions): Promise<string> {
+    const headers: Record<string, string> = { 'content-type': options.contentType };
+    for (const [name, value] of Object.entries(options.metadata || {})) {
+      headers[`x-amz-meta-${name.toLowerCase()}`] = value;
+    }
+
+    const res = await this.request('PUT', key, body, headers);
+    if (!res.ok) {
+      throw new Error(`S3 upload failed: ${res.status} ${await res.text()}`);
+    }
+
+    return this.s3.publicUrl
+      ? `${this.s3.publicUrl.replace(/\/$/, '')}/${key}`
+      : this.objectUrl(key).toString();
+  }
+
+  async download(key: string): Promise<Readable> {
+    const res = await this.request('GET', key);
+    if (!res.ok || !res.body) {
+      throw new Error(`S3 download failed: ${res.status}`);
+    }
+    return Readable.fromWeb(res.body as import('stream/web').ReadableStream);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const res = await this.request('HEAD', key);
+    if (res.status === 404) return false;
+    if (!res.ok) throw new Error(`S3 HEAD failed: ${res.status}`);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request('DELETE', key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`S3 delete failed: ${res.status}`);
+    }
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.s3.endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+    if (this.s3.forcePathStyle) {
+      endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${this.s3.bucket}/${encodedKey}`;
+    } else {
+      endpoint.hostname = `${this.s3.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${encodedKey}`;
+    }
+    return endpoint;
+  }
+
+  /**
+   * Send a request signed with AWS Signature Version 4
+   */
+  private async request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+
+    const signedHeaderNames = Object.keys(headers).map(h => h.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames.map(h => `${h}:${String(headers[h]).trim()}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.s3.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const kDate = hmac(`AWS4${this.s3.secretAccessKey}`, dateStamp);
+    const kRegion = hmac(kDate, this.s3.region);
+    const kService = hmac(kRegion, 's3');
+    const kSigning = hmac(kService, 'aws4_request');
+    const signature = hmac(kSigning, stringToSign).toString('hex');
+
+    // fetch sets Host itself from the URL
+    const { host: _host, ...requestHeaders } = headers;
+    requestHeaders.authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.s3.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    return fetch(url, {
+      method,
+      headers: requestHeaders,
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// ==================== Local filesystem / NFS ====================
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'local' as const;
+  private root: string;
+
+  constructor(root: string, private publicUrl?: string) {
+    this.root = resolve(root);
+  }
+
+  async upload(key: string, body: Buffer, _options: UploadOptions): Promise<string> {
+    const filepath = this.resolveKey(key);
+    mkdirSync(dirname(filepath), { recursive: true });
+    writeFileSync(filepath, body);
+
+    return this.publicUrl
+      ? `${this.publicUrl.replace(/\/$/, '')}/${key}`
+      : `file://${filepath}`;
+  }
+
+  async download(key: string): Promise<Readable> {
+    const filepath = this.resolveKey(key);
+    if (!existsSync(filepath)) {
+      throw new Error(`Object not found: ${key}`);
+    }
+    return createReadStream(filepath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return existsSync(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const filepath = this.resolveKey(key);
+    if (existsSync(filepath)) {
+      unlinkSync(filepath);
+    }
+  }
+
+  private resolveKey(key: string): string {
+    const filepath = resolve(join(this.root, key));
+    if (!filepath.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filepath;
+  }
+}
+
+// ==================== Selection ====================
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Get the configured storage backend (null when STORAGE_BACKEND=none)
+ */
+export function getStorageAdapter(): StorageAdapter | null {
+  if (adapter) return adapter;
+
+  switch (config.storage.backend) {
+    case 'firebase':
+      adapter = new FirebaseStorageAdapter();
+      break;
+    case 's3':
+      adapter = new S3StorageAdapter(config.storage.s3);
+      break;
+    case 'local':
+      adapter = new LocalStorageAdapter(config.storage.local.path, config.storage.local.publicUrl);
+      break;
+    default:
+      return null;
+  }
+
+  console.log(`[Storage] Using ${adapter.backend} backend`);
+  return adapter;
+}
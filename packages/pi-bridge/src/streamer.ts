@@ -1,20 +1,24 @@
+/**
+ * Streamer Module
+ *
+ * RTSP -> HLS transcoding with FFmpeg. Each camera has its own HlsStreamer
+ * writing to its own output directory; the module-level functions drive the
+ * default camera's streamer.
+ */
+
 import ffmpeg from 'fluent-ffmpeg';
 import { mkdirSync, existsSync, rmSync } from 'fs';
 import { config } from './config.js';
-import { getSettings, RESOLUTION_PRESETS } from './settings.js';
+import { getSettings, RESOLUTION_PRESETS, type SettingsManager } from './settings.js';
+import { withPrivacyFilter } from './privacy.js';
 import type { FfmpegCommand } from 'fluent-ffmpeg';
 
-let ffmpegProcess: FfmpegCommand | null = null;
-let isRunning = false;
-let dynamicRtspUrl: string | null = null;
-
-// Allow setting RTSP URL dynamically (e.g., from ONVIF discovery)
-export function setRtspUrl(url: string): void {
-  dynamicRtspUrl = url;
-}
-
-function getRtspUrl(): string {
-  return dynamicRtspUrl || config.camera.rtspUrl;
+export interface StreamerOptions {
+  rtspUrl: string;
+  outputDir: string;
+  settings: SettingsManager;
+  privacyMask: boolean;      // Burn in the privacy zones (they belong to the default camera)
+  label: string;             // Log prefix, e.g. "Streamer:garden"
 }
 
 export interface StreamStats {
@@ -24,192 +28,283 @@ export interface StreamStats {
   time: string;
 }
 
-let currentStats: StreamStats = {
+export interface StreamProbe {
+  codec: string;
+  resolution: string;
+  fps: number;
+}
+
+const EMPTY_STATS: StreamStats = {
   fps: 0,
   bitrate: '0kbits/s',
   frames: 0,
   time: '00:00:00.00',
 };
 
-export function getStreamStats(): StreamStats {
-  return { ...currentStats };
-}
+export class HlsStreamer {
+  private options: StreamerOptions;
+  private ffmpegProcess: FfmpegCommand | null = null;
+  private isRunning = false;
+  private currentStats: StreamStats = { ...EMPTY_STATS };
 
-export function isStreaming(): boolean {
-  return isRunning;
-}
+  constructor(options: StreamerOptions) {
+    this.options = options;
+  }
 
-export async function startStreaming(): Promise<void> {
-  if (isRunning) {
-    console.log('[Streamer] Already running');
-    return;
+  // Allow setting RTSP URL dynamically (e.g., from ONVIF discovery)
+  setRtspUrl(url: string): void {
+    this.options.rtspUrl = url;
   }
 
-  // Ensure output directory exists
-  if (existsSync(config.hls.outputDir)) {
-    rmSync(config.hls.outputDir, { recursive: true });
+  getRtspUrl(): string {
+    return this.options.rtspUrl;
   }
-  mkdirSync(config.hls.outputDir, { recursive: true });
-
-  const rtspUrl = getRtspUrl();
-  const settings = getSettings();
-  const videoSettings = settings.getVideo();
-  
-  console.log(`[Streamer] Starting RTSP → HLS transcoding`);
-  console.log(`[Streamer] Input: ${rtspUrl.replace(/\/\/[^@]+@/, '//***@')}`);
-  console.log(`[Streamer] Output: ${config.hls.outputDir}/stream.m3u8`);
-  console.log(`[Streamer] Settings: ${videoSettings.outputResolution} @ ${videoSettings.outputFps || 'source'}fps, ${videoSettings.outputBitrate}, ${videoSettings.qualityPreset}`);
-
-  const outputPath = `${config.hls.outputDir}/stream.m3u8`;
-
-  // Build output options dynamically from settings
-  const outputOptions: string[] = [
-    // Video encoding
-    '-c:v', 'libx264',
-    '-preset', videoSettings.qualityPreset,
-    '-tune', 'zerolatency',
-    '-b:v', videoSettings.outputBitrate,
-    '-maxrate', videoSettings.outputBitrate,
-    '-bufsize', `${parseInt(videoSettings.outputBitrate) * 2}k`,
-  ];
-
-  // Resolution from settings
-  if (videoSettings.outputResolution !== 'source') {
-    let width: number | undefined;
-    let height: number | undefined;
-    
-    if (videoSettings.outputResolution === 'custom' && videoSettings.customWidth && videoSettings.customHeight) {
-      width = videoSettings.customWidth;
-      height = videoSettings.customHeight;
-    } else if (RESOLUTION_PRESETS[videoSettings.outputResolution]) {
-      const preset = RESOLUTION_PRESETS[videoSettings.outputResolution];
-      width = preset.width;
-      height = preset.height;
-    }
 
-    if (width && height) {
-      // Scale with padding to maintain aspect ratio and ensure even dimensions
-      outputOptions.push('-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`);
-    }
-  } else if (config.transcode.resolution) {
-    // Fallback to env config if set
-    outputOptions.push('-s', config.transcode.resolution);
+  getOutputDir(): string {
+    return this.options.outputDir;
   }
 
-  // FPS limit from settings
-  if (videoSettings.outputFps > 0) {
-    outputOptions.push('-r', videoSettings.outputFps.toString());
+  getStats(): StreamStats {
+    return { ...this.currentStats };
   }
 
-  // Audio encoding
-  if (videoSettings.audioEnabled) {
-    outputOptions.push('-c:a', 'aac');
-    outputOptions.push('-b:a', videoSettings.audioBitrate);
-    outputOptions.push('-ar', '44100');
-  } else {
-    outputOptions.push('-an');
+  isStreaming(): boolean {
+    return this.isRunning;
   }
 
-  // HLS options from settings
-  outputOptions.push('-f', 'hls');
-  outputOptions.push('-hls_time', videoSettings.hlsSegmentDuration.toString());
-  outputOptions.push('-hls_list_size', videoSettings.hlsPlaylistSize.toString());
-  outputOptions.push('-hls_flags', 'delete_segments+append_list');
-  outputOptions.push('-hls_segment_filename', `${config.hls.outputDir}/segment%03d.ts`);
-
-  ffmpegProcess = ffmpeg(rtspUrl)
-    .inputOptions([
-      '-rtsp_transport tcp',  // More reliable than UDP
-      '-timeout 5000000',     // Socket timeout (microseconds)
-    ])
-    .outputOptions(outputOptions)
-    .output(outputPath);
-
-  // Progress tracking
-  ffmpegProcess.on('progress', (progress) => {
-    currentStats = {
-      fps: progress.currentFps || 0,
-      bitrate: progress.currentKbps ? `${progress.currentKbps}kbits/s` : '0kbits/s',
-      frames: progress.frames || 0,
-      time: progress.timemark || '00:00:00.00',
-    };
-    
-    if (config.debug) {
-      console.log(`[Streamer] ${currentStats.time} | ${currentStats.fps} fps | ${currentStats.bitrate}`);
+  async start(): Promise<void> {
+    const tag = this.options.label;
+    const outputDir = this.options.outputDir;
+
+    if (this.isRunning) {
+      console.log(`[${tag}] Already running`);
+      return;
+    }
+
+    // Ensure output directory exists
+    if (existsSync(outputDir)) {
+      rmSync(outputDir, { recursive: true });
+    }
+    mkdirSync(outputDir, { recursive: true });
+
+    const rtspUrl = this.getRtspUrl();
+    const videoSettings = this.options.settings.getVideo();
+
+    console.log(`[${tag}] Starting RTSP → HLS transcoding`);
+    console.log(`[${tag}] Input: ${rtspUrl.replace(/\/\/[^@]+@/, '//***@')}`);
+    console.log(`[${tag}] Output: ${outputDir}/stream.m3u8`);
+    console.log(`[${tag}] Settings: ${videoSettings.outputResolution} @ ${videoSettings.outputFps || 'source'}fps, ${videoSettings.outputBitrate}, ${videoSettings.qualityPreset}`);
+
+    const outputPath = `${outputDir}/stream.m3u8`;
+
+    // Build output options dynamically from settings
+    const outputOptions: string[] = [
+      // Video encoding
+      '-c:v', 'libx264',
+      '-preset', videoSettings.qualityPreset,
+      '-tune', 'zerolatency',
+      '-b:v', videoSettings.outputBitrate,
+      '-maxrate', videoSettings.outputBitrate,
+      '-bufsize', `${parseInt(videoSettings.outputBitrate) * 2}k`,
+    ];
+
+    // Resolution from settings
+    let scaleFilter: string | undefined;
+    if (videoSettings.outputResolution !== 'source') {
+      let width: number | undefined;
+      let height: number | undefined;
+
+      if (videoSettings.outputResolution === 'custom' && videoSettings.customWidth && videoSettings.customHeight) {
+        width = videoSettings.customWidth;
+        height = videoSettings.customHeight;
+      } else if (RESOLUTION_PRESETS[videoSettings.outputResolution]) {
+        const preset = RESOLUTION_PRESETS[videoSettings.outputResolution];
+        width = preset.width;
+        height = preset.height;
+      }
+
+      if (width && height) {
+        // Scale with padding to maintain aspect ratio and ensure even dimensions
+        scaleFilter = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+      }
+    } else if (config.transcode.resolution) {
+      // Fallback to env config if set
+      outputOptions.push('-s', config.transcode.resolution);
+    }
+
+    // Privacy zones are painted over before scaling
+    const videoFilter = this.options.privacyMask ? withPrivacyFilter(scaleFilter) : scaleFilter;
+    if (videoFilter) {
+      outputOptions.push('-vf', videoFilter);
     }
-  });
-
-  // Error handling
-  ffmpegProcess.on('error', (err) => {
-    console.error('[Streamer] FFmpeg error:', err.message);
-    isRunning = false;
-    
-    // Auto-restart after delay
-    setTimeout(() => {
-      console.log('[Streamer] Attempting restart...');
-      startStreaming().catch(console.error);
-    }, 5000);
-  });
-
-  ffmpegProcess.on('end', () => {
-    console.log('[Streamer] FFmpeg process ended');
-    isRunning = false;
-  });
-
-  // Start
-  return new Promise((resolve, reject) => {
-    ffmpegProcess!.on('start', (cmd) => {
+
+    // FPS limit from settings
+    if (videoSettings.outputFps > 0) {
+      outputOptions.push('-r', videoSettings.outputFps.toString());
+    }
+
+    // Audio encoding
+    if (videoSettings.audioEnabled) {
+      outputOptions.push('-c:a', 'aac');
+      outputOptions.push('-b:a', videoSettings.audioBitrate);
+      outputOptions.push('-ar', '44100');
+    } else {
+      outputOptions.push('-an');
+    }
+
+    // HLS options from settings
+    outputOptions.push('-f', 'hls');
+    outputOptions.push('-hls_time', videoSettings.hlsSegmentDuration.toString());
+    outputOptions.push('-hls_list_size', videoSettings.hlsPlaylistSize.toString());
+    outputOptions.push('-hls_flags', 'delete_segments+append_list');
+    outputOptions.push('-hls_segment_filename', `${outputDir}/segment%03d.ts`);
+
+    const ffmpegProcess = ffmpeg(rtspUrl)
+      .inputOptions([
+        '-rtsp_transport tcp',  // More reliable than UDP
+        '-timeout 5000000',     // Socket timeout (microseconds)
+      ])
+      .outputOptions(outputOptions)
+      .output(outputPath);
+    this.ffmpegProcess = ffmpegProcess;
+
+    // Progress tracking
+    ffmpegProcess.on('progress', (progress) => {
+      this.currentStats = {
+        fps: progress.currentFps || 0,
+        bitrate: progress.currentKbps ? `${progress.currentKbps}kbits/s` : '0kbits/s',
+        frames: progress.frames || 0,
+        time: progress.timemark || '00:00:00.00',
+      };
+
       if (config.debug) {
-        console.log('[Streamer] FFmpeg command:', cmd);
+        console.log(`[${tag}] ${this.currentStats.time} | ${this.currentStats.fps} fps | ${this.currentStats.bitrate}`);
       }
-      isRunning = true;
-      resolve();
     });
 
-    ffmpegProcess!.on('error', (err) => {
-      if (!isRunning) {
-        reject(err);
-      }
+    // Error handling
+    ffmpegProcess.on('error', (err) => {
+      console.error(`[${tag}] FFmpeg error:`, err.message);
+      this.isRunning = false;
+
+      // Auto-restart after delay (unless stopped meanwhile)
+      setTimeout(() => {
+        if (this.ffmpegProcess !== ffmpegProcess) return;
+        this.ffmpegProcess = null;
+        console.log(`[${tag}] Attempting restart...`);
+        this.start().catch(console.error);
+      }, 5000);
     });
 
-    ffmpegProcess!.run();
-  });
-}
+    ffmpegProcess.on('end', () => {
+      console.log(`[${tag}] FFmpeg process ended`);
+      this.isRunning = false;
+    });
 
-export function stopStreaming(): void {
-  if (ffmpegProcess) {
-    console.log('[Streamer] Stopping FFmpeg...');
-    ffmpegProcess.kill('SIGTERM');
-    ffmpegProcess = null;
-    isRunning = false;
+    // Start
+    return new Promise((resolve, reject) => {
+      ffmpegProcess.on('start', (cmd) => {
+        if (config.debug) {
+          console.log(`[${tag}] FFmpeg command:`, cmd);
+        }
+        this.isRunning = true;
+        resolve();
+      });
+
+      ffmpegProcess.on('error', (err) => {
+        if (!this.isRunning) {
+          reject(err);
+        }
+      });
+
+      ffmpegProcess.run();
+    });
   }
-}
 
-// Probe the RTSP stream for info
-export async function probeStream(): Promise<{
-  codec: string;
-  resolution: string;
-  fps: number;
-} | null> {
-  return new Promise((resolve) => {
-    ffmpeg.ffprobe(getRtspUrl(), (err, metadata) => {
-      if (err) {
-        console.error('[Streamer] Probe failed:', err.message);
-        resolve(null);
-        return;
-      }
+  /**
+   * Restart transcoding (e.g. after privacy zones or settings changed)
+   */
+  async restart(): Promise<void> {
+    this.stop();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    await this.start();
+  }
 
-      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-      if (!videoStream) {
-        resolve(null);
-        return;
-      }
+  stop(): void {
+    if (this.ffmpegProcess) {
+      console.log(`[${this.options.label}] Stopping FFmpeg...`);
+      this.ffmpegProcess.kill('SIGTERM');
+      this.ffmpegProcess = null;
+      this.isRunning = false;
+    }
+  }
+
+  // Probe the RTSP stream for info
+  async probe(): Promise<StreamProbe | null> {
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(this.getRtspUrl(), (err, metadata) => {
+        if (err) {
+          console.error(`[${this.options.label}] Probe failed:`, err.message);
+          resolve(null);
+          return;
+        }
 
-      resolve({
-        codec: videoStream.codec_name || 'unknown',
-        resolution: `${videoStream.width}x${videoStream.height}`,
-        fps: Math.round(eval(videoStream.r_frame_rate || '0') || 0),
+        const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+        if (!videoStream) {
+          resolve(null);
+          return;
+        }
+
+        resolve({
+          codec: videoStream.codec_name || 'unknown',
+          resolution: `${videoStream.width}x${videoStream.height}`,
+          fps: Math.round(eval(videoStream.r_frame_rate || '0') || 0),
+        });
       });
     });
-  });
+  }
+}
+
+// Default camera's streamer
+let streamer: HlsStreamer | null = null;
+
+export function getStreamer(): HlsStreamer {
+  if (!streamer) {
+    streamer = new HlsStreamer({
+      rtspUrl: config.camera.rtspUrl,
+      outputDir: config.hls.outputDir,
+      settings: getSettings(),
+      privacyMask: true,
+      label: 'Streamer',
+    });
+  }
+  return streamer;
+}
+
+export function setRtspUrl(url: string): void {
+  getStreamer().setRtspUrl(url);
+}
+
+export function getStreamStats(): StreamStats {
+  return getStreamer().getStats();
+}
+
+export function isStreaming(): boolean {
+  return getStreamer().isStreaming();
+}
+
+export async function startStreaming(): Promise<void> {
+  return getStreamer().start();
+}
+
+export async function restartStreaming(): Promise<void> {
+  return getStreamer().restart();
+}
+
+export function stopStreaming(): void {
+  getStreamer().stop();
+}
+
+export async function probeStream(): Promise<StreamProbe | null> {
+  return getStreamer().probe();
 }
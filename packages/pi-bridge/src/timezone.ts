@@ -0,0 +1,101 @@
+/**
+ * Timezone Helpers
+ *
+ * Wall-clock <-> instant conversion for IANA timezones using Intl, so
+ * schedules and sun times follow the camera's local time (including DST)
+ * whatever timezone the Pi itself is set to.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;    // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;  // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    weekday,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+export function getTimezoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant at which a timezone's wall clock shows the given time.
+ * Times skipped by a DST change resolve to just after the change.
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const first = wall - getTimezoneOffset(new Date(wall), timeZone);
+  const offset = getTimezoneOffset(new Date(first), timeZone);
+  const second = wall - offset;
+  if (second === first || getTimezoneOffset(new Date(second), timeZone) === offset) {
+    return new Date(second);
+  }
+  // Neither offset gives this wall time: it falls in a DST gap
+  return new Date(Math.max(first, second));
+}
@@ -0,0 +1,304 @@
+/**
+ * Users & Tokens Module
+ *
+ * Dashboard users and scoped API tokens on top of the single admin login
+ * and API key from auth.ts. Every user and token has a role:
+ *   - viewer:   watch streams and read status, clips and settings
+ *   - operator: viewer + PTZ and recording/clip control
+ *   - admin:    everything, including settings, users and tokens
+ * Tokens are further limited to route groups (stream, ptz, recording,
+ * settings) and expire. Only a SHA-256 hash of each token is stored.
+ *
+ * Users and tokens are kept in ~/.birdcam/users.json (mode 600). The calls
+ * they make are recorded in the audit log (audit.ts).
+ */
+
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+
+const BIRDCAM_DIR = join(homedir(), '.birdcam');
+const USERS_FILE = join(BIRDCAM_DIR, 'users.json');
+
+const TOKEN_PREFIX = 'birdcam_tok_';
+const DEFAULT_TOKEN_TTL_DAYS = parseInt(process.env.AUTH_TOKEN_TTL_DAYS || '90', 10) || 90;
+const MAX_TOKEN_TTL_DAYS = 3650;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{1,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+export const SCOPES = ['stream', 'ptz', 'recording', 'settings'] as const;
+
+export type Role = typeof ROLES[number];
+export type Scope = typeof SCOPES[number];
+
+export interface User {
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;            // First characters, to recognize a token without storing it
+  role: Role;
+  scopes: Scope[];
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface TokenInfo extends ApiToken {
+  status: 'active' | 'expired' | 'revoked';
+}
+
+interface StoredUser extends User {
+  passwordHash: string;      // scrypt salt:hash (hex)
+}
+
+interface StoredToken extends ApiToken {
+  hash: string;              // SHA-256 of the token (hex)
+}
+
+interface UsersState {
+  users: StoredUser[];
+  tokens: StoredToken[];
+}
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  return `${salt.toString('hex')}:${crypto.scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class UserStore {
+  private state: UsersState;
+
+  constructor() {
+    this.state = this.loadState();
+  }
+
+  getUsers(): User[] {
+    return this.state.users.map(({ username, role, createdAt }) => ({ username, role, createdAt }));
+  }
+
+  /**
+   * Add a user. Throws if the username, password or role is invalid.
+   */
+  addUser(input: { username: string; password: string; role: Role }, reservedUsername?: string): User {
+    if (typeof input?.username !== 'string' || !USERNAME_PATTERN.test(input.username)) {
+      throw new Error('username must be 1-32 letters, digits, dots, dashes or underscores');
+    }
+    if (input.username === reservedUsername || this.findUser(input.username)) {
+      throw new Error(`User ${input.username} already exists`);
+    }
+    validatePassword(input.password);
+    validateRole(input.role);
+
+    const user: StoredUser = {
+      username: input.username,
+      role: input.role,
+      createdAt: new Date().toISOString(),
+      passwordHash: hashPassword(input.password),
+    };
+    this.state.users.push(user);
+    this.saveState();
+    console.log(`[Users] Added ${user.role} ${user.username}`);
+    return { username: user.username, role: user.role, createdAt: user.createdAt };
+  }
+
+  /**
+   * Change a user's role and/or password. Throws if invalid.
+   */
+  updateUser(username: string, updates: { password?: string; role?: Role }): User | null {
+    const user = this.findUser(username);
+    if (!user) return null;
+    if (updates.role !== undefined) validateRole(updates.role);
+    if (updates.password !== undefined) validatePassword(updates.password);
+
+    if (updates.role !== undefined) user.role = updates.role;
+    if (updates.password !== undefined) user.passwordHash = hashPassword(updates.password);
+    this.saveState();
+    return { username: user.username, role: user.role, createdAt: user.createdAt };
+  }
+
+  removeUser(username: string): boolean {
+    const index = this.state.users.findIndex(u => u.username === username);
+    if (index < 0) return false;
+    this.state.users.splice(index, 1);
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * The user if the password matches
+   */
+  verifyPassword(username: string, password: string): User | null {
+    const user = this.findUser(username);
+    if (!user || !checkPassword(password, user.passwordHash)) return null;
+    return { username: user.username, role: user.role, createdAt: user.createdAt };
+  }
+
+  getTokens(): TokenInfo[] {
+    return this.state.tokens.map(token => this.toInfo(token));
+  }
+
+  /**
+   * Create a token. The secret is only returned here. Throws if invalid.
+   */
+  createToken(
+    input: { name: string; role: Role; scopes?: Scope[]; expiresInDays?: number; expiresAt?: string },
+    createdBy: string
+  ): { token: string; info: TokenInfo } {
+    if (typeof input?.name !== 'string' || !input.name.trim()) {
+      throw new Error('name is required');
+    }
+    validateRole(input.role);
+    const scopes = input.scopes ?? [...SCOPES];
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(s => !SCOPES.includes(s))) {
+      throw new Error(`scopes must be a non-empty list of: ${SCOPES.join(', ')}`);
+    }
+
+    let expiresAt: Date;
+    if (input.expiresAt !== undefined) {
+      expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        throw new Error('expiresAt must be a future date');
+      }
+    } else {
+      const days = input.expiresInDays ?? DEFAULT_TOKEN_TTL_DAYS;
+      if (typeof days !== 'number' || days <= 0 || days > MAX_TOKEN_TTL_DAYS) {
+        throw new Error(`expiresInDays must be between 1 and ${MAX_TOKEN_TTL_DAYS}`);
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+    if (expiresAt.getTime() > Date.now() + MAX_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error(`Tokens expire within ${MAX_TOKEN_TTL_DAYS} days`);
+    }
+
+    const token = TOKEN_PREFIX + crypto.randomBytes(24).toString('hex');
+    const stored: StoredToken = {
+      id: `tok_${crypto.randomBytes(6).toString('hex')}`,
+      name: input.name.trim(),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      role: input.role,
+      scopes: [...new Set(scopes)],
+      createdAt: new Date().toISOString(),
+      createdBy,
+      expiresAt: expiresAt.toISOString(),
+      hash: hashToken(token),
+    };
+    this.state.tokens.push(stored);
+    this.saveState();
+    console.log(`[Users] Created ${stored.role} token ${stored.name} (${stored.scopes.join(', ')}) for ${createdBy}`);
+    return { token, info: this.toInfo(stored) };
+  }
+
+  /**
+   * Revoke a token (kept in the list as revoked)
+   */
+  revokeToken(id: string): TokenInfo | null {
+    const token = this.state.tokens.find(t => t.id === id);
+    if (!token) return null;
+    if (!token.revokedAt) {
+      token.revokedAt = new Date().toISOString();
+      this.saveState();
+      console.log(`[Users] Revoked token ${token.name}`);
+    }
+    return this.toInfo(token);
+  }
+
+  /**
+   * The active token matching a presented secret
+   */
+  findToken(secret: string): ApiToken | null {
+    if (!secret.startsWith(TOKEN_PREFIX)) return null;
+    const hash = Buffer.from(hashToken(secret), 'hex');
+    const token = this.state.tokens.find(t => crypto.timingSafeEqual(Buffer.from(t.hash, 'hex'), hash));
+    if (!token || this.toInfo(token).status !== 'active') return null;
+    const { hash: _hash, ...info } = token;
+    return info;
+  }
+
+  /**
+   * Note when a token was last used to change something
+   */
+  touchToken(id: string): void {
+    const token = this.state.tokens.find(t => t.id === id);
+    if (token) {
+      token.lastUsedAt = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  private findUser(username: string): StoredUser | undefined {
+    return this.state.users.find(u => u.username === username);
+  }
+
+  private toInfo(token: StoredToken): TokenInfo {
+    const { hash: _hash, ...info } = token;
+    const status = token.revokedAt ? 'revoked' : Date.parse(token.expiresAt) <= Date.now() ? 'expired' : 'active';
+    return { ...info, status };
+  }
+
+  private loadState(): UsersState {
+    try {
+      if (existsSync(USERS_FILE)) {
+        const data = JSON.parse(readFileSync(USERS_FILE, 'utf-8'));
+        return {
+          users: Array.isArray(data.users) ? data.users : [],
+          tokens: Array.isArray(data.tokens) ? data.tokens : [],
+        };
+      }
+    } catch (err) {
+      console.warn('[Users] Failed to load users:', (err as Error).message);
+    }
+    return { users: [], tokens: [] };
+  }
+
+  private saveState(): void {
+    try {
+      mkdirSync(BIRDCAM_DIR, { recursive: true });
+      writeFileSync(USERS_FILE, JSON.stringify(this.state, null, 2), { mode: 0o600 });
+    } catch (err) {
+      console.error('[Users] Failed to save users:', (err as Error).message);
+    }
+  }
+}
+
+function validateRole(role: unknown): asserts role is Role {
+  if (!ROLES.includes(role as Role)) {
+    throw new Error(`role must be one of: ${ROLES.join(', ')}`);
+  }
+}
+
+function validatePassword(password: unknown): void {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+// Singleton instance
+let userStore: UserStore | null = null;
+
+export function getUserStore(): UserStore {
+  if (!userStore) {
+    userStore = new UserStore();
+  }
+  return userStore;
+}
@@ -0,0 +1,757 @@
+/**
+ * Visual Bird Detection
+ *
+ * Runs the same ONNX models as the web app (YOLO detector + MobileNetV2
+ * classifier, see apps/web/src/lib/ml) on the Pi's CPU, against frames
+ * captured when motion.ts reports movement. Catches the silent birds at
+ * the feeder that BirdNET never hears.
+ *
+ * onnxruntime-node is an optional dependency - without it (or without the
+ * model files) visual detection stays disabled and BirdNET keeps working.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { existsSync, readFileSync } from 'fs';
+import ffmpeg from 'fluent-ffmpeg';
+import type { InferenceSession, Tensor } from 'onnxruntime-node';
+import { config } from './config.js';
+import type { BirdDetection, DetectionBox } from './detector.js';
+import type { SnapshotInfo } from './recorder.js';
+import { getSpeciesPriors } from './species-priors.js';
+
+type Ort = typeof import('onnxruntime-node');
+
+export interface VisualDetectorOptions {
+  detectorModelPath: string;
+  classifierModelPath: string;      // Optional - detections are reported as "Bird" without it
+  labelsPath?: string;              // JSON labels for a custom classifier
+  minConfidence: number;            // Minimum combined confidence to report (0-1)
+  detectionThreshold: number;       // YOLO box threshold (0-1)
+  minIntervalMs: number;            // Minimum time between analyzed frames
+  threads: number;                  // ONNX Runtime intra-op threads
+}
+
+interface Frame {
+  data: Buffer;                     // Packed RGB24
+  width: number;
+  height: number;
+}
+
+interface Region {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface Species {
+  common: string;
+  scientific: string;
+}
+
+// COCO class index for "bird"
+const BIRD_CLASS_ID = 14;
+const DETECTOR_INPUT_SIZE = 640;
+const CLASSIFIER_INPUT_SIZE = 224;
+const NMS_THRESHOLD = 0.45;
+const MAX_DECODE_WIDTH = 1280;
+// Live frames while tracking (boxes are normalized, so the aspect ratio doesn't matter)
+const TRACKING_FRAME_WIDTH = 640;
+const TRACKING_FRAME_HEIGHT = 360;
+
+// ImageNet normalization values
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+// ImageNet-1K bird classes (same set as the web classifier) with scientific names
+const IMAGENET_BIRD_CLASSES: Record<number, Species> = {
+  7: { common: 'Rooster', scientific: 'Gallus gallus domesticus' },
+  8: { common: 'Hen', scientific: 'Gallus gallus domesticus' },
+  9: { common: 'Ostrich', scientific: 'Struthio camelus' },
+  10: { common: 'Brambling', scientific: 'Fringilla montifringilla' },
+  11: { common: 'European Goldfinch', scientific: 'Carduelis carduelis' },
+  12: { common: 'House Finch', scientific: 'Haemorhous mexicanus' },
+  13: { common: 'Dark-eyed Junco', scientific: 'Junco hyemalis' },
+  14: { common: 'Indigo Bunting', scientific: 'Passerina cyanea' },
+  15: { common: 'American Robin', scientific: 'Turdus migratorius' },
+  16: { common: 'Bulbul', scientific: 'Pycnonotidae' },
+  17: { common: 'Blue Jay', scientific: 'Cyanocitta cristata' },
+  18: { common: 'Black-billed Magpie', scientific: 'Pica hudsonia' },
+  19: { common: 'Black-capped Chickadee', scientific: 'Poecile atricapillus' },
+  20: { common: 'American Dipper', scientific: 'Cinclus mexicanus' },
+  21: { common: 'Kite', scientific: 'Milvus' },
+  22: { common: 'Bald Eagle', scientific: 'Haliaeetus leucocephalus' },
+  23: { common: 'Turkey Vulture', scientific: 'Cathartes aura' },
+  24: { common: 'Great Grey Owl', scientific: 'Strix nebulosa' },
+  80: { common: 'Black Grouse', scientific: 'Lyrurus tetrix' },
+  81: { common: 'Ptarmigan', scientific: 'Lagopus' },
+  82: { common: 'Ruffed Grouse', scientific: 'Bonasa umbellus' },
+  83: { common: 'Prairie Chicken', scientific: 'Tympanuchus cupido' },
+  84: { common: 'Indian Peafowl', scientific: 'Pavo cristatus' },
+  85: { common: 'Northern Bobwhite', scientific: 'Colinus virginianus' },
+  86: { common: 'Grey Partridge', scientific: 'Perdix perdix' },
+  87: { common: 'African Grey Parrot', scientific: 'Psittacus erithacus' },
+  88: { common: 'Scarlet Macaw', scientific: 'Ara macao' },
+  89: { common: 'Sulphur-crested Cockatoo', scientific: 'Cacatua galerita' },
+  90: { common: 'Rainbow Lorikeet', scientific: 'Trichoglossus moluccanus' },
+  91: { common: 'Coucal', scientific: 'Centropus' },
+  92: { common: 'Bee-eater', scientific: 'Merops' },
+  93: { common: 'Great Hornbill', scientific: 'Buceros bicornis' },
+  94: { common: 'Ruby-throated Hummingbird', scientific: 'Archilochus colubris' },
+  95: { common: 'Rufous-tailed Jacamar', scientific: 'Galbula ruficauda' },
+  96: { common: 'Toco Toucan', scientific: 'Ramphastos toco' },
+  97: { common: 'Mallard', scientific: 'Anas platyrhynchos' },
+  98: { common: 'Red-breasted Merganser', scientific: 'Mergus serrator' },
+  99: { common: 'Canada Goose', scientific: 'Branta canadensis' },
+  100: { common: 'Black Swan', scientific: 'Cygnus atratus' },
+  127: { common: 'White Stork', scientific: 'Ciconia ciconia' },
+  128: { common: 'Black Stork', scientific: 'Ciconia nigra' },
+  129: { common: 'Roseate Spoonbill', scientific: 'Platalea ajaja' },
+  130: { common: 'American Flamingo', scientific: 'Phoenicopterus ruber' },
+  131: { common: 'Little Blue Heron', scientific: 'Egretta caerulea' },
+  132: { common: 'Great Egret', scientific: 'Ardea alba' },
+  133: { common: 'American Bittern', scientific: 'Botaurus lentiginosus' },
+  134: { common: 'Sandhill Crane', scientific: 'Antigone canadensis' },
+  135: { common: 'Limpkin', scientific: 'Aramus guarauna' },
+  136: { common: 'Common Gallinule', scientific: 'Gallinula galeata' },
+  137: { common: 'American Coot', scientific: 'Fulica americana' },
+  138: { common: 'Great Bustard', scientific: 'Otis tarda' },
+  139: { common: 'Ruddy Turnstone', scientific: 'Arenaria interpres' },
+  140: { common: 'Dunlin', scientific: 'Calidris alpina' },
+  141: { common: 'Common Redshank', scientific: 'Tringa totanus' },
+  142: { common: 'Dowitcher', scientific: 'Limnodromus' },
+  143: { common: 'American Oystercatcher', scientific: 'Haematopus palliatus' },
+  144: { common: 'Brown Pelican', scientific: 'Pelecanus occidentalis' },
+  145: { common: 'King Penguin', scientific: 'Aptenodytes patagonicus' },
+  146: { common: 'Laysan Albatross', scientific: 'Phoebastria immutabilis' },
+};
+
+const GENERIC_BIRD: Species = { common: 'Bird', scientific: 'Aves' };
+
+export class VisualDetector extends EventEmitter {
+  private options: VisualDetectorOptions;
+  private ort: Ort | null = null;
+  private detector: InferenceSession | null = null;
+  private classifier: InferenceSession | null = null;
+  private detectorFp16 = false;
+  private classifierFp16 = false;
+  // Custom classifier labels - every class is a bird
+  private labels: Species[] | null = null;
+  private busy = false;
+  private lastRun = 0;
+  private paused = false;
+  private trackingProcess: ChildProcess | null = null;
+  private trackingBusy = false;
+
+  constructor(options: VisualDetectorOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Load the ONNX models. Returns false if the runtime or models are missing.
+   */
+  async load(): Promise<boolean> {
+    try {
+      this.ort = await import('onnxruntime-node');
+    } catch {
+      console.warn('[Visual] onnxruntime-node not installed - visual detection disabled');
+      console.warn('[Visual] Install: npm install onnxruntime-node');
+      return false;
+    }
+
+    if (!existsSync(this.options.detectorModelPath)) {
+      console.warn(`[Visual] Detector model not found: ${this.options.detectorModelPath}`);
+      return false;
+    }
+
+    const sessionOptions: InferenceSession.SessionOptions = {
+      executionProviders: ['cpu'],
+      intraOpNumThreads: this.options.threads,
+      graphOptimizationLevel: 'all',
+    };
+
+    this.detector = await this.ort.InferenceSession.create(this.options.detectorModelPath, sessionOptions);
+    this.detectorFp16 = this.expectsFloat16(this.detector);
+
+    if (existsSync(this.options.classifierModelPath)) {
+      this.classifier = await this.ort.InferenceSession.create(this.options.classifierModelPath, sessionOptions);
+      this.classifierFp16 = this.expectsFloat16(this.classifier);
+      this.labels = this.loadLabels();
+    } else {
+      console.warn('[Visual] Classifier model not found - birds will be reported without species');
+    }
+
+    console.log(`[Visual] Models loaded (classifier: ${this.classifier ? 'yes' : 'no'}, threads: ${this.options.threads})`);
+    return true;
+  }
+
+  isLoaded(): boolean {
+    return this.detector !== null;
+  }
+
+  /**
+   * Pause/resume analysis (e.g. from a schedule) without unloading the models
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    console.log(`[Visual] Analysis ${paused ? 'paused' : 'resumed'}`);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getThresholds(): Pick<VisualDetectorOptions, 'minConfidence' | 'detectionThreshold'> {
+    return { minConfidence: this.options.minConfidence, detectionThreshold: this.options.detectionThreshold };
+  }
+
+  /**
+   * Change thresholds without reloading the models (e.g. from a day/night profile)
+   */
+  setThresholds(updates: Partial<Pick<VisualDetectorOptions, 'minConfidence' | 'detectionThreshold'>>): void {
+    if (updates.minConfidence !== undefined) {
+      this.options.minConfidence = Math.max(0, Math.min(1, updates.minConfidence));
+    }
+    if (updates.detectionThreshold !== undefined) {
+      this.options.detectionThreshold = Math.max(0, Math.min(1, updates.detectionThreshold));
+    }
+    console.log(`[Visual] Thresholds: confidence ${this.options.minConfidence}, detection ${this.options.detectionThreshold}`);
+  }
+
+  /**
+   * Analyze a motion-triggered snapshot and emit a 'detection' for each bird
+   *
+   * Frames arriving while a previous frame is still being analyzed (or
+   * within minIntervalMs of it) are skipped.
+   */
+  async analyzeSnapshot(snapshot: SnapshotInfo): Promise<BirdDetection[]> {
+    if (!this.detector || this.paused || this.busy || Date.now() - this.lastRun < this.options.minIntervalMs) {
+      return [];
+    }
+
+    this.busy = true;
+    this.lastRun = Date.now();
+    const started = Date.now();
+
+    try {
+      const frame = await decodeFrame(snapshot.path);
+      const detections = await this.analyzeFrame(frame, snapshot);
+
+      if (config.debug) {
+        console.log(`[Visual] Analyzed ${snapshot.id} in ${Date.now() - started}ms: ${detections.length} bird(s)`);
+      }
+
+      for (const detection of detections) {
+        console.log(`[Visual] 🐦 ${detection.species} (${(detection.confidence * 100).toFixed(1)}%)`);
+        this.emit('detection', detection);
+      }
+      return detections;
+    } catch (err) {
+      console.error('[Visual] Analysis failed:', (err as Error).message);
+      return [];
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Decode the live stream at `fps` and report the bird boxes in each frame
+   * (no classification), e.g. to keep the auto-tracker fed between motion
+   * snapshots. Frames arriving while one is being analyzed are dropped.
+   */
+  startTracking(rtspUrl: string, fps: number, onBoxes: (boxes: DetectionBox[]) => void): void {
+    if (!this.detector || this.trackingProcess || fps <= 0) return;
+
+    const frameSize = TRACKING_FRAME_WIDTH * TRACKING_FRAME_HEIGHT * 3;
+    const proc = spawn(config.ffmpegPath, [
+      '-rtsp_transport', 'tcp',
+      '-i', rtspUrl,
+      '-an',
+      '-vf', `fps=${fps},scale=${TRACKING_FRAME_WIDTH}:${TRACKING_FRAME_HEIGHT}`,
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgb24',
+      'pipe:1',
+    ]);
+    this.trackingProcess = proc;
+    console.log(`[Visual] Tracking on the live stream at ${fps} fps`);
+
+    let pending = Buffer.alloc(0);
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      if (pending.length < frameSize) return;
+
+      // Only the newest complete frame matters
+      const frames = Math.floor(pending.length / frameSize);
+      const data = Buffer.from(pending.subarray((frames - 1) * frameSize, frames * frameSize));
+      pending = pending.subarray(frames * frameSize);
+      if (this.trackingBusy || this.busy || this.paused) return;
+
+      this.trackingBusy = true;
+      this.detect({ data, width: TRACKING_FRAME_WIDTH, height: TRACKING_FRAME_HEIGHT })
+        .then(boxes => onBoxes(boxes.map(box => box.bbox)))
+        .catch(err => console.warn('[Visual] Tracking frame failed:', (err as Error).message))
+        .finally(() => {
+          this.trackingBusy = false;
+        });
+    });
+
+    proc.on('close', () => {
+      if (this.trackingProcess === proc) {
+        this.trackingProcess = null;
+      }
+    });
+    proc.on('error', (err) => {
+      console.warn('[Visual] Tracking stream failed:', err.message);
+    });
+  }
+
+  stopTracking(): void {
+    if (!this.trackingProcess) return;
+    this.trackingProcess.kill('SIGTERM');
+    this.trackingProcess = null;
+    console.log('[Visual] Tracking stopped');
+  }
+
+  private async analyzeFrame(frame: Frame, snapshot: SnapshotInfo): Promise<BirdDetection[]> {
+    const boxes = await this.detect(frame);
+    const results: BirdDetection[] = [];
+
+    for (const box of boxes) {
+      const { species, confidence: speciesConfidence } = await this.classify(frame, box.bbox);
+      const confidence = this.classifier ? box.confidence * speciesConfidence : box.confidence;
+      if (confidence < getSpeciesPriors().getMinConfidence(species.common, this.options.minConfidence)) continue;
+
+      results.push({
+        species: species.common,
+        scientificName: species.scientific,
+        confidence,
+        startTime: 0,
+        endTime: 0,
+        timestamp: snapshot.timestamp,
+        source: 'visual',
+        bbox: box.bbox,
+        snapshotId: snapshot.id,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Run YOLO and return bird boxes (normalized coordinates)
+   */
+  private async detect(frame: Frame): Promise<Array<{ bbox: DetectionBox; confidence: number }>> {
+    const input = toTensorData(frame, { x: 0, y: 0, w: frame.width, h: frame.height }, DETECTOR_INPUT_SIZE, 'contain');
+    const output = await this.run(this.detector!, input, DETECTOR_INPUT_SIZE, this.detectorFp16);
+
+    const boxes = parseYoloOutput(output.data, output.dims, frame.width, frame.height, this.options.detectionThreshold);
+    return nms(boxes, NMS_THRESHOLD);
+  }
+
+  /**
+   * Classify a detected bird's crop
+   */
+  private async classify(frame: Frame, bbox: DetectionBox): Promise<{ species: Species; confidence: number }> {
+    if (!this.classifier) {
+      return { species: GENERIC_BIRD, confidence: 1 };
+    }
+
+    // Pad the crop a little so the whole bird is in view
+    const pad = Math.max(10, Math.min(bbox.w, bbox.h) * frame.width * 0.1);
+    const x = Math.max(0, bbox.x * frame.width - pad);
+    const y = Math.max(0, bbox.y * frame.height - pad);
+    const region = {
+      x,
+      y,
+      w: Math.min(frame.width - x, bbox.w * frame.width + 2 * pad),
+      h: Math.min(frame.height - y, bbox.h * frame.height + 2 * pad),
+    };
+
+    const input = toTensorData(frame, region, CLASSIFIER_INPUT_SIZE, 'cover', MEAN, STD);
+    const output = await this.run(this.classifier, input, CLASSIFIER_INPUT_SIZE, this.classifierFp16);
+    const probs = softmax(output.data);
+
+    // Only bird classes count - pick the most likely one
+    let bestId = -1;
+    let bestProb = 0;
+    for (let i = 0; i < probs.length; i++) {
+      if (!this.labels && !IMAGENET_BIRD_CLASSES[i]) continue;
+      if (probs[i] > bestProb) {
+        bestProb = probs[i];
+        bestId = i;
+      }
+    }
+
+    if (bestId < 0) {
+      return { species: GENERIC_BIRD, confidence: 0 };
+    }
+
+    const species = this.labels ? this.labels[bestId] : IMAGENET_BIRD_CLASSES[bestId];
+    return { species: species || GENERIC_BIRD, confidence: bestProb };
+  }
+
+  private async run(session: InferenceSession, input: Float32Array, size: number, fp16: boolean): Promise<{ data: Float32Array; dims: number[] }> {
+    const ort = this.ort!;
+    const tensor = fp16
+      ? new ort.Tensor('float16', float32ToFloat16(input), [1, 3, size, size])
+      : new ort.Tensor('float32', input, [1, 3, size, size]);
+
+    const results = await session.run({ [session.inputNames[0]]: tensor });
+    const output: Tensor = results[session.outputNames[0]];
+    const data = output.type === 'float16'
+      ? float16ToFloat32(output.data as Uint16Array)
+      : output.data as Float32Array;
+
+    return { data, dims: [...output.dims] };
+  }
+
+  private expectsFloat16(session: InferenceSession): boolean {
+    const input = session.inputMetadata[0];
+    return input?.isTensor === true && input.type === 'float16';
+  }
+
+  private loadLabels(): Species[] | null {
+    const path = this.options.labelsPath;
+    if (!path || !existsSync(path)) return null;
+
+    try {
+      const data = JSON.parse(readFileSync(path, 'utf-8'));
+      if (!Array.isArray(data)) return null;
+
+      // Accept ["Blue Jay", ...] or [{ common, scientific }, ...]
+      return data.map((label: string | Species) =>
+        typeof label === 'string' ? { common: label, scientific: label } : label);
+    } catch (err) {
+      console.warn('[Visual] Failed to load labels:', (err as Error).message);
+      return null;
+    }
+  }
+}
+
+// ==================== Frame decoding ====================
+
+/**
+ * Decode an image into packed RGB24, downscaled to at most MAX_DECODE_WIDTH
+ */
+async function decodeFrame(imagePath: string): Promise<Frame> {
+  const { width: srcWidth, height: srcHeight } = await probeImage(imagePath);
+  const scale = Math.min(1, MAX_DECODE_WIDTH / srcWidth);
+  const width = Math.round(srcWidth * scale / 2) * 2;
+  const height = Math.round(srcHeight * scale / 2) * 2;
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(config.ffmpegPath, [
+      '-i', imagePath,
+      '-vf', `scale=${width}:${height}`,
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgb24',
+      '-frames:v', '1',
+      'pipe:1',
+    ]);
+
+    const chunks: Buffer[] = [];
+    proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const timeout = setTimeout(() => proc.kill('SIGTERM'), 10000);
+
+    proc.on('close', (code) => {
+      clearTimeout(timeout);
+      const data = Buffer.concat(chunks);
+      if (code !== 0 || data.length < width * height * 3) {
+        reject(new Error(`Frame decode failed (code ${code})`));
+        return;
+      }
+      resolve({ data, width, height });
+    });
+
+    proc.on('error', (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+  });
+}
+
+function probeImage(imagePath: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(imagePath, (err, metadata) => {
+      const stream = metadata?.streams.find(s => s.width && s.height);
+      if (err || !stream) {
+        reject(err || new Error('No image stream'));
+        return;
+      }
+      resolve({ width: stream.width!, height: stream.height! });
+    });
+  });
+}
+
+/**
+ * Resample a region of the frame into a normalized CHW tensor
+ *
+ * 'contain' letterboxes the region with gray (YOLO), 'cover' center-crops
+ * it to fill the square (classifier). Uses bilinear sampling.
+ */
+function toTensorData(
+  frame: Frame,
+  region: Region,
+  size: number,
+  fit: 'contain' | 'cover',
+  mean: number[] = [0, 0, 0],
+  std: number[] = [1, 1, 1],
+): Float32Array {
+  const out = new Float32Array(3 * size * size);
+  const channelSize = size * size;
+
+  const scale = fit === 'contain'
+    ? Math.min(size / region.w, size / region.h)
+    : Math.max(size / region.w, size / region.h);
+  const offsetX = (size - region.w * scale) / 2;
+  const offsetY = (size - region.h * scale) / 2;
+
+  for (let oy = 0; oy < size; oy++) {
+    for (let ox = 0; ox < size; ox++) {
+      const i = oy * size + ox;
+      const rx = (ox + 0.5 - offsetX) / scale - 0.5;
+      const ry = (oy + 0.5 - offsetY) / scale - 0.5;
+
+      let r = 0.5, g = 0.5, b = 0.5;  // Letterbox gray
+      if (rx >= -0.5 && ry >= -0.5 && rx <= region.w - 0.5 && ry <= region.h - 0.5) {
+        [r, g, b] = sampleBilinear(frame, region.x + rx, region.y + ry);
+      }
+
+      out[i] = (r - mean[0]) / std[0];
+      out[channelSize + i] = (g - mean[1]) / std[1];
+      out[2 * channelSize + i] = (b - mean[2]) / std[2];
+    }
+  }
+
+  return out;
+}
+
+function sampleBilinear(frame: Frame, x: number, y: number): [number, number, number] {
+  const cx = Math.min(Math.max(x, 0), frame.width - 1);
+  const cy = Math.min(Math.max(y, 0), frame.height - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, frame.width - 1);
+  const y1 = Math.min(y0 + 1, frame.height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+
+  const rgb: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const p00 = frame.data[(y0 * frame.width + x0) * 3 + c];
+    const p10 = frame.data[(y0 * frame.width + x1) * 3 + c];
+    const p01 = frame.data[(y1 * frame.width + x0) * 3 + c];
+    const p11 = frame.data[(y1 * frame.width + x1) * 3 + c];
+    const top = p00 + (p10 - p00) * fx;
+    const bottom = p01 + (p11 - p01) * fx;
+    rgb[c] = (top + (bottom - top) * fy) / 255;
+  }
+  return rgb;
+}
+
+// ==================== Model output ====================
+
+/**
+ * Parse YOLO output into bird boxes
+ * YOLOv5: [1, 25200, 85] - 85 = 4 bbox + 1 objectness + 80 classes
+ * YOLOv8: [1, 84, 8400] - 84 = 4 bbox + 80 classes (no objectness)
+ */
+function parseYoloOutput(
+  data: Float32Array,
+  dims: number[],
+  originalWidth: number,
+  originalHeight: number,
+  threshold: number,
+): Array<{ bbox: DetectionBox; confidence: number }> {
+  const results: Array<{ bbox: DetectionBox; confidence: number }> = [];
+  const numClasses = 80;
+
+  const scale = Math.min(DETECTOR_INPUT_SIZE / originalWidth, DETECTOR_INPUT_SIZE / originalHeight);
+  const offsetX = (DETECTOR_INPUT_SIZE - originalWidth * scale) / 2;
+  const offsetY = (DETECTOR_INPUT_SIZE - originalHeight * scale) / 2;
+
+  const toBox = (cx: number, cy: number, w: number, h: number): DetectionBox => {
+    const x1 = ((cx - w / 2) - offsetX) / (originalWidth * scale);
+    const y1 = ((cy - h / 2) - offsetY) / (originalHeight * scale);
+    const bw = w / (originalWidth * scale);
+    const bh = h / (originalHeight * scale);
+    return {
+      x: Math.max(0, Math.min(1, x1)),
+      y: Math.max(0, Math.min(1, y1)),
+      w: Math.max(0, Math.min(1 - x1, bw)),
+      h: Math.max(0, Math.min(1 - y1, bh)),
+    };
+  };
+
+  const isYolov5 = dims[2] === 85 || dims[1] > 1000;
+
+  if (isYolov5) {
+    const numBoxes = dims[1];
+    const stride = dims[2];
+
+    for (let i = 0; i < numBoxes; i++) {
+      const offset = i * stride;
+      const objectness = data[offset + 4];
+      if (objectness < threshold) continue;
+
+      const birdScore = data[offset + 5 + BIRD_CLASS_ID];
+      if (objectness * birdScore < threshold) continue;
+      if (!isBestClass(c => data[offset + 5 + c], numClasses, birdScore)) continue;
+
+      results.push({
+        bbox: toBox(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]),
+        confidence: objectness * birdScore,
+      });
+    }
+  } else {
+    // [1, 84, 8400] (feature-major) or [1, 8400, 84]
+    const featureMajor = dims[1] === 84;
+    const numDetections = featureMajor ? dims[2] : dims[1];
+    const features = featureMajor ? dims[1] : dims[2];
+    const value = (i: number, f: number) => featureMajor ? data[f * numDetections + i] : data[i * features + f];
+
+    for (let i = 0; i < numDetections; i++) {
+      const birdScore = value(i, 4 + BIRD_CLASS_ID);
+      if (birdScore < threshold) continue;
+      if (!isBestClass(c => value(i, 4 + c), numClasses, birdScore)) continue;
+
+      results.push({
+        bbox: toBox(value(i, 0), value(i, 1), value(i, 2), value(i, 3)),
+        confidence: birdScore,
+      });
+    }
+  }
+
+  return results;
+}
+
+function isBestClass(score: (c: number) => number, numClasses: number, birdScore: number): boolean {
+  for (let c = 0; c < numClasses; c++) {
+    if (c !== BIRD_CLASS_ID && score(c) > birdScore) return false;
+  }
+  return true;
+}
+
+/**
+ * Non-maximum suppression to remove overlapping boxes
+ */
+function nms<T extends { bbox: DetectionBox; confidence: number }>(detections: T[], threshold: number): T[] {
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence);
+  const selected: T[] = [];
+
+  while (sorted.length > 0) {
+    const best = sorted.shift()!;
+    selected.push(best);
+
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      if (iou(best.bbox, sorted[i].bbox) > threshold) {
+        sorted.splice(i, 1);
+      }
+    }
+  }
+
+  return selected;
+}
+
+function iou(a: DetectionBox, b: DetectionBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.w, b.x + b.w);
+  const y2 = Math.min(a.y + a.h, b.y + b.h);
+
+  if (x2 <= x1 || y2 <= y1) return 0;
+
+  const intersection = (x2 - x1) * (y2 - y1);
+  return intersection / (a.w * a.h + b.w * b.h - intersection);
+}
+
+function softmax(logits: Float32Array): Float32Array {
+  let max = -Infinity;
+  for (const v of logits) max = Math.max(max, v);
+
+  const out = new Float32Array(logits.length);
+  let sum = 0;
+  for (let i = 0; i < logits.length; i++) {
+    out[i] = Math.exp(logits[i] - max);
+    sum += out[i];
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= sum;
+  return out;
+}
+
+// ==================== Float16 helpers ====================
+
+/**
+ * IEEE 754 half-precision decoding
+ */
+function float16ToFloat32(float16: Uint16Array): Float32Array {
+  const float32 = new Float32Array(float16.length);
+  for (let i = 0; i < float16.length; i++) {
+    const h = float16[i];
+    const sign = (h >> 15) & 0x1 ? -1 : 1;
+    const exponent = (h >> 10) & 0x1f;
+    const mantissa = h & 0x3ff;
+
+    if (exponent === 0) {
+      float32[i] = sign * Math.pow(2, -14) * (mantissa / 1024);
+    } else if (exponent === 31) {
+      float32[i] = mantissa === 0 ? sign * Infinity : NaN;
+    } else {
+      float32[i] = sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+    }
+  }
+  return float32;
+}
+
+/**
+ * IEEE 754 half-precision encoding
+ */
+function float32ToFloat16(float32: Float32Array): Uint16Array {
+  const float16 = new Uint16Array(float32.length);
+  const f32 = new Float32Array(1);
+  const i32 = new Int32Array(f32.buffer);
+
+  for (let i = 0; i < float32.length; i++) {
+    f32[0] = float32[i];
+    const x = i32[0];
+
+    let bits = (x >> 16) & 0x8000;
+    const e = (x >> 23) & 0xff;
+    const m = (x >> 12) & 0x07ff;
+
+    if (e >= 143) {
+      bits |= 0x7c00;
+    } else if (e >= 113) {
+      bits |= ((e - 112) << 10) | (m >> 1);
+      bits += m & 1;
+    } else if (e >= 103) {
+      const shifted = m | 0x0800;
+      bits |= (shifted >> (114 - e)) + ((shifted >> (113 - e)) & 1);
+    }
+
+    float16[i] = bits;
+  }
+  return float16;
+}
+
+// Singleton instance
+let visualDetector: VisualDetector | null = null;
+
+export function getVisualDetector(options?: Partial<VisualDetectorOptions>): VisualDetector {
+  if (!visualDetector) {
+    visualDetector = new VisualDetector({
+      detectorModelPath: config.visualDetection.detectorModel,
+      classifierModelPath: config.visualDetection.classifierModel,
+      labelsPath: config.visualDetection.labels || undefined,
+      minConfidence: config.visualDetection.minConfidence,
+      detectionThreshold: config.visualDetection.detectionThreshold,
+      minIntervalMs: config.visualDetection.minIntervalMs,
+      threads: config.visualDetection.threads,
+      ...options,
+    });
+  }
+  return visualDetector;
+}
@@ -7,6 +7,7 @@
 
 import https from 'https';
 import { config } from './config.js';
+import { isValidTimezone, zonedTimeToDate } from './timezone.js';
 
 export interface WeatherData {
   timestamp: string;
@@ -76,6 +77,24 @@ let weatherCache: {
 
 const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
 
+// Open-Meteo reports sunrise/sunset in the location's local time
+let locationTimezone: string | null = null;
+
+export interface SunTimes {
+  date: string;        // Local date at the location (YYYY-MM-DD)
+  sunrise: Date;
+  sunset: Date;
+}
+
+export interface Twilight {
+  dawn: Date | null;             // Civil dawn (sun 6° below the horizon, rising)
+  dusk: Date | null;             // Civil dusk
+  polar: 'day' | 'night' | null; // Sun never crosses -6° that day
+}
+
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+const J2000 = 2451545;
+
 /**
  * Fetch current weather from Open-Meteo API
  */
@@ -180,6 +199,7 @@ export async function getForecast(days: number = 7): Promise<DailyForecast[]> {
         try {
           const json = JSON.parse(data);
           const daily = json.daily;
+          locationTimezone = typeof json.timezone === 'string' && isValidTimezone(json.timezone) ? json.timezone : null;
 
           const forecast: DailyForecast[] = daily.time.map((date: string, i: number) => ({
             date,
@@ -207,6 +227,57 @@ export async function getForecast(days: number = 7): Promise<DailyForecast[]> {
   });
 }
 
+/**
+ * Sunrise and sunset instants for the coming days (empty without a location)
+ */
+export async function getSunTimes(days: number = 7): Promise<SunTimes[]> {
+  const forecast = await getForecast(days);
+  return forecast.map(day => ({
+    date: day.date,
+    sunrise: parseLocationTime(day.sunrise),
+    sunset: parseLocationTime(day.sunset),
+  }));
+}
+
+function parseLocationTime(value: string): Date {
+  const [date, time = '00:00'] = value.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedTimeToDate(year, month, day, hour, minute, locationTimezone || config.scheduler.timezone);
+}
+
+/**
+ * Civil dawn and dusk of the solar day closest to `date`, computed locally
+ * (sunrise equation) so it works offline. Accurate to a few minutes.
+ */
+export function getCivilTwilight(date: Date, latitude: number, longitude: number): Twilight {
+  const rad = Math.PI / 180;
+  const julian = date.getTime() / 86400000 + 2440587.5;
+
+  // Mean solar noon of the nearest solar day (longitude east positive)
+  const cycle = Math.round(julian - J2000 - 0.0008 + longitude / 360);
+  const meanNoon = cycle + 0.0008 - longitude / 360;
+
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center = 1.9148 * Math.sin(anomaly * rad) + 0.02 * Math.sin(2 * anomaly * rad) + 0.0003 * Math.sin(3 * anomaly * rad);
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanNoon + 0.0053 * Math.sin(anomaly * rad) - 0.0069 * Math.sin(2 * eclipticLongitude * rad);
+  const declination = Math.asin(Math.sin(eclipticLongitude * rad) * Math.sin(23.4397 * rad));
+
+  const cosHourAngle = (Math.sin(CIVIL_TWILIGHT_ALTITUDE * rad) - Math.sin(latitude * rad) * Math.sin(declination))
+    / (Math.cos(latitude * rad) * Math.cos(declination));
+  if (cosHourAngle > 1) return { dawn: null, dusk: null, polar: 'night' };
+  if (cosHourAngle < -1) return { dawn: null, dusk: null, polar: 'day' };
+
+  const hourAngle = Math.acos(cosHourAngle) / rad;
+  const toDate = (julianDate: number) => new Date((julianDate - 2440587.5) * 86400000);
+  return {
+    dawn: toDate(transit - hourAngle / 360),
+    dusk: toDate(transit + hourAngle / 360),
+    polar: null,
+  };
+}
+
 /**
  * Get bird activity conditions rating
  * Returns a score from 0-100 based on weather conditions
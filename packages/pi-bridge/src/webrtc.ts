@@ -11,6 +11,8 @@ import { existsSync, mkdirSync, writeFileSync, chmodSync, createWriteStream, unl
 import { join } from 'path';
 import { homedir, platform, arch } from 'os';
 import { pipeline } from 'stream/promises';
+import { config as appConfig } from './config.js';
+import { getPrivacyFilter } from './privacy.js';
 
 const GO2RTC_VERSION = '1.9.4';
 const GO2RTC_DIR = join(homedir(), '.birdcam', 'go2rtc');
@@ -152,7 +154,7 @@ api:
   listen: ":${GO2RTC_API_PORT}"
 
 streams:
-  birdcam: "${rtspUrl}"
+${generateStreamSources(rtspUrl)}
 
 webrtc:
   candidates:
@@ -162,6 +164,34 @@ webrtc:
   return yaml;
 }
 
+/**
+ * Stream sources for the birdcam stream. With privacy zones the camera's
+ * video can't be passed through: it is re-encoded with the mask burned in,
+ * and only the audio track comes straight from the camera.
+ */
+function generateStreamSources(rtspUrl: string): string {
+  const privacyFilter = getPrivacyFilter();
+  if (!privacyFilter) {
+    return `  birdcam: "${rtspUrl}"`;
+  }
+
+  const masked = [
+    `exec:${appConfig.ffmpegPath}`,
+    '-hide_banner', '-loglevel', 'error',
+    '-rtsp_transport', 'tcp',
+    '-i', rtspUrl,
+    '-vf', privacyFilter,
+    '-c:v', 'libx264', '-preset', 'ultrafast', '-tune', 'zerolatency', '-g', '50',
+    '-an',
+    '-rtsp_transport', 'tcp',
+    '-f', 'rtsp', '{output}',
+  ].join(' ');
+
+  return `  birdcam:
+    - "${masked}"
+    - "${rtspUrl}#media=audio"`;
+}
+
 /**
  * Start go2rtc process
  */
@@ -252,6 +282,17 @@ export function stopGo2rtc(): void {
   }
 }
 
+/**
+ * Restart go2rtc with a freshly generated config (e.g. after privacy zones changed)
+ */
+export async function restartGo2rtc(): Promise<boolean> {
+  if (!currentRtspUrl) return false;
+
+  stopGo2rtc();
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  return startGo2rtc(currentRtspUrl);
+}
+
 /**
  * Check if go2rtc is running
  */
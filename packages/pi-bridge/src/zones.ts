@@ -0,0 +1,174 @@
+/**
+ * Zones Module
+ *
+ * Polygon zones drawn in the web dashboard's zone editor (stored under
+ * `cameras/{id}/zones`). Detect zones limit where birds are looked for,
+ * ignore zones mask out swaying branches or a busy road, and privacy zones
+ * are never treated as activity (and are blacked out, see privacy.ts).
+ *
+ * Zones drive the motion detector's include/exclude regions, filter visual
+ * detections and tag sightings and clips with the zone they happened in.
+ * They are cached in ~/.birdcam so they still apply while offline.
+ */
+
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { getFirestore } from './firebase.js';
+import { pointInPolygon, type MotionPoint, type MotionRegion } from './motion.js';
+
+const SETTINGS_DIR = join(homedir(), '.birdcam');
+const ZONES_FILE = join(SETTINGS_DIR, 'zones.json');
+
+export type ZoneType = 'detect' | 'privacy' | 'ignore';
+
+export interface Zone {
+  id: string;
+  name: string;
+  type: ZoneType;
+  polygon: MotionPoint[];   // Normalized 0-1, top-left origin
+  sensitivity?: number;     // 0-100, detect zones only
+}
+
+export interface ZoneLocation {
+  zoneId?: string;          // Detect zone containing the point
+  ignored: boolean;         // In an ignore/privacy zone, or outside every detect zone
+}
+
+const ZONE_TYPES: ZoneType[] = ['detect', 'privacy', 'ignore'];
+
+export class ZoneManager extends EventEmitter {
+  private zones: Zone[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    super();
+    this.load();
+  }
+
+  /**
+   * Follow the camera's zones subcollection
+   */
+  start(cameraId: string): void {
+    this.stop();
+
+    this.unsubscribe = getFirestore().collection('cameras').doc(cameraId).collection('zones').onSnapshot(
+      (snapshot) => {
+        this.setZones(snapshot.docs.map(d => ({ ...d.data(), id: d.id })));
+      },
+      (err) => {
+        console.warn('[Zones] Zone subscription failed:', err.message);
+      }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  setZones(zones: unknown[]): Zone[] {
+    this.zones = cleanZones(zones);
+    this.save();
+    console.log(`[Zones] Loaded ${this.zones.length} zone(s)`);
+    this.emit('updated', this.getZones());
+    return this.getZones();
+  }
+
+  getZones(): Zone[] {
+    return this.zones.map(z => ({ ...z, polygon: [...z.polygon] }));
+  }
+
+  getZone(id: string): Zone | undefined {
+    return this.zones.find(z => z.id === id);
+  }
+
+  /**
+   * Which zone a point (e.g. a detection's bbox center) falls in
+   */
+  locate(point: MotionPoint): ZoneLocation {
+    const contains = (z: Zone) => pointInPolygon(point.x, point.y, z.polygon);
+
+    if (this.zones.some(z => z.type !== 'detect' && contains(z))) {
+      return { ignored: true };
+    }
+
+    const detectZones = this.zones.filter(z => z.type === 'detect');
+    if (detectZones.length === 0) {
+      return { ignored: false };
+    }
+
+    const zone = detectZones.find(contains);
+    return zone ? { zoneId: zone.id, ignored: false } : { ignored: true };
+  }
+
+  /**
+   * Zones as motion detector regions: detect zones are included,
+   * ignore and privacy zones excluded
+   */
+  toMotionRegions(): MotionRegion[] {
+    return this.zones.map(z => ({
+      id: z.id,
+      name: z.name,
+      type: z.type === 'detect' ? 'include' : 'exclude',
+      polygon: z.polygon,
+      ...(z.type === 'detect' && z.sensitivity !== undefined ? { sensitivity: z.sensitivity } : {}),
+    }));
+  }
+
+  private load(): void {
+    try {
+      if (existsSync(ZONES_FILE)) {
+        this.zones = cleanZones(JSON.parse(readFileSync(ZONES_FILE, 'utf-8')));
+      }
+    } catch (err) {
+      console.warn('[Zones] Failed to load cached zones:', (err as Error).message);
+    }
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(SETTINGS_DIR, { recursive: true });
+      writeFileSync(ZONES_FILE, JSON.stringify(this.zones, null, 2));
+    } catch (err) {
+      console.warn('[Zones] Failed to cache zones:', (err as Error).message);
+    }
+  }
+}
+
+/**
+ * Keep only well-formed zones (Firestore documents carry extra fields)
+ */
+function cleanZones(zones: unknown): Zone[] {
+  if (!Array.isArray(zones)) return [];
+
+  const cleaned: Zone[] = [];
+  for (const raw of zones) {
+    const zone = raw as Partial<Zone>;
+    if (!zone || typeof zone.id !== 'string' || !ZONE_TYPES.includes(zone.type as ZoneType)) continue;
+    if (!Array.isArray(zone.polygon) || zone.polygon.length < 3) continue;
+
+    cleaned.push({
+      id: zone.id,
+      name: typeof zone.name === 'string' ? zone.name : zone.id,
+      type: zone.type as ZoneType,
+      polygon: zone.polygon.map(p => ({
+        x: Math.min(1, Math.max(0, Number(p.x) || 0)),
+        y: Math.min(1, Math.max(0, Number(p.y) || 0)),
+      })),
+      ...(typeof zone.sensitivity === 'number' ? { sensitivity: zone.sensitivity } : {}),
+    });
+  }
+  return cleaned;
+}
+
+// Singleton instance
+let zoneManager: ZoneManager | null = null;
+
+export function getZoneManager(): ZoneManager {
+  if (!zoneManager) {
+    zoneManager = new ZoneManager();
+  }
+  return zoneManager;
+}
@@ -27,6 +27,16 @@ else
   echo "  ✓ mobilenetv2.onnx already exists"
 fi
 
+# DINOv2-small - Re-ID embeddings for recognizing individual birds (~25MB)
+if [ ! -f "$MODELS_DIR/dinov2-small.onnx" ]; then
+  echo "  Downloading DINOv2-small re-ID model..."
+  curl -L -o "$MODELS_DIR/dinov2-small.onnx" \
+    "https://huggingface.co/Xenova/dinov2-small/resolve/main/onnx/model_quantized.onnx"
+  echo "  ✓ dinov2-small.onnx downloaded"
+else
+  echo "  ✓ dinov2-small.onnx already exists"
+fi
+
 # ImageNet labels
 if [ ! -f "$MODELS_DIR/imagenet_labels.txt" ]; then
   echo "  Downloading ImageNet labels..."
@@ -41,4 +51,5 @@ echo ""
 echo "Done! Models are in $MODELS_DIR"
 echo "  - yolov5n.onnx     (~4MB)  - Bird detection"
 echo "  - mobilenetv2.onnx  (~14MB) - Species classification"
+echo "  - dinov2-small.onnx (~25MB) - Individual re-identification"
 echo "  - imagenet_labels.txt       - Class labels"